@@ -16,6 +16,7 @@ import * as common from './common';
 
 import { wrapError } from '../utils';
 import { ILinkProvider } from '../lib/linkProviders/postgres/postgresLinkProvider';
+import { ILinkChangeContext } from '../lib/linkProviders/linkHistory';
 import { ICorporateLink } from './corporateLink';
 import { Organization, OrganizationMembershipState } from './organization';
 import { AppPurpose } from '../github';
@@ -147,9 +148,12 @@ export class Account {
     }
     const operations = this._operations;
     try {
-      let link: ICorporateLink = await operations.getLinkWithOverhead(this._id.toString(), options || {});
-      if (link) {
-        this._link = link;
+      const { links } = await operations.queryLinks({ thirdPartyId: this._id.toString() });
+      if (links.length > 1) {
+        throw new Error(`Multiple links were present for the same GitHub user ${this._id}`);
+      }
+      if (links.length === 1) {
+        this._link = links[0];
       }
     } catch (getLinkError) {
         // We do not assume that the link exists...
@@ -159,9 +163,9 @@ export class Account {
   }
 
   async getDetailsAndDirectLink(): Promise<Account> {
-    // Instead of using the 'overhead' method (essentially cached, but from all links),
-    // this uses the provider directly to ensure an accurate immediate, but by-individual
-    // call. Most useful for verified results or when terminating accounts.
+    // getDetailsAndLink queries the links of the provider; this one uses the
+    // by-individual lookup of the provider directly. Most useful for verified
+    // results or when terminating accounts.
     try {
       await this.getDetails();
     } catch (getDetailsError) {
@@ -224,7 +228,7 @@ export class Account {
     }
   }
 
-  async removeLink(): Promise<any> {
+  async removeLink(context?: ILinkChangeContext): Promise<any> {
     const operations = this._operations;
     const linkProvider = operations.linkProvider as ILinkProvider;
     if (!linkProvider) {
@@ -266,7 +270,7 @@ export class Account {
     const history = [];
     let finalError = null;
     try {
-      await deleteLink(linkProvider, link);
+      await deleteLink(linkProvider, link, context);
     } catch (linkDeleteError) {
       const message = linkDeleteError.statusCode === 404 ? `The link for ID ${id} no longer exists: ${linkDeleteError}` : `The link for ID ${id} could not be removed: ${linkDeleteError}`;
       history.push(message);
@@ -343,10 +347,6 @@ export class Account {
   }
 }
 
-function deleteLink(linkProvider: ILinkProvider, link: ICorporateLink): Promise<any> {
-  return new Promise((resolve, reject) => {
-    linkProvider.deleteLink(link, (error, result) => {
-      return error ? reject(error) : resolve(result);
-    });
-  });
+function deleteLink(linkProvider: ILinkProvider, link: ICorporateLink, context?: ILinkChangeContext): Promise<boolean> {
+  return linkProvider.deleteLink(link, context || {});
 }
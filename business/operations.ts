@@ -16,6 +16,7 @@ import { GraphManager } from './graphManager';
 import { Organization } from './organization';
 import GitHubApplication from './application';
 import { ILinkProvider } from '../lib/linkProviders/postgres/postgresLinkProvider';
+import { ILinkQuery, ILinkQueryPage, ILinkQueryPageOptions } from '../lib/linkProviders/linkQuery';
 import { GitHubTokenManager } from '../github/tokenManager';
 
 const request = require('requestretry');
@@ -588,7 +589,12 @@ export class Operations {
 
     // Link
     try {
-      history.push(... await account.removeLink());
+      history.push(... await account.removeLink({
+        purpose,
+        reason,
+        actorCorporateId: options.actorCorporateId,
+        actorUsername: options.actorUsername,
+      }));
     } catch (removeLinkError) {
       ++errors;
       if (insights) {
@@ -802,6 +808,8 @@ export class Operations {
   }
 
   getLinks(options?: any): Promise<ICorporateLink[]> {
+    // Reads every link, for views of the whole population such as people search
+    // and reports. A single identity is looked up with queryLinks instead.
     // Design change in the TypeScript version: this returns true link objects now,
     // but caches hydrated links behind the scenes
     options = options || {
@@ -840,21 +848,11 @@ export class Operations {
   }
 
   getLinkByThirdPartyId(thirdPartyId: string) : Promise<ICorporateLink> {
-    return new Promise((resolve, reject) => {
-      const linkProvider = this._linkProvider;
-      linkProvider.getByThirdPartyId(thirdPartyId, (error, link) => {
-        return error ? reject(error) : resolve(link as ICorporateLink);
-      })
-    });
+    return this._linkProvider.getByThirdPartyId(thirdPartyId);
   }
 
   getLinkByThirdPartyUsername(username: string): Promise<ICorporateLink> {
-    return new Promise((resolve, reject) => {
-      const linkProvider = this._linkProvider;
-      linkProvider.getByThirdPartyUsername(username, (error, link) => {
-        return error ? reject(error) : resolve(link as ICorporateLink);
-      });
-    });
+    return this._linkProvider.getByThirdPartyUsername(username);
   }
 
   getMailAddressFromCorporateUsername(corporateUsername: string): Promise<string> {
@@ -864,20 +862,12 @@ export class Operations {
     return GetAddressFromUpnAsync(this.mailAddressProvider, corporateUsername);
   }
 
-  async getLinkWithOverhead(id: string, options?): Promise<ICorporateLink> {
-    // TODO: remove function?
-    console.log('* * * * * * * * * * * * /sd/sd/sd/sd/sd/sd getLinkWithOverhead * * * * * * * * * * * * * * * * * * * * ');
-    // This literally retrieves the cache of all links. Which is silly, but quick and easy for now.
-    const links = await this.getLinks(options);
-    const reduced = links.filter(link => {
-      // was 'ghid' in the prior implementation before link interfaces
-      return link && link.thirdPartyId == id /* allow string comparisons */;
-    });
-    if (reduced.length > 1) {
-      throw new Error(`Multiple links were present for the same GitHub user ${id}`);
-    }
-    return reduced.length === 1 ? reduced[0] : null;
-    // TODO: return value went from false to null, is that new falsy ok?
+  queryLinks(query: ILinkQuery, options?: ILinkQueryPageOptions): Promise<ILinkQueryPage> {
+    return this._linkProvider.queryLinks(query, options);
+  }
+
+  countLinks(query?: ILinkQuery): Promise<number> {
+    return this._linkProvider.countLinks(query);
   }
 
   getTeamsWithMembers(options?: ICrossOrganizationTeamMembership): Promise<any> {
@@ -1183,24 +1173,18 @@ function crossOrganizationResults(operations: Operations, results, keyProperty)
   return map;
 }
 
-function getPromisedLinks(linkProvider: ILinkProvider) {
-  return new Promise((resolve, reject) => {
-    // TODO: consider looking at the options as to how to include/exclude properties etc.
-    // today (TypeScript update with PGSQL) the 'options' have zero impact on what is actually returned...
-    linkProvider.getAll((error, links) => {
-      if (error) {
-        return reject(error);
-      }
-      const jsonLinks = linkProvider.dehydrateLinks(links);
-      const dataObject = {
-        headers: {
-          'type': 'links',
-        },
-        data: jsonLinks,
-      };
-      return resolve(dataObject);
-    });
-  });
+async function getPromisedLinks(linkProvider: ILinkProvider) {
+  // TODO: consider looking at the options as to how to include/exclude properties etc.
+  // today (TypeScript update with PGSQL) the 'options' have zero impact on what is actually returned...
+  const links = await linkProvider.getAll();
+  const jsonLinks = linkProvider.dehydrateLinks(links);
+  const dataObject = {
+    headers: {
+      'type': 'links',
+    },
+    data: jsonLinks,
+  };
+  return dataObject;
 };
 
 function restartAfterDynamicConfigurationUpdate(minimumSeconds: number, maximumSeconds: number, appInitialized: Date, organizationSettingsProvider: OrganizationSettingProvider) {
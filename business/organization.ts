@@ -22,6 +22,8 @@ import { StripGitHubEntity } from "../lib/github/restApi";
 import { GitHubResponseType } from "../lib/github/endpointEntities";
 import { AppPurpose, GitHubAppAuthenticationType } from "../github";
 import { OrganizationSetting, SpecialTeam } from '../entities/organizationSettings/organizationSetting';
+import { GetOrganizationRepositoryCreatePolicy, RepositoryCreatePolicyPropertyName } from '../features/repositoryCreatePolicy';
+import { GetOrganizationRepositoryTemplateEntries, IRepositoryTemplate, OrganizationRepositoryTemplateEntry } from '../features/repositoryTemplates';
 
 export interface IAccountBasics {
   id: number;
@@ -248,6 +250,35 @@ export class Organization {
     return this._settings.hasFeature('preventLargeTeamPermissions') || false;
   }
 
+  get newRepositoryLockdownPermittedBots(): string[] {
+    // GitHub App slugs and bot logins that may create repositories without lockdown
+    let permittedBots = this._settings.properties ? this._settings.properties['newRepositoryLockdownPermittedBots'] : null;
+    if (typeof(permittedBots) === 'string') {
+      permittedBots = permittedBots.split(',');
+    }
+    return Array.isArray(permittedBots) ? permittedBots.map(bot => bot.trim()).filter(bot => bot) : [];
+  }
+
+  get permissionPolicies(): any {
+    // Declared rules as stored; see features/permissionPolicies for the format
+    return this._settings.properties ? this._settings.properties['permissionPolicies'] : undefined;
+  }
+
+  get repositoryCreatePolicy(): any {
+    // Declared policy as stored; see features/repositoryCreatePolicy for the format
+    return this._settings.properties ? this._settings.properties[RepositoryCreatePolicyPropertyName] : undefined;
+  }
+
+  get repositoryBaseline(): any {
+    // Declared baseline as stored; see features/repositoryBaseline for the format
+    return this._settings.properties ? this._settings.properties['repositoryBaseline'] : undefined;
+  }
+
+  get repositoryTemplates(): any[] {
+    // Template IDs or definitions as stored; see features/repositoryTemplates for the format
+    return this._settings.templates;
+  }
+
   get description(): string {
     return this._settings.portalDescription;
   }
@@ -257,9 +288,21 @@ export class Organization {
     // Multiple shared can be specified at the organization level to allow for rotation
     // NOTE: hook secrets are no longer moved over...
     let orgSpecificSecrets = orgSettings.properties['hookSecrets'] || [];
+    if (typeof(orgSpecificSecrets) === 'string') {
+      orgSpecificSecrets = orgSpecificSecrets.split(',');
+    }
     const systemwideConfig = this._operations.config;
-    let systemwideSecrets = systemwideConfig.github && systemwideConfig.github.webhooks && systemwideConfig.github.webhooks.sharedSecret ? systemwideConfig.github.webhooks.sharedSecret : null;
-    return _.concat([], orgSpecificSecrets, systemwideSecrets);
+    const webhooksConfig = systemwideConfig.github && systemwideConfig.github.webhooks ? systemwideConfig.github.webhooks : {};
+    let systemwideSecrets = webhooksConfig.sharedSecret ? webhooksConfig.sharedSecret : null;
+    // Additional system-wide secrets are comma-separated, to allow for rotation
+    let additionalSystemwideSecrets = webhooksConfig.additionalSharedSecrets ? (webhooksConfig.additionalSharedSecrets as string).split(',') : [];
+    return _.uniq(_.concat([], orgSpecificSecrets, systemwideSecrets, additionalSystemwideSecrets).map(secret => secret ? secret.trim() : secret).filter(secret => secret));
+  }
+
+  get webhookSignatureValidationRequired(): boolean {
+    const systemwideConfig = this._operations.config;
+    const skip = systemwideConfig.github && systemwideConfig.github.webhooks && systemwideConfig.github.webhooks.skipSignatureValidation === true;
+    return !skip;
   }
 
   get broadAccessTeams(): number[] {
@@ -426,6 +469,35 @@ export class Organization {
     }
   }
 
+  async createRepositoryFromTemplate(repositoryName: string, templateOwner: string, templateRepositoryName: string, options): Promise<ICreateRepositoryResult> {
+    const operations = this._operations;
+    const orgName = this.name;
+    const parameters = {
+      template_owner: templateOwner,
+      template_repo: templateRepositoryName,
+      owner: orgName,
+      name: repositoryName,
+      description: options.description,
+      private: options.private === true || options.private === 'true' || options.visibility === 'private',
+    };
+    try {
+      const details = await operations.github.post(this.authorize(AppPurpose.Operations), 'repos.createUsingTemplate', parameters);
+      const newRepository = this.repositoryFromEntity(details);
+      let response = details;
+      try {
+        response = StripGitHubEntity(GitHubResponseType.Repository, details, 'repos.createUsingTemplate');
+      } catch (parseError) { }
+      const result: ICreateRepositoryResult = {
+        repository: newRepository,
+        response,
+      };
+      return result;
+    } catch (error) {
+      const friendlyErrorMessage = `Could not create the repository ${orgName}/${repositoryName} from the template repository ${templateOwner}/${templateRepositoryName}`;
+      throw wrapError(error, friendlyErrorMessage);
+    }
+  }
+
   async getDetails(): Promise<IGitHubOrganizationResponse> {
     const operations = this._operations;
     const parameters = {
@@ -455,6 +527,7 @@ export class Organization {
         default: settings.properties['defaultGitIgnoreLanguage'] || operations.config.github.gitignore.default,
         languages: operations.config.github.gitignore.languages,
       },
+      policy: GetOrganizationRepositoryCreatePolicy(this),
       templates: this.repositoryCreateTemplates(options || {}),
       visibilities: getSupportedRepositoryTypesByPriority(this),
     };
@@ -821,12 +894,14 @@ export class Organization {
     const templateDefinitions = configuredTemplateDefinitions || {};
     const allTemplateNames = Object.getOwnPropertyNames(templateDefinitions);
     const fallbackTemplates = this._operations.getDefaultRepositoryTemplateNames() || allTemplateNames;
-    const ts = this._settings.templates && this._settings.templates.length > 0 ? this._settings.templates : fallbackTemplates;
+    const organizationTemplates = GetOrganizationRepositoryTemplateEntries(this);
+    const ts: OrganizationRepositoryTemplateEntry[] = organizationTemplates.length > 0 ? organizationTemplates : fallbackTemplates;
     const legalEntities = this.legalEntities;
     const limitedTypeTemplates = [];
-    ts.forEach(templateId => {
+    ts.forEach(entry => {
+      const templateId = typeof(entry) === 'string' ? entry : entry.id;
       const td = templateDefinitions[templateId];
-      const candidateTemplate = Object.assign({id: templateId}, td);
+      const candidateTemplate: IRepositoryTemplate & { legalEntities?: string[] } = Object.assign({id: templateId}, td, typeof(entry) === 'string' ? {} : entry);
       let template = null;
       if (candidateTemplate.legalEntity) {
         for (let i = 0; i < legalEntities.length && !template; i++) {
@@ -284,6 +284,8 @@ export default class QueryCache {
     if (repositoryCache) {
       const update = (
         !repositoryCache.organizationId ||
+        repositoryCache.organizationId !== organizationId ||
+        repositoryCache.repositoryName !== repositoryDetails.name ||
         !repositoryCache.repositoryDetails ||
         !repositoryCache.repositoryDetails.updated_at ||
         repositoryCache.repositoryDetails.updated_at !== repositoryDetails.updated_at);
@@ -316,6 +318,16 @@ export default class QueryCache {
     return entities.map(cacheEntity => this.hydrateRepository(cacheEntity)).filter(exists => exists);
   }
 
+  async organizationRepositoryByName(organizationId: string, repositoryName: string): Promise<IQueryCacheRepository> {
+    if (!this.supportsRepositories) {
+      this.throwMethodNotSupported('organizationRepositoryByName', 'repositoryCacheProvider');
+    }
+    const repositoryCacheProvider = this._providers.repositoryCacheProvider;
+    const entities = await repositoryCacheProvider.queryRepositoriesByOrganizationIdAndName(organizationId, repositoryName);
+    const repositories = entities.map(cacheEntity => this.hydrateRepository(cacheEntity)).filter(exists => exists);
+    return repositories.length ? repositories[0] : null;
+  }
+
   async allRepositories(): Promise<IQueryCacheRepository[]> {
     if (!this.supportsRepositories) {
       this.throwMethodNotSupported('allRepositories', 'repositoryCacheProvider');
@@ -363,6 +375,9 @@ export default class QueryCache {
     if (this.supportsTeamPermissions) {
       await this.removeAllTeamPermissionsForRepository(organizationId, repositoryId);
     }
+    if (this.supportsRepositoryCollaborators) {
+      await this.removeAllCollaboratorsForRepository(organizationId, repositoryId);
+    }
     return outcome;
   }
 
@@ -722,6 +737,23 @@ export default class QueryCache {
     return outcome;
   }
 
+  async removeAllCollaboratorsForRepository(organizationId: string, repositoryId: string): Promise<QueryCacheOperation[]> {
+    if (!this.supportsRepositoryCollaborators) {
+      throw new Error('removeAllCollaboratorsForRepository not supported');
+    }
+    const operations = [];
+    const repositoryCollaboratorCacheProvider = this._providers.repositoryCollaboratorCacheProvider;
+    const existingEntries = (await repositoryCollaboratorCacheProvider.queryCollaboratorsByRepositoryId(repositoryId)).filter(entry => entry.organizationId === organizationId);
+    debug(`removeAllCollaboratorsForRepository: ${existingEntries.length} collaborators to remove in the organization id=${organizationId} for repository id=${repositoryId}`);
+    for (const existing of existingEntries) {
+      try {
+        await repositoryCollaboratorCacheProvider.deleteRepositoryCollaboratorCache(existing);
+        operations.push(QueryCacheOperation.Delete);
+      } catch (ignored) {}
+    }
+    return operations;
+  }
+
   private hydrateRepositoryCollaborator(cacheEntity: RepositoryCollaboratorCacheEntity): IQueryCacheRepositoryCollaborator {
     const organization = this.operations.getOrganizationById(asNumber(cacheEntity.organizationId));
     const repository = organization.repository(cacheEntity.repositoryId, {
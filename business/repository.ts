@@ -16,6 +16,7 @@ import { TeamPermission } from './teamPermission';
 import { RepositoryMetadataEntity, GitHubRepositoryPermission } from '../entities/repositoryMetadata/repositoryMetadata';
 import moment from 'moment';
 import { AppPurpose } from '../github';
+import { IRepositoryBranchProtectionBaseline } from '../features/repositoryBaseline';
 
 export interface IGitHubCollaboratorInvitation {
   id: string;
@@ -25,6 +26,13 @@ export interface IAlternateTokenRequiredOptions extends ICacheOptions {
   alternateToken: string;
 }
 
+export interface IRepositoryMergeSettings {
+  allowMergeCommit?: boolean;
+  allowSquashMerge?: boolean;
+  allowRebaseMerge?: boolean;
+  deleteBranchOnMerge?: boolean;
+}
+
 export interface IGetBranchesOptions extends ICacheOptions {
   protected?: boolean;
 }
@@ -508,6 +516,18 @@ export class Repository {
     return this._operations.github.post(this.authorize(AppPurpose.Operations), 'teams.addOrUpdateRepo', options);
   }
 
+  replaceTopics(names: string[]): Promise<any> {
+    const parameters = {
+      owner: this.organization.name,
+      repo: this.name,
+      names,
+      headers: {
+        accept: 'application/vnd.github.mercy-preview+json',
+      },
+    };
+    return this._operations.github.post(this.authorize(AppPurpose.Operations), 'repos.replaceTopics', parameters);
+  }
+
   removeTeamPermission(teamId: number): Promise<any> {
     const options = {
       team_id: teamId,
@@ -583,6 +603,67 @@ export class Repository {
     // return this._operations.github.post(this.authorize(AppPurpose.Operations), 'repos.update', parameters);
   }
 
+  editMergeSettings(options: IRepositoryMergeSettings): Promise<any> {
+    const parameters = {
+      owner: this.organization.name,
+      repo: this.name,
+      allow_merge_commit: options.allowMergeCommit,
+      allow_squash_merge: options.allowSquashMerge,
+      allow_rebase_merge: options.allowRebaseMerge,
+      delete_branch_on_merge: options.deleteBranchOnMerge,
+    };
+    for (const key of Object.getOwnPropertyNames(parameters)) {
+      if (parameters[key] === undefined) {
+        delete parameters[key];
+      }
+    }
+    return this._operations.github.post(this.authorize(AppPurpose.Operations), 'repos.update', parameters);
+  }
+
+  async getBranchProtection(branch: string): Promise<any> {
+    // Returns null when the branch is not protected
+    const parameters = {
+      owner: this.organization.name,
+      repo: this.name,
+      branch,
+      headers: {
+        accept: 'application/vnd.github.luke-cage-preview+json',
+      },
+    };
+    try {
+      return await this._operations.github.post(this.authorize(AppPurpose.Data), 'repos.getBranchProtection', parameters);
+    } catch (error) {
+      if (error.status == /* loose */ 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  setBranchProtection(branch: string, protection: IRepositoryBranchProtectionBaseline): Promise<any> {
+    const parameters = {
+      owner: this.organization.name,
+      repo: this.name,
+      branch,
+      required_status_checks: protection.requiredStatusChecks ? {
+        strict: !!protection.strictStatusChecks,
+        contexts: protection.requiredStatusChecks,
+      } : null,
+      enforce_admins: !!protection.enforceAdmins,
+      required_pull_request_reviews: protection.requiredApprovingReviewCount ? {
+        dismiss_stale_reviews: !!protection.dismissStaleReviews,
+        require_code_owner_reviews: !!protection.requireCodeOwnerReviews,
+        required_approving_review_count: protection.requiredApprovingReviewCount,
+        dismissal_restrictions: protection.dismissalRestrictions,
+      } : null,
+      restrictions: protection.pushRestrictions || null,
+      headers: {
+        accept: 'application/vnd.github.luke-cage-preview+json',
+      },
+    };
+    return this._operations.github.post(this.authorize(AppPurpose.Operations), 'repos.updateBranchProtection', parameters);
+  }
+
   async getTeamPermissions(cacheOptions?: IPagedCacheOptions): Promise<TeamPermission[]> {
     cacheOptions = cacheOptions || {};
     const operations = this._operations;
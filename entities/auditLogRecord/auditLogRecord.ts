@@ -0,0 +1,321 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import azure from 'azure-storage';
+import { v4 as uuidV4 } from 'uuid';
+
+import { EntityField } from '../../lib/entityMetadataProvider/entityMetadataProvider';
+import { EntityMetadataType, IEntityMetadata } from '../../lib/entityMetadataProvider/entityMetadata';
+import { IEntityMetadataFixedQuery, FixedQueryType } from '../../lib/entityMetadataProvider/query';
+import { EntityMetadataMappings, MetadataMappingDefinition } from '../../lib/entityMetadataProvider/declarations';
+import { AuditLogRecordFixedQueryByActorId, AuditLogRecordFixedQueryByRepositoryId, AuditLogRecordFixedQueryByTeamId, AuditLogRecordFixedQueryByUserId, AuditLogRecordFixedQueryByTimeRange } from '.';
+import { PostgresJsonEntityQuery } from '../../lib/entityMetadataProvider/postgres';
+import { stringOrNumberAsString } from '../../utils';
+
+const type = EntityMetadataType.AuditLogRecord;
+
+interface IAuditLogRecordProperties {
+  deliveryId: any;
+  action: any;
+  event: any;
+  created: any;
+  actorId: any;
+  actorUsername: any;
+  organizationId: any;
+  organizationName: any;
+  repositoryId: any;
+  repositoryName: any;
+  teamId: any;
+  teamName: any;
+  userId: any;
+  userUsername: any;
+  role: any;
+}
+
+const recordId = 'recordId';
+
+const Field: IAuditLogRecordProperties = {
+  deliveryId: 'deliveryId',
+  action: 'action',
+  event: 'event',
+  created: 'created',
+  actorId: 'actorId',
+  actorUsername: 'actorUsername',
+  organizationId: 'organizationId',
+  organizationName: 'organizationName',
+  repositoryId: 'repositoryId',
+  repositoryName: 'repositoryName',
+  teamId: 'teamId',
+  teamName: 'teamName',
+  userId: 'userId',
+  userUsername: 'userUsername',
+  role: 'role',
+}
+
+const fieldNames = Object.getOwnPropertyNames(Field);
+
+export class AuditLogRecord implements IAuditLogRecordProperties {
+  recordId: string;
+  deliveryId: string;
+  action: string; // event.action, i.e. member.added
+  event: string;
+  created: Date;
+
+  actorId: string;
+  actorUsername: string;
+
+  organizationId: string;
+  organizationName: string;
+  repositoryId: string;
+  repositoryName: string;
+  teamId: string;
+  teamName: string;
+  userId: string;
+  userUsername: string;
+
+  role: string; // membership role or repository permission, when relevant
+
+  constructor() {
+    this.recordId = uuidV4();
+    this.created = new Date();
+  }
+}
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.EntityInstantiate, () => { return new AuditLogRecord(); });
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.EntityIdColumnName, recordId);
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.MemoryMapping, new Map<string, string>([
+  [Field.deliveryId, 'delivery'],
+  [Field.action, 'action'],
+  [Field.event, 'event'],
+  [Field.created, 'created'],
+  [Field.actorId, 'actorid'],
+  [Field.actorUsername, 'actor'],
+  [Field.organizationId, 'orgid'],
+  [Field.organizationName, 'org'],
+  [Field.repositoryId, 'repoid'],
+  [Field.repositoryName, 'repo'],
+  [Field.teamId, 'teamid'],
+  [Field.teamName, 'team'],
+  [Field.userId, 'userid'],
+  [Field.userUsername, 'user'],
+  [Field.role, 'role'],
+]));
+EntityMetadataMappings.RuntimeValidateMappings(type, MetadataMappingDefinition.MemoryMapping, fieldNames, [recordId]);
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableMapping, new Map<string, string>([
+  [Field.deliveryId, 'delivery'],
+  [Field.action, 'action'],
+  [Field.event, 'event'],
+  [Field.created, 'created'],
+  [Field.actorId, 'actorid'],
+  [Field.actorUsername, 'actor'],
+  [Field.organizationId, 'orgid'],
+  [Field.organizationName, 'org'],
+  [Field.repositoryId, 'repoid'],
+  [Field.repositoryName, 'repo'],
+  [Field.teamId, 'teamid'],
+  [Field.teamName, 'team'],
+  [Field.userId, 'userid'],
+  [Field.userUsername, 'user'],
+  [Field.role, 'role'],
+]));
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TablePossibleDateColumns, [
+  Field.created,
+]);
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableDefaultTableName, 'auditlog');
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableDefaultFixedPartitionKey, 'auditlog');
+EntityMetadataMappings.RuntimeValidateMappings(type, MetadataMappingDefinition.TableMapping, fieldNames, [recordId]);
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresDefaultTableName, 'auditlog');
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresDefaultTypeColumnName, 'auditlogrecord');
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresDateColumns, [Field.created]);
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresMapping, new Map<string, string>([
+  [Field.deliveryId, (Field.deliveryId as string).toLowerCase()],
+  [Field.action, (Field.action as string).toLowerCase()],
+  [Field.event, (Field.event as string).toLowerCase()],
+  [Field.created, (Field.created as string).toLowerCase()],
+  [Field.actorId, (Field.actorId as string).toLowerCase()],
+  [Field.actorUsername, (Field.actorUsername as string).toLowerCase()],
+  [Field.organizationId, (Field.organizationId as string).toLowerCase()],
+  [Field.organizationName, (Field.organizationName as string).toLowerCase()],
+  [Field.repositoryId, (Field.repositoryId as string).toLowerCase()],
+  [Field.repositoryName, (Field.repositoryName as string).toLowerCase()],
+  [Field.teamId, (Field.teamId as string).toLowerCase()],
+  [Field.teamName, (Field.teamName as string).toLowerCase()],
+  [Field.userId, (Field.userId as string).toLowerCase()],
+  [Field.userUsername, (Field.userUsername as string).toLowerCase()],
+  [Field.role, (Field.role as string).toLowerCase()],
+]));
+EntityMetadataMappings.RuntimeValidateMappings(type, MetadataMappingDefinition.PostgresMapping, fieldNames, [recordId]);
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableQueries, (query: IEntityMetadataFixedQuery, fixedPartitionKey: string) => {
+  switch (query.fixedQueryType) {
+    case FixedQueryType.AuditLogRecordsByActorId: {
+      const { actorId } = query as AuditLogRecordFixedQueryByActorId;
+      if (!actorId) {
+        throw new Error('actorId required');
+      }
+      return new azure.TableQuery()
+        .where('PartitionKey eq ?', fixedPartitionKey)
+        .and('actorid eq ?string?', actorId);
+    }
+    case FixedQueryType.AuditLogRecordsByRepositoryId: {
+      const { repositoryId } = query as AuditLogRecordFixedQueryByRepositoryId;
+      if (!repositoryId) {
+        throw new Error('repositoryId required');
+      }
+      return new azure.TableQuery()
+        .where('PartitionKey eq ?', fixedPartitionKey)
+        .and('repoid eq ?string?', repositoryId);
+    }
+    case FixedQueryType.AuditLogRecordsByTeamId: {
+      const { teamId } = query as AuditLogRecordFixedQueryByTeamId;
+      if (!teamId) {
+        throw new Error('teamId required');
+      }
+      return new azure.TableQuery()
+        .where('PartitionKey eq ?', fixedPartitionKey)
+        .and('teamid eq ?string?', teamId);
+    }
+    case FixedQueryType.AuditLogRecordsByUserId: {
+      const { userId } = query as AuditLogRecordFixedQueryByUserId;
+      if (!userId) {
+        throw new Error('userId required');
+      }
+      return new azure.TableQuery()
+        .where('PartitionKey eq ?', fixedPartitionKey)
+        .and('userid eq ?string?', userId);
+    }
+    case FixedQueryType.AuditLogRecordsByTimeRange: {
+      const { start, end } = query as AuditLogRecordFixedQueryByTimeRange;
+      return new azure.TableQuery()
+        .where('PartitionKey eq ?', fixedPartitionKey)
+        .and('created ge ?date?', start)
+        .and('created lt ?date?', end);
+    }
+    default:
+      throw new Error(`The fixed query type "${query.fixedQueryType}" is not implemented by this provider for the type ${type}, or is of an unknown type`);
+  }
+});
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresQueries, (query: IEntityMetadataFixedQuery, mapMetadataPropertiesToFields: string[], metadataColumnName: string, tableName: string, getEntityTypeColumnValue) => {
+  const entityTypeColumn = mapMetadataPropertiesToFields[EntityField.Type];
+  const entityTypeValue = getEntityTypeColumnValue(type);
+  switch (query.fixedQueryType) {
+    case FixedQueryType.AuditLogRecordsByActorId: {
+      const { actorId } = query as AuditLogRecordFixedQueryByActorId;
+      if (!actorId) {
+        throw new Error('actorId required');
+      }
+      return PostgresJsonEntityQuery(tableName, entityTypeColumn, entityTypeValue, metadataColumnName, {
+        actorid: stringOrNumberAsString(actorId),
+      });
+    }
+    case FixedQueryType.AuditLogRecordsByRepositoryId: {
+      const { repositoryId } = query as AuditLogRecordFixedQueryByRepositoryId;
+      if (!repositoryId) {
+        throw new Error('repositoryId required');
+      }
+      return PostgresJsonEntityQuery(tableName, entityTypeColumn, entityTypeValue, metadataColumnName, {
+        repositoryid: stringOrNumberAsString(repositoryId),
+      });
+    }
+    case FixedQueryType.AuditLogRecordsByTeamId: {
+      const { teamId } = query as AuditLogRecordFixedQueryByTeamId;
+      if (!teamId) {
+        throw new Error('teamId required');
+      }
+      return PostgresJsonEntityQuery(tableName, entityTypeColumn, entityTypeValue, metadataColumnName, {
+        teamid: stringOrNumberAsString(teamId),
+      });
+    }
+    case FixedQueryType.AuditLogRecordsByUserId: {
+      const { userId } = query as AuditLogRecordFixedQueryByUserId;
+      if (!userId) {
+        throw new Error('userId required');
+      }
+      return PostgresJsonEntityQuery(tableName, entityTypeColumn, entityTypeValue, metadataColumnName, {
+        userid: stringOrNumberAsString(userId),
+      });
+    }
+    case FixedQueryType.AuditLogRecordsByTimeRange: {
+      const { start, end } = query as AuditLogRecordFixedQueryByTimeRange;
+      const sql = `
+        SELECT *
+        FROM ${tableName}
+        WHERE
+          ${entityTypeColumn} = $1 AND
+          (${metadataColumnName}->>'created')::timestamptz >= $2 AND
+          (${metadataColumnName}->>'created')::timestamptz < $3
+      `;
+      const values = [
+        entityTypeValue,
+        start,
+        end,
+      ];
+      return { sql, values };
+    }
+    default:
+      throw new Error(`The fixed query type "${query.fixedQueryType}" is not implemented by this provider for the type ${type}, or is of an unknown type`);
+  }
+});
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.MemoryQueries, (query: IEntityMetadataFixedQuery, allInTypeBin: IEntityMetadata[]) => {
+  switch (query.fixedQueryType) {
+    case FixedQueryType.AuditLogRecordsByActorId: {
+      const { actorId } = query as AuditLogRecordFixedQueryByActorId;
+      if (!actorId) {
+        throw new Error('actorId required');
+      }
+      return allInTypeBin.filter(entity => entity['actorid'] === actorId);
+    }
+    case FixedQueryType.AuditLogRecordsByRepositoryId: {
+      const { repositoryId } = query as AuditLogRecordFixedQueryByRepositoryId;
+      if (!repositoryId) {
+        throw new Error('repositoryId required');
+      }
+      return allInTypeBin.filter(entity => entity['repoid'] === repositoryId);
+    }
+    case FixedQueryType.AuditLogRecordsByTeamId: {
+      const { teamId } = query as AuditLogRecordFixedQueryByTeamId;
+      if (!teamId) {
+        throw new Error('teamId required');
+      }
+      return allInTypeBin.filter(entity => entity['teamid'] === teamId);
+    }
+    case FixedQueryType.AuditLogRecordsByUserId: {
+      const { userId } = query as AuditLogRecordFixedQueryByUserId;
+      if (!userId) {
+        throw new Error('userId required');
+      }
+      return allInTypeBin.filter(entity => entity['userid'] === userId);
+    }
+    case FixedQueryType.AuditLogRecordsByTimeRange: {
+      const { start, end } = query as AuditLogRecordFixedQueryByTimeRange;
+      return allInTypeBin.filter(entity => {
+        const created = new Date(entity['created']);
+        return created >= start && created < end;
+      });
+    }
+    default:
+      throw new Error(`The fixed query type "${query.fixedQueryType}" is not implemented by this provider for the type ${type}, or is of an unknown type`);
+  }
+});
+
+// Runtime validation of FieldNames
+for (let i = 0; i < fieldNames.length; i++) {
+  const fn = fieldNames[i];
+  if (Field[fn] !== fn) {
+    throw new Error(`Field name ${fn} and value do not match in ${__filename}`);
+  }
+}
+
+export const EntityImplementation = {
+  Type: type,
+  EnsureDefinitions: () => {},
+};
@@ -0,0 +1,95 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import { IEntityMetadata, EntityMetadataBase, IEntityMetadataBaseOptions } from '../../lib/entityMetadataProvider/entityMetadata';
+import { IEntityMetadataFixedQuery } from '../../lib/entityMetadataProvider/query';
+import { AuditLogRecord, EntityImplementation } from './auditLogRecord';
+import { AuditLogRecordFixedQueryByActorId, AuditLogRecordFixedQueryByRepositoryId, AuditLogRecordFixedQueryByTeamId, AuditLogRecordFixedQueryByUserId, AuditLogRecordFixedQueryByTimeRange } from '.';
+
+const thisProviderType = EntityImplementation.Type;
+
+export interface IAuditLogRecordCreateOptions extends IEntityMetadataBaseOptions {
+}
+
+export interface IAuditLogRecordProvider {
+  initialize(): Promise<void>;
+
+  getRecord(recordId: string): Promise<AuditLogRecord>;
+  insertRecord(record: AuditLogRecord): Promise<string>;
+  deleteRecord(record: AuditLogRecord): Promise<void>;
+
+  // Query results are ordered with the most recent record first
+  queryAuditLogForActorId(actorId: string): Promise<AuditLogRecord[]>;
+  queryAuditLogForRepositoryId(repositoryId: string): Promise<AuditLogRecord[]>;
+  queryAuditLogForTeamId(teamId: string): Promise<AuditLogRecord[]>;
+  queryAuditLogForUserId(userId: string): Promise<AuditLogRecord[]>;
+  queryAuditLogByTimeRange(start: Date, end: Date): Promise<AuditLogRecord[]>;
+}
+
+export class AuditLogRecordProvider extends EntityMetadataBase implements IAuditLogRecordProvider {
+  constructor(options: IAuditLogRecordCreateOptions) {
+    super(options);
+    EntityImplementation.EnsureDefinitions();
+  }
+
+  async getRecord(recordId: string): Promise<AuditLogRecord> {
+    this.ensureHelpers(thisProviderType);
+    let metadata: IEntityMetadata = null;
+    if (this._entities.supportsPointQueryForType(thisProviderType)) {
+      metadata = await this._entities.getMetadata(thisProviderType, recordId);
+    } else {
+      throw new Error('fixed point queries are required as currently implemented');
+    }
+    if (!metadata) {
+      const error = new Error(`No audit log record ${recordId} found`);
+      error['status'] = 404;
+      throw error;
+    }
+    return this.deserialize<AuditLogRecord>(thisProviderType, metadata);
+  }
+
+  async insertRecord(record: AuditLogRecord): Promise<string> {
+    const entity = this.serialize(thisProviderType, record);
+    await this._entities.setMetadata(entity);
+    return entity.entityId;
+  }
+
+  async deleteRecord(record: AuditLogRecord): Promise<void> {
+    const entity = this.serialize(thisProviderType, record);
+    await this._entities.deleteMetadata(entity);
+  }
+
+  async queryAuditLogForActorId(actorId: string): Promise<AuditLogRecord[]> {
+    return await this.query(new AuditLogRecordFixedQueryByActorId(actorId));
+  }
+
+  async queryAuditLogForRepositoryId(repositoryId: string): Promise<AuditLogRecord[]> {
+    return await this.query(new AuditLogRecordFixedQueryByRepositoryId(repositoryId));
+  }
+
+  async queryAuditLogForTeamId(teamId: string): Promise<AuditLogRecord[]> {
+    return await this.query(new AuditLogRecordFixedQueryByTeamId(teamId));
+  }
+
+  async queryAuditLogForUserId(userId: string): Promise<AuditLogRecord[]> {
+    return await this.query(new AuditLogRecordFixedQueryByUserId(userId));
+  }
+
+  async queryAuditLogByTimeRange(start: Date, end: Date): Promise<AuditLogRecord[]> {
+    return await this.query(new AuditLogRecordFixedQueryByTimeRange(start, end));
+  }
+
+  private async query(query: IEntityMetadataFixedQuery): Promise<AuditLogRecord[]> {
+    const metadatas = await this._entities.fixedQueryMetadata(thisProviderType, query);
+    const results = this.deserializeArray<AuditLogRecord>(thisProviderType, metadatas);
+    return sortByMostRecent(results);
+  }
+}
+
+function sortByMostRecent(records: AuditLogRecord[]): AuditLogRecord[] {
+  return records.sort((a, b) => new Date(b.created).getTime() - new Date(a.created).getTime());
+}
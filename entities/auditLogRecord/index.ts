@@ -0,0 +1,60 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import { IAuditLogRecordProvider, IAuditLogRecordCreateOptions, AuditLogRecordProvider } from './auditLogRecordProvider';
+import { FixedQueryType, IEntityMetadataFixedQuery } from '../../lib/entityMetadataProvider/query';
+import { stringOrNumberAsString } from '../../utils';
+
+export async function CreateAuditLogRecordProviderInstance(options?: IAuditLogRecordCreateOptions): Promise<IAuditLogRecordProvider> {
+  const provider = new AuditLogRecordProvider(options);
+  await provider.initialize();
+  return provider;
+}
+
+export class AuditLogRecordFixedQueryByActorId implements IEntityMetadataFixedQuery {
+  public readonly fixedQueryType: FixedQueryType = FixedQueryType.AuditLogRecordsByActorId;
+  public actorId: string;
+  constructor(actorId: string | number) {
+    this.actorId = stringOrNumberAsString(actorId);
+  }
+}
+
+export class AuditLogRecordFixedQueryByRepositoryId implements IEntityMetadataFixedQuery {
+  public readonly fixedQueryType: FixedQueryType = FixedQueryType.AuditLogRecordsByRepositoryId;
+  public repositoryId: string;
+  constructor(repositoryId: string | number) {
+    this.repositoryId = stringOrNumberAsString(repositoryId);
+  }
+}
+
+export class AuditLogRecordFixedQueryByTeamId implements IEntityMetadataFixedQuery {
+  public readonly fixedQueryType: FixedQueryType = FixedQueryType.AuditLogRecordsByTeamId;
+  public teamId: string;
+  constructor(teamId: string | number) {
+    this.teamId = stringOrNumberAsString(teamId);
+  }
+}
+
+export class AuditLogRecordFixedQueryByUserId implements IEntityMetadataFixedQuery {
+  public readonly fixedQueryType: FixedQueryType = FixedQueryType.AuditLogRecordsByUserId;
+  public userId: string;
+  constructor(userId: string | number) {
+    this.userId = stringOrNumberAsString(userId);
+  }
+}
+
+export class AuditLogRecordFixedQueryByTimeRange implements IEntityMetadataFixedQuery {
+  public readonly fixedQueryType: FixedQueryType = FixedQueryType.AuditLogRecordsByTimeRange;
+  constructor(public start: Date, public end: Date) {
+    if (!start || !end) {
+      throw new Error('AuditLogRecordFixedQueryByTimeRange: start and end dates are required');
+    }
+    if (start > end) {
+      throw new Error('AuditLogRecordFixedQueryByTimeRange: start must be before end');
+    }
+  }
+}
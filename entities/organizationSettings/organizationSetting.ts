@@ -53,7 +53,7 @@ interface IOrganizationSettingProperties {
   features: any; // flags
   properties: any; // objects with a setting name
   specialTeams: any; // key: teamid
-  templates: any; // string list
+  templates: any; // template IDs or template definitions
   legalEntities: any; // string list
 }
 
@@ -101,7 +101,7 @@ export class OrganizationSetting implements IOrganizationSettingProperties {
   properties: any;
 
   specialTeams: ISpecialTeam[];
-  templates: string[];
+  templates: any[]; // see features/repositoryTemplates.ts
   legalEntities: string[];
 
   constructor() {
@@ -135,7 +135,7 @@ export class OrganizationSetting implements IOrganizationSettingProperties {
     settings.portalDescription = clone.description || '';
     delete clone.description;
 
-    settings.templates = clone.templates && Array.isArray(clone.templates) ? clone.templates as string[] : [];
+    settings.templates = clone.templates && Array.isArray(clone.templates) ? clone.templates : [];
     delete clone.templates;
 
     // Feature flags
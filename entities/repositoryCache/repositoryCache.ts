@@ -57,6 +57,18 @@ export class RepositoryCacheFixedQueryByOrganizationId implements IEntityMetadat
   }
 }
 
+export class RepositoryCacheFixedQueryByOrganizationIdAndName implements IEntityMetadataFixedQuery {
+  public readonly fixedQueryType: FixedQueryType = FixedQueryType.RepositoryCacheGetByOrganizationIdAndName;
+  constructor(public organizationId: string, public repositoryName: string) {
+    if (typeof(this.organizationId) !== 'string') {
+      throw new Error(`${organizationId} must be a string`);
+    }
+    if (typeof(this.repositoryName) !== 'string') {
+      throw new Error(`${repositoryName} must be a string`);
+    }
+  }
+}
+
 EntityMetadataMappings.Register(type, MetadataMappingDefinition.EntityInstantiate, () => { return new RepositoryCacheEntity(); });
 EntityMetadataMappings.Register(type, MetadataMappingDefinition.EntityIdColumnName, repositoryId);
 
@@ -93,6 +105,30 @@ EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresQueries,
         organizationid: stringOrNumberAsString(organizationId),
       });
     }
+    case FixedQueryType.RepositoryCacheGetByOrganizationIdAndName: {
+      // GitHub repository names are not case sensitive
+      const { organizationId, repositoryName } = query as RepositoryCacheFixedQueryByOrganizationIdAndName;
+      if (!organizationId) {
+        throw new Error('organizationId required');
+      }
+      if (!repositoryName) {
+        throw new Error('repositoryName required');
+      }
+      const sql = `
+        SELECT *
+        FROM ${tableName}
+        WHERE
+          ${entityTypeColumn} = $1 AND
+          ${metadataColumnName} @> $2 AND
+          lower(${metadataColumnName}->>'repositoryname') = $3
+      `;
+      const values = [
+        entityTypeValue,
+        { organizationid: stringOrNumberAsString(organizationId) },
+        repositoryName.toLowerCase(),
+      ];
+      return { sql, values };
+    }
     default:
       throw new Error(`The fixed query type "${query.fixedQueryType}" is not implemented by this provider for repository for the type ${type}, or is of an unknown type`);
   }
@@ -109,6 +145,17 @@ EntityMetadataMappings.Register(type, MetadataMappingDefinition.MemoryQueries, (
       }
       throw new Error('Not implemented yet');
     }
+    case FixedQueryType.RepositoryCacheGetByOrganizationIdAndName: {
+      const { organizationId, repositoryName } = query as RepositoryCacheFixedQueryByOrganizationIdAndName;
+      if (!organizationId) {
+        throw new Error('organizationId required');
+      }
+      if (!repositoryName) {
+        throw new Error('repositoryName required');
+      }
+      const lowercaseName = repositoryName.toLowerCase();
+      return allInTypeBin.filter(entity => entity['orgid'] === organizationId && entity['repoName'] && entity['repoName'].toLowerCase() === lowercaseName);
+    }
     default:
       throw new Error(`The fixed query type "${query.fixedQueryType}" is not implemented by this provider for repository for the type ${type}, or is of an unknown type`);
   }
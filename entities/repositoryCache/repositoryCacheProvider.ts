@@ -6,7 +6,7 @@
 'use strict';
 
 import { IEntityMetadata, EntityMetadataBase, IEntityMetadataBaseOptions } from '../../lib/entityMetadataProvider/entityMetadata';
-import { RepositoryCacheEntity, EntityImplementation, RepositoryCacheFixedQueryAll, RepositoryCacheFixedQueryByOrganizationId } from './repositoryCache';
+import { RepositoryCacheEntity, EntityImplementation, RepositoryCacheFixedQueryAll, RepositoryCacheFixedQueryByOrganizationId, RepositoryCacheFixedQueryByOrganizationIdAndName } from './repositoryCache';
 
 const thisProviderType = EntityImplementation.Type;
 
@@ -22,6 +22,7 @@ export interface IRepositoryCacheProvider {
   deleteRepositoryCache(metadata: RepositoryCacheEntity): Promise<void>;
   queryAllRepositories(): Promise<RepositoryCacheEntity[]>;
   queryRepositoriesByOrganizationId(organizationId: string): Promise<RepositoryCacheEntity[]>;
+  queryRepositoriesByOrganizationIdAndName(organizationId: string, repositoryName: string): Promise<RepositoryCacheEntity[]>;
 }
 
 export class RepositoryCacheProvider extends EntityMetadataBase implements IRepositoryCacheProvider {
@@ -60,6 +61,13 @@ export class RepositoryCacheProvider extends EntityMetadataBase implements IRepo
     return results;
   }
 
+  async queryRepositoriesByOrganizationIdAndName(organizationId: string, repositoryName: string): Promise<RepositoryCacheEntity[]> {
+    const query = new RepositoryCacheFixedQueryByOrganizationIdAndName(organizationId, repositoryName);
+    const metadatas = await this._entities.fixedQueryMetadata(thisProviderType, query);
+    const results = this.deserializeArray<RepositoryCacheEntity>(thisProviderType, metadatas);
+    return results;
+  }
+
   async createRepositoryCache(metadata: RepositoryCacheEntity): Promise<string> {
     const entity = this.serialize(thisProviderType, metadata);
     if (!this._entities.supportsPointQueryForType(thisProviderType)) {
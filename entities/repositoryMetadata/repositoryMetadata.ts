@@ -13,6 +13,7 @@ import { IEntityMetadataFixedQuery, FixedQueryType } from '../../lib/entityMetad
 import { EntityMetadataMappings, MetadataMappingDefinition } from '../../lib/entityMetadataProvider/declarations';
 import { Type } from './type';
 import { PostgresGetAllEntities, PostgresJsonEntityQuery, PostgresGetByID } from '../../lib/entityMetadataProvider/postgres';
+import { IRepositoryBaseline } from '../../features/repositoryBaseline';
 
 const type = Type;
 
@@ -65,6 +66,8 @@ interface IRepositoryMetadataProperties {
 
   initialCorrelationId: any;
 
+  baseline: any;
+
   projectType: any;
   releaseReviewJustification: any;
   releaseReviewType: any;
@@ -94,6 +97,7 @@ const Field: IRepositoryMetadataProperties = {
   initialTemplate: 'initialTemplate',
   initialGitIgnoreTemplate: 'initialGitIgnoreTemplate',
   initialCorrelationId: 'initialCorrelationId',
+  baseline: 'baseline',
   projectType: 'projectType',
   releaseReviewJustification: 'releaseReviewJustification',
   releaseReviewType: 'releaseReviewType',
@@ -125,6 +129,8 @@ export class RepositoryMetadataEntity implements IRepositoryMetadataProperties {
   initialGitIgnoreTemplate: string;
   initialCorrelationId: string;
 
+  baseline: IRepositoryBaseline; // the baseline applied by the create workflow
+
   projectType: string;
   releaseReviewJustification: string;
   releaseReviewType: string;
@@ -173,6 +179,9 @@ EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableSpecialized
       }
     }
   }
+  if (entity['baseline']) {
+    object.baseline = JSON.parse(entity['baseline']);
+  }
 });
 
 EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableSpecializedSerializationHelper, function tableRepoMetadataSpecializedSerializer(entity: IEntityMetadata, object: RepositoryMetadataEntity) {
@@ -184,6 +193,9 @@ EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableSpecialized
     entity[prefix] = teamId.toString();
     entity[`${prefix}p`] = permission;
   }
+  if (object.baseline) {
+    entity['baseline'] = JSON.stringify(object.baseline);
+  }
 });
 
 EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableMapping, new Map<string, string>([
@@ -211,6 +223,7 @@ EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableMapping, ne
   [Field.initialTemplate, 'template'],
   [Field.initialGitIgnoreTemplate, 'gitignore_template'],
   [Field.initialCorrelationId, 'correlationId'],
+  [Field.baseline, null], // special serializer handles
 
   [Field.projectType, 'projectType'],
   [Field.releaseReviewJustification, 'justification'],
@@ -247,6 +260,7 @@ EntityMetadataMappings.Register(type, MetadataMappingDefinition.MemoryMapping, n
   [Field.initialTemplate, 'template'],
   [Field.initialGitIgnoreTemplate, 'gitignore_template'],
   [Field.initialCorrelationId, 'correlationId'],
+  [Field.baseline, 'baseline'],
 
   [Field.projectType, 'projecttype'],
   [Field.releaseReviewJustification, 'justification'],
@@ -282,6 +296,7 @@ EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresMapping,
   [Field.initialTemplate, (Field.initialTemplate as string).toLowerCase()],
   [Field.initialGitIgnoreTemplate, (Field.initialGitIgnoreTemplate as string).toLowerCase()],
   [Field.initialCorrelationId, (Field.initialCorrelationId as string).toLowerCase()],
+  [Field.baseline, (Field.baseline as string).toLowerCase()],
 
   [Field.projectType, (Field.projectType as string).toLowerCase()],
   [Field.releaseReviewJustification, (Field.releaseReviewJustification as string).toLowerCase()],
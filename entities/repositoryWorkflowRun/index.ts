@@ -0,0 +1,14 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import { IRepositoryWorkflowRunProvider, IRepositoryWorkflowRunCreateOptions, RepositoryWorkflowRunProvider } from './repositoryWorkflowRunProvider';
+
+export async function CreateRepositoryWorkflowRunProviderInstance(options?: IRepositoryWorkflowRunCreateOptions): Promise<IRepositoryWorkflowRunProvider> {
+  const provider = new RepositoryWorkflowRunProvider(options);
+  await provider.initialize();
+  return provider;
+}
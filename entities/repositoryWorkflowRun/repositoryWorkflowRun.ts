@@ -0,0 +1,177 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import { EntityMetadataType, IEntityMetadata } from '../../lib/entityMetadataProvider/entityMetadata';
+import { EntityMetadataMappings, MetadataMappingDefinition } from '../../lib/entityMetadataProvider/declarations';
+import { GitHubRepositoryPermission } from '../repositoryMetadata/repositoryMetadata';
+
+const type = EntityMetadataType.RepositoryWorkflowRun;
+
+export enum RepositoryWorkflowRunState {
+  Running = 'running',
+  Succeeded = 'succeeded',
+  Failed = 'failed',
+}
+
+export enum RepositoryWorkflowStepType {
+  TeamPermission = 'teamPermission',
+  TemplateFiles = 'templateFiles',
+  MergeSettings = 'mergeSettings',
+  Topics = 'topics',
+  BranchProtection = 'branchProtection',
+  TemplateWebhook = 'templateWebhook',
+  TemplateCollaborators = 'templateCollaborators',
+  RemoveCreatorCollaborator = 'removeCreatorCollaborator',
+}
+
+export enum RepositoryWorkflowStepState {
+  Pending = 'pending',
+  Succeeded = 'succeeded',
+  Failed = 'failed',
+}
+
+export interface IRepositoryWorkflowStep {
+  name: string; // unique within the run
+  type: RepositoryWorkflowStepType;
+  state: RepositoryWorkflowStepState;
+  attempts: number;
+  teamId?: number;
+  teamName?: string;
+  permission?: GitHubRepositoryPermission;
+  templateName?: string;
+  uploadedFiles?: string[]; // template files already committed, skipped by a retry
+  message?: string;
+  error?: string;
+  completed?: string; // Date UTC string
+}
+
+interface IRepositoryWorkflowRunProperties {
+  organizationName: any;
+  organizationId: any;
+  repositoryName: any;
+  repositoryId: any;
+  started: any;
+  updated: any;
+  state: any;
+  attempts: any;
+  steps: any;
+}
+
+const runId = 'runId';
+
+const Field: IRepositoryWorkflowRunProperties = {
+  organizationName: 'organizationName',
+  organizationId: 'organizationId',
+  repositoryName: 'repositoryName',
+  repositoryId: 'repositoryId',
+  started: 'started',
+  updated: 'updated',
+  state: 'state',
+  attempts: 'attempts',
+  steps: 'steps',
+}
+
+const fieldNames = Object.getOwnPropertyNames(Field);
+
+export class RepositoryWorkflowRunEntity implements IRepositoryWorkflowRunProperties {
+  runId: string; // the initialCorrelationId of the repository metadata
+  organizationName: string;
+  organizationId: string;
+  repositoryName: string;
+  repositoryId: string;
+  started: Date;
+  updated: Date;
+  state: RepositoryWorkflowRunState;
+  attempts: number;
+  steps: IRepositoryWorkflowStep[];
+
+  constructor() {
+    this.started = new Date();
+    this.state = RepositoryWorkflowRunState.Running;
+    this.attempts = 0;
+    this.steps = [];
+  }
+
+  get failedSteps(): IRepositoryWorkflowStep[] {
+    return this.steps.filter(step => step.state === RepositoryWorkflowStepState.Failed);
+  }
+
+  get incompleteSteps(): IRepositoryWorkflowStep[] {
+    return this.steps.filter(step => step.state !== RepositoryWorkflowStepState.Succeeded);
+  }
+}
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.EntityInstantiate, () => { return new RepositoryWorkflowRunEntity(); });
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.EntityIdColumnName, runId);
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.MemoryMapping, new Map<string, string>([
+  [Field.organizationName, 'org'],
+  [Field.organizationId, 'orgid'],
+  [Field.repositoryName, 'repo'],
+  [Field.repositoryId, 'repoid'],
+  [Field.started, 'started'],
+  [Field.updated, 'updated'],
+  [Field.state, 'state'],
+  [Field.attempts, 'attempts'],
+  [Field.steps, 'steps'],
+]));
+EntityMetadataMappings.RuntimeValidateMappings(type, MetadataMappingDefinition.MemoryMapping, fieldNames, [runId]);
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableMapping, new Map<string, string>([
+  [Field.organizationName, 'org'],
+  [Field.organizationId, 'orgid'],
+  [Field.repositoryName, 'repo'],
+  [Field.repositoryId, 'repoid'],
+  [Field.started, 'started'],
+  [Field.updated, 'updated'],
+  [Field.state, 'state'],
+  [Field.attempts, 'attempts'],
+  [Field.steps, 'steps'],
+]));
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TablePossibleDateColumns, [
+  Field.started,
+  Field.updated,
+]);
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableDefaultTableName, 'repositoryworkflowruns');
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableDefaultFixedPartitionKey, 'repositoryworkflowrun');
+EntityMetadataMappings.RuntimeValidateMappings(type, MetadataMappingDefinition.TableMapping, fieldNames, [runId]);
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableSpecializedSerializationHelper, function tableRepositoryWorkflowRunSpecializedSerializer(entity: IEntityMetadata, object: RepositoryWorkflowRunEntity) {
+  entity['steps'] = JSON.stringify(object.steps || []);
+});
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableSpecializedDeserializationHelper, function tableRepositoryWorkflowRunSpecializedDeserializer(entity: IEntityMetadata, object: RepositoryWorkflowRunEntity) {
+  object.steps = entity['steps'] ? JSON.parse(entity['steps']) : [];
+  object.attempts = entity['attempts'] ? parseInt(entity['attempts'], 10) : 0;
+});
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresDefaultTableName, 'repositoryworkflowruns');
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresDefaultTypeColumnName, 'repositoryworkflowrun');
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresDateColumns, [Field.started, Field.updated]);
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresMapping, new Map<string, string>([
+  [Field.organizationName, (Field.organizationName as string).toLowerCase()],
+  [Field.organizationId, (Field.organizationId as string).toLowerCase()],
+  [Field.repositoryName, (Field.repositoryName as string).toLowerCase()],
+  [Field.repositoryId, (Field.repositoryId as string).toLowerCase()],
+  [Field.started, (Field.started as string).toLowerCase()],
+  [Field.updated, (Field.updated as string).toLowerCase()],
+  [Field.state, (Field.state as string).toLowerCase()],
+  [Field.attempts, (Field.attempts as string).toLowerCase()],
+  [Field.steps, (Field.steps as string).toLowerCase()],
+]));
+EntityMetadataMappings.RuntimeValidateMappings(type, MetadataMappingDefinition.PostgresMapping, fieldNames, [runId]);
+
+// Runtime validation of FieldNames
+for (let i = 0; i < fieldNames.length; i++) {
+  const fn = fieldNames[i];
+  if (Field[fn] !== fn) {
+    throw new Error(`Field name ${fn} and value do not match in ${__filename}`);
+  }
+}
+
+export const EntityImplementation = {
+  Type: type,
+  EnsureDefinitions: () => {},
+};
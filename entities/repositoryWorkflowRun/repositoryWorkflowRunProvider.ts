@@ -0,0 +1,65 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import { IEntityMetadata, EntityMetadataBase, IEntityMetadataBaseOptions } from '../../lib/entityMetadataProvider/entityMetadata';
+import { RepositoryWorkflowRunEntity, EntityImplementation } from './repositoryWorkflowRun';
+
+const thisProviderType = EntityImplementation.Type;
+
+export interface IRepositoryWorkflowRunCreateOptions extends IEntityMetadataBaseOptions {
+}
+
+export interface IRepositoryWorkflowRunProvider {
+  initialize(): Promise<void>;
+
+  getRun(runId: string): Promise<RepositoryWorkflowRunEntity>;
+  createRun(metadata: RepositoryWorkflowRunEntity): Promise<string>;
+  updateRun(metadata: RepositoryWorkflowRunEntity): Promise<void>;
+  deleteRun(metadata: RepositoryWorkflowRunEntity): Promise<void>;
+}
+
+export class RepositoryWorkflowRunProvider extends EntityMetadataBase implements IRepositoryWorkflowRunProvider {
+  constructor(options: IRepositoryWorkflowRunCreateOptions) {
+    super(options);
+    EntityImplementation.EnsureDefinitions();
+  }
+
+  async getRun(runId: string): Promise<RepositoryWorkflowRunEntity> {
+    this.ensureHelpers(thisProviderType);
+    let metadata: IEntityMetadata = null;
+    if (this._entities.supportsPointQueryForType(thisProviderType)) {
+      metadata = await this._entities.getMetadata(thisProviderType, runId);
+    } else {
+      throw new Error('fixed point queries are required as currently implemented');
+    }
+    if (!metadata) {
+      const error = new Error(`No repository workflow run ${runId} has been recorded`);
+      error['status'] = 404;
+      throw error;
+    }
+    return this.deserialize<RepositoryWorkflowRunEntity>(thisProviderType, metadata);
+  }
+
+  async createRun(metadata: RepositoryWorkflowRunEntity): Promise<string> {
+    const entity = this.serialize(thisProviderType, metadata);
+    if (!this._entities.supportsPointQueryForType(thisProviderType)) {
+      throw new Error('fixed point queries are required as currently implemented');
+    }
+    await this._entities.setMetadata(entity);
+    return entity.entityId;
+  }
+
+  async updateRun(metadata: RepositoryWorkflowRunEntity): Promise<void> {
+    const entity = this.serialize(thisProviderType, metadata);
+    await this._entities.updateMetadata(entity);
+  }
+
+  async deleteRun(metadata: RepositoryWorkflowRunEntity): Promise<void> {
+    const entity = this.serialize(thisProviderType, metadata);
+    await this._entities.deleteMetadata(entity);
+  }
+}
@@ -0,0 +1,19 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import { ITeamDirectoryGroupProvider, ITeamDirectoryGroupCreateOptions, TeamDirectoryGroupProvider } from './teamDirectoryGroupProvider';
+import { FixedQueryType, IEntityMetadataFixedQuery } from '../../lib/entityMetadataProvider/query';
+
+export async function CreateTeamDirectoryGroupProviderInstance(options?: ITeamDirectoryGroupCreateOptions): Promise<ITeamDirectoryGroupProvider> {
+  const provider = new TeamDirectoryGroupProvider(options);
+  await provider.initialize();
+  return provider;
+}
+
+export class TeamDirectoryGroupFixedQueryAll implements IEntityMetadataFixedQuery {
+  public readonly fixedQueryType: FixedQueryType = FixedQueryType.TeamDirectoryGroupsGetAll;
+}
@@ -0,0 +1,169 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import azure from 'azure-storage';
+
+import { EntityField} from '../../lib/entityMetadataProvider/entityMetadataProvider';
+import { EntityMetadataType, IEntityMetadata } from '../../lib/entityMetadataProvider/entityMetadata';
+import { IEntityMetadataFixedQuery, FixedQueryType } from '../../lib/entityMetadataProvider/query';
+import { EntityMetadataMappings, MetadataMappingDefinition } from '../../lib/entityMetadataProvider/declarations';
+import { PostgresGetAllEntities } from '../../lib/entityMetadataProvider/postgres';
+
+const type = EntityMetadataType.TeamDirectoryGroup;
+
+interface ITeamDirectoryGroupProperties {
+  organizationId: any;
+  organizationName: any;
+  teamName: any;
+  groupId: any;
+  groupDisplayName: any;
+  exclusions: any;
+  created: any;
+  updated: any;
+  updatedByCorporateId: any;
+  updatedByThirdPartyUsername: any;
+}
+
+const teamId = 'teamId';
+
+const Field: ITeamDirectoryGroupProperties = {
+  organizationId: 'organizationId',
+  organizationName: 'organizationName',
+  teamName: 'teamName',
+  groupId: 'groupId',
+  groupDisplayName: 'groupDisplayName',
+  exclusions: 'exclusions',
+  created: 'created',
+  updated: 'updated',
+  updatedByCorporateId: 'updatedByCorporateId',
+  updatedByThirdPartyUsername: 'updatedByThirdPartyUsername',
+}
+
+const fieldNames = Object.getOwnPropertyNames(Field);
+
+export class TeamDirectoryGroupEntity implements ITeamDirectoryGroupProperties {
+  teamId: string;
+  organizationId: string;
+  organizationName: string;
+  teamName: string;
+  groupId: string;
+  groupDisplayName: string;
+  exclusions: string[]; // lowercase GitHub logins
+  created: Date;
+  updated: Date;
+  updatedByCorporateId: string;
+  updatedByThirdPartyUsername: string;
+
+  constructor() {
+    this.created = new Date();
+    this.exclusions = [];
+  }
+}
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.EntityInstantiate, () => { return new TeamDirectoryGroupEntity(); });
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.EntityIdColumnName, teamId);
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.MemoryMapping, new Map<string, string>([
+  [Field.organizationId, 'orgid'],
+  [Field.organizationName, 'org'],
+  [Field.teamName, 'team'],
+  [Field.groupId, 'groupid'],
+  [Field.groupDisplayName, 'group'],
+  [Field.exclusions, 'exclusions'],
+  [Field.created, 'created'],
+  [Field.updated, 'updated'],
+  [Field.updatedByCorporateId, 'updatedby'],
+  [Field.updatedByThirdPartyUsername, 'updatedbylogin'],
+]));
+EntityMetadataMappings.RuntimeValidateMappings(type, MetadataMappingDefinition.MemoryMapping, fieldNames, [teamId]);
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableMapping, new Map<string, string>([
+  [Field.organizationId, 'orgid'],
+  [Field.organizationName, 'org'],
+  [Field.teamName, 'team'],
+  [Field.groupId, 'groupid'],
+  [Field.groupDisplayName, 'group'],
+  [Field.exclusions, 'exclusions'],
+  [Field.created, 'created'],
+  [Field.updated, 'updated'],
+  [Field.updatedByCorporateId, 'updatedby'],
+  [Field.updatedByThirdPartyUsername, 'updatedbylogin'],
+]));
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TablePossibleDateColumns, [
+  Field.created,
+  Field.updated,
+]);
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableDefaultTableName, 'teamdirectorygroups');
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableDefaultFixedPartitionKey, 'teamdirectorygroup');
+EntityMetadataMappings.RuntimeValidateMappings(type, MetadataMappingDefinition.TableMapping, fieldNames, [teamId]);
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableSpecializedSerializationHelper, function tableTeamDirectoryGroupSpecializedSerializer(entity: IEntityMetadata, object: TeamDirectoryGroupEntity) {
+  entity['exclusions'] = JSON.stringify(object.exclusions || []);
+});
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableSpecializedDeserializationHelper, function tableTeamDirectoryGroupSpecializedDeserializer(entity: IEntityMetadata, object: TeamDirectoryGroupEntity) {
+  object.exclusions = entity['exclusions'] ? JSON.parse(entity['exclusions']) : [];
+});
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresDefaultTableName, 'teamdirectorygroups');
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresDefaultTypeColumnName, 'teamdirectorygroup');
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresDateColumns, [Field.created, Field.updated]);
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresMapping, new Map<string, string>([
+  [Field.organizationId, (Field.organizationId as string).toLowerCase()],
+  [Field.organizationName, (Field.organizationName as string).toLowerCase()],
+  [Field.teamName, (Field.teamName as string).toLowerCase()],
+  [Field.groupId, (Field.groupId as string).toLowerCase()],
+  [Field.groupDisplayName, (Field.groupDisplayName as string).toLowerCase()],
+  [Field.exclusions, (Field.exclusions as string).toLowerCase()],
+  [Field.created, (Field.created as string).toLowerCase()],
+  [Field.updated, (Field.updated as string).toLowerCase()],
+  [Field.updatedByCorporateId, (Field.updatedByCorporateId as string).toLowerCase()],
+  [Field.updatedByThirdPartyUsername, (Field.updatedByThirdPartyUsername as string).toLowerCase()],
+]));
+EntityMetadataMappings.RuntimeValidateMappings(type, MetadataMappingDefinition.PostgresMapping, fieldNames, [teamId]);
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableQueries, (query: IEntityMetadataFixedQuery, fixedPartitionKey: string) => {
+  switch (query.fixedQueryType) {
+    case FixedQueryType.TeamDirectoryGroupsGetAll:
+      return new azure.TableQuery()
+        .where('PartitionKey eq ?', fixedPartitionKey);
+    default:
+      throw new Error(`The fixed query type "${query.fixedQueryType}" is not implemented by this provider for the type ${type}, or is of an unknown type`);
+  }
+});
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresQueries, (query: IEntityMetadataFixedQuery, mapMetadataPropertiesToFields: string[], metadataColumnName: string, tableName: string, getEntityTypeColumnValue) => {
+  const entityTypeColumn = mapMetadataPropertiesToFields[EntityField.Type];
+  const entityTypeValue = getEntityTypeColumnValue(type);
+  switch (query.fixedQueryType) {
+    case FixedQueryType.TeamDirectoryGroupsGetAll: {
+      return PostgresGetAllEntities(tableName, entityTypeColumn, entityTypeValue);
+    }
+    default:
+      throw new Error(`The fixed query type "${query.fixedQueryType}" is not implemented by this provider for the type ${type}, or is of an unknown type`);
+  }
+});
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.MemoryQueries, (query: IEntityMetadataFixedQuery, allInTypeBin: IEntityMetadata[]) => {
+  switch (query.fixedQueryType) {
+    case FixedQueryType.TeamDirectoryGroupsGetAll:
+      return allInTypeBin;
+    default:
+      throw new Error(`The fixed query type "${query.fixedQueryType}" is not implemented by this provider for the type ${type}, or is of an unknown type`);
+  }
+});
+
+// Runtime validation of FieldNames
+for (let i = 0; i < fieldNames.length; i++) {
+  const fn = fieldNames[i];
+  if (Field[fn] !== fn) {
+    throw new Error(`Field name ${fn} and value do not match in ${__filename}`);
+  }
+}
+
+export const EntityImplementation = {
+  Type: type,
+  EnsureDefinitions: () => {},
+};
@@ -0,0 +1,74 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import { IEntityMetadata, EntityMetadataBase, IEntityMetadataBaseOptions } from '../../lib/entityMetadataProvider/entityMetadata';
+import { TeamDirectoryGroupEntity, EntityImplementation } from './teamDirectoryGroup';
+import { TeamDirectoryGroupFixedQueryAll } from '.';
+
+const thisProviderType = EntityImplementation.Type;
+
+export interface ITeamDirectoryGroupCreateOptions extends IEntityMetadataBaseOptions {
+}
+
+export interface ITeamDirectoryGroupProvider {
+  initialize(): Promise<void>;
+
+  getTeamDirectoryGroup(teamId: string): Promise<TeamDirectoryGroupEntity>;
+  createTeamDirectoryGroup(metadata: TeamDirectoryGroupEntity): Promise<string>;
+  updateTeamDirectoryGroup(metadata: TeamDirectoryGroupEntity): Promise<void>;
+  deleteTeamDirectoryGroup(metadata: TeamDirectoryGroupEntity): Promise<void>;
+  queryAllTeamDirectoryGroups(): Promise<TeamDirectoryGroupEntity[]>;
+}
+
+export class TeamDirectoryGroupProvider extends EntityMetadataBase implements ITeamDirectoryGroupProvider {
+  constructor(options: ITeamDirectoryGroupCreateOptions) {
+    super(options);
+    EntityImplementation.EnsureDefinitions();
+  }
+
+  async getTeamDirectoryGroup(teamId: string): Promise<TeamDirectoryGroupEntity> {
+    this.ensureHelpers(thisProviderType);
+    let metadata: IEntityMetadata = null;
+    if (this._entities.supportsPointQueryForType(thisProviderType)) {
+      metadata = await this._entities.getMetadata(thisProviderType, teamId);
+    } else {
+      throw new Error('fixed point queries are required as currently implemented');
+    }
+    if (!metadata) {
+      const error = new Error(`The team ${teamId} is not bound to a directory group`);
+      error['status'] = 404;
+      throw error;
+    }
+    return this.deserialize<TeamDirectoryGroupEntity>(thisProviderType, metadata);
+  }
+
+  async queryAllTeamDirectoryGroups(): Promise<TeamDirectoryGroupEntity[]> {
+    const query = new TeamDirectoryGroupFixedQueryAll();
+    const metadatas = await this._entities.fixedQueryMetadata(thisProviderType, query);
+    const results = this.deserializeArray<TeamDirectoryGroupEntity>(thisProviderType, metadatas);
+    return results;
+  }
+
+  async createTeamDirectoryGroup(metadata: TeamDirectoryGroupEntity): Promise<string> {
+    const entity = this.serialize(thisProviderType, metadata);
+    if (!this._entities.supportsPointQueryForType(thisProviderType)) {
+      throw new Error('fixed point queries are required as currently implemented');
+    }
+    await this._entities.setMetadata(entity);
+    return entity.entityId;
+  }
+
+  async updateTeamDirectoryGroup(metadata: TeamDirectoryGroupEntity): Promise<void> {
+    const entity = this.serialize(thisProviderType, metadata);
+    await this._entities.updateMetadata(entity);
+  }
+
+  async deleteTeamDirectoryGroup(metadata: TeamDirectoryGroupEntity): Promise<void> {
+    const entity = this.serialize(thisProviderType, metadata);
+    await this._entities.deleteMetadata(entity);
+  }
+}
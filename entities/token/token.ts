@@ -26,9 +26,11 @@ interface ITokenEntityProperties {
   created: any;
   description: any;
   expires: any;
+  lastUsed: any;
   source: any;
   organizationScopes: any;
   scopes: any;
+  usageCount: any;
 }
 
 const Field: ITokenEntityProperties = {
@@ -38,9 +40,11 @@ const Field: ITokenEntityProperties = {
   corporateId: 'corporateId',
   description: 'description',
   expires: 'expires',
+  lastUsed: 'lastUsed',
   source: 'source',
   organizationScopes: 'organizationScopes',
   scopes: 'scopes',
+  usageCount: 'usageCount',
 }
 
 const fieldNames = Object.getOwnPropertyNames(Field);
@@ -55,9 +59,11 @@ export class PersonalAccessToken implements IObjectWithDefinedKeys, ITokenEntity
   created: Date;
   description: string;
   expires: Date;
+  lastUsed: Date;
   source: string;
   organizationScopes: string;
   scopes: any;
+  usageCount: number;
 
   displayUsername?: string; // not a traditional field, just for VSTS
 
@@ -81,14 +87,23 @@ export class PersonalAccessToken implements IObjectWithDefinedKeys, ITokenEntity
     return pat;
   }
 
-  static CreateNewToken(): PersonalAccessToken {
+  static CreateNewToken(hashingKey: string): PersonalAccessToken {
     const pat = new PersonalAccessToken();
-    const { key,  token } = TokenGenerator.Generate();
+    const { key,  token } = TokenGenerator.Generate(hashingKey);
     pat.token = token;
     pat._key = key;
     return pat;
   }
 
+  static CreateRehashedToken(legacy: PersonalAccessToken, token: string): PersonalAccessToken {
+    const pat = new PersonalAccessToken();
+    for (const fieldName of fieldNames) {
+      pat[fieldName] = legacy[fieldName];
+    }
+    pat.token = token;
+    return pat;
+  }
+
   getObjectFieldNames(): string[] {
     return fieldNames;
   }
@@ -116,6 +131,14 @@ export class PersonalAccessToken implements IObjectWithDefinedKeys, ITokenEntity
     return (this.expires < now);
   }
 
+  expiresWithinDays(days: number): boolean {
+    if (!this.expires || this.isExpired()) {
+      return false;
+    }
+    const threshold = new Date(Date.now() + 1000 * 60 * 60 * 24 * days);
+    return this.expires < threshold;
+  }
+
   hasScope(scope: string) {
     if (!this.scopes) {
       return false;
@@ -149,10 +172,13 @@ EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableMapping, ne
   [Field.organizationScopes, 'orgs'],
   [Field.expires, 'expires'],
   [Field.scopes, 'apis'],
+  [Field.lastUsed, 'lastUsed'],
+  [Field.usageCount, 'usage'],
 ]));
 EntityMetadataMappings.Register(type, MetadataMappingDefinition.TablePossibleDateColumns, [
   Field.created,
   Field.expires,
+  Field.lastUsed,
 ]);
 EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableDefaultTableName, 'settings');
 EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableDefaultFixedPartitionKey, 'apiKey');
@@ -171,6 +197,8 @@ EntityMetadataMappings.Register(type, MetadataMappingDefinition.MemoryMapping, n
   [Field.organizationScopes, Field.organizationScopes],
   [Field.expires, Field.expires],
   [Field.scopes, Field.scopes],
+  [Field.lastUsed, Field.lastUsed],
+  [Field.usageCount, Field.usageCount],
 ]));
 EntityMetadataMappings.RuntimeValidateMappings(type, MetadataMappingDefinition.MemoryMapping, fieldNames, []);
 
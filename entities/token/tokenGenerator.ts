@@ -5,15 +5,55 @@
 
 import crypto from 'crypto';
 
+import { IProviders } from '../../transitional';
+
+// Keys issued by this app carry a recognizable prefix so that secret
+// scanners can identify a leaked key.
+export const PersonalAccessTokenPrefix = 'ospat_';
+
 export interface IGeneratedToken {
   key: string;
   token: string;
 }
 
 export class TokenGenerator {
-  public static Generate(): IGeneratedToken {
-    const key = crypto.randomBytes(32).toString('base64');
-    const token = crypto.createHash('sha1').update(key).digest('hex');
+  public static Generate(hashingKey: string): IGeneratedToken {
+    if (!hashingKey) {
+      throw new Error('A hashing key is required to generate a new token');
+    }
+    const key = PersonalAccessTokenPrefix + crypto.randomBytes(32).toString('hex');
+    const token = TokenGenerator.Hash(key, hashingKey);
     return { key, token };
   }
+
+  public static Hash(key: string, hashingKey: string): string {
+    return crypto.createHmac('sha256', hashingKey).update(key).digest('hex');
+  }
+
+  // Keys issued before prefixes were introduced are stored by their
+  // unsalted SHA-1 hash until first used after the upgrade.
+  public static LegacyHash(key: string): string {
+    return crypto.createHash('sha1').update(key).digest('hex');
+  }
+
+  public static IsPrefixedKey(key: string): boolean {
+    return key && key.startsWith(PersonalAccessTokenPrefix);
+  }
+}
+
+export async function GetTokenHashingKey(providers: IProviders): Promise<string> {
+  const config = providers.config;
+  const tokensConfig = config && config.api && config.api.tokens ? config.api.tokens : {};
+  if (tokensConfig.hashingKeyId) {
+    const keyResolver = providers.keyEncryptionKeyResolver;
+    if (!keyResolver) {
+      throw new Error('The token hashing key is stored in KeyVault but no key resolver is available');
+    }
+    return new Promise<string>((resolve, reject) => {
+      keyResolver(tokensConfig.hashingKeyId, (resolveError, secret) => {
+        return resolveError ? reject(resolveError) : resolve(secret);
+      });
+    });
+  }
+  return tokensConfig.hashingKey || null;
 }
@@ -22,6 +22,11 @@ export class TokenProvider extends EntityMetadataBase implements ITokenProvider
   async getToken(token: string): Promise<PersonalAccessToken> {
     this.ensureHelpers(thisProviderType);
     const metadata = await this._entities.getMetadata(thisProviderType, token);
+    if (!metadata) {
+      const error = new Error('The token was not found');
+      error['status'] = 404;
+      throw error;
+    }
     return this.deserialize<PersonalAccessToken>(thisProviderType, metadata);
   }
 
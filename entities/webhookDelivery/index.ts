@@ -0,0 +1,26 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import { IWebhookDeliveryProvider, IWebhookDeliveryCreateOptions, WebhookDeliveryProvider } from './webhookDeliveryProvider';
+import { FixedQueryType, IEntityMetadataFixedQuery } from '../../lib/entityMetadataProvider/query';
+import { WebhookDeliveryOutcome } from './webhookDelivery';
+
+export async function CreateWebhookDeliveryProviderInstance(options?: IWebhookDeliveryCreateOptions): Promise<IWebhookDeliveryProvider> {
+  const provider = new WebhookDeliveryProvider(options);
+  await provider.initialize();
+  return provider;
+}
+
+export class WebhookDeliveryFixedQueryAll implements IEntityMetadataFixedQuery {
+  public readonly fixedQueryType: FixedQueryType = FixedQueryType.WebhookDeliveriesGetAll;
+}
+
+export class WebhookDeliveryFixedQueryByOutcome implements IEntityMetadataFixedQuery {
+  public readonly fixedQueryType: FixedQueryType = FixedQueryType.WebhookDeliveriesGetByOutcome;
+  constructor(public outcome: WebhookDeliveryOutcome) {
+  }
+}
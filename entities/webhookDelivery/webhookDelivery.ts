@@ -0,0 +1,247 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import azure from 'azure-storage';
+
+import { EntityField} from '../../lib/entityMetadataProvider/entityMetadataProvider';
+import { EntityMetadataType, IEntityMetadata } from '../../lib/entityMetadataProvider/entityMetadata';
+import { IEntityMetadataFixedQuery, FixedQueryType } from '../../lib/entityMetadataProvider/query';
+import { EntityMetadataMappings, MetadataMappingDefinition } from '../../lib/entityMetadataProvider/declarations';
+import { WebhookDeliveryFixedQueryByOutcome } from '.';
+import { PostgresJsonEntityQuery, PostgresGetAllEntities } from '../../lib/entityMetadataProvider/postgres';
+
+const type = EntityMetadataType.WebhookDelivery;
+
+export enum WebhookDeliveryOutcome {
+  Processed = 'processed',
+  Failed = 'failed',
+  Skipped = 'skipped',
+}
+
+export interface IWebhookDeliveryTaskOutcome {
+  task: string;
+  succeeded: boolean;
+  error?: string;
+  completed: string; // Date UTC string
+}
+
+interface IWebhookDeliveryProperties {
+  event: any;
+  action: any;
+  organizationId: any;
+  organizationName: any;
+  received: any;
+  updated: any;
+  outcome: any;
+  attempts: any;
+  tasks: any;
+  error: any;
+  properties: any;
+  body: any;
+}
+
+const deliveryId = 'deliveryId';
+
+// Azure table string properties hold up to 32K characters, so the body is split
+const tableBodyChunkLength = 30000;
+
+const Field: IWebhookDeliveryProperties = {
+  event: 'event',
+  action: 'action',
+  organizationId: 'organizationId',
+  organizationName: 'organizationName',
+  received: 'received',
+  updated: 'updated',
+  outcome: 'outcome',
+  attempts: 'attempts',
+  tasks: 'tasks',
+  error: 'error',
+  properties: 'properties',
+  body: 'body',
+}
+
+const fieldNames = Object.getOwnPropertyNames(Field);
+
+export class WebhookDeliveryEntity implements IWebhookDeliveryProperties {
+  deliveryId: string;
+  event: string;
+  action: string;
+  organizationId: string;
+  organizationName: string;
+  received: Date;
+  updated: Date;
+  outcome: WebhookDeliveryOutcome;
+  attempts: number;
+  tasks: IWebhookDeliveryTaskOutcome[];
+  error: string;
+  properties: any;
+  body: any;
+
+  constructor() {
+    this.received = new Date();
+    this.attempts = 0;
+    this.tasks = [];
+  }
+
+  get failedTasks(): IWebhookDeliveryTaskOutcome[] {
+    return this.tasks.filter(task => !task.succeeded);
+  }
+}
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.EntityInstantiate, () => { return new WebhookDeliveryEntity(); });
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.EntityIdColumnName, deliveryId);
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.MemoryMapping, new Map<string, string>([
+  [Field.event, 'event'],
+  [Field.action, 'action'],
+  [Field.organizationId, 'orgid'],
+  [Field.organizationName, 'org'],
+  [Field.received, 'received'],
+  [Field.updated, 'updated'],
+  [Field.outcome, 'outcome'],
+  [Field.attempts, 'attempts'],
+  [Field.tasks, 'tasks'],
+  [Field.error, 'error'],
+  [Field.properties, 'properties'],
+  [Field.body, 'body'],
+]));
+EntityMetadataMappings.RuntimeValidateMappings(type, MetadataMappingDefinition.MemoryMapping, fieldNames, [deliveryId]);
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableMapping, new Map<string, string>([
+  [Field.event, 'event'],
+  [Field.action, 'action'],
+  [Field.organizationId, 'orgid'],
+  [Field.organizationName, 'org'],
+  [Field.received, 'received'],
+  [Field.updated, 'updated'],
+  [Field.outcome, 'outcome'],
+  [Field.attempts, 'attempts'],
+  [Field.tasks, 'tasks'],
+  [Field.error, 'error'],
+  [Field.properties, 'properties'],
+  [Field.body, 'body'],
+]));
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TablePossibleDateColumns, [
+  Field.received,
+  Field.updated,
+]);
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableDefaultTableName, 'webhookdeliveries');
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableDefaultFixedPartitionKey, 'webhookdelivery');
+EntityMetadataMappings.RuntimeValidateMappings(type, MetadataMappingDefinition.TableMapping, fieldNames, [deliveryId]);
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableSpecializedSerializationHelper, function tableWebhookDeliverySpecializedSerializer(entity: IEntityMetadata, object: WebhookDeliveryEntity) {
+  entity['tasks'] = JSON.stringify(object.tasks || []);
+  entity['properties'] = object.properties ? JSON.stringify(object.properties) : null;
+  delete entity['body'];
+  const body = object.body ? JSON.stringify(object.body) : '';
+  const chunks = Math.ceil(body.length / tableBodyChunkLength);
+  entity['bodyCount'] = chunks.toString();
+  for (let i = 0; i < chunks; i++) {
+    entity[`body${i}`] = body.substr(i * tableBodyChunkLength, tableBodyChunkLength);
+  }
+});
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableSpecializedDeserializationHelper, function tableWebhookDeliverySpecializedDeserializer(entity: IEntityMetadata, object: WebhookDeliveryEntity) {
+  object.tasks = entity['tasks'] ? JSON.parse(entity['tasks']) : [];
+  object.properties = entity['properties'] ? JSON.parse(entity['properties']) : null;
+  object.attempts = entity['attempts'] ? parseInt(entity['attempts'], 10) : 0;
+  const chunks = entity['bodyCount'] ? parseInt(entity['bodyCount'], 10) : 0;
+  let body = '';
+  for (let i = 0; i < chunks; i++) {
+    const chunk = entity[`body${i}`];
+    if (chunk === undefined) {
+      throw new Error(`Table row for id=${entity.entityId} defined a body in ${chunks} parts, but part ${i} is missing`);
+    }
+    body += chunk;
+  }
+  object.body = body ? JSON.parse(body) : null;
+});
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresDefaultTableName, 'webhookdeliveries');
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresDefaultTypeColumnName, 'webhookdelivery');
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresDateColumns, [Field.received, Field.updated]);
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresMapping, new Map<string, string>([
+  [Field.event, (Field.event as string).toLowerCase()],
+  [Field.action, (Field.action as string).toLowerCase()],
+  [Field.organizationId, (Field.organizationId as string).toLowerCase()],
+  [Field.organizationName, (Field.organizationName as string).toLowerCase()],
+  [Field.received, (Field.received as string).toLowerCase()],
+  [Field.updated, (Field.updated as string).toLowerCase()],
+  [Field.outcome, (Field.outcome as string).toLowerCase()],
+  [Field.attempts, (Field.attempts as string).toLowerCase()],
+  [Field.tasks, (Field.tasks as string).toLowerCase()],
+  [Field.error, (Field.error as string).toLowerCase()],
+  [Field.properties, (Field.properties as string).toLowerCase()],
+  [Field.body, (Field.body as string).toLowerCase()],
+]));
+EntityMetadataMappings.RuntimeValidateMappings(type, MetadataMappingDefinition.PostgresMapping, fieldNames, [deliveryId]);
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.TableQueries, (query: IEntityMetadataFixedQuery, fixedPartitionKey: string) => {
+  switch (query.fixedQueryType) {
+    case FixedQueryType.WebhookDeliveriesGetAll:
+      return new azure.TableQuery()
+        .where('PartitionKey eq ?', fixedPartitionKey);
+    case FixedQueryType.WebhookDeliveriesGetByOutcome: {
+      const { outcome } = query as WebhookDeliveryFixedQueryByOutcome;
+      if (!outcome) {
+        throw new Error('outcome required');
+      }
+      return new azure.TableQuery()
+        .where('PartitionKey eq ?', fixedPartitionKey)
+        .and('outcome eq ?string?', outcome);
+    }
+    default:
+      throw new Error(`The fixed query type "${query.fixedQueryType}" is not implemented by this provider for the type ${type}, or is of an unknown type`);
+  }
+});
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.PostgresQueries, (query: IEntityMetadataFixedQuery, mapMetadataPropertiesToFields: string[], metadataColumnName: string, tableName: string, getEntityTypeColumnValue) => {
+  const entityTypeColumn = mapMetadataPropertiesToFields[EntityField.Type];
+  const entityTypeValue = getEntityTypeColumnValue(type);
+  switch (query.fixedQueryType) {
+    case FixedQueryType.WebhookDeliveriesGetAll: {
+      return PostgresGetAllEntities(tableName, entityTypeColumn, entityTypeValue);
+    }
+    case FixedQueryType.WebhookDeliveriesGetByOutcome: {
+      const { outcome } = query as WebhookDeliveryFixedQueryByOutcome;
+      if (!outcome) {
+        throw new Error('outcome required');
+      }
+      return PostgresJsonEntityQuery(tableName, entityTypeColumn, entityTypeValue, metadataColumnName, {
+        outcome,
+      });
+    }
+    default:
+      throw new Error(`The fixed query type "${query.fixedQueryType}" is not implemented by this provider for the type ${type}, or is of an unknown type`);
+  }
+});
+
+EntityMetadataMappings.Register(type, MetadataMappingDefinition.MemoryQueries, (query: IEntityMetadataFixedQuery, allInTypeBin: IEntityMetadata[]) => {
+  switch (query.fixedQueryType) {
+    case FixedQueryType.WebhookDeliveriesGetAll:
+      return allInTypeBin;
+    case FixedQueryType.WebhookDeliveriesGetByOutcome:
+      const { outcome } = query as WebhookDeliveryFixedQueryByOutcome;
+      if (!outcome) {
+        throw new Error('outcome required');
+      }
+      return allInTypeBin.filter(entity => entity['outcome'] === outcome);
+    default:
+      throw new Error(`The fixed query type "${query.fixedQueryType}" is not implemented by this provider for the type ${type}, or is of an unknown type`);
+  }
+});
+
+// Runtime validation of FieldNames
+for (let i = 0; i < fieldNames.length; i++) {
+  const fn = fieldNames[i];
+  if (Field[fn] !== fn) {
+    throw new Error(`Field name ${fn} and value do not match in ${__filename}`);
+  }
+}
+
+export const EntityImplementation = {
+  Type: type,
+  EnsureDefinitions: () => {},
+};
@@ -0,0 +1,83 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import { IEntityMetadata, EntityMetadataBase, IEntityMetadataBaseOptions } from '../../lib/entityMetadataProvider/entityMetadata';
+import { WebhookDeliveryEntity, WebhookDeliveryOutcome } from './webhookDelivery';
+import { WebhookDeliveryFixedQueryAll, WebhookDeliveryFixedQueryByOutcome } from '.';
+import { EntityImplementation } from './webhookDelivery';
+
+const thisProviderType = EntityImplementation.Type;
+
+export interface IWebhookDeliveryCreateOptions extends IEntityMetadataBaseOptions {
+}
+
+export interface IWebhookDeliveryProvider {
+  initialize(): Promise<void>;
+
+  getDelivery(deliveryId: string): Promise<WebhookDeliveryEntity>;
+  createDelivery(metadata: WebhookDeliveryEntity): Promise<string>;
+  updateDelivery(metadata: WebhookDeliveryEntity): Promise<void>;
+  deleteDelivery(metadata: WebhookDeliveryEntity): Promise<void>;
+  queryAllDeliveries(): Promise<WebhookDeliveryEntity[]>;
+  queryDeliveriesByOutcome(outcome: WebhookDeliveryOutcome): Promise<WebhookDeliveryEntity[]>;
+}
+
+export class WebhookDeliveryProvider extends EntityMetadataBase implements IWebhookDeliveryProvider {
+  constructor(options: IWebhookDeliveryCreateOptions) {
+    super(options);
+    EntityImplementation.EnsureDefinitions();
+  }
+
+  async getDelivery(deliveryId: string): Promise<WebhookDeliveryEntity> {
+    this.ensureHelpers(thisProviderType);
+    let metadata: IEntityMetadata = null;
+    if (this._entities.supportsPointQueryForType(thisProviderType)) {
+      metadata = await this._entities.getMetadata(thisProviderType, deliveryId);
+    } else {
+      throw new Error('fixed point queries are required as currently implemented');
+    }
+    if (!metadata) {
+      const error = new Error(`No webhook delivery ${deliveryId} has been recorded`);
+      error['status'] = 404;
+      throw error;
+    }
+    return this.deserialize<WebhookDeliveryEntity>(thisProviderType, metadata);
+  }
+
+  async queryAllDeliveries(): Promise<WebhookDeliveryEntity[]> {
+    const query = new WebhookDeliveryFixedQueryAll();
+    const metadatas = await this._entities.fixedQueryMetadata(thisProviderType, query);
+    const results = this.deserializeArray<WebhookDeliveryEntity>(thisProviderType, metadatas);
+    return results;
+  }
+
+  async queryDeliveriesByOutcome(outcome: WebhookDeliveryOutcome): Promise<WebhookDeliveryEntity[]> {
+    const query = new WebhookDeliveryFixedQueryByOutcome(outcome);
+    const metadatas = await this._entities.fixedQueryMetadata(thisProviderType, query);
+    const results = this.deserializeArray<WebhookDeliveryEntity>(thisProviderType, metadatas);
+    return results;
+  }
+
+  async createDelivery(metadata: WebhookDeliveryEntity): Promise<string> {
+    const entity = this.serialize(thisProviderType, metadata);
+    if (!this._entities.supportsPointQueryForType(thisProviderType)) {
+      throw new Error('fixed point queries are required as currently implemented');
+    }
+    await this._entities.setMetadata(entity);
+    return entity.entityId;
+  }
+
+  async updateDelivery(metadata: WebhookDeliveryEntity): Promise<void> {
+    const entity = this.serialize(thisProviderType, metadata);
+    await this._entities.updateMetadata(entity);
+  }
+
+  async deleteDelivery(metadata: WebhookDeliveryEntity): Promise<void> {
+    const entity = this.serialize(thisProviderType, metadata);
+    await this._entities.deleteMetadata(entity);
+  }
+}
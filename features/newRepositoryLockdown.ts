@@ -13,6 +13,7 @@ import { IRepositoryMetadataProvider } from '../entities/repositoryMetadata/repo
 import { RepositoryMetadataEntity } from '../entities/repositoryMetadata/repositoryMetadata';
 
 const botBracket = '[bot]';
+const userAccountPrefix = 'user:';
 
 interface IMailToLockdownRepo {
   username: string;
@@ -24,6 +25,35 @@ interface IMailToLockdownRepo {
   link?: ICorporateLink;
 }
 
+// Permitted entries are GitHub App slugs, matching only the app's "slug[bot]"
+// account, complete bot logins, or user accounts listed explicitly as "user:login".
+// GitHub App actors always carry the bot suffix, so a user whose login equals a
+// permitted slug is not permitted.
+export function IsPermittedLockdownBot(permittedBots: string[], username: string): boolean {
+  const lowercaseUsername = username.toLowerCase();
+  for (const permitted of permittedBots || []) {
+    const entry = permitted.trim().toLowerCase();
+    if (!entry) {
+      continue;
+    }
+    if (entry.startsWith(userAccountPrefix)) {
+      if (lowercaseUsername === entry.substr(userAccountPrefix.length)) {
+        return true;
+      }
+    } else if (lowercaseUsername === (entry.endsWith(botBracket) ? entry : `${entry}${botBracket}`)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// The portal creates repositories through its own GitHub Apps, so their bot
+// accounts are always permitted in addition to the organization's list
+export function GetPermittedLockdownBots(operations: Operations, organization: Organization): string[] {
+  const appSlugs = operations.getApplications().map(app => app.slug).filter(slug => slug);
+  return organization.newRepositoryLockdownPermittedBots.concat(appSlugs);
+}
+
 export interface INewRepositoryLockdownSystemOptions {
   operations: Operations;
   organization: Organization;
@@ -63,11 +93,14 @@ export default class NewRepositoryLockdownSystem {
     }
     lockdownLog.push(`Confirmed that the ${this.organization.name} organization has opted in to the new repository lockdown system`);
     const lowercaseUsername = username.toLowerCase();
-    // any repository created by a bot *is ok* and will not be locked down. If this is an issue, having an approved list of permitted bots to create repos would be one way to approach this loophole. Non-bot users cannot have brackets in their names.
-    if (lowercaseUsername.includes(botBracket)) {
+    // only the portal's GitHub Apps and the bots permitted by the organization may create repositories
+    // without lockdown; any other bot is treated the same as a user. Non-bot users cannot have brackets in their names.
+    if (IsPermittedLockdownBot(GetPermittedLockdownBots(this.operations, this.organization), lowercaseUsername)) {
       return false;
     }
-    lockdownLog.push('Confirmed that the repository was not created by a bot');
+    lockdownLog.push(lowercaseUsername.includes(botBracket) ?
+      `The repository was created by ${username}, a bot not permitted by the organization to bypass the lockdown` :
+      'Confirmed that the repository was not created by a bot');
     // a repository created by one of the operations accounts in the allowed list is OK and will not be locked down
     const systemAccounts = new Set(this.operations.systemAccountsByUsername.map(username => username.toLowerCase()));
     if (systemAccounts.has(lowercaseUsername)) {
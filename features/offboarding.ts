@@ -0,0 +1,71 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+import { ICorporateLink } from '../business/corporateLink';
+
+// The offboarding job (jobs/offboarding) looks up every linked employee in the
+// corporate directory. A link whose employee is not found is tracked in Redis;
+// once the employee has not been found on enough consecutive runs, across the
+// whole grace period, the departure is confirmed and the link is terminated.
+// Being found again clears the tracking.
+
+export const RedisPrefixDirectoryNotFound = 'offboarding:notfound:';
+export const RedisKeyOffboardingLog = 'offboarding:log';
+
+export interface IOffboardingOptions {
+  gracePeriodDays: number;
+  minimumNotFoundCount: number;
+}
+
+export interface IDirectoryNotFoundState {
+  corporateId: string;
+  thirdPartyId: string;
+  thirdPartyUsername: string;
+  firstNotFound: string;
+  lastNotFound: string;
+  notFoundCount: number;
+}
+
+export interface IOffboardingLogEntry {
+  corporateId: string;
+  corporateUsername: string;
+  thirdPartyId: string;
+  thirdPartyUsername: string;
+  firstNotFound: string;
+  notFoundCount: number;
+  managerMail?: string;
+  history: string[];
+  error?: string;
+}
+
+export interface IOffboardingLog {
+  started: string;
+  finished: string;
+  dryRun: boolean;
+  linksChecked: number;
+  pendingDepartures: number;
+  halted?: string;
+  departures: IOffboardingLogEntry[];
+}
+
+export function RecordDirectoryNotFound(previous: IDirectoryNotFoundState, link: ICorporateLink, now: Date): IDirectoryNotFoundState {
+  const timestamp = now.toISOString();
+  return {
+    corporateId: link.corporateId,
+    thirdPartyId: link.thirdPartyId,
+    thirdPartyUsername: link.thirdPartyUsername,
+    firstNotFound: previous ? previous.firstNotFound : timestamp,
+    lastNotFound: timestamp,
+    notFoundCount: previous ? previous.notFoundCount + 1 : 1,
+  };
+}
+
+export function IsDepartureConfirmed(state: IDirectoryNotFoundState, options: IOffboardingOptions, now: Date): boolean {
+  if (!state || state.notFoundCount < options.minimumNotFoundCount) {
+    return false;
+  }
+  const gracePeriodEnds = new Date(state.firstNotFound).getTime() + options.gracePeriodDays * 24 * 60 * 60 * 1000;
+  return now.getTime() >= gracePeriodEnds;
+}
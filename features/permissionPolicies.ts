@@ -0,0 +1,243 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+import { Organization } from '../business/organization';
+
+// Permission policies are declared per organization in the organization settings
+// properties, under the "permissionPolicies" key, as an array of rules:
+//
+// [
+//   { "type": "teamSize", "permission": "admin", "limit": 250, "action": "revert" },
+//   { "type": "broadAccessTeams", "permission": "push", "action": "revert" },
+//   { "type": "forbiddenAdminTeamName", "pattern": "^everyone", "action": "warn" },
+//   { "type": "outsideCollaboratorAdministrators", "maximum": 2, "action": "log" }
+// ]
+//
+// Organizations without any declared policies that have the legacy
+// preventLargeTeamPermissions feature flag receive the default policies.
+
+export const PermissionPoliciesPropertyName = 'permissionPolicies';
+
+const defaultLargeAdminTeamSize = 250;
+
+export enum PermissionPolicyType {
+  TeamSize = 'teamSize',
+  BroadAccessTeams = 'broadAccessTeams',
+  ForbiddenAdminTeamName = 'forbiddenAdminTeamName',
+  OutsideCollaboratorAdministrators = 'outsideCollaboratorAdministrators',
+}
+
+export enum PermissionPolicyAction {
+  Revert = 'revert',
+  WarnByMail = 'warn',
+  LogOnly = 'log',
+}
+
+export enum PermissionPolicyLevel {
+  Push = 'push',
+  Admin = 'admin',
+}
+
+export interface IPermissionPolicyRule {
+  type: PermissionPolicyType;
+  action: PermissionPolicyAction;
+  permission?: PermissionPolicyLevel; // teamSize and broadAccessTeams: the lowest level the rule applies to
+  limit?: number; // teamSize: teams with this many members or more are in violation
+  pattern?: string; // forbiddenAdminTeamName: case-insensitive regular expression
+  maximum?: number; // outsideCollaboratorAdministrators
+}
+
+export interface IPermissionPolicyViolation {
+  rule: IPermissionPolicyRule;
+  reason: string;
+}
+
+export interface IRepositoryPermissions {
+  admin?: boolean;
+  push?: boolean;
+  pull?: boolean;
+}
+
+export interface ITeamPermissionPolicyContext {
+  teamId: number;
+  teamName: string;
+  permissions: IRepositoryPermissions;
+  broadAccessTeams: number[];
+  getTeamSize: () => Promise<number>;
+}
+
+export interface ICollaboratorPermissionPolicyContext {
+  permissions: IRepositoryPermissions;
+  getOutsideAdministratorCount: () => Promise<number>;
+}
+
+export function GetDefaultPermissionPolicies(): IPermissionPolicyRule[] {
+  return [
+    {
+      type: PermissionPolicyType.BroadAccessTeams,
+      permission: PermissionPolicyLevel.Push,
+      action: PermissionPolicyAction.Revert,
+    },
+    {
+      type: PermissionPolicyType.TeamSize,
+      permission: PermissionPolicyLevel.Admin,
+      limit: defaultLargeAdminTeamSize,
+      action: PermissionPolicyAction.Revert,
+    },
+  ];
+}
+
+export function GetOrganizationPermissionPolicies(organization: Organization): IPermissionPolicyRule[] {
+  const declared = organization.permissionPolicies;
+  if (declared) {
+    return ParsePermissionPolicies(declared, organization.name);
+  }
+  return organization.preventLargeTeamPermissions ? GetDefaultPermissionPolicies() : [];
+}
+
+export function ParsePermissionPolicies(declared: any, organizationName?: string): IPermissionPolicyRule[] {
+  const where = organizationName ? ` for the ${organizationName} organization` : '';
+  if (typeof(declared) === 'string') {
+    declared = JSON.parse(declared);
+  }
+  if (!Array.isArray(declared)) {
+    throw new Error(`The permission policies${where} must be an array of rules`);
+  }
+  const validTypes = Object.values(PermissionPolicyType) as string[];
+  const validActions = Object.values(PermissionPolicyAction) as string[];
+  const validLevels = Object.values(PermissionPolicyLevel) as string[];
+  return declared.map((rule: IPermissionPolicyRule, index: number) => {
+    if (!rule || !validTypes.includes(rule.type)) {
+      throw new Error(`Permission policy rule ${index}${where} has an unsupported type: ${rule ? rule.type : rule}`);
+    }
+    if (!validActions.includes(rule.action)) {
+      throw new Error(`Permission policy rule ${index}${where} has an unsupported action: ${rule.action}`);
+    }
+    if (rule.permission && !validLevels.includes(rule.permission)) {
+      throw new Error(`Permission policy rule ${index}${where} has an unsupported permission: ${rule.permission}`);
+    }
+    if (rule.type === PermissionPolicyType.TeamSize && typeof(rule.limit) !== 'number') {
+      throw new Error(`Permission policy rule ${index}${where} requires a numeric limit`);
+    }
+    if (rule.type === PermissionPolicyType.ForbiddenAdminTeamName) {
+      if (!rule.pattern) {
+        throw new Error(`Permission policy rule ${index}${where} requires a pattern`);
+      }
+      new RegExp(rule.pattern, 'i'); // throws for invalid patterns
+    }
+    if (rule.type === PermissionPolicyType.OutsideCollaboratorAdministrators && typeof(rule.maximum) !== 'number') {
+      throw new Error(`Permission policy rule ${index}${where} requires a numeric maximum`);
+    }
+    return rule;
+  });
+}
+
+export async function EvaluateTeamPermissionPolicies(rules: IPermissionPolicyRule[], context: ITeamPermissionPolicyContext): Promise<IPermissionPolicyViolation[]> {
+  const violations: IPermissionPolicyViolation[] = [];
+  let teamSize: number = undefined;
+  for (const rule of rules) {
+    if (rule.type === PermissionPolicyType.BroadAccessTeams) {
+      const isBroadAccessTeam = context.broadAccessTeams && context.broadAccessTeams.includes(context.teamId);
+      if (isBroadAccessTeam && hasPermission(context.permissions, rule.permission || PermissionPolicyLevel.Push)) {
+        violations.push({
+          rule,
+          reason: `The team is a very broad access team and does not allow ${describeLevel(rule.permission || PermissionPolicyLevel.Push)} access to prevent widespread escalation of privileges and spamming thousands of people`,
+        });
+      }
+    } else if (rule.type === PermissionPolicyType.TeamSize) {
+      const level = rule.permission || PermissionPolicyLevel.Admin;
+      if (hasPermission(context.permissions, level)) {
+        if (teamSize === undefined) {
+          teamSize = await context.getTeamSize();
+        }
+        if (teamSize >= rule.limit) {
+          violations.push({
+            rule,
+            reason: `The team has ${teamSize} members which surpasses the ${rule.limit} member limit for ${describeLevel(level)} access`,
+          });
+        }
+      }
+    } else if (rule.type === PermissionPolicyType.ForbiddenAdminTeamName) {
+      if (context.permissions.admin && context.teamName && new RegExp(rule.pattern, 'i').test(context.teamName)) {
+        violations.push({
+          rule,
+          reason: `Teams with names matching ${rule.pattern} cannot be granted admin access`,
+        });
+      }
+    }
+  }
+  return violations;
+}
+
+export async function EvaluateCollaboratorPermissionPolicies(rules: IPermissionPolicyRule[], context: ICollaboratorPermissionPolicyContext): Promise<IPermissionPolicyViolation[]> {
+  const violations: IPermissionPolicyViolation[] = [];
+  for (const rule of rules) {
+    if (rule.type === PermissionPolicyType.OutsideCollaboratorAdministrators && context.permissions.admin) {
+      const count = await context.getOutsideAdministratorCount();
+      if (count > rule.maximum) {
+        violations.push({
+          rule,
+          reason: `The repository has ${count} outside collaborators with admin access which surpasses the maximum of ${rule.maximum}`,
+        });
+      }
+    }
+  }
+  return violations;
+}
+
+export interface IRequestedTeamPermission {
+  permission: string;
+  violations: IPermissionPolicyViolation[];
+}
+
+// Team permissions granted through the API follow the governance of repository
+// creation: broad access teams are downgraded from admin to read access, then
+// the permission policies of the organization are evaluated.
+export async function GovernRequestedTeamPermission(organization: Organization, teamId: number, permission: string): Promise<IRequestedTeamPermission> {
+  const broadAccessTeams = organization.broadAccessTeams;
+  if (permission === 'admin' && broadAccessTeams && broadAccessTeams.includes(teamId)) {
+    permission = 'pull';
+  }
+  const policies = GetOrganizationPermissionPolicies(organization);
+  if (!policies.length) {
+    return { permission, violations: [] };
+  }
+  const team = organization.team(teamId);
+  await team.getDetails();
+  const violations = await EvaluateTeamPermissionPolicies(policies, {
+    teamId,
+    teamName: team.name,
+    permissions: {
+      admin: permission === 'admin',
+      push: permission === 'admin' || permission === 'push',
+      pull: true,
+    },
+    broadAccessTeams,
+    getTeamSize: async () => team.members_count || 0,
+  });
+  return { permission, violations };
+}
+
+// Revert takes precedence over mail, which takes precedence over logging
+export function GetMostSevereAction(violations: IPermissionPolicyViolation[]): PermissionPolicyAction {
+  const actions = violations.map(violation => violation.rule.action);
+  for (const action of [PermissionPolicyAction.Revert, PermissionPolicyAction.WarnByMail, PermissionPolicyAction.LogOnly]) {
+    if (actions.includes(action)) {
+      return action;
+    }
+  }
+  return null;
+}
+
+function hasPermission(permissions: IRepositoryPermissions, level: PermissionPolicyLevel): boolean {
+  if (!permissions) {
+    return false;
+  }
+  return level === PermissionPolicyLevel.Admin ? !!permissions.admin : !!(permissions.admin || permissions.push);
+}
+
+function describeLevel(level: PermissionPolicyLevel): string {
+  return level === PermissionPolicyLevel.Admin ? 'admin' : 'push (write) or admin';
+}
@@ -0,0 +1,159 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+import _ from 'lodash';
+
+import { Organization } from '../business/organization';
+import { IRepositoryTemplate } from './repositoryTemplates';
+
+// The repository baseline is applied to new repositories by the repository
+// create workflow. It is declared per organization in the organization
+// settings properties, under the "repositoryBaseline" key, and per template
+// as the "baseline" of a template definition:
+//
+// {
+//   "branchProtection": {
+//     "requiredStatusChecks": ["build"],
+//     "strictStatusChecks": true,
+//     "requiredApprovingReviewCount": 1,
+//     "dismissStaleReviews": true,
+//     "requireCodeOwnerReviews": false,
+//     "enforceAdmins": false
+//   },
+//   "mergeMethods": ["squash", "merge"],
+//   "deleteBranchOnMerge": true,
+//   "topics": ["contoso"],
+//   "privateProjectTypes": ["sample"]
+// }
+//
+// Template values take precedence over the organization values, except for
+// topics and required status checks, which are combined. Topics of the
+// template itself are added as well. Repositories of the private project
+// types must not be public; the baseline drift job reports them.
+
+export const RepositoryBaselinePropertyName = 'repositoryBaseline';
+
+export enum RepositoryMergeMethod {
+  Merge = 'merge',
+  Squash = 'squash',
+  Rebase = 'rebase',
+}
+
+export interface IRepositoryBranchRestrictions {
+  users: string[]; // logins
+  teams: string[]; // slugs
+  apps?: string[]; // slugs, push restrictions only
+}
+
+export interface IRepositoryBranchProtectionBaseline {
+  requiredStatusChecks?: string[];
+  strictStatusChecks?: boolean;
+  requiredApprovingReviewCount?: number;
+  dismissStaleReviews?: boolean;
+  requireCodeOwnerReviews?: boolean;
+  enforceAdmins?: boolean;
+  // Not declared by a baseline; kept from the current protection of a branch when it is remediated
+  pushRestrictions?: IRepositoryBranchRestrictions;
+  dismissalRestrictions?: IRepositoryBranchRestrictions;
+}
+
+export interface IRepositoryBaseline {
+  branchProtection?: IRepositoryBranchProtectionBaseline;
+  mergeMethods?: RepositoryMergeMethod[];
+  deleteBranchOnMerge?: boolean;
+  topics?: string[];
+  privateProjectTypes?: string[];
+}
+
+// GitHub topics are lowercase letters, digits and hyphens, starting with a letter or digit
+const topicPattern = /^[a-z0-9][a-z0-9-]{0,49}$/;
+
+export function IsValidRepositoryTopic(topic: string): boolean {
+  return typeof(topic) === 'string' && topicPattern.test(topic);
+}
+
+export function ParseRepositoryBaseline(declared: any, where?: string): IRepositoryBaseline {
+  where = where ? ` ${where}` : '';
+  if (typeof(declared) === 'string') {
+    declared = JSON.parse(declared);
+  }
+  if (!declared || typeof(declared) !== 'object' || Array.isArray(declared)) {
+    throw new Error(`The repository baseline${where} must be an object`);
+  }
+  const baseline = declared as IRepositoryBaseline;
+  if (baseline.mergeMethods !== undefined) {
+    const validMethods = Object.values(RepositoryMergeMethod) as string[];
+    if (!Array.isArray(baseline.mergeMethods) || !baseline.mergeMethods.length) {
+      throw new Error(`The repository baseline${where} requires at least one merge method`);
+    }
+    const invalidMethod = baseline.mergeMethods.find(method => !validMethods.includes(method));
+    if (invalidMethod) {
+      throw new Error(`The repository baseline${where} has an unsupported merge method: ${invalidMethod}`);
+    }
+  }
+  if (baseline.deleteBranchOnMerge !== undefined && typeof(baseline.deleteBranchOnMerge) !== 'boolean') {
+    throw new Error(`The repository baseline${where} requires deleteBranchOnMerge to be true or false`);
+  }
+  if (baseline.topics !== undefined) {
+    if (!Array.isArray(baseline.topics)) {
+      throw new Error(`The repository baseline${where} requires an array of topics`);
+    }
+    const invalidTopic = baseline.topics.find(topic => !IsValidRepositoryTopic(topic));
+    if (invalidTopic !== undefined) {
+      throw new Error(`The repository baseline${where} has an invalid topic: ${invalidTopic}`);
+    }
+  }
+  if (baseline.privateProjectTypes !== undefined && (!Array.isArray(baseline.privateProjectTypes) || baseline.privateProjectTypes.some(type => typeof(type) !== 'string'))) {
+    throw new Error(`The repository baseline${where} requires an array of private project types`);
+  }
+  const protection = baseline.branchProtection;
+  if (protection !== undefined) {
+    if (!protection || typeof(protection) !== 'object') {
+      throw new Error(`The repository baseline${where} requires branchProtection to be an object`);
+    }
+    if (protection.requiredStatusChecks !== undefined && (!Array.isArray(protection.requiredStatusChecks) || protection.requiredStatusChecks.some(check => typeof(check) !== 'string'))) {
+      throw new Error(`The repository baseline${where} requires an array of required status check names`);
+    }
+    const reviewCount = protection.requiredApprovingReviewCount;
+    if (reviewCount !== undefined && (!Number.isInteger(reviewCount) || reviewCount < 1 || reviewCount > 6)) {
+      throw new Error(`The repository baseline${where} requires between 1 and 6 approving reviews`);
+    }
+  }
+  return baseline;
+}
+
+export function GetOrganizationRepositoryBaseline(organization: Organization): IRepositoryBaseline {
+  const declared = organization.repositoryBaseline;
+  return declared ? ParseRepositoryBaseline(declared, `for the ${organization.name} organization`) : {};
+}
+
+// Combines the organization baseline with the baseline and topics of the template
+export function GetRepositoryBaseline(organization: Organization, template: IRepositoryTemplate): IRepositoryBaseline {
+  const organizationBaseline = GetOrganizationRepositoryBaseline(organization);
+  const templateBaseline = template && template.baseline ? ParseRepositoryBaseline(template.baseline, `of the ${template.id} template`) : {};
+  const baseline: IRepositoryBaseline = Object.assign({}, organizationBaseline, templateBaseline);
+  const topics = _.uniq([
+    ...(organizationBaseline.topics || []),
+    ...(templateBaseline.topics || []),
+    ...(template && template.topics ? template.topics : []),
+  ]);
+  if (topics.length) {
+    baseline.topics = topics;
+  }
+  if (organizationBaseline.branchProtection || templateBaseline.branchProtection) {
+    const organizationProtection = organizationBaseline.branchProtection || {};
+    const templateProtection = templateBaseline.branchProtection || {};
+    baseline.branchProtection = Object.assign({}, organizationProtection, templateProtection);
+    const checks = _.uniq([...(organizationProtection.requiredStatusChecks || []), ...(templateProtection.requiredStatusChecks || [])]);
+    if (checks.length) {
+      baseline.branchProtection.requiredStatusChecks = checks;
+    }
+  }
+  return baseline;
+}
+
+export function IsRepositoryBaselineEmpty(baseline: IRepositoryBaseline): boolean {
+  return !baseline || (!baseline.branchProtection && !baseline.mergeMethods && baseline.deleteBranchOnMerge === undefined && !(baseline.topics && baseline.topics.length));
+}
@@ -0,0 +1,157 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+import _ from 'lodash';
+
+import { GitHubRepositoryPermission } from '../entities/repositoryMetadata/repositoryMetadata';
+import { IRepositoryBaseline, IRepositoryBranchProtectionBaseline, IRepositoryBranchRestrictions } from './repositoryBaseline';
+
+// The baseline drift job (jobs/baselineDrift) compares existing repositories
+// with the current baseline of their organization and template, and stores a
+// drift report in Redis for the reports job (jobs/reports) to include in the
+// digests. Only settings that are weaker than the baseline are drift; stricter
+// settings are left alone.
+
+export const RedisKeyRepositoryBaselineDriftReport = 'repositoryBaselineDrift:report';
+
+export enum RepositoryBaselineDriftType {
+  BranchProtection = 'branchProtection',
+  RequiredTeam = 'requiredTeam',
+  PublicVisibility = 'publicVisibility',
+}
+
+export interface IRepositoryBaselineDrift {
+  type: RepositoryBaselineDriftType;
+  message: string;
+  teamId?: number;
+  permission?: GitHubRepositoryPermission;
+  remediated?: boolean;
+  remediationError?: string;
+}
+
+export interface IRepositoryBaselineDriftEntry {
+  organizationName: string;
+  repositoryName: string;
+  repositoryId: number;
+  projectType?: string;
+  drift: IRepositoryBaselineDrift[];
+}
+
+export interface IRepositoryBaselineDriftReport {
+  started: string;
+  finished: string;
+  remediate: boolean;
+  repositoriesChecked: number;
+  repositories: IRepositoryBaselineDriftEntry[];
+}
+
+const permissionRanks = [
+  GitHubRepositoryPermission.Pull,
+  GitHubRepositoryPermission.Push,
+  GitHubRepositoryPermission.Admin,
+];
+
+function isAtLeastPermission(value: string, expected: string): boolean {
+  return permissionRanks.indexOf(value as GitHubRepositoryPermission) >= permissionRanks.indexOf(expected as GitHubRepositoryPermission);
+}
+
+// Compares the baseline with a branch protection response from GitHub, or null
+// when the branch is not protected.
+export function FindBranchProtectionDrift(expected: IRepositoryBranchProtectionBaseline, protection: any): string[] {
+  if (!expected) {
+    return [];
+  }
+  if (!protection) {
+    return ['The default branch is not protected'];
+  }
+  const problems = [];
+  const statusChecks = protection.required_status_checks;
+  const contexts: string[] = statusChecks && statusChecks.contexts ? statusChecks.contexts : [];
+  const missingChecks = (expected.requiredStatusChecks || []).filter(check => !contexts.includes(check));
+  if (missingChecks.length) {
+    problems.push(`Missing required status checks: ${missingChecks.join(', ')}`);
+  }
+  if (expected.strictStatusChecks && !(statusChecks && statusChecks.strict)) {
+    problems.push('Branches are not required to be up to date before merging');
+  }
+  const reviews = protection.required_pull_request_reviews;
+  const reviewCount = reviews ? reviews.required_approving_review_count || 0 : 0;
+  if (expected.requiredApprovingReviewCount && reviewCount < expected.requiredApprovingReviewCount) {
+    problems.push(`Requires ${reviewCount} approving reviews instead of ${expected.requiredApprovingReviewCount}`);
+  }
+  if (expected.dismissStaleReviews && !(reviews && reviews.dismiss_stale_reviews)) {
+    problems.push('Stale reviews are not dismissed');
+  }
+  if (expected.requireCodeOwnerReviews && !(reviews && reviews.require_code_owner_reviews)) {
+    problems.push('Code owner reviews are not required');
+  }
+  if (expected.enforceAdmins && !(protection.enforce_admins && protection.enforce_admins.enabled)) {
+    problems.push('The protection is not enforced for administrators');
+  }
+  return problems;
+}
+
+// Combines the current branch protection with the baseline, keeping any
+// stricter current settings, for remediation.
+export function MergeBranchProtection(expected: IRepositoryBranchProtectionBaseline, protection: any): IRepositoryBranchProtectionBaseline {
+  const statusChecks = protection ? protection.required_status_checks : null;
+  const reviews = protection ? protection.required_pull_request_reviews : null;
+  const contexts = _.uniq([...(statusChecks && statusChecks.contexts ? statusChecks.contexts : []), ...(expected.requiredStatusChecks || [])]);
+  const reviewCount = Math.max(reviews ? reviews.required_approving_review_count || 0 : 0, expected.requiredApprovingReviewCount || 0);
+  return {
+    requiredStatusChecks: contexts.length || statusChecks ? contexts : undefined,
+    strictStatusChecks: !!expected.strictStatusChecks || !!(statusChecks && statusChecks.strict),
+    requiredApprovingReviewCount: reviewCount || undefined,
+    dismissStaleReviews: !!expected.dismissStaleReviews || !!(reviews && reviews.dismiss_stale_reviews),
+    requireCodeOwnerReviews: !!expected.requireCodeOwnerReviews || !!(reviews && reviews.require_code_owner_reviews),
+    enforceAdmins: !!expected.enforceAdmins || !!(protection && protection.enforce_admins && protection.enforce_admins.enabled),
+    pushRestrictions: getBranchRestrictions(protection ? protection.restrictions : null, true),
+    dismissalRestrictions: getBranchRestrictions(reviews ? reviews.dismissal_restrictions : null, false),
+  };
+}
+
+function getBranchRestrictions(restrictions: any, includeApps: boolean): IRepositoryBranchRestrictions {
+  if (!restrictions) {
+    return undefined;
+  }
+  const branchRestrictions: IRepositoryBranchRestrictions = {
+    users: (restrictions.users || []).map(user => user.login),
+    teams: (restrictions.teams || []).map(team => team.slug),
+  };
+  if (includeApps) {
+    branchRestrictions.apps = (restrictions.apps || []).map(app => app.slug);
+  }
+  return branchRestrictions;
+}
+
+// Compares the special team permissions of the organization with the current
+// team permissions of a repository, both maps of team ID to permission.
+export function FindRequiredTeamDrift(requiredTeams: Map<number, string>, currentTeams: Map<number, string>): IRepositoryBaselineDrift[] {
+  const drift: IRepositoryBaselineDrift[] = [];
+  for (const [teamId, permission] of requiredTeams) {
+    const current = currentTeams.get(teamId);
+    if (current && isAtLeastPermission(current, permission)) {
+      continue;
+    }
+    drift.push({
+      type: RepositoryBaselineDriftType.RequiredTeam,
+      teamId,
+      permission: permission as GitHubRepositoryPermission,
+      message: current ? `Team ${teamId} has ${current} instead of ${permission} permission` : `Team ${teamId} is missing ${permission} permission`,
+    });
+  }
+  return drift;
+}
+
+export function FindVisibilityDrift(baseline: IRepositoryBaseline, isPrivate: boolean, projectType: string): IRepositoryBaselineDrift {
+  const privateProjectTypes = baseline.privateProjectTypes || [];
+  if (isPrivate || !projectType || !privateProjectTypes.includes(projectType)) {
+    return null;
+  }
+  return {
+    type: RepositoryBaselineDriftType.PublicVisibility,
+    message: `The repository is public, but ${projectType} repositories must be private`,
+  };
+}
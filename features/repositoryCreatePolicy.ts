@@ -0,0 +1,210 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+import { Organization } from '../business/organization';
+
+// The repository create policy is declared per organization in the organization
+// settings properties, under the "repositoryCreatePolicy" key:
+//
+// {
+//   "fieldPrefix": "contoso.",
+//   "licenses": ["mit", "apache-2.0"],
+//   "approvalTypes": [
+//     { "id": "Review", "title": "Reviewed by legal", "requires": ["approvalUrl"] },
+//     { "id": "Exempt", "title": "Exempt", "requires": ["justification"] }
+//   ],
+//   "justificationPattern": ".{20,}",
+//   "approvalUrlPattern": "^https://review\\.contoso\\.com/"
+// }
+//
+// Create API requests provide the values as body fields that start with the
+// field prefix, such as "contoso.license", or as headers, such as
+// "contoso-license". Values that are not declared are taken from the default
+// policy, which matches the original Microsoft vocabulary of "ms.*" fields.
+
+export const RepositoryCreatePolicyPropertyName = 'repositoryCreatePolicy';
+
+export enum RepositoryCreateField {
+  OnBehalfOf = 'onBehalfOf',
+  License = 'license',
+  ApprovalType = 'approval',
+  ApprovalUrl = 'approval-url',
+  Justification = 'justification',
+  Notify = 'notify',
+  Teams = 'teams',
+  Template = 'template',
+  ProjectType = 'project-type',
+  LegalEntity = 'entity',
+}
+
+export enum RepositoryCreateRequirement {
+  ApprovalUrl = 'approvalUrl',
+  Justification = 'justification',
+}
+
+export interface IRepositoryCreateApprovalType {
+  id: string;
+  title?: string;
+  requires?: RepositoryCreateRequirement[];
+}
+
+export interface IRepositoryCreatePolicy {
+  fieldPrefix: string;
+  licenses: string[]; // lowercase license expressions; empty to allow any
+  approvalTypes: IRepositoryCreateApprovalType[]; // empty to not require an approval type
+  justificationPattern?: string;
+  approvalUrlPattern?: string;
+}
+
+export interface IRepositoryCreateProperties {
+  onBehalfOf?: string;
+  justification?: string;
+  license?: string;
+  approvalType?: string;
+  approvalUrl?: string;
+  notify?: string;
+  teams?: any;
+  template?: string;
+  projectType?: string;
+  legalEntity?: string;
+}
+
+export function GetDefaultRepositoryCreatePolicy(): IRepositoryCreatePolicy {
+  return {
+    fieldPrefix: 'ms.',
+    licenses: [
+      'mit',
+      '(mit and cc-by-4.0)',
+      'cc-by-4.0',
+      'other',
+    ],
+    approvalTypes: [
+      { id: 'NewReleaseReview', requires: [RepositoryCreateRequirement.ApprovalUrl] },
+      { id: 'ExistingReleaseReview', requires: [RepositoryCreateRequirement.ApprovalUrl] },
+      { id: 'SmallLibrariesToolsSamples' },
+      { id: 'Exempt', requires: [RepositoryCreateRequirement.Justification] },
+    ],
+  };
+}
+
+export function GetOrganizationRepositoryCreatePolicy(organization: Organization): IRepositoryCreatePolicy {
+  const declared = organization.repositoryCreatePolicy;
+  return declared ? ParseRepositoryCreatePolicy(declared, organization.name) : GetDefaultRepositoryCreatePolicy();
+}
+
+export function ParseRepositoryCreatePolicy(declared: any, organizationName?: string): IRepositoryCreatePolicy {
+  const where = organizationName ? ` for the ${organizationName} organization` : '';
+  if (typeof(declared) === 'string') {
+    declared = JSON.parse(declared);
+  }
+  if (!declared || typeof(declared) !== 'object' || Array.isArray(declared)) {
+    throw new Error(`The repository create policy${where} must be an object`);
+  }
+  const policy = Object.assign(GetDefaultRepositoryCreatePolicy(), declared) as IRepositoryCreatePolicy;
+  if (typeof(policy.fieldPrefix) !== 'string') {
+    throw new Error(`The repository create policy${where} requires a string fieldPrefix`);
+  }
+  if (!Array.isArray(policy.licenses)) {
+    throw new Error(`The repository create policy${where} requires an array of licenses`);
+  }
+  policy.licenses = policy.licenses.map(license => license.toLowerCase());
+  if (!Array.isArray(policy.approvalTypes)) {
+    throw new Error(`The repository create policy${where} requires an array of approval types`);
+  }
+  const validRequirements = Object.values(RepositoryCreateRequirement) as string[];
+  policy.approvalTypes.forEach((approvalType, index) => {
+    if (!approvalType || !approvalType.id) {
+      throw new Error(`Approval type ${index}${where} requires an id`);
+    }
+    for (const requirement of approvalType.requires || []) {
+      if (!validRequirements.includes(requirement)) {
+        throw new Error(`Approval type ${approvalType.id}${where} has an unsupported requirement: ${requirement}`);
+      }
+    }
+  });
+  for (const pattern of [policy.justificationPattern, policy.approvalUrlPattern]) {
+    if (pattern) {
+      new RegExp(pattern); // throws for invalid patterns
+    }
+  }
+  return policy;
+}
+
+export function FindApprovalType(policy: IRepositoryCreatePolicy, idOrTitle: string): IRepositoryCreateApprovalType {
+  if (!idOrTitle) {
+    return null;
+  }
+  const value = idOrTitle.toLowerCase();
+  return policy.approvalTypes.find(type => type.id.toLowerCase() === value || (type.title && type.title.toLowerCase() === value)) || null;
+}
+
+export function GetRepositoryCreateFieldName(policy: IRepositoryCreatePolicy, field: RepositoryCreateField): string {
+  return policy.fieldPrefix + field;
+}
+
+// Removes the policy fields from the body parameters, so that they are not
+// sent to GitHub, and returns their values, falling back to headers.
+export function ExtractRepositoryCreateProperties(policy: IRepositoryCreatePolicy, parameters: any, headers: any): IRepositoryCreateProperties {
+  const values = new Map<RepositoryCreateField, any>();
+  const headerPrefix = policy.fieldPrefix.replace(/\.$/, '-').toLowerCase();
+  for (const field of Object.values(RepositoryCreateField)) {
+    const fieldName = GetRepositoryCreateFieldName(policy, field);
+    let value = parameters[fieldName];
+    if (value !== undefined) {
+      delete parameters[fieldName];
+    }
+    if (!value && headers) {
+      value = headers[headerPrefix + field.toLowerCase()];
+    }
+    values.set(field, value);
+  }
+  return {
+    onBehalfOf: values.get(RepositoryCreateField.OnBehalfOf),
+    justification: values.get(RepositoryCreateField.Justification),
+    license: values.get(RepositoryCreateField.License),
+    approvalType: values.get(RepositoryCreateField.ApprovalType),
+    approvalUrl: values.get(RepositoryCreateField.ApprovalUrl),
+    notify: values.get(RepositoryCreateField.Notify),
+    teams: values.get(RepositoryCreateField.Teams),
+    template: values.get(RepositoryCreateField.Template),
+    projectType: values.get(RepositoryCreateField.ProjectType),
+    legalEntity: values.get(RepositoryCreateField.LegalEntity),
+  };
+}
+
+// Returns the reason that the properties do not satisfy the policy, if any
+export function ValidateRepositoryCreateProperties(policy: IRepositoryCreatePolicy, properties: IRepositoryCreateProperties): string {
+  if (policy.licenses.length) {
+    if (!properties.license) {
+      return 'Missing license information';
+    }
+    if (!policy.licenses.includes(properties.license.toLowerCase())) {
+      return 'The provided license expression is not currently supported';
+    }
+  }
+  if (policy.approvalTypes.length) {
+    if (!properties.approvalType) {
+      return 'Missing approval type information';
+    }
+    const approvalType = FindApprovalType(policy, properties.approvalType);
+    if (!approvalType) {
+      return 'The provided approval type is not supported';
+    }
+    const requires = approvalType.requires || [];
+    if (requires.includes(RepositoryCreateRequirement.ApprovalUrl) && !properties.approvalUrl) {
+      return `An approval URL is required when using the ${approvalType.title || approvalType.id} approval type`;
+    }
+    if (requires.includes(RepositoryCreateRequirement.Justification) && !properties.justification) {
+      return `A justification is required when using the ${approvalType.title || approvalType.id} approval type`;
+    }
+  }
+  if (properties.justification && policy.justificationPattern && !new RegExp(policy.justificationPattern).test(properties.justification)) {
+    return 'The justification does not meet the requirements of the organization';
+  }
+  if (properties.approvalUrl && policy.approvalUrlPattern && !new RegExp(policy.approvalUrlPattern).test(properties.approvalUrl)) {
+    return 'The approval URL is not in a supported location';
+  }
+  return null;
+}
@@ -0,0 +1,189 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+import { Organization } from '../business/organization';
+import { GitHubRepositoryPermission, GitHubRepositoryPermissions } from '../entities/repositoryMetadata/repositoryMetadata';
+import { IRepositoryBaseline, IsValidRepositoryTopic, ParseRepositoryBaseline } from './repositoryBaseline';
+
+// Repository templates are offered when creating a new repository. A template
+// is either a folder of files in the template directory of the deployment,
+// committed file by file to the new repository, or a template repository on
+// GitHub that the new repository is generated from.
+//
+// The organization setting "templates" lists the templates offered by the
+// organization. Entries are template IDs, for templates defined in the
+// github.templates.definitions configuration, or objects that define or
+// override a template:
+//
+// [
+//   "mit",
+//   {
+//     "id": "service",
+//     "name": "Service starter",
+//     "description": "An ASP.NET Core service with our pipelines",
+//     "repository": "contoso/service-template",
+//     "spdx": "mit",
+//     "teams": { "admin": [123], "pull": [456] },
+//     "topics": ["service"],
+//     "webhook": "https://hooks.contoso.com/compliance",
+//     "webhookEvents": ["push"],
+//     "webhookFriendlyName": "Compliance",
+//     "baseline": { "mergeMethods": ["squash"] }
+//   }
+// ]
+//
+// Organization settings are shown to portal administrators, so they cannot hold
+// secrets: a webhook shared secret or the token that accepts a collaborator
+// invitation is only read from the configured definition of a template, where
+// key vault references are resolved.
+
+export interface IRepositoryTemplateCollaborator {
+  username: string;
+  acceptInvitationToken?: string;
+}
+
+export interface IRepositoryTemplate {
+  id: string;
+  name?: string;
+  description?: string;
+  spdx?: string;
+  legalEntity?: string;
+  forceForReleaseType?: string;
+  repository?: string; // "owner/name", or "name" for a template repository in the same organization
+  teams?: {
+    pull?: number[];
+    push?: number[];
+    admin?: number[];
+  };
+  topics?: string[];
+  baseline?: IRepositoryBaseline; // see features/repositoryBaseline
+  webhook?: string;
+  webhookSharedSecret?: string;
+  webhookEvents?: string[];
+  webhookFriendlyName?: string;
+  collaborators?: {
+    pull?: IRepositoryTemplateCollaborator[];
+    push?: IRepositoryTemplateCollaborator[];
+    admin?: IRepositoryTemplateCollaborator[];
+  };
+}
+
+export type OrganizationRepositoryTemplateEntry = string | IRepositoryTemplate;
+
+export interface ITemplateRepositoryName {
+  owner: string;
+  repo: string;
+}
+
+export function ParseOrganizationRepositoryTemplates(declared: any, organizationName?: string): OrganizationRepositoryTemplateEntry[] {
+  const where = organizationName ? ` for the ${organizationName} organization` : '';
+  if (typeof(declared) === 'string') {
+    declared = JSON.parse(declared);
+  }
+  if (!Array.isArray(declared)) {
+    throw new Error(`The repository templates${where} must be an array`);
+  }
+  const ids = new Set<string>();
+  return declared.map((entry, index) => {
+    const id = typeof(entry) === 'string' ? entry : (entry ? entry.id : null);
+    if (!id || typeof(id) !== 'string') {
+      throw new Error(`Repository template ${index}${where} requires an id`);
+    }
+    if (ids.has(id)) {
+      throw new Error(`Repository template ${id}${where} is listed more than once`);
+    }
+    ids.add(id);
+    if (typeof(entry) === 'string') {
+      return entry;
+    }
+    if (entry.repository !== undefined) {
+      ParseTemplateRepositoryName(entry.repository, organizationName);
+    }
+    if (entry.teams !== undefined) {
+      for (const permission of Object.getOwnPropertyNames(entry.teams)) {
+        if (!GitHubRepositoryPermissions.includes(permission as GitHubRepositoryPermission)) {
+          throw new Error(`Repository template ${id}${where} has an unsupported team permission: ${permission}`);
+        }
+        const teamIds = entry.teams[permission];
+        if (!Array.isArray(teamIds) || teamIds.some(teamId => typeof(teamId) !== 'number')) {
+          throw new Error(`Repository template ${id}${where} requires an array of team IDs for the ${permission} permission`);
+        }
+      }
+    }
+    if (entry.topics !== undefined) {
+      if (!Array.isArray(entry.topics)) {
+        throw new Error(`Repository template ${id}${where} requires an array of topics`);
+      }
+      const invalidTopic = entry.topics.find(topic => !IsValidRepositoryTopic(topic));
+      if (invalidTopic !== undefined) {
+        throw new Error(`Repository template ${id}${where} has an invalid topic: ${invalidTopic}`);
+      }
+    }
+    if (entry.webhookEvents !== undefined && !Array.isArray(entry.webhookEvents)) {
+      throw new Error(`Repository template ${id}${where} requires an array of webhook events`);
+    }
+    if (entry.webhookSharedSecret !== undefined) {
+      throw new Error(`Repository template ${id}${where} cannot store a webhook shared secret; define it in the configured template definition`);
+    }
+    if (entry.collaborators !== undefined) {
+      for (const permission of Object.getOwnPropertyNames(entry.collaborators)) {
+        const collaborators = entry.collaborators[permission];
+        if (!GitHubRepositoryPermissions.includes(permission as GitHubRepositoryPermission) || !Array.isArray(collaborators)) {
+          throw new Error(`Repository template ${id}${where} requires an array of collaborators for each permission`);
+        }
+        if (collaborators.some(collaborator => collaborator && collaborator.acceptInvitationToken !== undefined)) {
+          throw new Error(`Repository template ${id}${where} cannot store an invitation token; define collaborators with tokens in the configured template definition`);
+        }
+      }
+    }
+    if (entry.baseline !== undefined) {
+      ParseRepositoryBaseline(entry.baseline, `of the ${id} template${where}`);
+    }
+    return entry as IRepositoryTemplate;
+  });
+}
+
+export function ParseTemplateRepositoryName(repository: string, organizationName: string): ITemplateRepositoryName {
+  const parts = typeof(repository) === 'string' ? repository.split('/') : [];
+  if (parts.length === 1 && parts[0]) {
+    return { owner: organizationName, repo: parts[0] };
+  }
+  if (parts.length === 2 && parts[0] && parts[1]) {
+    return { owner: parts[0], repo: parts[1] };
+  }
+  throw new Error(`The template repository "${repository}" must be a repository name or "owner/name"`);
+}
+
+export function GetOrganizationRepositoryTemplateEntries(organization: Organization): OrganizationRepositoryTemplateEntry[] {
+  const entries = organization.repositoryTemplates;
+  return entries && entries.length ? ParseOrganizationRepositoryTemplates(entries, organization.name) : [];
+}
+
+// Combines the configured definition of a template with the definition or
+// overrides in the organization settings, if any.
+export function GetRepositoryTemplate(organization: Organization, templateId: string): IRepositoryTemplate {
+  if (!templateId) {
+    return null;
+  }
+  const { operations } = organization.getLegacySystemObjects();
+  const templatesConfig = operations.config.github.templates || {};
+  const definitions = templatesConfig.definitions || {};
+  const entries = GetOrganizationRepositoryTemplateEntries(organization);
+  const entry = entries.find(e => typeof(e) !== 'string' && e.id === templateId) as IRepositoryTemplate;
+  const definition = definitions[templateId];
+  if (!definition && !entry) {
+    return null;
+  }
+  const template: IRepositoryTemplate = Object.assign({ id: templateId }, definition, entry);
+  if (entry && entry.webhook && definition && entry.webhook !== definition.webhook) {
+    // The configured secret is only sent to the configured webhook
+    delete template.webhookSharedSecret;
+  }
+  return template;
+}
+
+export function GetTemplateRepositoryName(organization: Organization, template: IRepositoryTemplate): ITemplateRepositoryName {
+  return template && template.repository ? ParseTemplateRepositoryName(template.repository, organization.name) : null;
+}
@@ -0,0 +1,84 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+import { ICorporateLink } from '../business/corporateLink';
+import { IDirectoryUser } from '../lib/graphProvider';
+
+// A team can be bound to a corporate directory group from its properties page
+// (entities/teamDirectoryGroup). The sync job (jobs/teamDirectoryGroupSync)
+// then makes the members of the team the linked GitHub accounts of the group
+// members. Logins on the exclusions list are never added or removed, and team
+// maintainers are never removed. Group members without a link are reported so
+// that they can be asked to link their accounts.
+
+export const RedisKeyTeamDirectoryGroupSyncReport = 'teamdirectorygroupsync:report';
+
+export interface ITeamDirectoryGroupUnlinkedMember {
+  id: string;
+  displayName: string;
+  userPrincipalName: string;
+}
+
+export interface ITeamDirectoryGroupSyncPlan {
+  add: string[];
+  remove: string[];
+  unlinked: ITeamDirectoryGroupUnlinkedMember[];
+}
+
+export interface ITeamDirectoryGroupSyncReportEntry {
+  teamId: string;
+  teamName: string;
+  organizationName: string;
+  groupId: string;
+  groupDisplayName: string;
+  groupMembers: number;
+  added: string[];
+  removed: string[];
+  unlinked: ITeamDirectoryGroupUnlinkedMember[];
+  error?: string;
+}
+
+export interface ITeamDirectoryGroupSyncReport {
+  started: string;
+  finished: string;
+  dryRun: boolean;
+  teams: ITeamDirectoryGroupSyncReportEntry[];
+}
+
+export function ParseTeamDirectoryGroupExclusions(value: string | string[]): string[] {
+  const values = Array.isArray(value) ? value : (value || '').split(/[\s,;]+/);
+  const logins = values.map(login => login.trim().replace(/^@/, '').toLowerCase()).filter(login => login);
+  return Array.from(new Set(logins)).sort();
+}
+
+export function PlanTeamDirectoryGroupSync(groupMembers: IDirectoryUser[], linksByCorporateId: Map<string, ICorporateLink>, teamMemberLogins: string[], maintainerLogins: string[], exclusions: string[]): ITeamDirectoryGroupSyncPlan {
+  const excluded = new Set(ParseTeamDirectoryGroupExclusions(exclusions));
+  const maintainers = new Set(maintainerLogins.map(login => login.toLowerCase()));
+  const current = new Set(teamMemberLogins.map(login => login.toLowerCase()));
+  const desired = new Map<string, string>();
+  const unlinked: ITeamDirectoryGroupUnlinkedMember[] = [];
+  for (const member of groupMembers) {
+    const link = linksByCorporateId.get(member.id);
+    if (!link || !link.thirdPartyUsername) {
+      unlinked.push({
+        id: member.id,
+        displayName: member.displayName,
+        userPrincipalName: member.userPrincipalName,
+      });
+      continue;
+    }
+    desired.set(link.thirdPartyUsername.toLowerCase(), link.thirdPartyUsername);
+  }
+  const add = Array.from(desired.keys())
+    .filter(login => !current.has(login) && !excluded.has(login))
+    .map(login => desired.get(login))
+    .sort();
+  // An empty group is more likely a directory problem than a team to empty
+  const remove = groupMembers.length === 0 ? [] : teamMemberLogins
+    .filter(login => !desired.has(login.toLowerCase()) && !excluded.has(login.toLowerCase()) && !maintainers.has(login.toLowerCase()))
+    .sort();
+  unlinked.sort((a, b) => (a.displayName || a.id).localeCompare(b.displayName || b.id));
+  return { add, remove, unlinked };
+}
@@ -0,0 +1,60 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+import { IProviders } from '../transitional';
+import { PersonalAccessToken } from '../entities/token/token';
+import { RenderHtmlMail } from '../lib/emailRender';
+
+// Personal access tokens are created for a lifetime of at most the configured
+// maximum. The token cleanup job (jobs/cleanupTokens) mails the owner of a
+// token that expires soon; a Redis key, kept for longer than the warning
+// period, ensures that an owner is warned once per token.
+
+export const RedisPrefixTokenExpirationWarning = 'apiKeyExpirationWarning:';
+
+export function GetTokenLifetimeDays(requestedLifetime: string, maximumLifetimeDays: number): number {
+  // Without a requested lifetime, a token is valid for the maximum lifetime
+  const lifetimeDays = requestedLifetime ? parseInt(requestedLifetime, 10) : maximumLifetimeDays;
+  if (isNaN(lifetimeDays) || lifetimeDays <= 0) {
+    throw new Error('The token lifetime must be a positive number of days');
+  }
+  if (lifetimeDays > maximumLifetimeDays) {
+    throw new Error(`Personal Access Tokens may not be valid for more than ${maximumLifetimeDays} days`);
+  }
+  return lifetimeDays;
+}
+
+export async function SendTokenExpirationWarning(config: any, providers: IProviders, userDetails: any, pat: PersonalAccessToken, expirationWarningDays: number): Promise<boolean> {
+  const mailProvider = providers.mailProvider;
+  const redis = providers.redis;
+  const mailAddress = userDetails ? userDetails.mail : null;
+  if (!mailProvider || !redis || !mailAddress) {
+    return false;
+  }
+  const key = `${RedisPrefixTokenExpirationWarning}${pat.token}`;
+  const isFirstWarning = await redis.setIfNotExistsWithExpireAsync(key, new Date().toISOString(), expirationWarningDays * 2 * 24 * 60);
+  if (!isFirstWarning) {
+    return false;
+  }
+  const reposUrl = config.microsoftOpenSource ? config.microsoftOpenSource.repos : null;
+  const headline = 'Your personal access token expires soon';
+  const content = await RenderHtmlMail(config.typescript.appDirectory, 'tokenExpiring', {
+    reason: `You are receiving this e-mail because you created a personal access token that expires on ${pat.expires.toDateString()}.`,
+    headline,
+    notification: 'warning',
+    app: `${config.brand.companyName} GitHub`,
+    token: pat,
+    settingsUrl: reposUrl ? `${reposUrl}settings/security/tokens` : '/settings/security/tokens',
+  });
+  await mailProvider.sendMail({
+    to: mailAddress,
+    subject: `${headline}: ${pat.description}`,
+    content,
+  });
+  if (providers.insights) {
+    providers.insights.trackEvent({ name: 'JobCleanupTokensExpirationWarning', properties: { corporateId: pat.corporateId, identifier: pat.getIdentifier() } });
+  }
+  return true;
+}
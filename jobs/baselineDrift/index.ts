@@ -0,0 +1,36 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+/*eslint no-console: ["error", { allow: ["log"] }] */
+
+'use strict';
+
+import moment from 'moment';
+
+// Kill bit if this takes more than 4 hours
+setTimeout(() => {
+  console.log('Kill bit at 4h');
+  process.exit(0);
+}, 1000 * 60 * 60 * 4);
+
+// To skip this WebJob, setting WEBJOB_REPOS_BASELINE_DRIFT_SKIP should be set to '1'
+if (process.env.WEBJOB_REPOS_BASELINE_DRIFT_SKIP == '1' /* loose */) {
+  console.log('Repository baseline drift job is configured to skip execution.');
+  process.exit(0);
+}
+
+process.env.DEBUG = 'restapi';
+
+const started = moment().utc();
+const startedString = started.format();
+
+const painlessConfigResolver = require('painless-config-resolver')();
+
+painlessConfigResolver.resolve((configurationError, config) => {
+  if (configurationError) {
+    throw configurationError;
+  }
+  require('./task')(started, startedString, config);
+});
@@ -0,0 +1,201 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+/*eslint no-console: ["error", { allow: ["warn", "dir", "log"] }] */
+
+'use strict';
+
+import moment from 'moment';
+
+import { IProviders } from '../../transitional';
+import { Repository } from '../../business/repository';
+import { RepositoryMetadataEntity } from '../../entities/repositoryMetadata/repositoryMetadata';
+import { GitHubTokenManager } from '../../github/tokenManager';
+import { GetRepositoryBaseline } from '../../features/repositoryBaseline';
+import { GetRepositoryTemplate } from '../../features/repositoryTemplates';
+import { FindBranchProtectionDrift, FindRequiredTeamDrift, FindVisibilityDrift, IRepositoryBaselineDrift, IRepositoryBaselineDriftEntry, IRepositoryBaselineDriftReport, MergeBranchProtection, RedisKeyRepositoryBaselineDriftReport, RepositoryBaselineDriftType } from '../../features/repositoryBaselineDrift';
+import AutomaticTeamsWebhookProcessor from '../../webhooks/tasks/automaticTeams';
+import { sleep } from '../../utils';
+
+const os = require('os');
+
+// Repository baseline drift: visit all repos in the query cache and compare them with
+// the current baseline of their organization and template: the protection of the default
+// branch, the special teams of the organization, and public visibility for project types
+// that must be private. The drift report is stored in Redis for the reports job. With
+// remediation turned on, the branch protection and team permissions are fixed; public
+// repositories are only reported, since changing the visibility is disruptive.
+
+const delayBetweenRepositoriesMilliseconds = 250;
+const defaultReportTimeToLiveMinutes = 60 * 24 * 7;
+
+module.exports = function run(started, startedString, config) {
+  console.log(`Job started ${startedString}`);
+
+  const app = require('../../app');
+  config.skipModules = new Set([
+    'web',
+  ]);
+
+  app.initializeJob(config, null, error => {
+    if (error) {
+      throw error;
+    }
+    GitHubTokenManager.IsBackgroundJob();
+    const insights = app.settings.appInsightsClient;
+    if (!insights) {
+      throw new Error('No app insights client available');
+    }
+    detectDrift(config, app, insights, startedString).then(done => {
+      console.log('done');
+      process.exit(0);
+    }).catch(error => {
+      if (insights) {
+        insights.trackException({ exception: error, properties: { name: 'JobRepositoryBaselineDriftFailure' } });
+      }
+      console.dir(error);
+      throw error;
+    });
+  });
+};
+
+async function detectDrift(config, app, insights, startedString: string): Promise<void> {
+  const jobConfig = config.github && config.github.jobs && config.github.jobs.baselineDrift ? config.github.jobs.baselineDrift : {};
+  const remediate = jobConfig.remediate === true;
+  const reportTimeToLiveMinutes = jobConfig.reportTimeToLiveMinutes || defaultReportTimeToLiveMinutes;
+
+  insights.trackEvent({
+    name: 'JobRepositoryBaselineDriftStarted',
+    properties: {
+      hostname: os.hostname(),
+      remediate: remediate ? 'yes' : 'no',
+    },
+  });
+
+  const providers = app.settings.providers as IProviders;
+  const queryCache = providers.queryCache;
+  if (!queryCache || !queryCache.supportsRepositories) {
+    throw new Error('The baseline drift job requires the repository query cache');
+  }
+  const cachedRepositories = await queryCache.allRepositories();
+  console.log(`Checking ${cachedRepositories.length} repositories${remediate ? ' with remediation' : ''}`);
+
+  const report: IRepositoryBaselineDriftReport = {
+    started: startedString,
+    finished: null,
+    remediate,
+    repositoriesChecked: 0,
+    repositories: [],
+  };
+  let errors = 0;
+  let remediations = 0;
+
+  for (const { repository } of cachedRepositories) {
+    try {
+      const entry = await checkRepository(providers, repository, remediate);
+      ++report.repositoriesChecked;
+      if (entry.drift.length) {
+        console.log(`${repository.full_name}: ${entry.drift.map(drift => drift.message).join('; ')}`);
+        report.repositories.push(entry);
+        remediations += entry.drift.filter(drift => drift.remediated).length;
+      }
+    } catch (checkError) {
+      ++errors;
+      console.log(`There was a problem checking the baseline of ${repository.full_name}`);
+      console.dir(checkError);
+      insights.trackException({ exception: checkError, properties: { name: 'JobRepositoryBaselineDriftRepositoryError', repository: repository.full_name } });
+    }
+    await sleep(delayBetweenRepositoriesMilliseconds);
+  }
+
+  report.finished = moment().utc().format();
+  await providers.redis.setObjectCompressedWithExpireAsync(RedisKeyRepositoryBaselineDriftReport, report, reportTimeToLiveMinutes);
+
+  console.log(`Job finishing. ${report.repositories.length} of ${report.repositoriesChecked} repositories have drifted, ${remediations} remediations, ${errors} errors.`);
+  insights.trackMetric({ name: 'JobRepositoryBaselineDriftRepositories', value: report.repositories.length });
+  insights.trackEvent({
+    name: 'JobRepositoryBaselineDriftFinished',
+    properties: {
+      checked: report.repositoriesChecked.toString(),
+      drifted: report.repositories.length.toString(),
+      remediations: remediations.toString(),
+      errors: errors.toString(),
+    },
+  });
+}
+
+async function checkRepository(providers: IProviders, repository: Repository, remediate: boolean): Promise<IRepositoryBaselineDriftEntry> {
+  const organization = repository.organization;
+  const metadata = await getRepositoryMetadata(providers, repository);
+  const template = metadata ? GetRepositoryTemplate(organization, metadata.initialTemplate) : null;
+  const baseline = GetRepositoryBaseline(organization, template);
+  const entry: IRepositoryBaselineDriftEntry = {
+    organizationName: organization.name,
+    repositoryName: repository.name,
+    repositoryId: repository.id,
+    projectType: metadata ? metadata.projectType : undefined,
+    drift: [],
+  };
+
+  const visibilityDrift = FindVisibilityDrift(baseline, repository.private, entry.projectType);
+  if (visibilityDrift) {
+    entry.drift.push(visibilityDrift);
+  }
+
+  const { specialTeamLevels } = new AutomaticTeamsWebhookProcessor().processOrgSpecialTeams(organization);
+  if (specialTeamLevels.size) {
+    const permissions = await repository.getTeamPermissions({ backgroundRefresh: false, maxAgeSeconds: 60 * 60 });
+    const currentTeams = new Map<number, string>();
+    permissions.forEach(teamPermission => currentTeams.set(teamPermission.team.id, teamPermission.permission));
+    for (const teamDrift of FindRequiredTeamDrift(specialTeamLevels, currentTeams)) {
+      if (remediate) {
+        await remediateDrift(teamDrift, () => repository.setTeamPermission(teamDrift.teamId, teamDrift.permission));
+      }
+      entry.drift.push(teamDrift);
+    }
+  }
+
+  const branch = repository.default_branch;
+  if (baseline.branchProtection && branch) {
+    const protection = await repository.getBranchProtection(branch);
+    const problems = FindBranchProtectionDrift(baseline.branchProtection, protection);
+    if (problems.length) {
+      const protectionDrift: IRepositoryBaselineDrift = {
+        type: RepositoryBaselineDriftType.BranchProtection,
+        message: `The ${branch} branch: ${problems.join(', ')}`,
+      };
+      if (remediate) {
+        await remediateDrift(protectionDrift, () => repository.setBranchProtection(branch, MergeBranchProtection(baseline.branchProtection, protection)));
+      }
+      entry.drift.push(protectionDrift);
+    }
+  }
+  return entry;
+}
+
+async function remediateDrift(drift: IRepositoryBaselineDrift, remediation: () => Promise<any>): Promise<void> {
+  try {
+    await remediation();
+    drift.remediated = true;
+  } catch (remediationError) {
+    drift.remediated = false;
+    drift.remediationError = remediationError.message;
+  }
+}
+
+async function getRepositoryMetadata(providers: IProviders, repository: Repository): Promise<RepositoryMetadataEntity> {
+  const repositoryMetadataProvider = providers.repositoryMetadataProvider;
+  if (!repositoryMetadataProvider) {
+    return null;
+  }
+  try {
+    return await repositoryMetadataProvider.getRepositoryMetadata(repository.id.toString());
+  } catch (error) {
+    if (error.status == /* loose */ 404) {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -10,14 +10,18 @@
 import moment from 'moment';
 import { Operations } from '../../business/operations';
 import { GitHubTokenManager } from '../../github/tokenManager';
+import { IProviders } from '../../transitional';
+import { PruneWebhookDeliveries } from '../../webhooks/organizationProcessor';
 
 const os = require('os');
 
 // Organization invitations cleanup: remove any invitations that are older than a
-// set period of time from the organization.
+// set period of time from the organization. Recorded webhook deliveries older
+// than their retention period are pruned as well.
 
 const maxParallelism = 1;
 const defaultMaximumInvitationAgeDays = 7;
+const defaultWebhookDeliveryRetentionDays = 30;
 
 module.exports = function run(started, startedString, config) {
   console.log(`Job started ${startedString}`);
@@ -130,4 +134,23 @@ async function cleanup(config, app, insights) : Promise<void> {
   }
   console.log(`Job finishing. Removed ${removedInvitations} expired invitations.`);
   insights.trackMetric({ name: 'JobOrganizationInvitationsExpired', value: removedInvitations });
+
+  await pruneWebhookDeliveries(config, app, insights);
+}
+
+async function pruneWebhookDeliveries(config, app, insights): Promise<void> {
+  const providers = app.settings.providers as IProviders;
+  if (!providers.webhookDeliveryProvider) {
+    return;
+  }
+  const cleanupConfig = config.github && config.github.jobs && config.github.jobs.cleanup ? config.github.jobs.cleanup : {};
+  const retentionDays = cleanupConfig.webhookDeliveryRetentionDays || defaultWebhookDeliveryRetentionDays;
+  try {
+    const pruned = await PruneWebhookDeliveries(providers.webhookDeliveryProvider, retentionDays);
+    console.log(`Pruned ${pruned} webhook deliveries older than ${retentionDays} days.`);
+    insights.trackMetric({ name: 'JobWebhookDeliveriesPruned', value: pruned });
+  } catch (pruneError) {
+    insights.trackException({ exception: pruneError, properties: { name: 'JobWebhookDeliveriesPruneFailure' } });
+    console.dir(pruneError);
+  }
 }
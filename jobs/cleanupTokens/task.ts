@@ -9,15 +9,18 @@
 
 import throat = require('throat');
 
-// Revoke tokens of users that no longer resolve in the corporate graph and
-// delete tokens that have been expired 30 days.
+// Revoke tokens of users that no longer resolve in the corporate graph,
+// warn owners by mail of tokens about to expire, and delete tokens that have
+// been expired 30 days.
 
 const expiredTokenDeleteThresholdDays = 30;
+const defaultExpirationWarningDays = 14;
 
 import { IProviders } from '../../transitional';
 import { PersonalAccessToken } from '../../entities/token/token';
 import { sleep } from '../../utils';
 import { IGraphProvider } from '../../lib/graphProvider';
+import { SendTokenExpirationWarning } from '../../features/tokenLifetime';
 
 let insights;
 
@@ -84,6 +87,7 @@ async function cleanup(config, app) : Promise<void> {
 
   let revokedUnresolved = 0;
   let deleted = 0;
+  let expirationWarnings = 0;
   let serviceTokens = 0;
   let okUserTokens = 0;
 
@@ -95,6 +99,9 @@ async function cleanup(config, app) : Promise<void> {
 
   const knownUsers = new Map<string, any>();
 
+  const tokensConfig = config.api && config.api.tokens ? config.api.tokens : {};
+  const expirationWarningDays = tokensConfig.expirationWarningDays || defaultExpirationWarningDays;
+
   await Promise.all(allTokens.map(throat<void, (token: PersonalAccessToken) => Promise<void>>(async pat => {
     const isGuidMeansADash = pat.corporateId && pat.corporateId.includes('-');
     let wasUser = false;
@@ -135,6 +142,18 @@ async function cleanup(config, app) : Promise<void> {
       }
     } else if (wasUser) {
       ++okUserTokens;
+      if (pat.active !== false && pat.expiresWithinDays(expirationWarningDays)) {
+        try {
+          if (await SendTokenExpirationWarning(config, providers, knownUsers.get(pat.corporateId), pat, expirationWarningDays)) {
+            console.log(`Warned the owner of ${pat.getIdentifier()} that the key expires ${pat.expires}`);
+            ++expirationWarnings;
+          }
+        } catch (warningError) {
+          console.dir(warningError);
+          ++errors;
+          insights.trackException({ exception: warningError });
+        }
+      }
     }
 
     await sleep(secondsDelayAfterSuccess * 1000);
@@ -143,6 +162,7 @@ async function cleanup(config, app) : Promise<void> {
 
   console.log(`deleted: ${deleted}`);
   console.log(`revokedUnresolved: ${revokedUnresolved}`);
+  console.log(`expirationWarnings: ${expirationWarnings}`);
   console.log(`okUserTokens: ${okUserTokens}`);
   console.log(`serviceTokens: ${serviceTokens}`);
   console.log();
@@ -150,6 +170,7 @@ async function cleanup(config, app) : Promise<void> {
   insights.trackEvent({ name: 'JobCleanupTokensSuccess', properties: {
     deleted,
     revokedUnresolved,
+    expirationWarnings,
     okUserTokens,
     serviceTokens,
     errors,
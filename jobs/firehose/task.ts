@@ -14,11 +14,10 @@ import moment from 'moment';
 
 import { Operations } from '../../business/operations';
 import ProcessOrganizationWebhook from '../../webhooks/organizationProcessor';
+import { IProviders } from '../../transitional';
+import { CreateFirehoseQueueProcessorInstance, IQueueProcessor, IQueueMessage } from '../../lib/queues';
 
 const os = require('os');
-const serviceBus = require('azure-sb');
-
-const isClearingDeadLetterQueue = false;
 
 const runningAsOngoingDeployment = true;
 
@@ -66,15 +65,10 @@ module.exports = function runFirehoseTask(started, startedString, config) {
       throw new Error('No app insights client available');
     }
     const firehoseConfig = config.webJob.firehose;
-    if (!firehoseConfig) {
-      throw new Error('No firehose configuration');
-    }
-    const serviceBusConfig = firehoseConfig.serviceBus;
-    if (!serviceBusConfig || !serviceBusConfig.connectionString || !serviceBusConfig.queue) {
-      throw new Error('No service bus queue configuration for the firehose webjob');
-    }
-    // NOTE: this architecture moved from topics to queues in 2019. It is still using the very old library.
-    const serviceBusService = serviceBus.createServiceBusService(serviceBusConfig.connectionString);
+    const queueConfig = (firehoseConfig && firehoseConfig.queue) || {};
+    const providers = app.settings.providers as IProviders;
+    // NOTE: this architecture moved from topics to queues in 2019, and from Service Bus alone to pluggable queues later.
+    const queueProcessor = CreateFirehoseQueueProcessorInstance(firehoseConfig, providers.redis);
     // let parallelism = messagesInQueue > maxParallelism / 2 ? maxParallelism : Math.min(5, maxParallelism);
     let parallelism = maxParallelism;
     console.log(`Parallelism for this run will be ${parallelism} logical threads`);
@@ -83,8 +77,8 @@ module.exports = function runFirehoseTask(started, startedString, config) {
       name: 'JobFirehoseStarted',
       properties: {
         hostname: os.hostname(),
-        queue: serviceBusConfig.queue,
-        subscription: serviceBusConfig.subscriptionName,
+        queue: queueProcessor.queueName,
+        provider: queueConfig.provider || 'servicebus',
         // messagesInQueue: messagesInQueue.toString(),
         //deadLetters: deadLetters.toString(),
       },
@@ -93,13 +87,13 @@ module.exports = function runFirehoseTask(started, startedString, config) {
     //insights.trackMetric({ name: 'FirehoseDeadLetters', value: deadLetters });
     const tasks = [];
     for (let i = 0; i < parallelism; i++) {
-      tasks.push(foreverExecutionThread.bind(null, app, serviceBusService, serviceBusConfig, firehoseConfig));
+      tasks.push(foreverExecutionThread.bind(null, app, queueProcessor));
     }
     async.parallelLimit(tasks, parallelism);
   });
 
-  function foreverExecutionThread(app, serviceBusService, serviceBusConfig, firehoseConfig) {
-    async.forever(performIteration.bind(null, app, serviceBusService, serviceBusConfig, firehoseConfig), error => {
+  function foreverExecutionThread(app, queueProcessor: IQueueProcessor) {
+    async.forever(performIteration.bind(null, app, queueProcessor), error => {
       if (error) {
         const insights = app.settings.appInsightsClient;
         insights.trackException({ exception: error });
@@ -113,135 +107,140 @@ module.exports = function runFirehoseTask(started, startedString, config) {
     });
   }
 
-  function performIteration(app, serviceBusService, serviceBusConfig, firehoseConfig, callback) {
-    //const subscriptionPath = isClearingDeadLetterQueue ? `${serviceBusConfig.subscriptionName}/$deadletterqueue` : serviceBusConfig.subscriptionName;
-    //serviceBusService.receiveSubscriptionMessage(serviceBusConfig.topic, subscriptionPath, {
-    serviceBusService.receiveQueueMessage(serviceBusConfig.queue, {
-      isPeekLock: true,
-    }, (peekError, lockedMessage) => {
-      if (peekError === 'No messages to receive') {
-        console.log(`[empty queue] ${emptyQueueDelaySeconds}s until retry`);
-        return setTimeout(callback, emptyQueueDelaySeconds * 1000);
-      } else if (peekError) {
-        console.dir(peekError);
-        return setTimeout(callback, emptyQueueDelaySeconds * 1000);
-      }
+  function performIteration(app, queueProcessor: IQueueProcessor, callback) {
+    queueProcessor.receiveMessage().then(lockedMessage => {
       if (!lockedMessage) {
         console.log(`[empty queue] ${emptyQueueDelaySeconds}s until retry`);
         return setTimeout(callback, emptyQueueDelaySeconds * 1000);
       }
-      const originalEventQueued = moment(lockedMessage.brokerProperties.EnqueuedTimeUtc);
-      const deliveryAttempt = lockedMessage.brokerProperties.DeliveryCount == /* loose */ 1 ? '' : ` delivery attempt ${lockedMessage.brokerProperties.DeliveryCount}`;
-      const now = moment();
-      console.log(`[message ${lockedMessage.brokerProperties.MessageId}] dequeued from ${now.diff(originalEventQueued, 'seconds', true)}s${deliveryAttempt}`);
-      const insights = app.settings.appInsightsClient;
-
-      let object = null;
-      let properties = lockedMessage.customProperties;
-      const rawBody = lockedMessage.body;
-      try {
-        object = JSON.parse(lockedMessage.body);
-      } catch (notJson) {
-        console.log('could not parse a message. not deleting the message.');
-        return callback();
-      }
+      processMessage(app, queueProcessor, lockedMessage, callback);
+    }).catch(receiveError => {
+      console.dir(receiveError);
+      return setTimeout(callback, emptyQueueDelaySeconds * 1000);
+    });
+  }
 
-      const logicAppStarted = moment.utc(properties.started);
-      if (logicAppStarted) {
-        // const enqueued = lockedMessage && lockedMessage.brokerProperties ? lockedMessage.brokerProperties.EnqueuedTimeUtc : null;
-        // const serviceBusDelay = moment.utc(enqueued, 'ddd, DD MMM YYYY HH:mm:ss'); // console.log('delays - bus delay: ' + serviceBusDelay.fromNow() + ', logic app to now: ' + logicAppStarted.fromNow() + ', total ms: ' + totalMs.toString());
-        const totalSeconds = moment.utc().diff(logicAppStarted) / 1000;
-        insights.trackMetric({ name: 'JobFirehoseQueueDelay', value: totalSeconds });
-      }
-      const acknowledgeEvent = function () {
-        console.log(`[message ${lockedMessage.brokerProperties.MessageId}] acknowledged (deleted)`);
-        serviceBusService.deleteMessage(lockedMessage, (deleteError) => {
-          if (deleteError) {
-            console.dir(deleteError);
-          } else {
-            ++processedEvents;
-          }
-        });
-      };
-      
-      const operations = app.settings.operations as Operations;
-      let organization = null;
-      const installationBody = object.installation;
-      let orgName = null;
-      if (installationBody) {
-        if (installationBody.target_type && installationBody.target_type === 'Organization') {
-          const id = installationBody.target_id;
-          try {
-            const orgById = operations.getOrganizationById(id);
-            orgName = orgById.name;
-          } catch (notConfiguredById) {
-            console.log(`not configured: org ID ${id}`);
-            acknowledgeEvent();
-            return callback();
-          }
-        } else if (installationBody.target_type) {
-          console.log(`invalid target type ${installationBody.target_type} for installation id=${installationBody.id}`)
+  function processMessage(app, queueProcessor: IQueueProcessor, lockedMessage: IQueueMessage, callback) {
+    const originalEventQueued = moment(lockedMessage.enqueued);
+    const deliveryAttempt = lockedMessage.deliveryCount === 1 ? '' : ` delivery attempt ${lockedMessage.deliveryCount}`;
+    const now = moment();
+    console.log(`[message ${lockedMessage.identifier}] dequeued from ${now.diff(originalEventQueued, 'seconds', true)}s${deliveryAttempt}`);
+    const insights = app.settings.appInsightsClient;
+
+    let object = null;
+    let properties = lockedMessage.customProperties;
+    const rawBody = lockedMessage.body;
+    try {
+      object = JSON.parse(lockedMessage.body);
+    } catch (notJson) {
+      console.log(`[message ${lockedMessage.identifier}] could not be parsed, dead-lettering the message`);
+      queueProcessor.deadLetterMessage(lockedMessage, 'InvalidJson').catch(deadLetterError => {
+        console.dir(deadLetterError);
+      });
+      return callback();
+    }
+
+    const logicAppStarted = moment.utc(properties.started);
+    if (logicAppStarted) {
+      // const enqueued = lockedMessage && lockedMessage.brokerProperties ? lockedMessage.brokerProperties.EnqueuedTimeUtc : null;
+      // const serviceBusDelay = moment.utc(enqueued, 'ddd, DD MMM YYYY HH:mm:ss'); // console.log('delays - bus delay: ' + serviceBusDelay.fromNow() + ', logic app to now: ' + logicAppStarted.fromNow() + ', total ms: ' + totalMs.toString());
+      const totalSeconds = moment.utc().diff(logicAppStarted) / 1000;
+      insights.trackMetric({ name: 'JobFirehoseQueueDelay', value: totalSeconds });
+    }
+    let acknowledged = false;
+    const acknowledgeEvent = function () {
+      acknowledged = true;
+      console.log(`[message ${lockedMessage.identifier}] acknowledged (deleted)`);
+      queueProcessor.ackMessage(lockedMessage).then(() => {
+        ++processedEvents;
+      }).catch(deleteError => {
+        console.dir(deleteError);
+      });
+    };
+    
+    const operations = app.settings.operations as Operations;
+    let organization = null;
+    const installationBody = object.installation;
+    let orgName = null;
+    if (installationBody) {
+      if (installationBody.target_type && installationBody.target_type === 'Organization') {
+        const id = installationBody.target_id;
+        try {
+          const orgById = operations.getOrganizationById(id);
+          orgName = orgById.name;
+        } catch (notConfiguredById) {
+          console.log(`not configured: org ID ${id}`);
           acknowledgeEvent();
           return callback();
         }
+      } else if (installationBody.target_type) {
+        console.log(`invalid target type ${installationBody.target_type} for installation id=${installationBody.id}`)
+        acknowledgeEvent();
+        return callback();
       }
+    }
 
-      if (!orgName && object.organization) {
-        orgName = object.organization ? object.organization.login : null;
+    if (!orgName && object.organization) {
+      orgName = object.organization ? object.organization.login : null;
+    }
+    if (!orgName) {
+      acknowledgeEvent();
+      return callback(new Error('No organization.login present in the event body'));
+    }
+    try {
+      organization = operations.getOrganization(orgName);
+    } catch (noOrganizationError) {
+      acknowledgeEvent();
+      const isKnownOrganization = operations.isIgnoredOrganization(orgName);
+      if (isKnownOrganization) {
+        // While we receive events for organizations being onboarded or known but ignored,
+        // these are not exceptional events, just events to skip.
+        insights.trackEvent({
+          name: 'JobFirehoseKnownOrganizationIgnored',
+          properties: {
+            orgName: orgName,
+          },
+        });
+      } else {
+        insights.trackException({ exception: noOrganizationError });
+        insights.trackEvent({
+          name: 'JobFirehoseMissingOrganizationConfiguration',
+          properties: {
+            orgName: orgName,
+          },
+        });
       }
-      if (!orgName) {
-        acknowledgeEvent();
-        return callback(new Error('No organization.login present in the event body'));
+      return callback();
+    }
+    let data = {
+      properties: properties,
+      rawBody: rawBody,
+      body: object,
+    };
+    const options = {
+      operations: app.settings.operations,
+      organization: organization,
+      event: data,
+      acknowledgeValidEvent: acknowledgeEvent,
+    };
+    ProcessOrganizationWebhook(options).then(interestingEvents => {
+      const eventType = data.properties.event;
+      if (interestingEvents && eventType) {
+        processedEventTypes[eventType] += interestingEvents;
       }
-      try {
-        organization = operations.getOrganization(orgName);
-      } catch (noOrganizationError) {
-        acknowledgeEvent();
-        const isKnownOrganization = operations.isIgnoredOrganization(orgName);
-        if (isKnownOrganization) {
-          // While we receive events for organizations being onboarded or known but ignored,
-          // these are not exceptional events, just events to skip.
-          insights.trackEvent({
-            name: 'JobFirehoseKnownOrganizationIgnored',
-            properties: {
-              orgName: orgName,
-            },
-          });
-        } else {
-          insights.trackException({ exception: noOrganizationError });
-          insights.trackEvent({
-            name: 'JobFirehoseMissingOrganizationConfiguration',
-            properties: {
-              orgName: orgName,
-            },
-          });
-        }
-        return callback();
+      return callback();
+    }).catch(processingError => {
+      if (processingError) {
+        console.warn('Queue event error during task phase');
+        console.warn(processingError);
       }
-      let data = {
-        properties: properties,
-        rawBody: rawBody,
-        body: object,
-      };
-      const options = {
-        operations: app.settings.operations,
-        organization: organization,
-        event: data,
-        acknowledgeValidEvent: acknowledgeEvent,
-      };
-      ProcessOrganizationWebhook(options).then(interestingEvents => {
-        const eventType = data.properties.event;
-        if (interestingEvents && eventType) {
-          processedEventTypes[eventType] += interestingEvents;
-        }
-        return callback();
-      }).catch(processingError => {
-        if (processingError) {
-          console.warn('Service bus event error during task phase');
-          console.warn(processingError);
-        }
-        return callback();
-      });
+      if (!acknowledged) {
+        // The event was never validated, so further deliveries will not succeed either
+        queueProcessor.deadLetterMessage(lockedMessage, processingError && processingError.message ? processingError.message : 'ProcessingError').catch(deadLetterError => {
+          console.dir(deadLetterError);
+        });
+      }
+      return callback();
     });
   }
 };
@@ -53,7 +53,7 @@ async function refresh(config, app) : Promise<void> {
   const linkProvider = await createAndInitializeLinkProviderInstance(providers, config);
 
   console.log('reading all links to gather manager info ahead of any terminations');
-  const allLinks = await getAllLinks(linkProvider);
+  const allLinks = await linkProvider.getAll();
   console.log(`READ: ${allLinks.length} links`);
   insights.trackEvent({ name: 'JobRefreshManagersReadLinks', properties: { links: allLinks.length } });
 
@@ -160,17 +160,6 @@ async function getUserAndManager(graphProvider, employeeDirectoryId: string): Pr
   });
 }
 
-async function getAllLinks(linkProvider: ILinkProvider) : Promise<ICorporateLink[]> {
-  return new Promise<ICorporateLink[]>((resolve, reject) => {
-    linkProvider.getAll((error, links: ICorporateLink[]) => {
-      if (error) {
-        return reject(error);
-      }
-      return resolve(links);
-    });
-  });
-}
-
 function sleepPromise(ms: number): Promise<void> {
   return new Promise<void>(resolve => {
     setTimeout(resolve, ms);
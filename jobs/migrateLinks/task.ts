@@ -58,7 +58,7 @@ async function migration(config, app) : Promise<void> {
   const destinationLinkProvider = await createAndInitializeLinkProviderInstance(providers, config, destinationLinkProviderName);
 
   console.log('downloading all source links');
-  const allSourceLinks = await getAllLinks(sourceLinkProvider);
+  const allSourceLinks = await sourceLinkProvider.getAll();
   console.log(`SOURCE: ${allSourceLinks.length} links`);
 
   // const clearDestinationLinksFirst = false;
@@ -111,17 +111,14 @@ async function migration(config, app) : Promise<void> {
 }
 
 async function getThirdPartyLink(linkProvider: ILinkProvider, thirdPartyId: string) : Promise<ICorporateLink> {
-  return new Promise<ICorporateLink>((resolve, reject) => {
-    linkProvider.getByThirdPartyId(thirdPartyId, (error, link: ICorporateLink) => {
-      if (error && error['status'] === 404) {
-        error = null;
-      }
-      if (error) {
-        return reject(error);
-      }
-      return resolve(link);
-    });
-  });
+  try {
+    return await linkProvider.getByThirdPartyId(thirdPartyId);
+  } catch (error) {
+    if (error['status'] === 404) {
+      return null;
+    }
+    throw error;
+  }
 }
 
 async function getUserIdByUpn(graphProvider, upn: string) : Promise<string> {
@@ -141,34 +138,9 @@ async function getUserIdByUpn(graphProvider, upn: string) : Promise<string> {
 }
 
 async function createNewLink(linkProvider: ILinkProvider, link: ICorporateLink) : Promise<string> {
-  return new Promise<string>((resolve, reject) => {
-    linkProvider.createLink(link, (error, linkId: string) => {
-      if (error) {
-        return reject(error);
-      }
-      return resolve(linkId);
-    });
-  });
+  return linkProvider.createLink(link, { actorUsername: 'migrateLinks', reason: 'Migrated from another link provider' });
 }
 
 async function deleteLink(linkProvider: ILinkProvider, link: ICorporateLink) : Promise<void> {
-  return new Promise<void>((resolve, reject) => {
-    linkProvider.deleteLink(link, (error, wasDeleted: boolean) => {
-      if (error) {
-        return reject(error);
-      }
-      return resolve();
-    });
-  });
-}
-
-async function getAllLinks(linkProvider: ILinkProvider) : Promise<ICorporateLink[]> {
-  return new Promise<ICorporateLink[]>((resolve, reject) => {
-    linkProvider.getAll((error, links: ICorporateLink[]) => {
-      if (error) {
-        return reject(error);
-      }
-      return resolve(links);
-    });
-  });
+  await linkProvider.deleteLink(link, { actorUsername: 'migrateLinks', reason: 'Replaced by a link migrated from another link provider' });
 }
@@ -0,0 +1,23 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+/*eslint no-console: ["error", { allow: ["log"] }] */
+
+'use strict';
+
+// To skip this WebJob, setting WEBJOB_OFFBOARDING_SKIP should be set to '1'
+if (process.env.WEBJOB_OFFBOARDING_SKIP == '1' /* loose */) {
+  console.log('Offboarding job is configured to skip execution.');
+  process.exit(0);
+}
+
+process.env.DEBUG = 'redis,restapi';
+
+require('painless-config-resolver')().resolve((configurationError, config) => {
+  if (configurationError) {
+    throw configurationError;
+  }
+  require('./task')(config);
+});
@@ -0,0 +1,216 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+/*eslint no-console: ["error", { allow: ["warn", "dir", "log"] }] */
+
+'use strict';
+
+// Offboarding: look up every linked employee in the corporate directory, and once an
+// employee has not been found through the grace period, remove their organization
+// memberships and link and mail their former manager. In dry-run mode, the default,
+// the job only logs the departures it would process. The log of each run is stored in
+// Redis for review.
+
+import throat = require('throat');
+
+import { createAndInitializeLinkProviderInstance } from '../../lib/linkProviders';
+import { IProviders } from '../../transitional';
+import { ILinkProvider } from '../../lib/linkProviders/postgres/postgresLinkProvider';
+import { ICorporateLink } from '../../business/corporateLink';
+import { Operations, UnlinkPurpose } from '../../business/operations';
+import { GitHubTokenManager } from '../../github/tokenManager';
+import { IDirectoryNotFoundState, IOffboardingLog, IOffboardingLogEntry, IOffboardingOptions, IsDepartureConfirmed, RecordDirectoryNotFound, RedisKeyOffboardingLog, RedisPrefixDirectoryNotFound } from '../../features/offboarding';
+import { IGraphProvider } from '../../lib/graphProvider';
+import { RedisHelper } from '../../lib/redis';
+
+let insights;
+
+const defaultGracePeriodDays = 7;
+const defaultMinimumNotFoundCount = 3;
+const defaultMaximumDeparturesPerRun = 25;
+const offboardingLogPeriodMinutes = 60 * 24 * 30;
+
+module.exports = function run(config) {
+  const app = require('../../app');
+  config.skipModules = new Set([
+    'web',
+  ]);
+
+  app.initializeApplication(config, null, error => {
+    if (error) {
+      throw error;
+    }
+    insights = app.settings.appInsightsClient;
+    if (!insights) {
+      throw new Error('No app insights client available');
+    }
+    GitHubTokenManager.IsBackgroundJob();
+    offboard(config, app).then(done => {
+      console.log('done');
+      process.exit(0);
+    }).catch(error => {
+      if (insights) {
+        insights.trackException({ exception: error, properties: { name: 'JobOffboardingFailure' } });
+      }
+      throw error;
+    });
+  });
+};
+
+async function offboard(config, app): Promise<void> {
+  const jobConfig = config.github && config.github.jobs && config.github.jobs.offboarding ? config.github.jobs.offboarding : {};
+  const dryRun = jobConfig.dryRun !== false;
+  const options: IOffboardingOptions = {
+    gracePeriodDays: jobConfig.gracePeriodDays || defaultGracePeriodDays,
+    minimumNotFoundCount: jobConfig.minimumNotFoundCount || defaultMinimumNotFoundCount,
+  };
+  const maximumDeparturesPerRun = jobConfig.maximumDeparturesPerRun || defaultMaximumDeparturesPerRun;
+  // The tracking outlives the grace period, so that a missed run does not restart it
+  const notFoundTrackingPeriodMinutes = (options.gracePeriodDays * 2 + 7) * 24 * 60;
+
+  const providers = app.settings.providers as IProviders;
+  const operations = providers.operations as Operations;
+  const graphProvider = providers.graphProvider;
+  const redisHelper = providers.redis;
+  const linkProvider = await createAndInitializeLinkProviderInstance(providers, config);
+
+  const log: IOffboardingLog = {
+    started: new Date().toISOString(),
+    finished: null,
+    dryRun,
+    linksChecked: 0,
+    pendingDepartures: 0,
+    departures: [],
+  };
+
+  console.log(`reading all links to check the corporate directory${dryRun ? ' (dry run)' : ''}`);
+  const allLinks = await linkProvider.getAll();
+  console.log(`READ: ${allLinks.length} links`);
+  insights.trackEvent({ name: 'JobOffboardingReadLinks', properties: { links: allLinks.length, dryRun: dryRun ? 'yes' : 'no' } });
+
+  let errors = 0;
+  const confirmed: IDirectoryNotFoundState[] = [];
+
+  const userDetailsThroatCount = 5;
+  const secondsDelayAfterError = 1;
+  const secondsDelayAfterSuccess = 0.15;
+
+  await Promise.all(allLinks.map(throat<void, (link: ICorporateLink) => Promise<void>>(async link => {
+    if (link.isServiceAccount) {
+      return;
+    }
+    const key = `${RedisPrefixDirectoryNotFound}${link.corporateId}`;
+    try {
+      const found = await isInDirectory(graphProvider, link.corporateId);
+      ++log.linksChecked;
+      const previous = await redisHelper.getObjectCompressedAsync(key) as IDirectoryNotFoundState;
+      if (found) {
+        if (previous) {
+          console.log(`${link.corporateUsername} is in the directory again`);
+          await redisHelper.deleteAsync(key);
+        }
+      } else {
+        const now = new Date();
+        const state = RecordDirectoryNotFound(previous, link, now);
+        await redisHelper.setObjectCompressedWithExpireAsync(key, state, notFoundTrackingPeriodMinutes);
+        if (IsDepartureConfirmed(state, options, now)) {
+          confirmed.push(state);
+        } else {
+          ++log.pendingDepartures;
+          console.log(`${link.corporateUsername} was not found in the directory (${state.notFoundCount} times since ${state.firstNotFound})`);
+        }
+      }
+    } catch (retrievalError) {
+      ++errors;
+      console.dir(retrievalError);
+      insights.trackEvent({ name: 'JobOffboardingDirectoryError', properties: { error: retrievalError.message } });
+      await sleepPromise(secondsDelayAfterError * 1000);
+      return;
+    }
+    await sleepPromise(secondsDelayAfterSuccess * 1000);
+  }, userDetailsThroatCount)));
+
+  // A directory outage can look like a mass departure, so large runs stop for review
+  const halt = !dryRun && confirmed.length > maximumDeparturesPerRun;
+  if (halt) {
+    log.halted = `${confirmed.length} departures exceed the maximum of ${maximumDeparturesPerRun} per run; no links were terminated`;
+    console.warn(log.halted);
+    insights.trackEvent({ name: 'JobOffboardingHalted', properties: { departures: confirmed.length, maximum: maximumDeparturesPerRun } });
+  }
+  for (const state of confirmed) {
+    const link = allLinks.find(l => l.corporateId === state.corporateId);
+    const entry = await processDeparture(operations, redisHelper, link, state, dryRun || halt);
+    console.log(`${dryRun || halt ? 'Would offboard' : 'Offboarded'} ${entry.corporateUsername} (${entry.thirdPartyUsername}):`);
+    entry.history.forEach(line => console.log(`  ${line}`));
+    log.departures.push(entry);
+  }
+
+  log.finished = new Date().toISOString();
+  await redisHelper.setObjectCompressedWithExpireAsync(RedisKeyOffboardingLog, log, offboardingLogPeriodMinutes);
+
+  console.log(`All done with ${errors} errors. Departures: ${log.departures.length}. Pending: ${log.pendingDepartures}.`);
+  insights.trackEvent({
+    name: 'JobOffboardingSuccess',
+    properties: {
+      dryRun: dryRun ? 'yes' : 'no',
+      departures: log.departures.length,
+      pending: log.pendingDepartures,
+      errors,
+    },
+  });
+}
+
+async function processDeparture(operations: Operations, redisHelper: RedisHelper, link: ICorporateLink, state: IDirectoryNotFoundState, dryRun: boolean): Promise<IOffboardingLogEntry> {
+  const entry: IOffboardingLogEntry = {
+    corporateId: link.corporateId,
+    corporateUsername: link.corporateUsername,
+    thirdPartyId: link.thirdPartyId,
+    thirdPartyUsername: link.thirdPartyUsername,
+    firstNotFound: state.firstNotFound,
+    notFoundCount: state.notFoundCount,
+    history: [],
+  };
+  try {
+    const managementInformation = await operations.getCachedEmployeeManagementInformation(link.corporateId);
+    entry.managerMail = managementInformation ? managementInformation.managerMail : undefined;
+  } catch (ignoredCacheError) {
+    entry.history.push(`The cached manager information could not be read: ${ignoredCacheError.message}`);
+  }
+  if (dryRun) {
+    try {
+      const account = operations.getAccount(link.thirdPartyId);
+      const organizations = await account.getOperationalOrganizationMemberships();
+      entry.history.push(organizations.length ? `Would remove ${link.thirdPartyUsername} from ${organizations.map(org => org.name).join(', ')}` : `${link.thirdPartyUsername} is not a member of any managed organizations`);
+    } catch (membershipError) {
+      entry.history.push(`The organization memberships could not be retrieved: ${membershipError.message}`);
+    }
+    entry.history.push('Would remove the link');
+    entry.history.push(entry.managerMail ? `Would mail ${entry.managerMail}` : 'Would mail the operations team, without cached manager information');
+    return entry;
+  }
+  try {
+    entry.history.push(... await operations.terminateLinkAndMemberships(link.thirdPartyId, {
+      purpose: UnlinkPurpose.Termination,
+      reason: `Not found in the corporate directory ${state.notFoundCount} times since ${state.firstNotFound}`,
+    }));
+    await redisHelper.deleteAsync(`${RedisPrefixDirectoryNotFound}${link.corporateId}`);
+  } catch (terminationError) {
+    entry.error = terminationError.message;
+    insights.trackException({ exception: terminationError, properties: { name: 'JobOffboardingTerminationError', corporateId: link.corporateId } });
+  }
+  return entry;
+}
+
+async function isInDirectory(graphProvider: IGraphProvider, corporateId: string): Promise<boolean> {
+  // Resolves null for users that are not found; other errors are thrown
+  const user = await graphProvider.getUser(corporateId);
+  return !!user;
+}
+
+function sleepPromise(ms: number): Promise<void> {
+  return new Promise<void>(resolve => {
+    setTimeout(resolve, ms);
+  });
+}
@@ -52,7 +52,7 @@ async function refresh(config, app) : Promise<void> {
   const graphProvider = providers.graphProvider;
 
   console.log('reading all links');
-  const allLinks = await getAllLinks(linkProvider);
+  const allLinks = await linkProvider.getAll();
   console.log(`READ: ${allLinks.length} links`);
   insights.trackEvent({ name: 'JobRefreshUsernamesReadLinks', properties: { links: allLinks.length } });
 
@@ -158,25 +158,7 @@ async function refresh(config, app) : Promise<void> {
 }
 
 async function updateLink(linkProvider: ILinkProvider, link: ICorporateLink) : Promise<void> {
-  return new Promise<void>((resolve, reject) => {
-    linkProvider.updateLink(link, error => {
-      if (error) {
-        return reject(error);
-      }
-      return resolve();
-    });
-  });
-}
-
-async function getAllLinks(linkProvider: ILinkProvider) : Promise<ICorporateLink[]> {
-  return new Promise<ICorporateLink[]>((resolve, reject) => {
-    linkProvider.getAll((error, links: ICorporateLink[]) => {
-      if (error) {
-        return reject(error);
-      }
-      return resolve(links);
-    });
-  });
+  await linkProvider.updateLink(link, { actorUsername: 'refreshUsernames', reason: 'Refreshed from GitHub and the corporate directory' });
 }
 
 function sleepPromise(ms: number): Promise<void> {
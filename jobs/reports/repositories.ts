@@ -17,6 +17,7 @@ import { IRepositoryMetadataProvider } from '../../entities/repositoryMetadata/r
 import { RepositoryMetadataEntity } from '../../entities/repositoryMetadata/repositoryMetadata';
 import { Operations } from '../../business/operations';
 import { Organization } from '../../business/organization';
+import { IRepositoryBaselineDriftEntry, IRepositoryBaselineDriftReport, RedisKeyRepositoryBaselineDriftReport } from '../../features/repositoryBaselineDrift';
 const qlimit = require('qlimit');
 const querystring = require('querystring');
 
@@ -34,10 +35,27 @@ for (let i = 0; i < definitions.length; i++) {
 const simpleDateFormat = 'l';
 
 function processRepositories(context) {
-  return getRepos(context)
+  return getBaselineDrift(context)
+    .then(getRepos)
     .then(iterateRepos);
 }
 
+async function getBaselineDrift(context): Promise<any> {
+  // Stored by the baseline drift job, if it runs in this environment
+  const operations = context.operations as Operations;
+  const redis = operations.providers.redis;
+  context.baselineDrift = new Map<number, IRepositoryBaselineDriftEntry>();
+  try {
+    const report = redis ? await redis.getObjectCompressedAsync(RedisKeyRepositoryBaselineDriftReport) as IRepositoryBaselineDriftReport : null;
+    for (const entry of report ? report.repositories : []) {
+      context.baselineDrift.set(entry.repositoryId, entry);
+    }
+  } catch (error) {
+    console.warn(`The repository baseline drift report could not be read: ${error.message}`);
+  }
+  return context;
+}
+
 function getRepositoryAdministrators(repositoryContext): Q.Promise<Map<string, any>> {
   const repository = repositoryContext.repository;
   const administrators = new Map();
@@ -396,6 +414,10 @@ function processRepository(context, repository: Repository) {
             link: githubDirectLink('repoBrowse'),
             text: 'Open',
           };
+          const actionViewSettings = {
+            link: githubDirectLink('repoBaselineDrift', null, 'settings/branches'),
+            text: 'Settings',
+          };
           const actionShip = {
             link: githubDirectLink('repoShipIt', null, 'settings'),
             text: 'Ship it',
@@ -417,6 +439,14 @@ function processRepository(context, repository: Repository) {
             addEntityToIssueType(context, repositoryContext, 'noRepositoryAdministrators', basicRepository, actionEditCollaborators, actionViewInPortal);
           }
 
+          const baselineDrift = context.baselineDrift ? context.baselineDrift.get(repository.id) : null;
+          if (baselineDrift) {
+            const repositoryWithDrift = Object.assign({}, basicRepository, {
+              drift: baselineDrift.drift.map(drift => drift.remediated ? `${drift.message} (remediated)` : drift.message).join('; '),
+            });
+            addEntityToIssueType(context, repositoryContext, 'repositoryBaselineDrift', repositoryWithDrift, actionViewSettings, actionViewInPortal);
+          }
+
           let createdAt = repository.created_at ? moment(repository.created_at) : null;
           if (createdAt) {
             basicRepository.created = createdAt.format(simpleDateFormat);
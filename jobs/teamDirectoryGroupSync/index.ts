@@ -0,0 +1,23 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+/*eslint no-console: ["error", { allow: ["log"] }] */
+
+'use strict';
+
+// To skip this WebJob, setting WEBJOB_TEAM_DIRECTORY_GROUP_SYNC_SKIP should be set to '1'
+if (process.env.WEBJOB_TEAM_DIRECTORY_GROUP_SYNC_SKIP == '1' /* loose */) {
+  console.log('Team directory group sync job is configured to skip execution.');
+  process.exit(0);
+}
+
+process.env.DEBUG = 'redis,restapi';
+
+require('painless-config-resolver')().resolve((configurationError, config) => {
+  if (configurationError) {
+    throw configurationError;
+  }
+  require('./task')(config);
+});
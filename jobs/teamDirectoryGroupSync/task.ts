@@ -0,0 +1,184 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+/*eslint no-console: ["error", { allow: ["warn", "dir", "log"] }] */
+
+'use strict';
+
+// Team directory group sync: for every team bound to a corporate directory group,
+// add the linked GitHub accounts of the group members to the team and remove the
+// members who are not in the group, except for excluded logins and team maintainers.
+// Group members without a link are reported. The report of each run is stored in
+// Redis and shown on the team properties page.
+
+import { createAndInitializeLinkProviderInstance } from '../../lib/linkProviders';
+import { IProviders } from '../../transitional';
+import { ILinkProvider } from '../../lib/linkProviders/postgres/postgresLinkProvider';
+import { ICorporateLink } from '../../business/corporateLink';
+import { Operations } from '../../business/operations';
+import { GitHubTokenManager } from '../../github/tokenManager';
+import { TeamDirectoryGroupEntity } from '../../entities/teamDirectoryGroup/teamDirectoryGroup';
+import { ITeamDirectoryGroupSyncReport, ITeamDirectoryGroupSyncReportEntry, PlanTeamDirectoryGroupSync, RedisKeyTeamDirectoryGroupSyncReport } from '../../features/teamDirectoryGroupSync';
+import { IGraphProvider } from '../../lib/graphProvider';
+import { sleep } from '../../utils';
+
+let insights;
+
+const defaultReportTimeToLiveMinutes = 60 * 24 * 7;
+const delayBetweenTeamsMilliseconds = 500;
+const teamMembersMaxAgeSeconds = 60 * 5;
+
+module.exports = function run(config) {
+  const app = require('../../app');
+  config.skipModules = new Set([
+    'web',
+  ]);
+
+  app.initializeJob(config, null, error => {
+    if (error) {
+      throw error;
+    }
+    insights = app.settings.appInsightsClient;
+    if (!insights) {
+      throw new Error('No app insights client available');
+    }
+    GitHubTokenManager.IsBackgroundJob();
+    synchronize(config, app).then(done => {
+      console.log('done');
+      process.exit(0);
+    }).catch(error => {
+      if (insights) {
+        insights.trackException({ exception: error, properties: { name: 'JobTeamDirectoryGroupSyncFailure' } });
+      }
+      console.dir(error);
+      throw error;
+    });
+  });
+};
+
+async function synchronize(config, app): Promise<void> {
+  const jobConfig = config.github && config.github.jobs && config.github.jobs.teamDirectoryGroupSync ? config.github.jobs.teamDirectoryGroupSync : {};
+  const dryRun = jobConfig.dryRun === true;
+  const reportTimeToLiveMinutes = jobConfig.reportTimeToLiveMinutes || defaultReportTimeToLiveMinutes;
+
+  const providers = app.settings.providers as IProviders;
+  const operations = providers.operations as Operations;
+  const graphProvider = providers.graphProvider;
+  if (!graphProvider) {
+    throw new Error('The team directory group sync job requires a graph provider');
+  }
+  const teamDirectoryGroupProvider = providers.teamDirectoryGroupProvider;
+  const bindings = await teamDirectoryGroupProvider.queryAllTeamDirectoryGroups();
+  console.log(`${bindings.length} teams are bound to directory groups${dryRun ? ' (dry run)' : ''}`);
+  if (!bindings.length) {
+    return;
+  }
+
+  const linkProvider = await createAndInitializeLinkProviderInstance(providers, config);
+  const allLinks = await linkProvider.getAll();
+  const linksByCorporateId = new Map<string, ICorporateLink>();
+  for (const link of allLinks) {
+    if (link.corporateId && !link.isServiceAccount) {
+      linksByCorporateId.set(link.corporateId, link);
+    }
+  }
+  console.log(`READ: ${allLinks.length} links`);
+
+  const report: ITeamDirectoryGroupSyncReport = {
+    started: new Date().toISOString(),
+    finished: null,
+    dryRun,
+    teams: [],
+  };
+  let added = 0;
+  let removed = 0;
+  let errors = 0;
+
+  for (const binding of bindings) {
+    const entry = await synchronizeTeam(operations, graphProvider, linksByCorporateId, binding, dryRun);
+    report.teams.push(entry);
+    added += entry.added.length;
+    removed += entry.removed.length;
+    if (entry.error) {
+      ++errors;
+      console.warn(`${entry.organizationName}/${entry.teamName}: ${entry.error}`);
+    }
+    await sleep(delayBetweenTeamsMilliseconds);
+  }
+
+  report.finished = new Date().toISOString();
+  if (providers.redis) {
+    await providers.redis.setObjectCompressedWithExpireAsync(RedisKeyTeamDirectoryGroupSyncReport, report, reportTimeToLiveMinutes);
+  } else {
+    console.warn('The report of the sync is not stored without a Redis provider');
+  }
+
+  const unlinked = report.teams.reduce((count, entry) => count + entry.unlinked.length, 0);
+  console.log(`All done with ${errors} errors. Added: ${added}. Removed: ${removed}. Unlinked group members: ${unlinked}.`);
+  insights.trackEvent({
+    name: 'JobTeamDirectoryGroupSyncSuccess',
+    properties: {
+      dryRun: dryRun ? 'yes' : 'no',
+      teams: bindings.length,
+      added,
+      removed,
+      unlinked,
+      errors,
+    },
+  });
+}
+
+async function synchronizeTeam(operations: Operations, graphProvider: IGraphProvider, linksByCorporateId: Map<string, ICorporateLink>, binding: TeamDirectoryGroupEntity, dryRun: boolean): Promise<ITeamDirectoryGroupSyncReportEntry> {
+  const entry: ITeamDirectoryGroupSyncReportEntry = {
+    teamId: binding.teamId,
+    teamName: binding.teamName,
+    organizationName: binding.organizationName,
+    groupId: binding.groupId,
+    groupDisplayName: binding.groupDisplayName,
+    groupMembers: 0,
+    added: [],
+    removed: [],
+    unlinked: [],
+  };
+  try {
+    const group = await graphProvider.getGroup(binding.groupId);
+    if (!group) {
+      entry.error = `The directory group ${binding.groupId} was not found; the team was not changed`;
+      return entry;
+    }
+    entry.groupDisplayName = group.displayName;
+    const groupMembers = await graphProvider.getGroupMembers(binding.groupId);
+    entry.groupMembers = groupMembers.length;
+
+    const organization = operations.getOrganization(binding.organizationName);
+    const team = organization.team(parseInt(binding.teamId, 10));
+    await team.getDetails();
+    entry.teamName = team.name;
+    const cacheOptions = { maxAgeSeconds: teamMembersMaxAgeSeconds, backgroundRefresh: false };
+    const members = await team.getMembers(cacheOptions);
+    const maintainers = await team.getMaintainers(cacheOptions);
+
+    const plan = PlanTeamDirectoryGroupSync(groupMembers, linksByCorporateId, members.map(member => member.login), maintainers.map(maintainer => maintainer.login), binding.exclusions || []);
+    entry.unlinked = plan.unlinked;
+    for (const login of plan.add) {
+      console.log(`${dryRun ? 'Would add' : 'Adding'} ${login} to ${organization.name}/${team.name}`);
+      if (!dryRun) {
+        await team.addMembership(login);
+      }
+      entry.added.push(login);
+    }
+    for (const login of plan.remove) {
+      console.log(`${dryRun ? 'Would remove' : 'Removing'} ${login} from ${organization.name}/${team.name}`);
+      if (!dryRun) {
+        await team.removeMembership(login);
+      }
+      entry.removed.push(login);
+    }
+  } catch (syncError) {
+    entry.error = syncError.message;
+    insights.trackException({ exception: syncError, properties: { name: 'JobTeamDirectoryGroupSyncTeamError', teamId: binding.teamId } });
+  }
+  return entry;
+}
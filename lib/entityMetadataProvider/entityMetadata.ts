@@ -11,9 +11,13 @@ export enum EntityMetadataType {
 
   // GitHub entities METADATA
   Repository = 'Repository',
+  RepositoryWorkflowRun = 'RepositoryWorkflowRun',
 
   // App-specific entities
+  AuditLogRecord = 'AuditLogRecord',
+  TeamDirectoryGroup = 'TeamDirectoryGroup',
   TeamJoinRequest = 'TeamJoinRequest',
+  WebhookDelivery = 'WebhookDelivery',
 
   // Fast query cache entities
   OrganizationMemberCache = 'OrganizationMemberCache',
@@ -31,7 +35,11 @@ export enum EntityMetadataType {
 
 export const EntityMetadataTypes = [
   EntityMetadataType.Repository,
+  EntityMetadataType.RepositoryWorkflowRun,
+  EntityMetadataType.AuditLogRecord,
+  EntityMetadataType.TeamDirectoryGroup,
   EntityMetadataType.TeamJoinRequest,
+  EntityMetadataType.WebhookDelivery,
   EntityMetadataType.Token,
   EntityMetadataType.LocalExtensionKey,
   EntityMetadataType.OrganizationMemberCache,
@@ -27,6 +27,7 @@ export enum FixedQueryType {
   // Repo cache
   RepositoryCacheGetAll,
   RepositoryCacheGetByOrganizationId,
+  RepositoryCacheGetByOrganizationIdAndName,
   // Repo collaborator cache
   RepositoryCollaboratorCacheGetAll,
   RepositoryCollaboratorCacheByOrganizationId,
@@ -47,6 +48,17 @@ export enum FixedQueryType {
   TeamMemberCacheGetByUserId,
   TeamMemberCacheGetByTeamId,
   TeamMemberCacheGetByOrganizationIdAndUserId,
+  // Audit log
+  AuditLogRecordsByActorId,
+  AuditLogRecordsByRepositoryId,
+  AuditLogRecordsByTeamId,
+  AuditLogRecordsByUserId,
+  AuditLogRecordsByTimeRange,
+  // Webhook deliveries
+  WebhookDeliveriesGetAll,
+  WebhookDeliveriesGetByOutcome,
+  // Team directory groups
+  TeamDirectoryGroupsGetAll,
   // Organization settings
   OrganizationSettingsGetAll,
   OrganizationSettingsGetMostRecentlyUpdatedActive,
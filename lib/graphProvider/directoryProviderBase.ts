@@ -0,0 +1,79 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import { IDirectoryGroup, IDirectorySearchOptions, IDirectoryUser, IGraphProvider } from '.';
+
+// Implements the callback methods of the graph provider on top of the
+// promise-based directory methods, for providers other than Microsoft Graph.
+
+const maximumManagerChainLength = 25;
+
+export abstract class DirectoryProviderBase implements IGraphProvider {
+  abstract getUser(id: string): Promise<IDirectoryUser>;
+  abstract searchUsers(query: string, options?: IDirectorySearchOptions): Promise<IDirectoryUser[]>;
+  abstract getManager(id: string): Promise<IDirectoryUser>;
+  abstract getGroup(groupId: string): Promise<IDirectoryGroup>;
+  abstract getGroupMemberships(id: string): Promise<IDirectoryGroup[]>;
+  abstract getGroupMembers(groupId: string): Promise<IDirectoryUser[]>;
+
+  async getManagerChain(id: string): Promise<IDirectoryUser[]> {
+    const chain: IDirectoryUser[] = [];
+    const visited = new Set<string>([id]);
+    let manager = await this.getManager(id);
+    while (manager && !visited.has(manager.id) && chain.length < maximumManagerChainLength) {
+      chain.push(manager);
+      visited.add(manager.id);
+      manager = await this.getManager(manager.id);
+    }
+    return chain;
+  }
+
+  getUserById(corporateId: string, callback) {
+    callbackOutsidePromise(this.getUser(corporateId).then(user => requireFound(user, corporateId)), callback);
+  }
+
+  getUserByIdAsync(id: string): Promise<any> {
+    return this.getUser(id);
+  }
+
+  getManagerById(corporateId: string, callback) {
+    callbackOutsidePromise(this.getManager(corporateId).then(manager => requireFound(manager, corporateId)), callback);
+  }
+
+  getUserAndManagerById(corporateId: string, callback) {
+    callbackOutsidePromise(this.getUserAndManager(corporateId), callback);
+  }
+
+  private async getUserAndManager(corporateId: string): Promise<IDirectoryUser> {
+    const user = requireFound(await this.getUser(corporateId), corporateId);
+    const manager = await this.getManager(user.id);
+    return manager ? Object.assign({ manager }, user) : user;
+  }
+}
+
+function callbackOutsidePromise<T>(promise: Promise<T>, callback) {
+  // The callback is called once, outside of the promise chain, so that an error
+  // thrown by the callback is not reported to the callback as a lookup failure
+  promise.then(result => {
+    setImmediate(() => callback(null, result));
+  }, error => {
+    setImmediate(() => callback(error, null));
+  });
+}
+
+function requireFound(user: IDirectoryUser, id: string): IDirectoryUser {
+  if (!user) {
+    throw createNotFoundError(id);
+  }
+  return user;
+}
+
+function createNotFoundError(id: string): Error {
+  const error = new Error(`user not found in the corporate directory with the ID '${id}'`);
+  error['status'] = 404;
+  return error;
+}
@@ -6,8 +6,42 @@
 'use strict';
 
 import { MicrosoftGraphProvider } from "./microsoftGraphProvider";
+import { LdapDirectoryProvider } from './ldapDirectoryProvider';
+import { ScimDirectoryProvider } from './scimDirectoryProvider';
+import { MemoryDirectoryProvider } from './memoryDirectoryProvider';
 
-export interface IGraphProvider {
+export interface IDirectoryUser {
+  id: string;
+  userPrincipalName: string;
+  displayName: string;
+  mail: string;
+  givenName?: string;
+  userType?: string;
+}
+
+export interface IDirectoryGroup {
+  id: string;
+  displayName: string;
+  mail?: string;
+}
+
+export interface IDirectorySearchOptions {
+  maximum?: number;
+}
+
+// The promise-based directory interface. Lookups resolve null for users and
+// groups that are not in the directory.
+export interface IDirectoryProvider {
+  getUser(id: string): Promise<IDirectoryUser>;
+  searchUsers(query: string, options?: IDirectorySearchOptions): Promise<IDirectoryUser[]>;
+  getManager(id: string): Promise<IDirectoryUser>;
+  getManagerChain(id: string): Promise<IDirectoryUser[]>;
+  getGroup(groupId: string): Promise<IDirectoryGroup>;
+  getGroupMemberships(id: string): Promise<IDirectoryGroup[]>;
+  getGroupMembers(groupId: string): Promise<IDirectoryUser[]>;
+}
+
+export interface IGraphProvider extends IDirectoryProvider {
   getUserById(corporateId: string, callback);
   getUserByIdAsync(id: string) : Promise<any>;
 
@@ -30,6 +64,15 @@ export function CreateGraphProviderInstance(config, callback) {
       case 'microsoftGraphProvider':
         providerInstance = new MicrosoftGraphProvider(graphConfig);
         break;
+      case 'ldapDirectoryProvider':
+        providerInstance = new LdapDirectoryProvider(graphConfig.ldap || {});
+        break;
+      case 'scimDirectoryProvider':
+        providerInstance = new ScimDirectoryProvider(graphConfig.scim || {});
+        break;
+      case 'memoryDirectoryProvider':
+        providerInstance = new MemoryDirectoryProvider(graphConfig.memory || {});
+        break;
       default:
         break;
     }
@@ -0,0 +1,236 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+const ldap = require('ldapjs');
+
+import { IDirectoryGroup, IDirectorySearchOptions, IDirectoryUser } from '.';
+import { DirectoryProviderBase } from './directoryProviderBase';
+
+// An LDAP directory, such as OpenLDAP or Active Directory. The attribute names
+// default to the inetOrgPerson and groupOfNames schemas; the manager attribute
+// and group members are distinguished names.
+
+export interface ILdapDirectoryProviderOptions {
+  url: string;
+  bindDn: string;
+  bindCredentials: string;
+  userSearchBase: string;
+  groupSearchBase?: string;
+  userObjectClass?: string;
+  groupObjectClass?: string;
+  idAttribute?: string;
+  userPrincipalNameAttribute?: string;
+  mailAttribute?: string;
+  displayNameAttribute?: string;
+  givenNameAttribute?: string;
+  managerAttribute?: string;
+  groupIdAttribute?: string;
+  groupMemberAttribute?: string;
+  timeoutSeconds?: number;
+}
+
+const defaultMaximumSearchResults = 25;
+
+export class LdapDirectoryProvider extends DirectoryProviderBase {
+  private _options: ILdapDirectoryProviderOptions;
+  private _client: Promise<any>;
+
+  constructor(options: ILdapDirectoryProviderOptions) {
+    super();
+    if (!options.url) {
+      throw new Error('LdapDirectoryProvider: url required');
+    }
+    if (!options.userSearchBase) {
+      throw new Error('LdapDirectoryProvider: userSearchBase required');
+    }
+    this._options = Object.assign({
+      groupSearchBase: options.userSearchBase,
+      userObjectClass: 'inetOrgPerson',
+      groupObjectClass: 'groupOfNames',
+      idAttribute: 'uid',
+      userPrincipalNameAttribute: 'mail',
+      mailAttribute: 'mail',
+      displayNameAttribute: 'displayName',
+      givenNameAttribute: 'givenName',
+      managerAttribute: 'manager',
+      groupIdAttribute: 'cn',
+      groupMemberAttribute: 'member',
+      timeoutSeconds: 30,
+    }, removeEmptyValues(options));
+  }
+
+  async getUser(id: string): Promise<IDirectoryUser> {
+    const entry = await this.getUserEntry(id);
+    return entry ? this.toDirectoryUser(entry) : null;
+  }
+
+  async searchUsers(query: string, options?: IDirectorySearchOptions): Promise<IDirectoryUser[]> {
+    const maximum = options && options.maximum ? options.maximum : defaultMaximumSearchResults;
+    const o = this._options;
+    const value = escapeFilterValue(query);
+    const filter = `(&(objectClass=${o.userObjectClass})(|(${o.displayNameAttribute}=*${value}*)(${o.userPrincipalNameAttribute}=${value}*)(${o.mailAttribute}=${value}*)(${o.idAttribute}=${value}*)))`;
+    const entries = await this.search(o.userSearchBase, filter, maximum);
+    return entries.map(entry => this.toDirectoryUser(entry));
+  }
+
+  async getManager(id: string): Promise<IDirectoryUser> {
+    const entry = await this.getUserEntry(id);
+    const managerDn = entry ? first(entry[this._options.managerAttribute]) : null;
+    const manager = managerDn ? await this.getEntryByDn(managerDn) : null;
+    return manager ? this.toDirectoryUser(manager) : null;
+  }
+
+  async getGroup(groupId: string): Promise<IDirectoryGroup> {
+    const entry = await this.getGroupEntry(groupId);
+    return entry ? this.toDirectoryGroup(entry) : null;
+  }
+
+  async getGroupMemberships(id: string): Promise<IDirectoryGroup[]> {
+    const o = this._options;
+    const entry = await this.getUserEntry(id);
+    if (!entry) {
+      return [];
+    }
+    const filter = `(&(objectClass=${o.groupObjectClass})(${o.groupMemberAttribute}=${escapeFilterValue(entry.dn)}))`;
+    const groups = await this.search(o.groupSearchBase, filter);
+    return groups.map(group => this.toDirectoryGroup(group));
+  }
+
+  async getGroupMembers(groupId: string): Promise<IDirectoryUser[]> {
+    const entry = await this.getGroupEntry(groupId);
+    const memberDns = entry ? asArray(entry[this._options.groupMemberAttribute]) : [];
+    const members: IDirectoryUser[] = [];
+    for (const memberDn of memberDns) {
+      const member = await this.getEntryByDn(memberDn);
+      if (member && asArray(member.objectClass).includes(this._options.userObjectClass)) {
+        members.push(this.toDirectoryUser(member));
+      }
+    }
+    return members;
+  }
+
+  private async getUserEntry(id: string): Promise<any> {
+    const o = this._options;
+    const value = escapeFilterValue(id);
+    const filter = `(&(objectClass=${o.userObjectClass})(|(${o.idAttribute}=${value})(${o.userPrincipalNameAttribute}=${value})))`;
+    const entries = await this.search(o.userSearchBase, filter, 1);
+    return entries.length ? entries[0] : null;
+  }
+
+  private async getGroupEntry(groupId: string): Promise<any> {
+    const o = this._options;
+    const filter = `(&(objectClass=${o.groupObjectClass})(${o.groupIdAttribute}=${escapeFilterValue(groupId)}))`;
+    const entries = await this.search(o.groupSearchBase, filter, 1);
+    return entries.length ? entries[0] : null;
+  }
+
+  private async getEntryByDn(dn: string): Promise<any> {
+    try {
+      const entries = await this.search(dn, '(objectClass=*)', 1, 'base');
+      return entries.length ? entries[0] : null;
+    } catch (error) {
+      if (error.name === 'NoSuchObjectError') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private toDirectoryUser(entry: any): IDirectoryUser {
+    const o = this._options;
+    return {
+      id: first(entry[o.idAttribute]),
+      userPrincipalName: first(entry[o.userPrincipalNameAttribute]),
+      displayName: first(entry[o.displayNameAttribute]),
+      givenName: first(entry[o.givenNameAttribute]),
+      mail: first(entry[o.mailAttribute]),
+    };
+  }
+
+  private toDirectoryGroup(entry: any): IDirectoryGroup {
+    return {
+      id: first(entry[this._options.groupIdAttribute]),
+      displayName: first(entry.description) || first(entry[this._options.groupIdAttribute]),
+      mail: first(entry[this._options.mailAttribute]),
+    };
+  }
+
+  private async search(base: string, filter: string, sizeLimit?: number, scope?: string): Promise<any[]> {
+    const client = await this.getClient();
+    return new Promise<any[]>((resolve, reject) => {
+      const entries = [];
+      client.search(base, { filter, scope: scope || 'sub', sizeLimit: sizeLimit || 0 }, (searchError, response) => {
+        if (searchError) {
+          return reject(searchError);
+        }
+        response.on('searchEntry', entry => entries.push(entry.object));
+        response.on('error', error => {
+          // Reaching the size limit still returns the entries found
+          return error.name === 'SizeLimitExceededError' ? resolve(entries) : reject(error);
+        });
+        response.on('end', () => resolve(entries));
+      });
+    });
+  }
+
+  private getClient(): Promise<any> {
+    if (!this._client) {
+      this._client = new Promise<any>((resolve, reject) => {
+        const o = this._options;
+        const client = ldap.createClient({
+          url: o.url,
+          timeout: o.timeoutSeconds * 1000,
+          connectTimeout: o.timeoutSeconds * 1000,
+        });
+        const reset = () => { this._client = null; };
+        client.on('error', error => {
+          reset();
+          reject(error);
+        });
+        client.on('close', reset);
+        if (!o.bindDn) {
+          return resolve(client);
+        }
+        client.bind(o.bindDn, o.bindCredentials, bindError => {
+          if (bindError) {
+            reset();
+            client.unbind();
+            return reject(bindError);
+          }
+          return resolve(client);
+        });
+      });
+    }
+    return this._client;
+  }
+}
+
+// RFC 4515 escaping of values in search filters
+function escapeFilterValue(value: string): string {
+  return value.replace(/[\\*()\0]/g, character => '\\' + character.charCodeAt(0).toString(16).padStart(2, '0'));
+}
+
+function asArray(value: any): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function first(value: any): string {
+  return asArray(value)[0];
+}
+
+function removeEmptyValues(options: any): any {
+  const copy = {};
+  for (const key of Object.getOwnPropertyNames(options)) {
+    if (options[key] !== undefined && options[key] !== null && options[key] !== '') {
+      copy[key] = options[key];
+    }
+  }
+  return copy;
+}
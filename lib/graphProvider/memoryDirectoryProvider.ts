@@ -0,0 +1,72 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import { IDirectoryGroup, IDirectorySearchOptions, IDirectoryUser } from '.';
+import { DirectoryProviderBase } from './directoryProviderBase';
+
+// A directory of fixture users and groups, for tests and development.
+
+export interface IMemoryDirectoryUser extends IDirectoryUser {
+  managerId?: string;
+  groupIds?: string[];
+}
+
+export interface IMemoryDirectoryProviderOptions {
+  users?: IMemoryDirectoryUser[];
+  groups?: IDirectoryGroup[];
+}
+
+const defaultMaximumSearchResults = 25;
+
+export class MemoryDirectoryProvider extends DirectoryProviderBase {
+  private _users: IMemoryDirectoryUser[];
+  private _groups: IDirectoryGroup[];
+
+  constructor(options: IMemoryDirectoryProviderOptions) {
+    super();
+    this._users = options.users || [];
+    this._groups = options.groups || [];
+  }
+
+  async getUser(id: string): Promise<IDirectoryUser> {
+    const lowercase = id.toLowerCase();
+    const user = this._users.find(u => u.id === id || (u.userPrincipalName && u.userPrincipalName.toLowerCase() === lowercase));
+    return user ? toDirectoryUser(user) : null;
+  }
+
+  async searchUsers(query: string, options?: IDirectorySearchOptions): Promise<IDirectoryUser[]> {
+    const maximum = options && options.maximum ? options.maximum : defaultMaximumSearchResults;
+    const lowercase = query.toLowerCase();
+    return this._users.filter(user => [user.displayName, user.userPrincipalName, user.mail].some(value => value && value.toLowerCase().includes(lowercase)))
+      .slice(0, maximum)
+      .map(toDirectoryUser);
+  }
+
+  async getManager(id: string): Promise<IDirectoryUser> {
+    const user = this._users.find(u => u.id === id);
+    return user && user.managerId ? this.getUser(user.managerId) : null;
+  }
+
+  async getGroup(groupId: string): Promise<IDirectoryGroup> {
+    return this._groups.find(group => group.id === groupId) || null;
+  }
+
+  async getGroupMemberships(id: string): Promise<IDirectoryGroup[]> {
+    const user = this._users.find(u => u.id === id);
+    const groupIds = user && user.groupIds ? user.groupIds : [];
+    return this._groups.filter(group => groupIds.includes(group.id));
+  }
+
+  async getGroupMembers(groupId: string): Promise<IDirectoryUser[]> {
+    return this._users.filter(user => user.groupIds && user.groupIds.includes(groupId)).map(toDirectoryUser);
+  }
+}
+
+function toDirectoryUser(user: IMemoryDirectoryUser): IDirectoryUser {
+  const { managerId, groupIds, ...directoryUser } = user;
+  return directoryUser;
+}
@@ -9,7 +9,8 @@
 
 import cache from 'memory-cache';
 import request from 'request';
-import { IGraphProvider } from '.';
+import { IDirectoryGroup, IDirectorySearchOptions, IDirectoryUser } from '.';
+import { DirectoryProviderBase } from './directoryProviderBase';
 
 export interface IMicrosoftGraphProviderOptions {
   tokenCacheSeconds?: string | number;
@@ -17,13 +18,18 @@ export interface IMicrosoftGraphProviderOptions {
   clientSecret: string;
 }
 
-export class MicrosoftGraphProvider implements IGraphProvider {
+const graphUserProperties = 'id,userType,displayName,givenName,mail,userPrincipalName';
+const graphGroupProperties = 'id,displayName,mail';
+const defaultMaximumSearchResults = 25;
+
+export class MicrosoftGraphProvider extends DirectoryProviderBase {
   private _tokenCacheMilliseconds: number;
   private _clientSecret: string;
 
   public clientId: string;
 
   constructor(graphOptions: IMicrosoftGraphProviderOptions) {
+    super();
     const secondsString = (graphOptions.tokenCacheSeconds || '60').toString();
     this._tokenCacheMilliseconds = parseInt(secondsString, 10) * 1000;
     this.clientId = graphOptions.clientId;
@@ -73,6 +79,71 @@ export class MicrosoftGraphProvider implements IGraphProvider {
     });
   }
 
+  getUser(id: string): Promise<IDirectoryUser> {
+    return this.getUserByIdAsync(id);
+  }
+
+  async searchUsers(query: string, options?: IDirectorySearchOptions): Promise<IDirectoryUser[]> {
+    const maximum = options && options.maximum ? options.maximum : defaultMaximumSearchResults;
+    const value = query.replace(/'/g, "''");
+    const filter = `startswith(displayName,'${value}') or startswith(userPrincipalName,'${value}') or startswith(mail,'${value}')`;
+    const url = `https://graph.microsoft.com/v1.0/users?$filter=${encodeURIComponent(filter)}&$top=${maximum}&$select=${graphUserProperties}`;
+    const body = await this.getGraphEntity(url);
+    return body && body.value ? body.value : [];
+  }
+
+  async getManager(id: string): Promise<IDirectoryUser> {
+    return this.getGraphEntity(`https://graph.microsoft.com/v1.0/users/${encodeURIComponent(id)}/manager?$select=${graphUserProperties}`);
+  }
+
+  async getGroup(groupId: string): Promise<IDirectoryGroup> {
+    return this.getGraphEntity(`https://graph.microsoft.com/v1.0/groups/${encodeURIComponent(groupId)}?$select=${graphGroupProperties}`);
+  }
+
+  async getGroupMemberships(id: string): Promise<IDirectoryGroup[]> {
+    const entities = await this.getGraphCollection(`https://graph.microsoft.com/v1.0/users/${encodeURIComponent(id)}/memberOf?$select=${graphGroupProperties}`);
+    return entities.filter(entity => entity['@odata.type'] === '#microsoft.graph.group');
+  }
+
+  async getGroupMembers(groupId: string): Promise<IDirectoryUser[]> {
+    const entities = await this.getGraphCollection(`https://graph.microsoft.com/v1.0/groups/${encodeURIComponent(groupId)}/members?$select=${graphUserProperties}`);
+    return entities.filter(entity => entity['@odata.type'] === '#microsoft.graph.user');
+  }
+
+  private async getGraphCollection(url: string): Promise<any[]> {
+    const entities = [];
+    while (url) {
+      const body = await this.getGraphEntity(url);
+      if (!body) {
+        break;
+      }
+      entities.push(... (body.value || []));
+      url = body['@odata.nextLink'];
+    }
+    return entities;
+  }
+
+  private getGraphEntity(url: string): Promise<any> {
+    // Resolves null for entities that are not found
+    return new Promise<any>((resolve, reject) => {
+      this.getToken((tokenError, token) => {
+        if (tokenError) {
+          return reject(tokenError);
+        }
+        request.get(url, this.getGraphOptions(token), (error, response, body) => {
+          if (error) {
+            return reject(error);
+          } else if (response.statusCode === 404) {
+            return resolve(null);
+          } else if (response.statusCode >= 400) {
+            return reject(new Error(body && body.error ? body.error.message : `Invalid status code: ${response.statusCode}`));
+          }
+          return resolve(body);
+        });
+      });
+    });
+  }
+
   private getGraphOptions(accessToken) {
     return {
       headers: {
@@ -103,7 +174,7 @@ export class MicrosoftGraphProvider implements IGraphProvider {
       subResource = null;
     }
     const extraPath = subResource ? `/${subResource}` : '';
-    const url = `https://graph.microsoft.com/v1.0/users/${aadId}${extraPath}?$select=id,userType,displayName,givenName,mail,userPrincipalName`;
+    const url = `https://graph.microsoft.com/v1.0/users/${aadId}${extraPath}?$select=${graphUserProperties}`;
     request.get(url, options, (err, response, body) => {
       if (err) {
         return callback(err, null);
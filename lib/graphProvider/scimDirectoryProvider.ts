@@ -0,0 +1,155 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import request from 'request';
+
+import { IDirectoryGroup, IDirectorySearchOptions, IDirectoryUser } from '.';
+import { DirectoryProviderBase } from './directoryProviderBase';
+
+// A SCIM 2.0 (RFC 7643, RFC 7644) client for identity providers that expose
+// their directory as SCIM resources. The manager comes from the enterprise
+// user extension.
+
+export interface IScimDirectoryProviderOptions {
+  url: string; // base URL of the SCIM service, such as https://idp.contoso.com/scim/v2
+  token: string;
+}
+
+const enterpriseUserSchema = 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User';
+const defaultMaximumSearchResults = 25;
+
+export class ScimDirectoryProvider extends DirectoryProviderBase {
+  private _url: string;
+  private _token: string;
+
+  constructor(options: IScimDirectoryProviderOptions) {
+    super();
+    if (!options.url) {
+      throw new Error('ScimDirectoryProvider: url required');
+    }
+    if (!options.token) {
+      throw new Error('ScimDirectoryProvider: token required');
+    }
+    this._url = options.url.replace(/\/$/, '');
+    this._token = options.token;
+  }
+
+  async getUser(id: string): Promise<IDirectoryUser> {
+    const resource = await this.getScimUser(id);
+    return resource ? toDirectoryUser(resource) : null;
+  }
+
+  async searchUsers(query: string, options?: IDirectorySearchOptions): Promise<IDirectoryUser[]> {
+    const maximum = options && options.maximum ? options.maximum : defaultMaximumSearchResults;
+    const value = quote(query);
+    const filter = `userName sw ${value} or displayName co ${value} or emails.value sw ${value}`;
+    const response = await this.get('/Users', { filter, count: maximum });
+    return (response && response.Resources ? response.Resources : []).map(toDirectoryUser);
+  }
+
+  async getManager(id: string): Promise<IDirectoryUser> {
+    const resource = await this.getScimUser(id);
+    const enterprise = resource ? resource[enterpriseUserSchema] : null;
+    const managerId = enterprise && enterprise.manager ? enterprise.manager.value : null;
+    return managerId ? this.getUser(managerId) : null;
+  }
+
+  async getGroup(groupId: string): Promise<IDirectoryGroup> {
+    const resource = await this.get(`/Groups/${encodeURIComponent(groupId)}`, { excludedAttributes: 'members' });
+    return resource ? toDirectoryGroup(resource) : null;
+  }
+
+  async getGroupMemberships(id: string): Promise<IDirectoryGroup[]> {
+    const resource = await this.getScimUser(id);
+    if (!resource) {
+      return [];
+    }
+    if (resource.groups) {
+      return resource.groups.map(group => { return { id: group.value, displayName: group.display }; });
+    }
+    // Services that do not return the read-only groups attribute can filter the groups
+    const response = await this.get('/Groups', { filter: `members.value eq ${quote(resource.id)}`, excludedAttributes: 'members' });
+    return (response && response.Resources ? response.Resources : []).map(toDirectoryGroup);
+  }
+
+  async getGroupMembers(groupId: string): Promise<IDirectoryUser[]> {
+    const resource = await this.get(`/Groups/${encodeURIComponent(groupId)}`);
+    if (!resource) {
+      return [];
+    }
+    const members = [];
+    for (const member of resource.members || []) {
+      if (member.type && member.type !== 'User') {
+        continue; // nested groups are not expanded
+      }
+      const user = await this.getUser(member.value);
+      if (user) {
+        members.push(user);
+      }
+    }
+    return members;
+  }
+
+  private async getScimUser(id: string): Promise<any> {
+    if (!id.includes('@')) {
+      return this.get(`/Users/${encodeURIComponent(id)}`);
+    }
+    // Lookups by user principal name
+    const response = await this.get('/Users', { filter: `userName eq ${quote(id)}` });
+    return response && response.Resources && response.Resources.length ? response.Resources[0] : null;
+  }
+
+  private get(path: string, qs?: any): Promise<any> {
+    const options = {
+      url: `${this._url}${path}`,
+      qs,
+      headers: {
+        Authorization: `Bearer ${this._token}`,
+        Accept: 'application/scim+json',
+      },
+      json: true,
+    };
+    return new Promise<any>((resolve, reject) => {
+      request.get(options, (error, response, body) => {
+        if (error) {
+          return reject(error);
+        } else if (response.statusCode === 404) {
+          return resolve(null);
+        } else if (response.statusCode >= 400) {
+          const scimError = new Error(body && body.detail ? body.detail : `Invalid status code: ${response.statusCode}`);
+          scimError['status'] = response.statusCode;
+          return reject(scimError);
+        }
+        return resolve(typeof(body) === 'string' ? JSON.parse(body) : body);
+      });
+    });
+  }
+}
+
+function quote(value: string): string {
+  return JSON.stringify(value); // SCIM filter strings are JSON strings
+}
+
+function toDirectoryUser(resource: any): IDirectoryUser {
+  const emails: any[] = resource.emails || [];
+  const email = emails.find(e => e.primary) || emails[0];
+  return {
+    id: resource.id,
+    userPrincipalName: resource.userName,
+    displayName: resource.displayName || (resource.name ? resource.name.formatted : undefined) || resource.userName,
+    givenName: resource.name ? resource.name.givenName : undefined,
+    mail: email ? email.value : undefined,
+    userType: resource.userType,
+  };
+}
+
+function toDirectoryGroup(resource: any): IDirectoryGroup {
+  return {
+    id: resource.id,
+    displayName: resource.displayName,
+  };
+}
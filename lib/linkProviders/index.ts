@@ -36,12 +36,7 @@ export async function createAndInitializeLinkProviderInstance(providers, config,
       if (err) {
         return reject(err);
       }
-      return provider.initialize(providerInitializationError => {
-        if (providerInitializationError) {
-          return reject(providerInitializationError);
-        }
-        return resolve(provider);
-      });
+      return provider.initialize().then(resolve, reject);
     });
   });
 }
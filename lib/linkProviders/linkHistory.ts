@@ -0,0 +1,121 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import { v4 as uuidV4 } from 'uuid';
+
+import { CorporatePropertyNames } from '../../business/corporateLink';
+
+// Link providers append an entry to the link history for every link that is
+// created, updated or deleted. Entries are never changed or removed, so that
+// the GitHub account that a corporate identity was linked to can be found later.
+
+export enum LinkHistoryAction {
+  Create = 'create',
+  Update = 'update',
+  Delete = 'delete',
+}
+
+export interface ILinkChangeContext {
+  actorCorporateId?: string;
+  actorUsername?: string; // corporate username, or the name of a job
+  purpose?: string; // UnlinkPurpose, for deletes
+  reason?: string;
+}
+
+export interface ILinkHistoryValues {
+  [linkPropertyName: string]: any;
+}
+
+export interface ILinkHistoryEntry {
+  historyId: string;
+  linkId: string;
+  action: LinkHistoryAction;
+  thirdPartyId: string;
+  corporateId: string;
+  previous: ILinkHistoryValues;
+  current: ILinkHistoryValues;
+  actorCorporateId?: string;
+  actorUsername?: string;
+  purpose?: string;
+  reason?: string;
+  created: Date;
+}
+
+export function CreateLinkHistoryEntry(action: LinkHistoryAction, linkId: string, link: ILinkHistoryValues, previous: ILinkHistoryValues, current: ILinkHistoryValues, context?: ILinkChangeContext): ILinkHistoryEntry {
+  context = context || {};
+  const entry: ILinkHistoryEntry = {
+    historyId: uuidV4(),
+    linkId,
+    action,
+    thirdPartyId: link.thirdPartyId ? link.thirdPartyId.toString() : undefined,
+    corporateId: link.corporateId,
+    previous: previous || null,
+    current: current || null,
+    created: new Date(),
+  };
+  for (const key of ['actorCorporateId', 'actorUsername', 'purpose', 'reason']) {
+    if (context[key]) {
+      entry[key] = context[key];
+    }
+  }
+  return entry;
+}
+
+export function GetLinkHistoryValues(entity: any, propertyMapping?: any): ILinkHistoryValues {
+  // Without a mapping of the provider columns, the entity is a link object
+  const values: ILinkHistoryValues = {};
+  for (const linkPropertyName of CorporatePropertyNames) {
+    const value = entity ? entity[propertyMapping ? propertyMapping[linkPropertyName] : linkPropertyName] : undefined;
+    if (value !== undefined) {
+      values[linkPropertyName] = value;
+    }
+  }
+  return values;
+}
+
+export function GetLinkHistoryChanges(originalEntity: any, entity: any, propertyMapping: any): { previous: ILinkHistoryValues, current: ILinkHistoryValues } {
+  const previous: ILinkHistoryValues = {};
+  const current: ILinkHistoryValues = {};
+  for (const linkPropertyName of CorporatePropertyNames) {
+    const column = propertyMapping[linkPropertyName];
+    const before = originalEntity ? originalEntity[column] : undefined;
+    const after = entity ? entity[column] : undefined;
+    if (before !== after) {
+      previous[linkPropertyName] = before;
+      current[linkPropertyName] = after;
+    }
+  }
+  return { previous, current };
+}
+
+export function HasLinkHistoryChanges(previous: ILinkHistoryValues): boolean {
+  return Object.getOwnPropertyNames(previous).length > 0;
+}
+
+export function ReportLinkHistoryFailure(insights: any, entry: ILinkHistoryEntry, error: Error) {
+  // For providers that cannot store a link change and its history together;
+  // the event carries the entry, so that it can be restored
+  console.warn(`The link history entry for the ${entry.action} of link ${entry.linkId} could not be stored: ${error.message}`);
+  if (insights) {
+    insights.trackException({ exception: error });
+    insights.trackEvent({
+      name: 'LinkHistoryAppendFailure',
+      properties: {
+        linkId: entry.linkId,
+        action: entry.action,
+        thirdPartyId: entry.thirdPartyId,
+        corporateId: entry.corporateId,
+        entry: JSON.stringify(entry),
+        message: error.message,
+      },
+    });
+  }
+}
+
+export function SortLinkHistory(entries: ILinkHistoryEntry[]): ILinkHistoryEntry[] {
+  return entries.sort((a, b) => new Date(b.created).getTime() - new Date(a.created).getTime());
+}
@@ -0,0 +1,83 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import { ICorporateLink } from '../../business/corporateLink';
+
+// Link providers filter and page links in the data layer, so that looking up
+// a link does not require reading every link. Usernames are compared without
+// case. The continuation of a page is opaque and specific to each provider.
+
+export const DefaultLinkQueryPageSize = 100;
+export const MaximumLinkQueryPageSize = 1000;
+
+export interface ILinkQuery {
+  corporateId?: string;
+  corporateUsername?: string;
+  thirdPartyId?: string;
+  thirdPartyUsername?: string;
+  isServiceAccount?: boolean;
+}
+
+export interface ILinkQueryPageOptions {
+  pageSize?: number;
+  continuation?: string;
+}
+
+export interface ILinkQueryPage {
+  links: ICorporateLink[];
+  continuation: string; // null after the last page
+}
+
+export function GetLinkQueryPageSize(options?: ILinkQueryPageOptions): number {
+  const pageSize = options && options.pageSize ? Math.floor(options.pageSize) : DefaultLinkQueryPageSize;
+  if (!(pageSize > 0)) {
+    throw new Error('The page size must be a positive number');
+  }
+  return Math.min(pageSize, MaximumLinkQueryPageSize);
+}
+
+export function LinkMatchesQuery(entity: any, query: ILinkQuery, propertyMapping?: any): boolean {
+  // Without a mapping of the provider columns, the entity is a link object
+  query = query || {};
+  const value = (linkPropertyName: string) => entity[propertyMapping ? propertyMapping[linkPropertyName] : linkPropertyName];
+  const thirdPartyId = value('thirdPartyId');
+  if (query.corporateId !== undefined && value('corporateId') !== query.corporateId) {
+    return false;
+  }
+  if (query.thirdPartyId !== undefined && (thirdPartyId ? thirdPartyId.toString() : thirdPartyId) !== query.thirdPartyId.toString()) {
+    return false;
+  }
+  if (query.corporateUsername !== undefined && !equalsIgnoringCase(value('corporateUsername'), query.corporateUsername)) {
+    return false;
+  }
+  if (query.thirdPartyUsername !== undefined && !equalsIgnoringCase(value('thirdPartyUsername'), query.thirdPartyUsername)) {
+    return false;
+  }
+  if (query.isServiceAccount !== undefined && !!value('isServiceAccount') !== query.isServiceAccount) {
+    return false;
+  }
+  return true;
+}
+
+export function EncodeLinkQueryContinuation(value: any): string {
+  return Buffer.from(JSON.stringify(value), 'utf8').toString('base64');
+}
+
+export function DecodeLinkQueryContinuation(continuation: string): any {
+  if (!continuation) {
+    return null;
+  }
+  try {
+    return JSON.parse(Buffer.from(continuation, 'base64').toString('utf8'));
+  } catch (ignored) {
+    throw new Error('The continuation is not valid');
+  }
+}
+
+function equalsIgnoringCase(a: string, b: string): boolean {
+  return (a || '').toLowerCase() === (b || '').toLowerCase();
+}
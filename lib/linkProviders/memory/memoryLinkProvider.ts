@@ -13,6 +13,8 @@ import { ILinkProvider } from '../postgres/postgresLinkProvider';
 import { ICorporateLinkProperties, ICorporateLink, ICorporateLinkExtended, CorporatePropertyNames } from '../../../business/corporateLink';
 
 import { CorporateMemoryLink } from './memoryLink';
+import { CreateLinkHistoryEntry, GetLinkHistoryChanges, GetLinkHistoryValues, HasLinkHistoryChanges, ILinkChangeContext, ILinkHistoryEntry, LinkHistoryAction, SortLinkHistory } from '../linkHistory';
+import { DecodeLinkQueryContinuation, EncodeLinkQueryContinuation, GetLinkQueryPageSize, ILinkQuery, ILinkQueryPage, ILinkQueryPageOptions, LinkMatchesQuery } from '../linkQuery';
 
 const defaultThirdPartyType = 'github';
 const defaultPageSize = 500;
@@ -56,6 +58,7 @@ const linkInterfacePropertyMapping : IMemoryLinkProperties = {
 export class MemoryLinkProvider implements ILinkProvider {
   // maps link ID to a simple object entity - NOT an actual CorporateMemoryLink. This is to help fight bugs in the wrapped and provider-aware link design
   private _entities: Map<string, any>;
+  private _history: ILinkHistoryEntry[];
 
   private _options: any;
   private _thirdPartyType: string;
@@ -79,45 +82,56 @@ export class MemoryLinkProvider implements ILinkProvider {
     this._options = options;
   }
 
-  initialize(callback) {
+  async initialize(): Promise<ILinkProvider> {
     this._entities = new Map();
-
-    return callback();
+    this._history = [];
+    return this;
   }
 
   get thirdPartyType() {
     return this._thirdPartyType;
   }
 
-  getByThirdPartyUsername(username, callback) {
+  async getByThirdPartyUsername(username: string): Promise<ICorporateLink> {
     username = username.toLowerCase();
-    return getSingleLinkByProperty(this, this.propertyMapping.thirdPartyUsername, username, callback);
+    return getSingleLinkByProperty(this, this.propertyMapping.thirdPartyUsername, username);
   }
 
-  getByThirdPartyId(id, callback) {
-    if (typeof(id) !== 'string') {
-      id = id.toString();
-    }
-    return getSingleLinkByProperty(this, this.propertyMapping.thirdPartyId, id, callback);
+  async getByThirdPartyId(id: string | number): Promise<ICorporateLink> {
+    return getSingleLinkByProperty(this, this.propertyMapping.thirdPartyId, String(id));
   }
 
-  queryByCorporateId(id, callback) {
-    return getLinksByProperty(this, this.propertyMapping.corporateId, id, callback);
+  async queryByCorporateId(id: string): Promise<ICorporateLink[]> {
+    return getLinksByProperty(this, this.propertyMapping.corporateId, id);
   }
 
-  getAll(callback) {
+  async getAll(): Promise<ICorporateLink[]> {
     const all = Array.from(this._entities.values());
     const sorted = _.sortBy(all, [this.propertyMapping.corporateUsername, this.propertyMapping.thirdPartyUsername]);
-    const links = createLinkInstancesFromMemoryEntityArray(this, sorted);
-    return callback(null, links);
+    return createLinkInstancesFromMemoryEntityArray(this, sorted);
+  }
+
+  async queryLinks(query: ILinkQuery, options?: ILinkQueryPageOptions): Promise<ILinkQueryPage> {
+    const pageSize = GetLinkQueryPageSize(options);
+    const after = DecodeLinkQueryContinuation(options ? options.continuation : null);
+    const offset = after ? after.offset : 0;
+    const matches = getEntitiesMatchingQuery(this, query);
+    const sorted = _.sortBy(matches, [this.propertyMapping.corporateUsername, this.propertyMapping.thirdPartyUsername]);
+    const links = createLinkInstancesFromMemoryEntityArray(this, sorted.slice(offset, offset + pageSize));
+    const continuation = sorted.length > offset + pageSize ? EncodeLinkQueryContinuation({ offset: offset + pageSize }) : null;
+    return { links, continuation };
+  }
+
+  async countLinks(query?: ILinkQuery): Promise<number> {
+    return getEntitiesMatchingQuery(this, query).length;
   }
 
-  queryByCorporateUsername(username, callback) {
+  async queryByCorporateUsername(username: string): Promise<ICorporateLink[]> {
     username = username.toLowerCase();
-    return getLinksByProperty(this, this.propertyMapping.corporateUsername, username, callback);
+    return getLinksByProperty(this, this.propertyMapping.corporateUsername, username);
   }
 
-  createLink(link: ICorporateLink, callback: (error: any, newLinkId: string) => void) {
+  async createLink(link: ICorporateLink, context?: ILinkChangeContext): Promise<string> {
     const generatedLinkId = uuidV4();
     const initialEntity = {};
     initialEntity[linkInterfacePropertyMapping.memoryLinkId] = generatedLinkId;
@@ -125,42 +139,60 @@ export class MemoryLinkProvider implements ILinkProvider {
     for (let linkPropertyName of CorporatePropertyNames) {
       const tableColumnName = linkInterfacePropertyMapping[linkPropertyName];
       if (!tableColumnName) {
-        return callback(new Error(`Missing mapping from property ${linkPropertyName} to equivalent key`), null);
+        throw new Error(`Missing mapping from property ${linkPropertyName} to equivalent key`);
       }
       initialEntity[tableColumnName] = link[linkPropertyName];
     }
 
     if (this._entities.has(generatedLinkId)) {
       const error: IAlreadyLinkedError = new Error('This link already exists');
-      return callback(error, null);
+      throw error;
     }
 
+    // The history entry is created first, so that a change is never stored without it
+    const current = GetLinkHistoryValues(initialEntity, this.propertyMapping);
+    const entry = CreateLinkHistoryEntry(LinkHistoryAction.Create, generatedLinkId, current, null, current, context);
     this._entities.set(generatedLinkId, initialEntity);
-    return callback(null, generatedLinkId);
+    this._history.push(entry);
+    return generatedLinkId;
   }
 
-  updateLink(linkInstance: ICorporateLink, callback) {
+  async updateLink(linkInstance: ICorporateLink, context?: ILinkChangeContext): Promise<boolean> {
     const tl = linkInstance as CorporateMemoryLink;
-    const replacementEntity = tl.internal().getDirectEntity();
+    const internal = tl.internal();
+    const replacementEntity = internal.getDirectEntity();
     const linkId = tl.id;
     if (!this._entities.has(linkId)) {
-      return callback(new Error(`No existing entity with link ID ${linkId}`));
+      throw new Error(`No existing entity with link ID ${linkId}`);
     }
+    const { previous, current } = GetLinkHistoryChanges(internal.getOriginalEntity(), replacementEntity, this.propertyMapping);
+    const entry = HasLinkHistoryChanges(previous) ? CreateLinkHistoryEntry(LinkHistoryAction.Update, linkId, GetLinkHistoryValues(replacementEntity, this.propertyMapping), previous, current, context) : null;
     this._entities.set(linkId, replacementEntity);
-    return callback();
+    internal.acknowledgeSuccessfulUpdate();
+    if (entry) {
+      this._history.push(entry);
+    }
+    return true;
   }
 
-  deleteLink(linkInstance: ICorporateLink, callback) {
-    // This is inefficient at this time; with the newer design centering
-    // around a link ID, this has to query first.
+  async deleteLink(linkInstance: ICorporateLink, context?: ILinkChangeContext): Promise<boolean> {
     const tl = linkInstance as CorporateMemoryLink;
-    return getSingleLinkByProperty(this, this.propertyMapping.memoryLinkId, tl.id, (queryError, link: ICorporateLink) => {
-      if (!queryError && !link) {
-        queryError = new Error(`No link found with ID ${tl.id}`);
-      }
-      this._entities.delete(tl.id);
-      return callback();
-    });
+    if (!this._entities.has(tl.id)) {
+      return false;
+    }
+    const previous = GetLinkHistoryValues(this._entities.get(tl.id), this.propertyMapping);
+    const entry = CreateLinkHistoryEntry(LinkHistoryAction.Delete, tl.id, previous, previous, null, context);
+    this._entities.delete(tl.id);
+    this._history.push(entry);
+    return true;
+  }
+
+  async getHistoryByThirdPartyId(id: string): Promise<ILinkHistoryEntry[]> {
+    return SortLinkHistory(this._history.filter(entry => entry.thirdPartyId === id));
+  }
+
+  async getHistoryByCorporateId(id: string): Promise<ILinkHistoryEntry[]> {
+    return SortLinkHistory(this._history.filter(entry => entry.corporateId === id));
   }
 
   dehydrateLink(linkInstance: ICorporateLinkExtended): any {
@@ -220,7 +252,7 @@ export class MemoryLinkProvider implements ILinkProvider {
   }
 }
 
-function createLinkInstancesFromMemoryEntityArray(provider: MemoryLinkProvider, rows: any[]) {
+function createLinkInstancesFromMemoryEntityArray(provider: MemoryLinkProvider, rows: any[]): CorporateMemoryLink[] {
   return rows.map(createLinkInstanceFromMemoryEntity.bind(null, provider));
 }
 
@@ -242,41 +274,36 @@ function createLinkInstanceFromHydratedEntity(self, jsonObject) {
   return newLink;
 }
 
-function getUserEntitiesByProperty(entities: Map<string, CorporateMemoryLink>, propertyName: string, value: string, callback) {
+function getEntitiesMatchingQuery(self, query: ILinkQuery): any[] {
+  return Array.from(self._entities.values()).filter(entity => LinkMatchesQuery(entity, query, self.propertyMapping));
+}
+
+function getUserEntitiesByProperty(entities: Map<string, CorporateMemoryLink>, propertyName: string, value: string): CorporateMemoryLink[] {
   const rows: CorporateMemoryLink[] = [];
   entities.forEach(entry => {
     if (entry && entry[propertyName] === value) {
       rows.push(entry);
     }
   });
-  return callback(null, rows);
+  return rows;
 }
 
-function getLinksByProperty(self, propertyName, value, callback) {
-  return getUserEntitiesByProperty(self._entities, propertyName, value, (error, rows) => {
-    if (error) {
-      return callback(error);
-    }
-    const links = createLinkInstancesFromMemoryEntityArray(self, rows);
-    return callback(null, links);
-  });
+function getLinksByProperty(self, propertyName, value): CorporateMemoryLink[] {
+  const rows = getUserEntitiesByProperty(self._entities, propertyName, value);
+  return createLinkInstancesFromMemoryEntityArray(self, rows);
 }
 
-function getSingleLinkByProperty(self, propertyName, value, callback) {
-  return getUserEntitiesByProperty(self._entities, propertyName, value, (getError, rows) => {
-    if (getError) {
-      return callback(getError);
-    }
-    if (rows.length <= 0) {
-      return callback(null, false);
-    }
-    if (rows.length > 1) {
-      const error: Error = new Error(`More than a single result were returned by the query (${rows.length})`);
-      error['multipleResults'] = rows.length;
-      return callback(error);
-    }
-    const entityRow = rows[0];
-    const link = createLinkInstanceFromMemoryEntity(self, entityRow);
-    return callback(null, link);
-  });
+function getSingleLinkByProperty(self, propertyName, value): CorporateMemoryLink {
+  // A link that is not found is null for this provider
+  const rows = getUserEntitiesByProperty(self._entities, propertyName, value);
+  if (rows.length <= 0) {
+    return null;
+  }
+  if (rows.length > 1) {
+    const error: Error = new Error(`More than a single result were returned by the query (${rows.length})`);
+    error['multipleResults'] = rows.length;
+    throw error;
+  }
+  const entityRow = rows[0];
+  return createLinkInstanceFromMemoryEntity(self, entityRow);
 }
@@ -22,6 +22,7 @@ export interface IPostgresLinkInstanceInternalHelpers {
   acknowledgeSuccessfulUpdate: () => void;
   getDirtyColumns: () => any;
   getDirectEntity: () => any;
+  getOriginalEntity: () => any;
 }
 
 export class CorporateLinkPostgres implements ICorporateLink {
@@ -155,6 +156,7 @@ function createInternalHelpers(self): IPostgresLinkInstanceInternalHelpers {
     acknowledgeSuccessfulUpdate: acknowledgeSuccessfulUpdate.bind(null, self),
     getDirtyColumns: getDirtyColumns.bind(null, self),
     getDirectEntity: getDirectEntity.bind(null, self),
+    getOriginalEntity: getOriginalEntity.bind(null, self),
   };
 }
 
@@ -167,6 +169,11 @@ function getDirectEntity(self) {
   return self._entity;
 }
 
+function getOriginalEntity(self) {
+  // Only set once a value has changed
+  return self._originalEntity || self._entity;
+}
+
 function getDirtyColumns(self) {
   return self._columnUpdates;
 }
@@ -174,41 +181,25 @@ function getDirtyColumns(self) {
 function createDataHelpers(link: CorporateLinkPostgres, provider: PostgresLinkProvider): IPostgresLinkInstanceDataHelpers {
   return {
     update: async () : Promise<boolean> => {
-      return new Promise<boolean>((resolve, reject) => {
-        provider.updateLink(link, (error, actualUpdate: boolean) => {
-          if (error) {
-            return reject(error);
-          }
-          return resolve(actualUpdate);
-        });
-      });
+      return await provider.updateLink(link);
     },
 
     save: async () : Promise<boolean> => {
-      return new Promise<boolean>((resolve, reject) => {
-        provider.updateLink(link, (error, actualUpdate: boolean) => {
-          // SAVE is different in update in that it only saves if changes
-          // are needed (not an error if such). UPDATE will throw if no
-          // changes are necessary to be stored.
-          if (error && error['noUpdatesRequired'] === true) {
-            return resolve(false);
-          } else if (error) {
-            return reject(error);
-          }
-          return resolve(actualUpdate);
-        });
-      });
+      // SAVE is different in update in that it only saves if changes
+      // are needed (not an error if such). UPDATE will throw if no
+      // changes are necessary to be stored.
+      try {
+        return await provider.updateLink(link);
+      } catch (error) {
+        if (error && error['noUpdatesRequired'] === true) {
+          return false;
+        }
+        throw error;
+      }
     },
 
     delete: async () : Promise<boolean> => {
-      return new Promise<boolean>((resolve, reject) => {
-        provider.deleteLink(link, (error, actualDelete: boolean) => {
-          if (error) {
-            return reject(error);
-          }
-          return resolve(actualDelete);
-        });
-      });
+      return await provider.deleteLink(link);
     },
   };
 }
@@ -24,12 +24,14 @@
 const onlySupportedThirdPartyType = 'github';
 
 import { v4 as uuidV4 } from 'uuid';
-import { InnerError, ICallback } from "../../../transitional";
+import { InnerError } from "../../../transitional";
 
 import { ICorporateLinkProperties, ICorporateLink, ICorporateLinkExtended } from "../../../business/corporateLink";
 
 import { CorporateLinkPostgres } from './postgresLink';
-import { PostgresPoolQuery, PostgresPoolQuerySingleRow } from '../../postgresHelpers';
+import { CreateLinkHistoryEntry, GetLinkHistoryChanges, GetLinkHistoryValues, HasLinkHistoryChanges, ILinkChangeContext, ILinkHistoryEntry, LinkHistoryAction } from '../linkHistory';
+import { DecodeLinkQueryContinuation, EncodeLinkQueryContinuation, GetLinkQueryPageSize, ILinkQuery, ILinkQueryPage, ILinkQueryPageOptions } from '../linkQuery';
+import { PostgresPoolQueryAsync, PostgresPoolQuerySingleRowAsync, PostgresPoolTransactionAsync, PostgresTransactionQuery } from '../../postgresHelpers';
 
 const linkProviderInstantiationTypeProperty = '_i';
 
@@ -78,21 +80,44 @@ const coreColumns = [
 ];
 const coreColumnsList = coreColumns.join(', ');
 
+const historyColumns = [
+  'historyid',
+  'linkid',
+  'action',
+  'thirdpartyid',
+  'corporateid',
+  'previousvalues',
+  'currentvalues',
+  'actorcorporateid',
+  'actorusername',
+  'purpose',
+  'reason',
+  'created',
+];
+const historyColumnsList = historyColumns.join(', ');
+
 // should move out of the postgres-specific page...
 export interface ILinkProvider {
-  initialize(callback);
+  initialize(): Promise<ILinkProvider>;
 
   thirdPartyType: string;
 
-  getByThirdPartyUsername(username: string, callback);
-  getByThirdPartyId(id: string, callback);
-  queryByCorporateId(id: string, callback);
-  queryByCorporateUsername(username: string, callback);
-  getAll(callback: ICallback<ICorporateLink[]>);
+  // A link that is not found is either null or a 404 error, depending on the provider
+  getByThirdPartyUsername(username: string): Promise<ICorporateLink>;
+  getByThirdPartyId(id: string): Promise<ICorporateLink>;
+  queryByCorporateId(id: string): Promise<ICorporateLink[]>;
+  queryByCorporateUsername(username: string): Promise<ICorporateLink[]>;
+  getAll(): Promise<ICorporateLink[]>;
 
-  createLink(link: ICorporateLink, callback: (error: any, newLinkId: string) => void): void;
-  updateLink(linkInstance: ICorporateLink, callback);
-  deleteLink(linkInstance: ICorporateLink, callback);
+  queryLinks(query: ILinkQuery, options?: ILinkQueryPageOptions): Promise<ILinkQueryPage>;
+  countLinks(query?: ILinkQuery): Promise<number>;
+
+  createLink(link: ICorporateLink, context?: ILinkChangeContext): Promise<string>;
+  updateLink(linkInstance: ICorporateLink, context?: ILinkChangeContext): Promise<boolean>;
+  deleteLink(linkInstance: ICorporateLink, context?: ILinkChangeContext): Promise<boolean>;
+
+  getHistoryByThirdPartyId(id: string): Promise<ILinkHistoryEntry[]>;
+  getHistoryByCorporateId(id: string): Promise<ILinkHistoryEntry[]>;
 
   dehydrateLink(linkInstance: ICorporateLinkExtended): any;
   rehydrateLink(jsonObject: any): ICorporateLink;
@@ -106,6 +131,7 @@ export class PostgresLinkProvider implements ILinkProvider {
   private _providers: any;
   private _pool: any;
   private _tableName: any;
+  private _historyTableName: string;
   private _internalThirdPartyTypeValue: string;
   private _options: any;
 
@@ -130,180 +156,232 @@ export class PostgresLinkProvider implements ILinkProvider {
     this._internalThirdPartyTypeValue = internalThirdPartyTypeValue;
     this._providers = providers;
     this._tableName = options.tableName;
+    this._historyTableName = options.historyTableName || `${options.tableName}history`;
     this._pool = providers.postgresPool;
     this._options = options;
   }
 
-  initialize(callback) {
-    const self = this;
-    PostgresPoolQuery(this._pool, `
+  async initialize(): Promise<ILinkProvider> {
+    const results = await PostgresPoolQueryAsync(this._pool, `
       SELECT
         COUNT(thirdpartyid) as thirdpartycount,
         COUNT(corporateid) as corporatecount
-      FROM ${self._tableName}
+      FROM ${this._tableName}
       WHERE
         thirdpartytype = $1`, [
-          self._internalThirdPartyTypeValue,
-          ], function (error, results) {
-            if (error) {
-              return callback(error);
-            }
-            if (results.rows.length === 1) {
-              const row = results.rows[0];
-              console.log(`FYI: Postgres: there are ${row.thirdpartycount} third-party links to ${row.corporatecount} corporate users`);
-            }
-            return callback(null, self);
-    });
+          this._internalThirdPartyTypeValue,
+        ]);
+    if (results.rows.length === 1) {
+      const row = results.rows[0];
+      console.log(`FYI: Postgres: there are ${row.thirdpartycount} third-party links to ${row.corporatecount} corporate users`);
+    }
+    return this;
   }
 
   get thirdPartyType() {
     return this._thirdPartyType;
   }
 
-  getByPostgresLinkId(id, callback) {
+  getByPostgresLinkId(id: string): Promise<ICorporateLink> {
     // Specific to this link provider implementation
     return this._getSingleRow({
       columnName: 'linkid',
       columnValue: id,
       columnIsLowercase: false,
-    }, callback);
+    });
   }
 
-  getByThirdPartyUsername(username, callback) {
+  getByThirdPartyUsername(username: string): Promise<ICorporateLink> {
     return this._getSingleRow({
       columnName: 'thirdpartyusername',
       columnValue: username,
       columnIsLowercase: true,
-    }, callback);
+    });
   }
 
-  getByThirdPartyId(id, callback) {
+  getByThirdPartyId(id: string): Promise<ICorporateLink> {
     return this._getSingleRow({
       columnName: 'thirdpartyid',
       columnValue: id,
       columnIsLowercase: false,
-    }, callback);
+    });
   }
 
-  queryByCorporateId(id, callback) {
+  queryByCorporateId(id: string): Promise<ICorporateLink[]> {
     return this._getRows({
       columnName: 'corporateid',
       columnValue: id,
       columnIsLowercase: false,
-    }, callback);
+    });
   }
 
-  getAll(callback) {
-    const self = this;
-    const internalThirdPartyTypeValue = this._internalThirdPartyTypeValue;
+  async getAll(): Promise<ICorporateLink[]> {
     // CONSIDER: the table provider sorts by aadupn and then ghu!
     // TODO: is an order by of interest here?
-    PostgresPoolQuery(self._pool, `
+    const results = await PostgresPoolQueryAsync(this._pool, `
       SELECT
         ${coreColumnsList}
       FROM ${this._tableName}
       WHERE
         thirdpartytype = $1
     `, [
-      internalThirdPartyTypeValue,
-    ],
-    function (error, results) {
-      if (error) {
-        return callback(error);
-      }
-      let r = [];
-      for (let i = 0; i < results.rows.length; i++) {
-        const row = results.rows[i];
-        const link = createLinkInstanceFromRow(self, row);
-        const ll = link;
-        r.push(ll);
-      }
-      return callback(null, r);
-    });
+      this._internalThirdPartyTypeValue,
+    ]);
+    return results.rows.map(row => createLinkInstanceFromRow(this, row));
+  }
+
+  async queryLinks(query: ILinkQuery, options?: ILinkQueryPageOptions): Promise<ILinkQueryPage> {
+    // Pages are ordered by the link ID, so that a continuation is a seek on the link_id index
+    const pageSize = GetLinkQueryPageSize(options);
+    const { conditions, values } = this._getQueryConditions(query);
+    const after = DecodeLinkQueryContinuation(options ? options.continuation : null);
+    if (after) {
+      values.push(after.linkId);
+      conditions.push(`linkid > $${values.length}`);
+    }
+    values.push(pageSize + 1);
+    const results = await PostgresPoolQueryAsync(this._pool, `
+      SELECT
+        ${coreColumnsList}
+      FROM ${this._tableName}
+      WHERE
+        ${conditions.join(' AND\n        ')}
+      ORDER BY linkid
+      LIMIT $${values.length}
+    `, values);
+    const rows = results.rows.slice(0, pageSize);
+    const links = rows.map(row => createLinkInstanceFromRow(this, row));
+    const continuation = results.rows.length > pageSize ? EncodeLinkQueryContinuation({ linkId: rows[rows.length - 1].linkid }) : null;
+    return { links, continuation };
   }
 
-  queryByCorporateUsername(username, callback) {
+  async countLinks(query?: ILinkQuery): Promise<number> {
+    const { conditions, values } = this._getQueryConditions(query);
+    const results = await PostgresPoolQueryAsync(this._pool, `
+      SELECT
+        COUNT(linkid) as linkcount
+      FROM ${this._tableName}
+      WHERE
+        ${conditions.join(' AND\n        ')}
+    `, values);
+    return parseInt(results.rows[0].linkcount, 10);
+  }
+
+  queryByCorporateUsername(username: string): Promise<ICorporateLink[]> {
     return this._getRows({
       columnName: 'corporateusername',
       columnValue: username,
       columnIsLowercase: true,
-    }, callback);
+    });
   }
 
-  createLink(link: ICorporateLink, callback) {
-    const self = this;
-    const linkId = uuidV4(); // primary key protected
+  // A link change and its history entry are written in one transaction, so
+  // that no change is stored without its history
+  async createLink(link: ICorporateLink, context?: ILinkChangeContext): Promise<string> {
     if (!link.thirdPartyId || !link.thirdPartyUsername || !link.corporateId || !link.corporateUsername) {
-      return callback(new Error('Missing a required value'));
+      throw new Error('Missing a required value');
     }
+    const linkId = uuidV4(); // primary key protected
     const created = new Date();
-    PostgresPoolQuery(self._pool, `
-      INSERT INTO ${this._tableName}(
-        linkid,
-        thirdpartytype,
-        thirdpartyid, thirdpartyusername, thirdpartyavatar,
-        corporateid, corporateusername, corporatename,
-        serviceaccount, serviceaccountmail,
-        created)
-      VALUES (
-        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11
-      )
-    `, [
-      linkId,
-      self._internalThirdPartyTypeValue,
-      link.thirdPartyId, link.thirdPartyUsername, link.thirdPartyAvatar,
-      link.corporateId, link.corporateUsername, link.corporateDisplayName,
-      link.isServiceAccount, link.serviceAccountMail,
-      created,
-    ],
-    function (error, insertResult) {
+    const current = GetLinkHistoryValues(link);
+    const entry = CreateLinkHistoryEntry(LinkHistoryAction.Create, linkId, current, null, current, context);
+    try {
+      await PostgresPoolTransactionAsync(this._pool, async query => {
+        await query(`
+          INSERT INTO ${this._tableName}(
+            linkid,
+            thirdpartytype,
+            thirdpartyid, thirdpartyusername, thirdpartyavatar,
+            corporateid, corporateusername, corporatename,
+            serviceaccount, serviceaccountmail,
+            created)
+          VALUES (
+            $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11
+          )
+        `, [
+          linkId,
+          this._internalThirdPartyTypeValue,
+          link.thirdPartyId, link.thirdPartyUsername, link.thirdPartyAvatar,
+          link.corporateId, link.corporateUsername, link.corporateDisplayName,
+          link.isServiceAccount, link.serviceAccountMail,
+          created,
+        ]);
+        await this._appendHistory(query, entry);
+      });
+    } catch (error) {
       if (error && error.message && error.message.includes('duplicate key value')) {
         const ie : InnerError = new Error('A link already exists for the identity');
         ie.inner = error;
-        error = ie;
+        throw ie;
       }
-      return callback(error ? error : null, error ? null : linkId);
-    });
+      throw error;
+    }
+    return linkId;
   }
 
-  updateLink(linkInstance: ICorporateLink, callback) {
-    const self = this;
+  async updateLink(linkInstance: ICorporateLink, context?: ILinkChangeContext): Promise<boolean> {
     const pgl = linkInstance as CorporateLinkPostgres;
     const id = pgl.id;
     const values = [ id ];
     const internal = pgl.internal();
     const updates = internal.getDirtyColumns();
+    const { previous, current } = GetLinkHistoryChanges(internal.getOriginalEntity(), internal.getDirectEntity(), this.propertyMapping);
     const columns = Object.getOwnPropertyNames(updates);
     if (columns.length === 0) {
       const noUpdatesRequired = new Error('No updates were required for the link');
       noUpdatesRequired['noUpdatesRequired'] = true;
-      return callback(noUpdatesRequired);
+      throw noUpdatesRequired;
     }
     const sets = columns.map(columnName => {
       values.push(updates[columnName]);
       const index = values.length;
       return `\n        ${columnName} = \$${index}`;
     }).join();
-    let sql = `
-      UPDATE ${this._tableName}
-      SET ${sets}
-      WHERE
-        linkid = $1
-    `;
-    PostgresPoolQuery(self._pool, sql, values, function (error, results) {
-      // TODO: how to validate updates?
-      if (error) {
-        return callback(error);
+    const updated = await PostgresPoolTransactionAsync(this._pool, async query => {
+      const results = await query(`
+        UPDATE ${this._tableName}
+        SET ${sets}
+        WHERE
+          linkid = $1
+      `, values);
+      const rowUpdated = results.rowCount > 0; // whether a row was actually updated
+      if (rowUpdated && HasLinkHistoryChanges(previous)) {
+        const entry = CreateLinkHistoryEntry(LinkHistoryAction.Update, id, GetLinkHistoryValues(internal.getDirectEntity(), this.propertyMapping), previous, current, context);
+        await this._appendHistory(query, entry);
       }
-      internal.acknowledgeSuccessfulUpdate();
-      return callback(null, results.rowCount > 0 /* whether a row was actually updated */);
+      return rowUpdated;
     });
+    internal.acknowledgeSuccessfulUpdate();
+    return updated;
   }
 
-  deleteLink(link: ICorporateLink, callback) {
+  async deleteLink(link: ICorporateLink, context?: ILinkChangeContext): Promise<boolean> {
     const pgl = link as CorporateLinkPostgres;
     const id = pgl.id;
-    return this._deleteSingleRow({ columnName: 'linkid', columnValue: id }, callback);
+    const previous = GetLinkHistoryValues(pgl.internal().getDirectEntity(), this.propertyMapping);
+    return await PostgresPoolTransactionAsync(this._pool, async query => {
+      const deleteResult = await query(`
+        DELETE
+        FROM ${this._tableName}
+        WHERE
+          linkid = $1
+      `, [
+        id,
+      ]);
+      const deleted = deleteResult.rowCount > 0;
+      if (deleted) {
+        await this._appendHistory(query, CreateLinkHistoryEntry(LinkHistoryAction.Delete, id, previous, previous, null, context));
+      }
+      return deleted;
+    });
+  }
+
+  getHistoryByThirdPartyId(id: string): Promise<ILinkHistoryEntry[]> {
+    return this._getHistoryRows('thirdpartyid', id);
+  }
+
+  getHistoryByCorporateId(id: string): Promise<ILinkHistoryEntry[]> {
+    return this._getHistoryRows('corporateid', id);
   }
 
   dehydrateLinks(linkInstances: ICorporateLink[]): any[] {
@@ -362,11 +440,74 @@ export class PostgresLinkProvider implements ILinkProvider {
     return pglink;
   }
 
-  private _getRows({columnName, columnValue, columnIsLowercase}, callback) {
-    const self = this;
+  private async _appendHistory(query: PostgresTransactionQuery, entry: ILinkHistoryEntry): Promise<void> {
+    await query(`
+      INSERT INTO ${this._historyTableName}(
+        thirdpartytype,
+        ${historyColumnsList})
+      VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13
+      )
+    `, [
+      this._internalThirdPartyTypeValue,
+      entry.historyId,
+      entry.linkId,
+      entry.action,
+      entry.thirdPartyId,
+      entry.corporateId,
+      entry.previous ? JSON.stringify(entry.previous) : null,
+      entry.current ? JSON.stringify(entry.current) : null,
+      entry.actorCorporateId,
+      entry.actorUsername,
+      entry.purpose,
+      entry.reason,
+      entry.created,
+    ]);
+  }
+
+  private async _getHistoryRows(columnName: string, columnValue: string): Promise<ILinkHistoryEntry[]> {
+    const results = await PostgresPoolQueryAsync(this._pool, `
+      SELECT
+        ${historyColumnsList}
+      FROM ${this._historyTableName}
+      WHERE
+        thirdpartytype = $1 AND
+        ${columnName} = $2
+      ORDER BY created DESC
+    `, [
+      this._internalThirdPartyTypeValue,
+      columnValue,
+    ]);
+    return results.rows.map(createHistoryEntryFromRow);
+  }
+
+  private _getQueryConditions(query: ILinkQuery): { conditions: string[], values: any[] } {
+    // Usernames are compared with lower() to use the lowercase indexes
+    query = query || {};
+    const values: any[] = [ this._internalThirdPartyTypeValue ];
+    const conditions = [ 'thirdpartytype = $1' ];
+    const columns: [string, string, boolean][] = [
+      ['corporateid', query.corporateId, false],
+      ['corporateusername', query.corporateUsername, true],
+      ['thirdpartyid', query.thirdPartyId !== undefined ? query.thirdPartyId.toString() : undefined, false],
+      ['thirdpartyusername', query.thirdPartyUsername, true],
+    ];
+    for (const [columnName, value, columnIsLowercase] of columns) {
+      if (value !== undefined) {
+        values.push(columnIsLowercase ? value.toLowerCase() : value);
+        conditions.push(columnIsLowercase ? `lower(${columnName}) = $${values.length}` : `${columnName} = $${values.length}`);
+      }
+    }
+    if (query.isServiceAccount !== undefined) {
+      conditions.push(query.isServiceAccount ? 'serviceaccount = true' : '(serviceaccount IS NULL OR serviceaccount = false)');
+    }
+    return { conditions, values };
+  }
+
+  private async _getRows({columnName, columnValue, columnIsLowercase}): Promise<ICorporateLink[]> {
     let columnWrapperStart = columnIsLowercase ? 'lower(' : '';
     let columnWrapperFinish = columnIsLowercase ? ')' : '';
-    PostgresPoolQuery(self._pool, `
+    const results = await PostgresPoolQueryAsync(this._pool, `
       SELECT
         ${coreColumnsList}
       FROM ${this._tableName}
@@ -374,25 +515,13 @@ export class PostgresLinkProvider implements ILinkProvider {
         thirdpartytype = $1 AND
         ${columnWrapperStart}${columnName}${columnWrapperFinish} = $2
     `, [
-      self._internalThirdPartyTypeValue,
+      this._internalThirdPartyTypeValue,
       columnIsLowercase ? columnValue.toLowerCase() : columnValue,
-    ],
-    function (error, results) {
-      if (error) {
-        return callback(error);
-      }
-      let r = [];
-      for (let i = 0; i < results.rows.length; i++) {
-        const row = results.rows[i];
-        const link = createLinkInstanceFromRow(self, row);
-        const ll = link;
-        r.push(ll);
-      }
-      return callback(null, r);
-    });
+    ]);
+    return results.rows.map(row => createLinkInstanceFromRow(this, row));
   }
 
-  private _getSingleRow({columnName, columnValue, columnIsLowercase}, callback) {
+  private async _getSingleRow({columnName, columnValue, columnIsLowercase}): Promise<ICorporateLink> {
     let columnWrapperStart = columnIsLowercase ? 'lower(' : '';
     let columnWrapperFinish = columnIsLowercase ? ')' : '';
     const sql = `
@@ -407,31 +536,28 @@ export class PostgresLinkProvider implements ILinkProvider {
       this._internalThirdPartyTypeValue,
       columnIsLowercase ? columnValue.toLowerCase() : columnValue,
     ];
-    PostgresPoolQuerySingleRow(this._pool, sql, values, (error, row) => {
-      if (error) {
-        return callback(error);
-      }
-      return callback(null, createLinkInstanceFromRow(this, row));
-    });
+    const row = await PostgresPoolQuerySingleRowAsync(this._pool, sql, values);
+    return createLinkInstanceFromRow(this, row);
   }
+}
 
-  private _deleteSingleRow({columnName, columnValue}, callback) {
-    const self = this;
-    PostgresPoolQuery(self._pool, `
-      DELETE
-      FROM ${this._tableName}
-      WHERE
-        ${columnName} = $1
-    `, [
-      columnValue,
-    ],
-    function (error, deleteResult) {
-      if (error) {
-        return callback(error);
-      }
-      return callback(null, deleteResult.rowCount > 0);
-    });
+function createHistoryEntryFromRow(row): ILinkHistoryEntry {
+  const entry: ILinkHistoryEntry = {
+    historyId: row.historyid,
+    linkId: row.linkid,
+    action: row.action,
+    thirdPartyId: row.thirdpartyid,
+    corporateId: row.corporateid,
+    previous: row.previousvalues,
+    current: row.currentvalues,
+    created: row.created,
+  };
+  for (const [key, column] of [['actorCorporateId', 'actorcorporateid'], ['actorUsername', 'actorusername'], ['purpose', 'purpose'], ['reason', 'reason']]) {
+    if (row[column]) {
+      entry[key] = row[column];
+    }
   }
+  return entry;
 }
 
 function createLinkInstanceFromRow(self, row) {
@@ -18,6 +18,8 @@ import { IReposError } from '../../../transitional';
 import { ILinkProvider } from '../postgres/postgresLinkProvider';
 import { ICorporateLinkProperties, ICorporateLink, ICorporateLinkExtended, CorporatePropertyNames } from '../../../business/corporateLink';
 import { CorporateTableLink } from './tableLink';
+import { CreateLinkHistoryEntry, GetLinkHistoryChanges, GetLinkHistoryValues, HasLinkHistoryChanges, ILinkChangeContext, ILinkHistoryEntry, LinkHistoryAction, ReportLinkHistoryFailure, SortLinkHistory } from '../linkHistory';
+import { DecodeLinkQueryContinuation, EncodeLinkQueryContinuation, GetLinkQueryPageSize, ILinkQuery, ILinkQueryPage, ILinkQueryPageOptions, LinkMatchesQuery } from '../linkQuery';
 
 const tableEntity = require('../../tableEntity');
 const tableEncryption = require('../../tableEncryption');
@@ -25,6 +27,8 @@ const tableEncryption = require('../../tableEncryption');
 const defaultThirdPartyType = 'github';
 const defaultPageSize = 500;
 const defaultTableName = 'links';
+const defaultHistoryTableName = 'linkhistory';
+const maximumDateMilliseconds = 8640000000000000;
 
 const linkProviderInstantiationTypeProperty = '_i';
 const dehydratedIdentityKey = '_lpi';
@@ -87,8 +91,23 @@ const coreColumns = [
 ];
 // const coreColumnsList = coreColumns.join(', ');
 
+const linkListColumns = [
+  'aadoid',
+  'aadupn',
+  'aadname',
+  'ghu',
+  'ghid',
+  'ghavatar',
+  'serviceAccount',
+  'serviceAccountMail',
+  'PartitionKey',
+  'RowKey',
+  'Timestamp',
+];
+
 export class TableLinkProvider implements ILinkProvider {
   private _tableName: string;
+  private _historyTableName: string;
   private _tableNamePrefix: string;
   private _table: azure.TableService;
   private _providers: any;
@@ -125,193 +144,275 @@ export class TableLinkProvider implements ILinkProvider {
     this._options = options;
   }
 
-  initialize(callback) {
-    const options = this._options || {};
-
-    let table = null;
-    try {
-      table = azure.createTableService(options.account, options.key);
-    } catch (storageAccountError) {
-      return callback(storageAccountError);
-    }
-
-    this._table = table;
-    this._entityGenerator = azure.TableUtilities.entityGenerator;
-
-    this._tableNamePrefix = options.prefix || '';
-    this._tableName = options.tableName || `${this._tableNamePrefix}${defaultTableName}`;
+  initialize(): Promise<ILinkProvider> {
+    return new Promise<ILinkProvider>((resolve, reject) => {
+      const callback = promiseCallback(resolve, reject);
+      const options = this._options || {};
 
-    if (options.encryption) {
+      let table = null;
       try {
-        configureTableEncryption(this, options);
-      } catch (encryptionInitializationError) {
-        return callback(encryptionInitializationError);
+        table = azure.createTableService(options.account, options.key);
+      } catch (storageAccountError) {
+        return callback(storageAccountError);
       }
-    }
 
-    const tableClient = this._table;
+      this._table = table;
+      this._entityGenerator = azure.TableUtilities.entityGenerator;
+
+      this._tableNamePrefix = options.prefix || '';
+      this._tableName = options.tableName || `${this._tableNamePrefix}${defaultTableName}`;
+      this._historyTableName = options.historyTableName || `${this._tableNamePrefix}${defaultHistoryTableName}`;
 
-    if (options.throwIfTableMissing) {
-      tableClient.doesTableExist(this._tableName, (tableError, tableInfo) => {
-        if (!tableError && !tableInfo.exists) {
-          tableError = new Error(`The table named "${this._tableName}" does not exist. With options.throwIfTableMissing set, this error is thrown.`);
+      if (options.encryption) {
+        try {
+          configureTableEncryption(this, options);
+        } catch (encryptionInitializationError) {
+          return callback(encryptionInitializationError);
         }
-        return callback(tableError ? tableError : null, tableError ? null : this);
-      });
-    } else {
-      tableClient.createTableIfNotExists(this._tableName, callbackProvidesThisOnSuccess(this, callback));
-    }
+      }
+
+      const tableClient = this._table;
+
+      if (options.throwIfTableMissing) {
+        async.eachSeries([this._tableName, this._historyTableName], (tableName: string, next) => {
+          tableClient.doesTableExist(tableName, (tableError, tableInfo) => {
+            if (!tableError && !tableInfo.exists) {
+              tableError = new Error(`The table named "${tableName}" does not exist. With options.throwIfTableMissing set, this error is thrown.`);
+            }
+            return next(tableError);
+          });
+        }, callbackProvidesThisOnSuccess(this, callback));
+      } else {
+        async.eachSeries([this._tableName, this._historyTableName], (tableName: string, next) => {
+          tableClient.createTableIfNotExists(tableName, error => next(error));
+        }, callbackProvidesThisOnSuccess(this, callback));
+      }
+    });
   }
 
   get thirdPartyType() {
     return this._thirdPartyType;
   }
 
-  getByThirdPartyUsername(username, callback) {
+  getByThirdPartyUsername(username: string): Promise<ICorporateLink> {
     username = username.toLowerCase();
     // NOTE: this is not normalized in the current data set!!!!!!!!
     // TODO: NOT NORMALIZED
     // TODO: VALUES in the current table have usernames that are MIXED CASE!!!!!!
-    return getSingleLinkByProperty(this, this.propertyMapping.thirdPartyUsername, username, callback);
+    return new Promise<ICorporateLink>((resolve, reject) => {
+      getSingleLinkByProperty(this, this.propertyMapping.thirdPartyUsername, username, promiseCallback(resolve, reject));
+    });
   }
 
-  getByThirdPartyId(id, callback) {
-    const self = this;
-    if (typeof(id) !== 'string') {
-      id = id.toString();
-    }
-    // Legacy table design: this call actually can go direct; in the
-    // original implementation, the partition key is fixed and the
-    // row key is simply the string value of the GitHub user ID.
+  getByThirdPartyId(id: string | number): Promise<ICorporateLink> {
+    return new Promise<ICorporateLink>((resolve, reject) => {
+      const callback = promiseCallback(resolve, reject);
+      const self = this;
+      const thirdPartyId = String(id);
+      // Legacy table design: this call actually can go direct; in the
+      // original implementation, the partition key is fixed and the
+      // row key is simply the string value of the GitHub user ID.
 
-    // SLOW query equivalent: return getUserEntityByProperty(this, 'ghid', id, callback);
+      // SLOW query equivalent: return getUserEntityByProperty(this, 'ghid', id, callback);
 
-    const partitionKey = this._options.partitionKey;
-    if (!partitionKey) {
-      return callback(new Error('No table options.partitionKey provided with a fixed partition key at this time'));
-    }
+      const partitionKey = this._options.partitionKey;
+      if (!partitionKey) {
+        return callback(new Error('No table options.partitionKey provided with a fixed partition key at this time'));
+      }
 
-    const tableName = this._tableName;
+      const tableName = this._tableName;
 
-    this._table.retrieveEntity(tableName, partitionKey, id, (getError: any, fullEntity) => {
-      if (getError && getError.statusCode === 404) {
-        return callback(null, false);
-      }
-      if (getError) {
-        return callback(getError);
-      }
-      const row = tableEntity.reduce(fullEntity);
-      const link = createLinkInstanceFromAzureTableEntity(self, row);
-      return callback(null, link);
+      this._table.retrieveEntity(tableName, partitionKey, thirdPartyId, (getError: any, fullEntity) => {
+        if (getError && getError.statusCode === 404) {
+          return callback(null, null);
+        }
+        if (getError) {
+          return callback(getError);
+        }
+        const row = tableEntity.reduce(fullEntity);
+        const link = createLinkInstanceFromAzureTableEntity(self, row);
+        return callback(null, link);
+      });
     });
   }
 
-  queryByCorporateId(id, callback) {
-    return getLinksByProperty(this, 'aadoid', id, callback);
-  }
-
-  getAll(callback) {
-    const self = this;
-    const queryOptions = {
-      columns: [
-        'aadoid',
-        'aadupn',
-        'aadname',
-        'ghu',
-        'ghid',
-        'ghavatar',
-        'serviceAccount',
-        'serviceAccountMail',
-        'PartitionKey',
-        'RowKey',
-        'Timestamp',
-      ],
-    };
-
-    return queryLinksTable(this, queryOptions, (error, unsorted) => {
-      if (error) {
-        return callback(error);
-      }
+  queryByCorporateId(id: string): Promise<ICorporateLink[]> {
+    return new Promise<ICorporateLink[]>((resolve, reject) => {
+      getLinksByProperty(this, 'aadoid', id, promiseCallback(resolve, reject));
+    });
+  }
 
-      const sorted = _.sortBy(unsorted, ['aadupn', 'ghu']);
-      const links = createLinkInstancesFromAzureTableEntityArray(self, sorted);
-      return callback(null, links);
+  getAll(): Promise<ICorporateLink[]> {
+    return new Promise<ICorporateLink[]>((resolve, reject) => {
+      const callback = promiseCallback(resolve, reject);
+      const self = this;
+      const queryOptions = {
+        columns: linkListColumns,
+      };
+
+      return queryLinksTable(this, queryOptions, (error, unsorted) => {
+        if (error) {
+          return callback(error);
+        }
+
+        const sorted = _.sortBy(unsorted, ['aadupn', 'ghu']);
+        const links = createLinkInstancesFromAzureTableEntityArray(self, sorted);
+        return callback(null, links);
+      });
     });
   }
 
-  queryByCorporateUsername(username, callback) {
+  queryLinks(query: ILinkQuery, options?: ILinkQueryPageOptions): Promise<ILinkQueryPage> {
+    // A page holds at most the page size, but can hold fewer links while a continuation remains
+    const pageSize = GetLinkQueryPageSize(options);
+    const state: ITableLinkQueryContinuation = DecodeLinkQueryContinuation(options ? options.continuation : null) || { token: null };
+    return queryLinksPage(this, query, pageSize, state);
+  }
+
+  async countLinks(query?: ILinkQuery): Promise<number> {
+    // Azure tables cannot count, so the matching rows are read with their keys and filter columns
+    const columns = ['PartitionKey', 'RowKey', 'aadoid', 'aadupn', 'ghu', 'serviceAccount'];
+    let count = await countLinksTable(this, query, { columns, where: getLinkQueryFilter(query) });
+    if (count === 0 && hasUsernameQuery(query)) {
+      count = await countLinksTable(this, query, { columns, where: getLinkQueryFilter(query, true) });
+    }
+    return count;
+  }
+
+  queryByCorporateUsername(username: string): Promise<ICorporateLink[]> {
     // ?? username = username.toLowerCase();
     // TODO: not sure if this one is normalized or not...
-    return getLinksByProperty(this, 'aadupn', username, callback);
+    return new Promise<ICorporateLink[]>((resolve, reject) => {
+      getLinksByProperty(this, 'aadupn', username, promiseCallback(resolve, reject));
+    });
   }
 
-  createLink(link: ICorporateLink, callback: (error: any, newLinkId: string) => void) {
-    const generatedLinkId = uuidV4();
-    const tableName = this._tableName;
-    let entity = null;
-    try {
-      const initialEntity = {};
-      initialEntity[linkInterfacePropertyMapping.linkId] = generatedLinkId;
-
-      for (let linkPropertyName of CorporatePropertyNames) {
-        // linkInterfacePropertyMapping
-        const tableColumnName = linkInterfacePropertyMapping[linkPropertyName];
-        if (!tableColumnName) {
-          return callback(new Error(`Missing mapping from property ${linkPropertyName} to equivalent table column`), null);
+  createLink(link: ICorporateLink, context?: ILinkChangeContext): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+      const callback = promiseCallback(resolve, reject);
+      const generatedLinkId = uuidV4();
+      const tableName = this._tableName;
+      let entity = null;
+      try {
+        const initialEntity = {};
+        initialEntity[linkInterfacePropertyMapping.linkId] = generatedLinkId;
+
+        for (let linkPropertyName of CorporatePropertyNames) {
+          // linkInterfacePropertyMapping
+          const tableColumnName = linkInterfacePropertyMapping[linkPropertyName];
+          if (!tableColumnName) {
+            return callback(new Error(`Missing mapping from property ${linkPropertyName} to equivalent table column`), null);
+          }
+          initialEntity[tableColumnName] = link[linkPropertyName];
         }
-        initialEntity[tableColumnName] = link[linkPropertyName];
-      }
 
-      const partitionKey = this._options.partitionKey;
-      if (!partitionKey) {
-        return callback(new Error('No table options.partitionKey provided with a fixed partition key at this time'), null);
+        const partitionKey = this._options.partitionKey;
+        if (!partitionKey) {
+          return callback(new Error('No table options.partitionKey provided with a fixed partition key at this time'), null);
+        }
+        entity = tableEntity.create(partitionKey, link.thirdPartyId, initialEntity);
+      } catch (processingError) {
+        return callback(processingError, null);
       }
-      entity = tableEntity.create(partitionKey, link.thirdPartyId, initialEntity);
-    } catch (processingError) {
-      return callback(processingError, null);
-    }
-    return this._table.insertEntity(tableName, entity, (insertError: any, inserted) => {
-      if (insertError && insertError.code === 'EntityAlreadyExists') {
-        const error: IAlreadyLinkedError = new Error('This user is already linked');
-        error.alreadyLinked = true;
-        error.innerError = insertError;
-        return callback(error, null);
+      return this._table.insertEntity(tableName, entity, (insertError: any, inserted) => {
+        if (insertError && insertError.code === 'EntityAlreadyExists') {
+          const error: IAlreadyLinkedError = new Error('This user is already linked');
+          error.alreadyLinked = true;
+          error.innerError = insertError;
+          return callback(error, null);
+        }
+        if (insertError) {
+          return callback(insertError, null);
+        }
+        const current = GetLinkHistoryValues(link);
+        const entry = CreateLinkHistoryEntry(LinkHistoryAction.Create, generatedLinkId, current, null, current, context);
+        return this.appendHistory(entry, () => callback(null, generatedLinkId));
+      });
+    });
+  }
+
+  updateLink(linkInstance: ICorporateLink, context?: ILinkChangeContext): Promise<boolean> {
+    return new Promise<boolean>((resolve, reject) => {
+      const callback = promiseCallback(resolve, reject);
+      const tl = linkInstance as CorporateTableLink;
+      const internal = tl.internal();
+      const replacementEntity = internal.getDirectEntity();
+      if (linkInstance.thirdPartyId) {
+        const { previous, current } = GetLinkHistoryChanges(internal.getOriginalEntity(), replacementEntity, this.propertyMapping);
+        return this.updateLinkByThirdPartyIdLegacy(linkInstance.thirdPartyId, replacementEntity, error => {
+          if (error) {
+            return callback(error);
+          }
+          internal.acknowledgeSuccessfulUpdate();
+          if (!HasLinkHistoryChanges(previous)) {
+            return callback(null, true);
+          }
+          const entry = CreateLinkHistoryEntry(LinkHistoryAction.Update, tl.id, GetLinkHistoryValues(replacementEntity, this.propertyMapping), previous, current, context);
+          return this.appendHistory(entry, () => callback(null, true));
+        });
       }
-      if (insertError) {
-        return callback(insertError, null);
+      return callback(new Error('updateLink is not yet updated for linkId without a given thirdPartyId (ghid)'));
+    });
+  }
+
+  deleteLink(linkInstance: ICorporateLink, context?: ILinkChangeContext): Promise<boolean> {
+    return new Promise<boolean>((resolve, reject) => {
+      // This is inefficient at this time; with the newer design centering
+      // around a link ID, this has to query first.
+      const tl = linkInstance as CorporateTableLink;
+      const linkId = tl.id;
+      const previous = GetLinkHistoryValues(tl.internal().getDirectEntity(), this.propertyMapping);
+      const callback = error => {
+        if (error) {
+          return reject(error);
+        }
+        const entry = CreateLinkHistoryEntry(LinkHistoryAction.Delete, linkId, previous, previous, null, context);
+        return this.appendHistory(entry, () => resolve(true));
+      };
+      if (!linkId && linkInstance.thirdPartyId) {
+        return this.deleteLinkByThirdPartyIdLegacy(linkInstance.thirdPartyId, callback);
       }
-      return callback(null, generatedLinkId);
+      return getSingleLinkByProperty(this, this.propertyMapping.linkId, linkId, (queryError, link: ICorporateLink) => {
+        if (!queryError && !link) {
+          queryError = new Error(`No link found with ID ${linkId}`);
+        }
+        if (!queryError && !link.thirdPartyId) {
+          queryError = new Error(`Link ${linkId} is missing a valid thirdPartyId`);
+        }
+        if (queryError) {
+          return callback(queryError);
+        }
+        return this.deleteLinkByThirdPartyIdLegacy(link.thirdPartyId, callback);
+      });
     });
   }
 
-  updateLink(linkInstance: ICorporateLink, callback) {
-    const tl = linkInstance as CorporateTableLink;
-    const replacementEntity = tl.internal().getDirectEntity();
-    if (linkInstance.thirdPartyId) {
-      return this.updateLinkByThirdPartyIdLegacy(linkInstance.thirdPartyId, replacementEntity, callback);
-    }
-    return callback(new Error('updateLink is not yet updated for linkId without a given thirdPartyId (ghid)'));
+  getHistoryByThirdPartyId(id: string): Promise<ILinkHistoryEntry[]> {
+    return new Promise<ILinkHistoryEntry[]>((resolve, reject) => {
+      queryHistoryTable(this, 'PartitionKey', id, promiseCallback(resolve, reject));
+    });
   }
 
-  deleteLink(linkInstance: ICorporateLink, callback) {
-    // This is inefficient at this time; with the newer design centering
-    // around a link ID, this has to query first.
-    const tl = linkInstance as CorporateTableLink;
-    const linkId = tl.id;
-    if (!linkId && linkInstance.thirdPartyId) {
-      return this.deleteLinkByThirdPartyIdLegacy(linkInstance.thirdPartyId, callback);
-    }
-    return getSingleLinkByProperty(this, this.propertyMapping.linkId, linkId, (queryError, link: ICorporateLink) => {
-      if (!queryError && !link) {
-        queryError = new Error(`No link found with ID ${linkId}`);
-      }
-      if (!queryError && !link.thirdPartyId) {
-        queryError = new Error(`Link ${linkId} is missing a valid thirdPartyId`);
-      }
-      if (queryError) {
-        return callback(queryError);
+  getHistoryByCorporateId(id: string): Promise<ILinkHistoryEntry[]> {
+    return new Promise<ILinkHistoryEntry[]>((resolve, reject) => {
+      queryHistoryTable(this, 'corporateId', id, promiseCallback(resolve, reject));
+    });
+  }
+
+  private appendHistory(entry: ILinkHistoryEntry, callback) {
+    // Newest entries sort first within the partition of the GitHub user ID
+    const rowKey = `${(maximumDateMilliseconds - entry.created.getTime()).toString().padStart(16, '0')}_${entry.historyId}`;
+    const values = Object.assign({}, entry, {
+      previous: entry.previous ? JSON.stringify(entry.previous) : null,
+      current: entry.current ? JSON.stringify(entry.current) : null,
+    });
+    const historyEntity = tableEntity.create(entry.thirdPartyId || 'unknown', rowKey, values);
+    this._table.insertEntity(this._historyTableName, historyEntity, insertError => {
+      // The link change itself succeeded in another table, so a history failure is reported but not returned
+      if (insertError) {
+        ReportLinkHistoryFailure(this._providers.insights, entry, insertError);
       }
-      return this.deleteLinkByThirdPartyIdLegacy(link.thirdPartyId, callback);
+      return callback();
     });
   }
 
@@ -402,7 +503,7 @@ export class TableLinkProvider implements ILinkProvider {
   }
 }
 
-function createLinkInstancesFromAzureTableEntityArray(provider: TableLinkProvider, rows: any[]) {
+function createLinkInstancesFromAzureTableEntityArray(provider: TableLinkProvider, rows: any[]): CorporateTableLink[] {
   return rows.map(createLinkInstanceFromAzureTableEntity.bind(null, provider));
 }
 
@@ -448,7 +549,7 @@ function getSingleLinkByProperty(self, propertyName, value, callback) {
       return callback(getError);
     }
     if (rows.length <= 0) {
-      return callback(null, false);
+      return callback(null, null);
     }
     if (rows.length > 1) {
       const error: IMultipleResultsError = new Error(`More than a single result were returned by the query (${rows.length})`);
@@ -461,6 +562,98 @@ function getSingleLinkByProperty(self, propertyName, value, callback) {
   });
 }
 
+function queryHistoryTable(self, propertyName: string, value: string, callback) {
+  const queryOptions = {
+    tableName: self._historyTableName,
+    wherePropertyName: propertyName,
+    whereValue: value,
+  };
+  return queryLinksTable(self, queryOptions, (error, rows) => {
+    if (error) {
+      return callback(error);
+    }
+    const entries: ILinkHistoryEntry[] = rows.map(row => {
+      const entry = _.omit(row, ['PartitionKey', 'RowKey', 'Timestamp', '.metadata']) as ILinkHistoryEntry;
+      entry.previous = row.previous ? JSON.parse(row.previous) : null;
+      entry.current = row.current ? JSON.parse(row.current) : null;
+      return entry;
+    });
+    return callback(null, SortLinkHistory(entries));
+  });
+}
+
+function hasUsernameQuery(query: ILinkQuery): boolean {
+  return !!query && (query.corporateUsername !== undefined || query.thirdPartyUsername !== undefined);
+}
+
+function getLinkQueryFilter(query: ILinkQuery, scanUsernames?: boolean): string {
+  // Usernames are not normalized in the table, so they are matched as given and in
+  // lowercase; when scanning, usernames are only compared after the query, without
+  // case. Comparisons never match entities without the property, so links that are
+  // not service accounts are filtered after the query.
+  query = query || {};
+  const { QueryComparisons, TableOperators } = azure.TableUtilities;
+  const filters: string[] = [];
+  if (query.thirdPartyId !== undefined) {
+    // the row key is the third-party ID
+    filters.push(azure.TableQuery.stringFilter('RowKey', QueryComparisons.EQUAL, query.thirdPartyId.toString()));
+  }
+  if (query.corporateId !== undefined) {
+    filters.push(azure.TableQuery.stringFilter('aadoid', QueryComparisons.EQUAL, query.corporateId));
+  }
+  for (const [columnName, value] of [['aadupn', query.corporateUsername], ['ghu', query.thirdPartyUsername]]) {
+    if (value !== undefined && !scanUsernames) {
+      const variants = Array.from(new Set([value, value.toLowerCase()]));
+      filters.push(variants.map(variant => azure.TableQuery.stringFilter(columnName, QueryComparisons.EQUAL, variant)).join(` ${TableOperators.OR} `));
+    }
+  }
+  if (query.isServiceAccount === true) {
+    filters.push(azure.TableQuery.booleanFilter('serviceAccount', QueryComparisons.EQUAL, true));
+  }
+  return filters.length ? filters.map(filter => `(${filter})`).join(` ${TableOperators.AND} `) : null;
+}
+
+interface ITableLinkQueryContinuation {
+  token: azure.TableService.TableContinuationToken;
+  matched?: boolean;
+  scan?: boolean;
+}
+
+async function queryLinksPage(self: TableLinkProvider, query: ILinkQuery, pageSize: number, state: ITableLinkQueryContinuation): Promise<ILinkQueryPage> {
+  // Mixed-case usernames are not found by the table query, so when no page has matched
+  // a username, the links are scanned from the start and compared without case
+  let tableQuery = new azure.TableQuery().select(linkListColumns).top(pageSize);
+  const where = getLinkQueryFilter(query, state.scan);
+  if (where) {
+    tableQuery = tableQuery.where(where);
+  }
+  const results = await new Promise<azure.TableService.QueryEntitiesResult<any>>((resolve, reject) => {
+    getTableService(self).queryEntities(getTableName(self), tableQuery, state.token, promiseCallback(resolve, reject));
+  });
+  const rows = (results.entries || []).map(entry => tableEntity.reduce(entry)).filter(row => LinkMatchesQuery(row, query, self.propertyMapping));
+  const links = createLinkInstancesFromAzureTableEntityArray(self, rows);
+  const matched = state.matched || links.length > 0;
+  if (results.continuationToken) {
+    const continuation: ITableLinkQueryContinuation = { token: results.continuationToken, matched, scan: state.scan };
+    return { links, continuation: EncodeLinkQueryContinuation(continuation) };
+  }
+  if (!matched && !state.scan && hasUsernameQuery(query)) {
+    return queryLinksPage(self, query, pageSize, { token: null, scan: true });
+  }
+  return { links, continuation: null };
+}
+
+function countLinksTable(self: TableLinkProvider, query: ILinkQuery, queryOptions): Promise<number> {
+  return new Promise<number>((resolve, reject) => {
+    queryLinksTable(self, queryOptions, (error, rows) => {
+      if (error) {
+        return reject(error);
+      }
+      return resolve(rows.filter(row => LinkMatchesQuery(row, query, self.propertyMapping)).length);
+    });
+  });
+}
+
 function getTableName(self) {
   // setup during init
   return self._tableName;
@@ -479,6 +672,8 @@ function queryLinksTable(self, options, callback) {
     }
     if (options.wherePropertyName && options.whereValue) {
       q = q.where(`${options.wherePropertyName} eq ?`, options.whereValue);
+    } else if (options.where) {
+      q = q.where(options.where);
     }
     const pageSize = options.pageSize || defaultPageSize;
     q = q.top(pageSize);
@@ -575,3 +770,7 @@ function callbackProvidesThisOnSuccess(self, callback) {
     return callback(null, capturedSelf);
   };
 }
+
+function promiseCallback<T>(resolve: (value: T) => void, reject: (reason: any) => void) {
+  return (error: any, result?: T) => error ? reject(error) : resolve(result);
+}
@@ -7,8 +7,12 @@
 
 const debug = require('debug')('pg');
 
+import { QueryResult } from 'pg';
+
 import { InnerError } from "../transitional";
 
+export type PostgresTransactionQuery = (sql: string, values: any[]) => Promise<QueryResult>;
+
 export function PostgresPoolQuerySingleRow(pool, sql: string, values: any[], callback) {
   PostgresPoolQuery(pool, sql, values, (error, results) => {
     if (error) {
@@ -32,7 +36,7 @@ export function PostgresPoolQuerySingleRow(pool, sql: string, values: any[], cal
   });
 }
 
-export function PostgresPoolQuerySingleRowAsync(pool, sql: string, values: any[]): Promise<any[]> {
+export function PostgresPoolQuerySingleRowAsync(pool, sql: string, values: any[]): Promise<any> {
   return new Promise((resolve, reject) => {
     PostgresPoolQuerySingleRow(pool, sql, values, (error, results) => {
       return error ? reject(error) : resolve(results);
@@ -57,28 +61,64 @@ export function PostgresPoolQuery(pool, sql: string, values: any[], callback) {
     client.query(sql, values, function (queryError, results) {
       release();
       if (queryError) {
-        const err: InnerError = new Error(queryError.message /* Postgres provider never leaks SQL statements thankfully */ || 'There was an error querying a database');
-        err.inner = queryError;
-        if (queryError.position) {
-          err['position'] = queryError.position;
-        }
-        if (queryError.message) {
-          err['sqlMessage'] = queryError.message;
-          err['sqlStatement'] = sql;
-          err['sqlValues'] = values;
-        }
-        return callback(err);
+        return callback(createQueryError(queryError, sql, values));
       }
       return callback(null, results);
     });
   });
 }
 
-export function PostgresPoolQueryAsync(pool, sql: string, values: any[]): Promise<any[]> {
+export async function PostgresPoolTransactionAsync<T>(pool, work: (query: PostgresTransactionQuery) => Promise<T>): Promise<T> {
+  // The statements of the work share one client; any error rolls back all of them
+  if (!pool) {
+    throw new Error('No Postgres pool provided');
+  }
+  const client = await pool.connect();
+  const query: PostgresTransactionQuery = async (sql: string, values: any[]) => {
+    debug(sql);
+    debug(values);
+    try {
+      return await client.query(sql, values);
+    } catch (queryError) {
+      throw createQueryError(queryError, sql, values);
+    }
+  };
+  try {
+    await client.query('BEGIN');
+    const result = await work(query);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    try {
+      await client.query('ROLLBACK');
+    } catch (rollbackError) {
+      debug(`rollback failed: ${rollbackError.message}`);
+    }
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+function createQueryError(queryError, sql: string, values: any[]): InnerError {
+  const err: InnerError = new Error(queryError.message /* Postgres provider never leaks SQL statements thankfully */ || 'There was an error querying a database');
+  err.inner = queryError;
+  if (queryError.position) {
+    err['position'] = queryError.position;
+  }
+  if (queryError.message) {
+    err['sqlMessage'] = queryError.message;
+    err['sqlStatement'] = sql;
+    err['sqlValues'] = values;
+  }
+  return err;
+}
+
+export function PostgresPoolQueryAsync(pool, sql: string, values: any[]): Promise<QueryResult> {
   return new Promise((resolve, reject) => {
     PostgresPoolQuery(pool, sql, values, (error, results) => {
-      if (results && results['rows'] && results['rows'].length !== undefined) {
-        debug(`rows: ${results['rows'].length}`);
+      if (results && results.rows && results.rows.length !== undefined) {
+        debug(`rows: ${results.rows.length}`);
       }
       return error ? reject(error) : resolve(results);
     });
@@ -0,0 +1,98 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import { RedisHelper } from '../redis';
+import { ServiceBusQueueProcessor } from './serviceBusQueue';
+import { RedisQueueProcessor } from './redisQueue';
+import { MemoryQueueProcessor } from './memoryQueue';
+
+export interface IQueueMessage {
+  identifier: string;
+  body: string;
+  customProperties: any;
+  deliveryCount: number;
+  enqueued: Date;
+  lockedUntil?: Date;
+  unparsedMessage?: any; // transport-specific handle used to ack or release the message
+}
+
+export interface IQueueProcessor {
+  readonly queueName: string;
+  readonly visibilityTimeoutSeconds: number;
+  readonly maxDeliveryCount: number;
+
+  // Returns null when the queue is empty. A received message is hidden from
+  // other receivers until acknowledged, released, or its visibility timeout
+  // expires, at which point it is delivered again.
+  receiveMessage(): Promise<IQueueMessage>;
+  sendMessage(body: string, customProperties?: any): Promise<void>;
+  ackMessage(message: IQueueMessage): Promise<void>;
+  releaseMessage(message: IQueueMessage): Promise<void>;
+  deadLetterMessage(message: IQueueMessage, reason: string): Promise<void>;
+}
+
+export interface IQueueProcessorOptions {
+  provider: string;
+  queue: string;
+  visibilityTimeoutSeconds?: number | string;
+  maxDeliveryCount?: number | string;
+  serviceBus?: {
+    connectionString: string;
+    deadLetterQueue?: string;
+  };
+  redis?: RedisHelper;
+}
+
+export const DefaultVisibilityTimeoutSeconds = 60;
+export const DefaultMaxDeliveryCount = 10;
+
+export function CreateQueueProcessorInstance(options: IQueueProcessorOptions): IQueueProcessor {
+  if (!options) {
+    throw new Error('No queue processor options');
+  }
+  const provider = options.provider;
+  if (!provider) {
+    throw new Error('No queue provider set in the options');
+  }
+  if (!options.queue) {
+    throw new Error('No queue name set in the options');
+  }
+  switch (provider) {
+    case 'servicebus':
+      return new ServiceBusQueueProcessor(options);
+    case 'redis':
+      return new RedisQueueProcessor(options);
+    case 'memory':
+      return new MemoryQueueProcessor(options);
+    default:
+      throw new Error(`The queue provider "${provider}" is not implemented or configured at this time.`);
+  }
+}
+
+export function getQueueTimeoutOptions(options: IQueueProcessorOptions) {
+  const visibilityTimeoutSeconds = options.visibilityTimeoutSeconds ? parseFloat(options.visibilityTimeoutSeconds.toString()) : DefaultVisibilityTimeoutSeconds;
+  const maxDeliveryCount = options.maxDeliveryCount ? parseInt(options.maxDeliveryCount.toString(), 10) : DefaultMaxDeliveryCount;
+  return { visibilityTimeoutSeconds, maxDeliveryCount };
+}
+
+// The firehose job receives from, and the webhook API route sends to, the queue
+// named in the webJob.firehose configuration
+export function CreateFirehoseQueueProcessorInstance(firehoseConfig: any, redis?: RedisHelper): IQueueProcessor {
+  if (!firehoseConfig) {
+    throw new Error('No firehose configuration');
+  }
+  const queueConfig = firehoseConfig.queue || {};
+  const serviceBusConfig = firehoseConfig.serviceBus || {};
+  return CreateQueueProcessorInstance({
+    provider: queueConfig.provider || 'servicebus',
+    queue: queueConfig.name || serviceBusConfig.queue,
+    visibilityTimeoutSeconds: queueConfig.visibilityTimeoutSeconds,
+    maxDeliveryCount: queueConfig.maxDeliveryCount,
+    serviceBus: serviceBusConfig,
+    redis,
+  });
+}
@@ -0,0 +1,126 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import { v4 as uuidV4 } from 'uuid';
+
+import { IQueueProcessor, IQueueProcessorOptions, IQueueMessage, getQueueTimeoutOptions } from '.';
+
+interface IMemoryQueueEntry {
+  identifier: string;
+  body: string;
+  customProperties: any;
+  enqueued: Date;
+  deliveryCount: number;
+  lockedUntil?: Date;
+  deadLetterReason?: string;
+}
+
+export class MemoryQueueProcessor implements IQueueProcessor {
+  private _pending: IMemoryQueueEntry[] = [];
+  private _inflight = new Map<string, IMemoryQueueEntry>();
+  private _deadLetters: IMemoryQueueEntry[] = [];
+
+  queueName: string;
+  visibilityTimeoutSeconds: number;
+  maxDeliveryCount: number;
+
+  constructor(options: IQueueProcessorOptions) {
+    this.queueName = options.queue;
+    const { visibilityTimeoutSeconds, maxDeliveryCount } = getQueueTimeoutOptions(options);
+    this.visibilityTimeoutSeconds = visibilityTimeoutSeconds;
+    this.maxDeliveryCount = maxDeliveryCount;
+  }
+
+  async receiveMessage(): Promise<IQueueMessage> {
+    this.restoreExpiredMessages();
+    const entry = this._pending.shift();
+    if (!entry) {
+      return null;
+    }
+    ++entry.deliveryCount;
+    entry.lockedUntil = new Date(Date.now() + this.visibilityTimeoutSeconds * 1000);
+    this._inflight.set(entry.identifier, entry);
+    return {
+      identifier: entry.identifier,
+      body: entry.body,
+      customProperties: Object.assign({}, entry.customProperties),
+      deliveryCount: entry.deliveryCount,
+      enqueued: entry.enqueued,
+      lockedUntil: entry.lockedUntil,
+      unparsedMessage: entry,
+    };
+  }
+
+  async sendMessage(body: string, customProperties?: any): Promise<void> {
+    this._pending.push({
+      identifier: uuidV4(),
+      body,
+      customProperties: customProperties || {},
+      enqueued: new Date(),
+      deliveryCount: 0,
+    });
+  }
+
+  async ackMessage(message: IQueueMessage): Promise<void> {
+    this.removeInflight(message);
+  }
+
+  async releaseMessage(message: IQueueMessage): Promise<void> {
+    const entry = this.removeInflight(message);
+    if (entry) {
+      this._pending.unshift(entry);
+    }
+  }
+
+  async deadLetterMessage(message: IQueueMessage, reason: string): Promise<void> {
+    const entry = this.removeInflight(message);
+    if (entry) {
+      entry.deadLetterReason = reason;
+      this._deadLetters.push(entry);
+    }
+  }
+
+  get pendingCount() {
+    return this._pending.length;
+  }
+
+  get inflightCount() {
+    return this._inflight.size;
+  }
+
+  getDeadLetters() {
+    return this._deadLetters;
+  }
+
+  private removeInflight(message: IQueueMessage): IMemoryQueueEntry {
+    const entry = message.unparsedMessage as IMemoryQueueEntry;
+    // A message whose visibility expired may have been delivered again since
+    if (!entry || this._inflight.get(entry.identifier) !== entry || entry.lockedUntil !== message.lockedUntil) {
+      return null;
+    }
+    this._inflight.delete(entry.identifier);
+    entry.lockedUntil = null;
+    return entry;
+  }
+
+  private restoreExpiredMessages() {
+    const now = Date.now();
+    for (const [identifier, entry] of this._inflight) {
+      if (entry.lockedUntil.getTime() > now) {
+        continue;
+      }
+      this._inflight.delete(identifier);
+      entry.lockedUntil = null;
+      if (entry.deliveryCount >= this.maxDeliveryCount) {
+        entry.deadLetterReason = 'MaxDeliveryCountExceeded';
+        this._deadLetters.push(entry);
+      } else {
+        this._pending.unshift(entry);
+      }
+    }
+  }
+}
@@ -0,0 +1,157 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import { v4 as uuidV4 } from 'uuid';
+
+import { RedisHelper } from '../redis';
+import { IQueueProcessor, IQueueProcessorOptions, IQueueMessage, getQueueTimeoutOptions } from '.';
+
+// Messages wait in a pending list. A received message moves to an in-flight
+// sorted set scored by its visibility deadline; receivers return expired
+// in-flight messages to the pending list, or to the dead-letter list once
+// the maximum delivery count has been reached.
+
+// Every move between the lists and the sorted set is a single MULTI/EXEC
+// transaction, so that a worker that dies mid-move cannot lose the message.
+// Each receive stamps the in-flight member with a unique receipt. When two
+// workers race for the same message, the one whose transaction did not remove
+// it undoes only its own write; the worst case is a duplicate delivery.
+
+const maximumReceiveRaces = 10;
+
+interface IRedisQueueEnvelope {
+  identifier: string;
+  body: string;
+  customProperties: any;
+  enqueued: string;
+  deliveryCount: number;
+  receipt?: string;
+  deadLetterReason?: string;
+}
+
+export class RedisQueueProcessor implements IQueueProcessor {
+  private _redis: RedisHelper;
+
+  queueName: string;
+  visibilityTimeoutSeconds: number;
+  maxDeliveryCount: number;
+
+  constructor(options: IQueueProcessorOptions) {
+    if (!options.redis) {
+      throw new Error('RedisQueueProcessor: a redis helper is required');
+    }
+    this._redis = options.redis;
+    this.queueName = options.queue;
+    const { visibilityTimeoutSeconds, maxDeliveryCount } = getQueueTimeoutOptions(options);
+    this.visibilityTimeoutSeconds = visibilityTimeoutSeconds;
+    this.maxDeliveryCount = maxDeliveryCount;
+  }
+
+  get pendingKey() {
+    return `queue.${this.queueName}.pending`;
+  }
+
+  get inflightKey() {
+    return `queue.${this.queueName}.inflight`;
+  }
+
+  get deadLetterKey() {
+    return `queue.${this.queueName}.deadletter`;
+  }
+
+  async receiveMessage(): Promise<IQueueMessage> {
+    await this.restoreExpiredMessages();
+    for (let race = 0; race < maximumReceiveRaces; race++) {
+      const json = await this._redis.listIndexAsync(this.pendingKey, -1);
+      if (!json) {
+        return null;
+      }
+      const envelope = JSON.parse(json) as IRedisQueueEnvelope;
+      ++envelope.deliveryCount;
+      envelope.receipt = uuidV4();
+      const lockedUntil = new Date(Date.now() + this.visibilityTimeoutSeconds * 1000);
+      const member = JSON.stringify(envelope);
+      const [ removed ] = await this._redis.transactionAsync([
+        { command: 'lrem', key: this.pendingKey, args: [-1, json] },
+        { command: 'zadd', key: this.inflightKey, args: [lockedUntil.getTime(), member] },
+      ]);
+      if (!removed) {
+        // Another receiver took the message first
+        await this._redis.sortedSetRemoveAsync(this.inflightKey, member);
+        continue;
+      }
+      return {
+        identifier: envelope.identifier,
+        body: envelope.body,
+        customProperties: envelope.customProperties,
+        deliveryCount: envelope.deliveryCount,
+        enqueued: new Date(envelope.enqueued),
+        lockedUntil,
+        unparsedMessage: member,
+      };
+    }
+    return null;
+  }
+
+  async sendMessage(body: string, customProperties?: any): Promise<void> {
+    const envelope: IRedisQueueEnvelope = {
+      identifier: uuidV4(),
+      body,
+      customProperties: customProperties || {},
+      enqueued: new Date().toISOString(),
+      deliveryCount: 0,
+    };
+    await this._redis.listLeftPushAsync(this.pendingKey, JSON.stringify(envelope));
+  }
+
+  async ackMessage(message: IQueueMessage): Promise<void> {
+    await this._redis.sortedSetRemoveAsync(this.inflightKey, message.unparsedMessage);
+  }
+
+  async releaseMessage(message: IQueueMessage): Promise<void> {
+    await this.moveInflight(message.unparsedMessage, 'rpush', this.pendingKey, message.unparsedMessage);
+  }
+
+  async deadLetterMessage(message: IQueueMessage, reason: string): Promise<void> {
+    await this.moveInflight(message.unparsedMessage, 'lpush', this.deadLetterKey, createDeadLetter(message.unparsedMessage, reason));
+  }
+
+  async getDeadLetterCount(): Promise<number> {
+    return await this._redis.listLengthAsync(this.deadLetterKey);
+  }
+
+  private async restoreExpiredMessages(): Promise<void> {
+    const expired = await this._redis.sortedSetRangeByScoreAsync(this.inflightKey, '-inf', Date.now());
+    for (const member of expired || []) {
+      const envelope = JSON.parse(member) as IRedisQueueEnvelope;
+      if (envelope.deliveryCount >= this.maxDeliveryCount) {
+        await this.moveInflight(member, 'lpush', this.deadLetterKey, createDeadLetter(member, 'MaxDeliveryCountExceeded'));
+      } else {
+        await this.moveInflight(member, 'rpush', this.pendingKey, member);
+      }
+    }
+  }
+
+  private async moveInflight(member: string, pushCommand: string, listKey: string, value: string): Promise<boolean> {
+    const [ removed ] = await this._redis.transactionAsync([
+      { command: 'zrem', key: this.inflightKey, args: [member] },
+      { command: pushCommand, key: listKey, args: [value] },
+    ]);
+    if (!removed) {
+      // Another worker moved the message first; the values are identical, so one copy is removed
+      await this._redis.listRemoveAsync(listKey, 1, value);
+      return false;
+    }
+    return true;
+  }
+}
+
+function createDeadLetter(member: string, reason: string): string {
+  const envelope = JSON.parse(member) as IRedisQueueEnvelope;
+  envelope.deadLetterReason = reason;
+  return JSON.stringify(envelope);
+}
@@ -0,0 +1,106 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import { IQueueProcessor, IQueueProcessorOptions, IQueueMessage, getQueueTimeoutOptions } from '.';
+
+const serviceBus = require('azure-sb');
+
+const noMessagesToReceive = 'No messages to receive';
+
+// NOTE: this is still using the very old azure-sb library. With Service Bus,
+// the visibility timeout is the lock duration and the maximum delivery count
+// are properties of the queue itself, so the configured values are
+// informational; the broker dead-letters messages past its own maximum.
+
+export class ServiceBusQueueProcessor implements IQueueProcessor {
+  private _serviceBusService: any;
+  private _deadLetterQueue: string;
+
+  queueName: string;
+  visibilityTimeoutSeconds: number;
+  maxDeliveryCount: number;
+
+  constructor(options: IQueueProcessorOptions) {
+    const serviceBusConfig = options.serviceBus;
+    if (!serviceBusConfig || !serviceBusConfig.connectionString) {
+      throw new Error('ServiceBusQueueProcessor: connectionString required');
+    }
+    this.queueName = options.queue;
+    this._deadLetterQueue = serviceBusConfig.deadLetterQueue;
+    const { visibilityTimeoutSeconds, maxDeliveryCount } = getQueueTimeoutOptions(options);
+    this.visibilityTimeoutSeconds = visibilityTimeoutSeconds;
+    this.maxDeliveryCount = maxDeliveryCount;
+    this._serviceBusService = serviceBus.createServiceBusService(serviceBusConfig.connectionString);
+  }
+
+  receiveMessage(): Promise<IQueueMessage> {
+    return new Promise((resolve, reject) => {
+      this._serviceBusService.receiveQueueMessage(this.queueName, { isPeekLock: true }, (peekError, lockedMessage) => {
+        if (peekError === noMessagesToReceive) {
+          return resolve(null);
+        } else if (peekError) {
+          return reject(peekError instanceof Error ? peekError : new Error(peekError));
+        }
+        if (!lockedMessage) {
+          return resolve(null);
+        }
+        const brokerProperties = lockedMessage.brokerProperties || {};
+        return resolve({
+          identifier: brokerProperties.MessageId,
+          body: lockedMessage.body,
+          customProperties: lockedMessage.customProperties,
+          deliveryCount: parseInt(brokerProperties.DeliveryCount, 10) || 1,
+          enqueued: brokerProperties.EnqueuedTimeUtc ? new Date(brokerProperties.EnqueuedTimeUtc) : null,
+          lockedUntil: brokerProperties.LockedUntilUtc ? new Date(brokerProperties.LockedUntilUtc) : null,
+          unparsedMessage: lockedMessage,
+        });
+      });
+    });
+  }
+
+  sendMessage(body: string, customProperties?: any): Promise<void> {
+    return this.send(this.queueName, body, customProperties);
+  }
+
+  ackMessage(message: IQueueMessage): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this._serviceBusService.deleteMessage(message.unparsedMessage, error => {
+        return error ? reject(error) : resolve();
+      });
+    });
+  }
+
+  releaseMessage(message: IQueueMessage): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this._serviceBusService.unlockMessage(message.unparsedMessage, error => {
+        return error ? reject(error) : resolve();
+      });
+    });
+  }
+
+  async deadLetterMessage(message: IQueueMessage, reason: string): Promise<void> {
+    if (!this._deadLetterQueue) {
+      // The old library cannot dead-letter explicitly; releasing the message
+      // lets the broker dead-letter it once its delivery count is exhausted.
+      return this.releaseMessage(message);
+    }
+    const customProperties = Object.assign({}, message.customProperties, {
+      deadLetterReason: reason,
+      originalMessageId: message.identifier,
+    });
+    await this.send(this._deadLetterQueue, message.body, customProperties);
+    await this.ackMessage(message);
+  }
+
+  private send(queue: string, body: string, customProperties: any): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this._serviceBusService.sendQueueMessage(queue, { body, customProperties }, error => {
+        return error ? reject(error) : resolve();
+      });
+    });
+  }
+}
@@ -43,6 +43,12 @@ function objectToJson(object, callback) {
   callback(error, json);
 }
 
+export interface IRedisTransactionCommand {
+  command: string; // a redis client method, such as 'lrem' or 'zadd'
+  key: string; // without the prefix
+  args?: any[];
+}
+
 export class RedisHelper {
   private redis: redis.RedisClient;
   private prefix: string;
@@ -162,6 +168,17 @@ export class RedisHelper {
     return this.setCompressed(key, value, options, callback);
   }
 
+  setIfNotExistsWithExpire(key: string, value, minutesToExpire, callback) {
+    if (!minutesToExpire) {
+      return callback(new Error('No minutes to expiration provided.'));
+    }
+    const k = this.prefix + key;
+    debug('SET ' + k + ' NX EX ' + minutesToExpire + 'm');
+    this.redis.set(k, value, 'EX', minutesToExpire * 60, 'NX', (error, result) => {
+      return error ? callback(error) : callback(null, result === 'OK');
+    });
+  }
+
   expire(key: string, minutesToExpire, callback) {
     if (!minutesToExpire) {
       return callback(new Error('No minutes to expiration provided.'));
@@ -171,6 +188,81 @@ export class RedisHelper {
     this.redis.expire(k, minutesToExpire * 60, callback);
   }
 
+  increment(key: string, minutesToExpire: number, callback: (error: Error, value?: number) => void) {
+    const k = this.prefix + key;
+    debug('INCR ' + k);
+    this.redis.incr(k, (error, value) => {
+      if (error) {
+        return callback(error);
+      }
+      // The expiration is set by the first increment of the window
+      if (value !== 1 || !minutesToExpire) {
+        return callback(null, value);
+      }
+      this.redis.expire(k, minutesToExpire * 60, expireError => {
+        return callback(expireError, expireError ? undefined : value);
+      });
+    });
+  }
+
+  // List and sorted set helpers, used by the Redis queue transport
+
+  listLeftPush(key: string, value, callback) {
+    const k = this.prefix + key;
+    debug('LPUSH ' + k);
+    this.redis.lpush(k, value, callback);
+  }
+
+  listRightPush(key: string, value, callback) {
+    const k = this.prefix + key;
+    debug('RPUSH ' + k);
+    this.redis.rpush(k, value, callback);
+  }
+
+  listRemove(key: string, count: number, value, callback) {
+    const k = this.prefix + key;
+    debug('LREM ' + k);
+    this.redis.lrem(k, count, value, callback);
+  }
+
+  listLength(key: string, callback) {
+    const k = this.prefix + key;
+    this.redis.llen(k, callback);
+  }
+
+  sortedSetAdd(key: string, score: number, member, callback) {
+    const k = this.prefix + key;
+    debug('ZADD ' + k);
+    this.redis.zadd(k, score, member, callback);
+  }
+
+  sortedSetRemove(key: string, member, callback) {
+    const k = this.prefix + key;
+    debug('ZREM ' + k);
+    this.redis.zrem(k, member, callback);
+  }
+
+  sortedSetRangeByScore(key: string, minimumScore: number | string, maximumScore: number | string, callback) {
+    const k = this.prefix + key;
+    this.redis.zrangebyscore(k, minimumScore, maximumScore, callback);
+  }
+
+  listIndex(key: string, index: number, callback) {
+    const k = this.prefix + key;
+    this.redis.lindex(k, index, callback);
+  }
+
+  transaction(commands: IRedisTransactionCommand[], callback) {
+    // MULTI/EXEC: the commands run together, or not at all
+    const multi = this.redis.multi();
+    for (const { command, key, args } of commands) {
+      const k = this.prefix + key;
+      debug('MULTI ' + command.toUpperCase() + ' ' + k);
+      multi[command](k, ...(args || []));
+    }
+    multi.exec(callback);
+  }
+
   // Helper versions for object/json conversions
 
   getObject(key: string, callback) {
@@ -264,11 +356,55 @@ export class RedisHelper {
     return Q.ninvoke(this, 'setWithExpire', key, value, minutesToExpire);
   }
 
+  setIfNotExistsWithExpireAsync(key: string, value, minutesToExpire): Q.Promise<boolean> {
+    return Q.ninvoke<boolean>(this, 'setIfNotExistsWithExpire', key, value, minutesToExpire);
+  }
+
   expireAsync(key: string, minutesToExpire) {
     return Q.ninvoke(this, 'expire', key, minutesToExpire);
   }
 
+  incrementAsync(key: string, minutesToExpire?: number): Q.Promise<number> {
+    return Q.ninvoke<number>(this, 'increment', key, minutesToExpire);
+  }
+
   deleteAsync(key: string) {
     return Q.ninvoke(this, 'delete', key);
   }
+
+  listLeftPushAsync(key: string, value): Q.Promise<number> {
+    return Q.ninvoke<number>(this, 'listLeftPush', key, value);
+  }
+
+  listRightPushAsync(key: string, value): Q.Promise<number> {
+    return Q.ninvoke<number>(this, 'listRightPush', key, value);
+  }
+
+  listRemoveAsync(key: string, count: number, value): Q.Promise<number> {
+    return Q.ninvoke<number>(this, 'listRemove', key, count, value);
+  }
+
+  listLengthAsync(key: string): Q.Promise<number> {
+    return Q.ninvoke<number>(this, 'listLength', key);
+  }
+
+  sortedSetAddAsync(key: string, score: number, member): Q.Promise<number> {
+    return Q.ninvoke<number>(this, 'sortedSetAdd', key, score, member);
+  }
+
+  sortedSetRemoveAsync(key: string, member): Q.Promise<number> {
+    return Q.ninvoke<number>(this, 'sortedSetRemove', key, member);
+  }
+
+  sortedSetRangeByScoreAsync(key: string, minimumScore: number | string, maximumScore: number | string): Q.Promise<string[]> {
+    return Q.ninvoke<string[]>(this, 'sortedSetRangeByScore', key, minimumScore, maximumScore);
+  }
+
+  listIndexAsync(key: string, index: number): Q.Promise<string> {
+    return Q.ninvoke<string>(this, 'listIndex', key, index);
+  }
+
+  transactionAsync(commands: IRedisTransactionCommand[]): Q.Promise<any[]> {
+    return Q.ninvoke<any[]>(this, 'transaction', commands);
+  }
 }
@@ -12,11 +12,11 @@
 // while validating the key.
 
 const basicAuth = require('basic-auth');
-import crypto from 'crypto';
-
 import { jsonError } from './jsonError';
 import { IProviders, ReposAppRequest } from '../transitional';
 import { PersonalAccessToken } from '../entities/token/token';
+import { ITokenProvider } from '../entities/token';
+import { GetTokenHashingKey, TokenGenerator } from '../entities/token/tokenGenerator';
 
 export interface IApiRequest extends ReposAppRequest {
   apiKeyToken: PersonalAccessToken;
@@ -26,6 +26,25 @@ export interface IApiRequest extends ReposAppRequest {
   userContextOverwriteRequest?: any; // refactor?
 }
 
+const apiRateLimitRedisKeyPrefix = 'apiRateLimit';
+const apiUsageRedisKeyPrefix = 'apiKeyUsage';
+
+const defaultRateLimitWindowMinutes = 60;
+const defaultUsageUpdateIntervalMinutes = 15;
+
+function getTokenConfiguration(req: IApiRequest) {
+  const config = req.app.settings.runtimeConfig;
+  return config && config.api && config.api.tokens ? config.api.tokens : {};
+}
+
+export function GetApiScopeRateLimit(tokenConfiguration: any, scope: string): number {
+  const rateLimits = tokenConfiguration ? tokenConfiguration.rateLimits : null;
+  if (!rateLimits) {
+    return null;
+  }
+  return rateLimits[scope] || rateLimits.default || null;
+}
+
 export function ReposApiAuthentiction(req: IApiRequest, res, next) {
   const user = basicAuth(req);
   const key = user? (user.pass || user.name) : null;
@@ -33,22 +52,18 @@ export function ReposApiAuthentiction(req: IApiRequest, res, next) {
     return next(jsonError('No key supplied', 400));
   }
 
-  const sha1 = crypto.createHash('sha1');
-  sha1.update(key);
-  const hashValue = sha1.digest('hex');
-
   const providers = req.app.settings.providers as IProviders;
-  const tokenProvider = providers.tokenProvider;
 
   const apiEventProperties = {
-    keyHash: hashValue,
+    keyHash: undefined,
     apiVersion: req.apiVersion,
     url: req.originalUrl || req.url,
     failed: undefined,
     message: undefined,
     statusCode: undefined,
+    migrated: undefined,
   };
-  tokenProvider.getToken(hashValue).then((token: PersonalAccessToken) => {
+  lookupToken(providers, key, apiEventProperties).then((token: PersonalAccessToken) => {
     return after(null, token);
   }).catch(error => {
     return after(error, null);
@@ -82,6 +97,132 @@ export function ReposApiAuthentiction(req: IApiRequest, res, next) {
     req.insights.trackMetric({ name: 'ApiRequest', value: 1 });
     req.apiKeyToken = token;
     req.apiKeyProviderName = 'repos';
+    const usageUpdateIntervalMinutes = getTokenConfiguration(req).usageUpdateIntervalMinutes || defaultUsageUpdateIntervalMinutes;
+    RecordTokenUsage(providers, token, usageUpdateIntervalMinutes).catch(usageError => {
+      req.insights.trackException({ exception: usageError, properties: { name: 'ApiKeyUsageFailure' } });
+    });
     return next();
   }
 }
+
+async function lookupToken(providers: IProviders, key: string, apiEventProperties: any): Promise<PersonalAccessToken> {
+  const tokenProvider = providers.tokenProvider;
+  const hashingKey = await GetTokenHashingKey(providers);
+  if (hashingKey) {
+    const keyHash = TokenGenerator.Hash(key, hashingKey);
+    apiEventProperties.keyHash = keyHash;
+    const token = await getTokenIfExists(tokenProvider, keyHash);
+    if (token) {
+      return token;
+    }
+  }
+  // Keys issued before keyed hashing are stored by their SHA-1 hash; on
+  // first use they are re-stored under the keyed hash and the SHA-1 entry
+  // is removed.
+  const legacyHash = TokenGenerator.LegacyHash(key);
+  const legacyToken = TokenGenerator.IsPrefixedKey(key) ? null : await getTokenIfExists(tokenProvider, legacyHash);
+  if (!legacyToken) {
+    const notFound = new Error('Key not found');
+    notFound['statusCode'] = 404;
+    throw notFound;
+  }
+  if (!hashingKey) {
+    apiEventProperties.keyHash = legacyHash;
+    return legacyToken;
+  }
+  const token = PersonalAccessToken.CreateRehashedToken(legacyToken, apiEventProperties.keyHash);
+  await tokenProvider.saveNewToken(token);
+  await tokenProvider.deleteToken(legacyToken);
+  apiEventProperties.migrated = true;
+  return token;
+}
+
+async function getTokenIfExists(tokenProvider: ITokenProvider, keyHash: string): Promise<PersonalAccessToken> {
+  try {
+    return await tokenProvider.getToken(keyHash);
+  } catch (error) {
+    if (error.statusCode === 404 || error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function RecordTokenUsage(providers: IProviders, token: PersonalAccessToken, usageUpdateIntervalMinutes: number): Promise<void> {
+  // Requests are counted in Redis and written to the token entity at most
+  // once per interval, so that the token store is not written on every call.
+  // Counts are approximate: a request between the read and the reset of the
+  // counter is not recorded.
+  const redis = providers.redis;
+  const usageKey = `${apiUsageRedisKeyPrefix}:${token.token}`;
+  const requests = redis ? await redis.incrementAsync(usageKey) : 1;
+  const now = new Date();
+  if (token.lastUsed && now.getTime() - token.lastUsed.getTime() < usageUpdateIntervalMinutes * 60 * 1000) {
+    return;
+  }
+  if (redis) {
+    await redis.deleteAsync(usageKey);
+  }
+  token.lastUsed = now;
+  token.usageCount = (token.usageCount || 0) + requests;
+  await providers.tokenProvider.updateToken(token);
+}
+
+export function ApiScopeRateLimit(scope: string) {
+  return function (req: IApiRequest, res, next) {
+    const token = req.apiKeyToken;
+    const providers = req.app.settings.providers as IProviders;
+    const tokenConfiguration = getTokenConfiguration(req);
+    const limit = GetApiScopeRateLimit(tokenConfiguration, scope);
+    // Azure DevOps tokens are not keys of this app and are not limited here
+    if (!token || !token.token || !providers.redis || !limit) {
+      return next();
+    }
+    const windowMinutes = tokenConfiguration.rateLimitWindowMinutes || defaultRateLimitWindowMinutes;
+    const windowMs = windowMinutes * 60 * 1000;
+    const window = Math.floor(Date.now() / windowMs);
+    const resetSeconds = Math.ceil(((window + 1) * windowMs) / 1000);
+    const key = `${apiRateLimitRedisKeyPrefix}:${token.token}:${scope}:${window}`;
+    providers.redis.incrementAsync(key, windowMinutes).then(requests => {
+      res.set('X-RateLimit-Limit', limit.toString());
+      res.set('X-RateLimit-Remaining', Math.max(limit - requests, 0).toString());
+      res.set('X-RateLimit-Reset', resetSeconds.toString());
+      if (requests > limit) {
+        req.insights.trackEvent({
+          name: 'ApiRateLimitExceeded',
+          properties: {
+            keyHash: token.token,
+            corporateId: token.corporateId,
+            scope,
+            requests: requests.toString(),
+            limit: limit.toString(),
+          },
+        });
+        req.insights.trackMetric({ name: 'ApiRateLimitExceeded', value: 1 });
+        res.set('Retry-After', Math.max(resetSeconds - Math.floor(Date.now() / 1000), 1).toString());
+        const rateLimitError = jsonError(`The key has exceeded its rate limit of ${limit} requests for the ${scope} API`, 429);
+        rateLimitError['skipLog'] = true;
+        return next(rateLimitError);
+      }
+      return next();
+    }).catch(redisError => {
+      // A Redis outage should not take the API down with it
+      req.insights.trackException({ exception: redisError, properties: { name: 'ApiRateLimitFailure' } });
+      return next();
+    });
+  };
+}
+
+export function RequireApiScope(scope: string, apiDescription: string) {
+  const rateLimit = ApiScopeRateLimit(scope);
+  return function (req: IApiRequest, res, next) {
+    const token = req.apiKeyToken;
+    if (!token || !token.scopes) {
+      return next(jsonError('The key is not authorized for specific APIs', 401));
+    }
+    if (!token.hasScope(scope)) {
+      return next(jsonError(`The key is not authorized to use the ${apiDescription} API`, 401));
+    }
+    return rateLimit(req, res, next);
+  };
+}
@@ -47,7 +47,12 @@ import { CreateRepositoryTeamCacheProviderInstance } from '../entities/repositor
 import { CreateOrganizationMemberCacheProviderInstance } from '../entities/organizationMemberCache';
 import QueryCache from '../business/queryCache';
 import { createAndInitializeOrganizationSettingProviderInstance } from '../entities/organizationSettings';
+import { CreateWebhookDeliveryProviderInstance } from '../entities/webhookDelivery';
+import { CreateRepositoryWorkflowRunProviderInstance } from '../entities/repositoryWorkflowRun';
+import { CreateAuditLogRecordProviderInstance } from '../entities/auditLogRecord';
+import { CreateTeamDirectoryGroupProviderInstance } from '../entities/teamDirectoryGroup';
 import { IEntityMetadataProvider } from '../lib/entityMetadataProvider/entityMetadataProvider';
+import { CreateFirehoseQueueProcessorInstance } from '../lib/queues';
 
 async function initialize(app: Application, express, rootdir: string, config, earlyInitError: any): Promise<void> {
   const providers = app.get('providers') as IProviders;
@@ -119,7 +124,15 @@ async function initialize(app: Application, express, rootdir: string, config, ea
   providers.repositoryTeamCacheProvider = await CreateRepositoryTeamCacheProviderInstance({ entityMetadataProvider: providerNameToInstance(config.entityProviders.repositoryteamcache) });
   providers.teamCacheProvider = await CreateTeamCacheProviderInstance({ entityMetadataProvider: providerNameToInstance(config.entityProviders.teamcache) });
   providers.teamMemberCacheProvider = await CreateTeamMemberCacheProviderInstance({ entityMetadataProvider: providerNameToInstance(config.entityProviders.teammembercache) });
+  providers.webhookDeliveryProvider = await CreateWebhookDeliveryProviderInstance({ entityMetadataProvider: providerNameToInstance(config.entityProviders.webhookdeliveries) });
+  providers.repositoryWorkflowRunProvider = await CreateRepositoryWorkflowRunProviderInstance({ entityMetadataProvider: providerNameToInstance(config.entityProviders.repositoryworkflowruns) });
+  providers.auditLogRecordProvider = await CreateAuditLogRecordProviderInstance({ entityMetadataProvider: providerNameToInstance(config.entityProviders.auditlogrecords) });
+  providers.teamDirectoryGroupProvider = await CreateTeamDirectoryGroupProviderInstance({ entityMetadataProvider: providerNameToInstance(config.entityProviders.teamdirectorygroups) });
   providers.queryCache = new QueryCache(providers);
+  const firehoseConfig = config.webJob ? config.webJob.firehose : null;
+  if (firehoseConfig && firehoseConfig.queue && firehoseConfig.queue.enqueueWebhooks) {
+    providers.webhookQueueProcessor = CreateFirehoseQueueProcessorInstance(firehoseConfig, providers.redis);
+  }
   try {
     if (!earlyInitError) {
       const operations = await (new Operations(providers)).initialize();
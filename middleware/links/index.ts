@@ -8,6 +8,7 @@
 // Within the context, tries to resolve a link if it _can_. It does not force that a user is linked!
 
 import { ILinkProvider } from "../../lib/linkProviders/postgres/postgresLinkProvider";
+import { ICorporateLink } from "../../business/corporateLink";
 
 import { IndividualContext, IIndividualContextOptions, GitHubIdentitySource } from '../../user';
 import { ReposAppRequest, IReposError } from "../../transitional";
@@ -45,7 +46,7 @@ export function RequireLinkMatchesGitHubSession(req: ReposAppRequest, res, next)
   return next(securityError);
 }
 
-export function addLinkToRequest(req, res, next) {
+export async function addLinkToRequest(req, res, next) {
   // TODO: BEFORE MERGE TO PROD:
   // Link cleanup logic and routes which may or may not be important
   // Important: link cleanup needs, if any
@@ -90,23 +91,24 @@ export function addLinkToRequest(req, res, next) {
   if (!linkProvider) {
     return next(new Error('No link provider'));
   }
-  linkProvider.queryByCorporateId(corporateId, (error, links) => {
-    if (error) {
-      return next(error);
-    }
-    if (links.length === 0) {
-      return next();
-    }
-    if (links.length > 1) {
-      // TODO: are multiple links selected through a session or web context setting, or ?
-      return next(new Error('Multiple links are not currently implemented or supported'));
-    }
-
-    const selectedLink = links[0];
-    activeContext.link = selectedLink;
-
+  let links: ICorporateLink[] = null;
+  try {
+    links = await linkProvider.queryByCorporateId(corporateId);
+  } catch (error) {
+    return next(error);
+  }
+  if (links.length === 0) {
     return next();
-  });
+  }
+  if (links.length > 1) {
+    // TODO: are multiple links selected through a session or web context setting, or ?
+    return next(new Error('Multiple links are not currently implemented or supported'));
+  }
+
+  const selectedLink = links[0];
+  activeContext.link = selectedLink;
+
+  return next();
 
   // const user = req.legacyUserContext.modernUser();
   // if (!user) {
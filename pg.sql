@@ -84,6 +84,38 @@ CREATE TABLE IF NOT EXISTS repositoryteamcache (
 );
 CREATE INDEX repositoryteamcache_gin ON repositoryteamcache USING gin (metadata jsonb_path_ops);
 
+CREATE TABLE IF NOT EXISTS webhookdeliveries (
+  entitytype text,
+  entityid text,
+  metadata jsonb,
+  PRIMARY KEY(entitytype, entityid)
+);
+CREATE INDEX webhookdeliveries_outcome ON webhookdeliveries ((metadata->>'outcome'));
+CREATE INDEX webhookdeliveries_gin ON webhookdeliveries USING gin (metadata jsonb_path_ops);
+
+CREATE TABLE IF NOT EXISTS auditlog (
+  entitytype text,
+  entityid text,
+  metadata jsonb,
+  PRIMARY KEY(entitytype, entityid)
+);
+CREATE INDEX auditlog_created ON auditlog ((metadata->>'created'));
+CREATE INDEX auditlog_gin ON auditlog USING gin (metadata jsonb_path_ops);
+
+CREATE TABLE IF NOT EXISTS repositoryworkflowruns (
+  entitytype text,
+  entityid text,
+  metadata jsonb,
+  PRIMARY KEY(entitytype, entityid)
+);
+
+CREATE TABLE IF NOT EXISTS teamdirectorygroups (
+  entitytype text,
+  entityid text,
+  metadata jsonb,
+  PRIMARY KEY(entitytype, entityid)
+);
+
 CREATE TABLE IF NOT EXISTS links (
 	linkid text,
 	thirdpartytype text NOT NULL,
@@ -112,4 +144,24 @@ CREATE INDEX corporate_lowercase_thirdparty_username ON links (thirdpartytype, l
 CREATE INDEX corporate_id ON links (corporateid);
 CREATE INDEX corporate_lowercase_username ON links (lower(corporateusername));
 
+-- Append-only: the application only inserts into the link history
+CREATE TABLE IF NOT EXISTS linkshistory (
+  historyid text PRIMARY KEY,
+  thirdpartytype text NOT NULL,
+  linkid text,
+  action text NOT NULL,
+  thirdpartyid text,
+  corporateid text,
+  previousvalues jsonb,
+  currentvalues jsonb,
+  actorcorporateid text,
+  actorusername text,
+  purpose text,
+  reason text,
+  created timestamp without time zone
+);
+
+CREATE INDEX linkshistory_thirdparty_id ON linkshistory (thirdpartytype, thirdpartyid);
+CREATE INDEX linkshistory_corporate_id ON linkshistory (thirdpartytype, corporateid);
+
 COMMIT;
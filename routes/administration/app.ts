@@ -6,6 +6,7 @@
 'use strict';
 
 import express from 'express';
+import _ from 'lodash';
 import asyncHandler from 'express-async-handler';
 const router = express.Router();
 
@@ -15,6 +16,7 @@ import GitHubApplication, { IGitHubAppInstallation } from '../../business/applic
 import { OrganizationSetting, IBasicGitHubAppInstallation, SpecialTeam } from '../../entities/organizationSettings/organizationSetting';
 import { IndividualContext } from '../../user';
 import { Operations } from '../../business/operations';
+import { ParseOrganizationRepositoryTemplates } from '../../features/repositoryTemplates';
 
 router.use('/:appId', asyncHandler(async function (req, res, next) {
   const providers = req.app.settings.providers as IProviders;
@@ -151,8 +153,10 @@ router.post('/:appId/installations/:installationId', asyncHandler(async function
   const deactivate = req.body['deactivate'];
   const removeConfiguration = req.body['remove-configuration'];
   const addConfiguration = req.body['configure'];
+  const updateLockdownBots = req.body['update-lockdown-bots'];
+  const updateTemplates = req.body['update-templates'];
   let isCreatingNew = hasImportButtonClicked || hasCreateButtonClicked;
-  if (!hasImportButtonClicked && !forceDeleteConfig && !hasCreateButtonClicked && !activate && !deactivate && !removeConfiguration && !addConfiguration) {
+  if (!hasImportButtonClicked && !forceDeleteConfig && !hasCreateButtonClicked && !activate && !deactivate && !removeConfiguration && !addConfiguration && !updateLockdownBots && !updateTemplates) {
     return next(new Error('No supported POST parameters present'));
   }
   const providers = req.app.settings.providers as IProviders;
@@ -202,6 +206,19 @@ router.post('/:appId/installations/:installationId', asyncHandler(async function
       ds.installations = ds.installations.filter(install => install.installationId !== installation.id);
       goUpdate = true;
     }
+    if (updateLockdownBots) {
+      const permittedBots = ((req.body['lockdown-bots'] || '') as string).split(/[\s,]+/).map(bot => bot.trim()).filter(bot => bot);
+      ds.properties['newRepositoryLockdownPermittedBots'] = _.uniq(permittedBots);
+      goUpdate = true;
+    }
+    if (updateTemplates) {
+      try {
+        ds.templates = ParseOrganizationRepositoryTemplates(req.body['templates'] || '[]', organizationName);
+      } catch (parseError) {
+        return next(new Error(`The repository templates were not saved: ${parseError.message}`));
+      }
+      goUpdate = true;
+    }
     if (goUpdate) {
       dynamicSettings.updated = new Date();
       await organizationSettingsProvider.updateOrganizationSetting(dynamicSettings);
@@ -0,0 +1,96 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import express from 'express';
+import asyncHandler from 'express-async-handler';
+const router = express.Router();
+
+import { IProviders, ReposAppRequest } from '../../transitional';
+import { WebhookDeliveryOutcome, WebhookDeliveryEntity } from '../../entities/webhookDelivery/webhookDelivery';
+import { ReplayWebhookDelivery } from '../../webhooks/organizationProcessor';
+
+router.use(function (req: ReposAppRequest, res, next) {
+  const providers = req.app.settings.providers as IProviders;
+  if (!providers.webhookDeliveryProvider) {
+    return next(new Error('No webhook delivery provider is configured for this environment'));
+  }
+  return next();
+});
+
+router.get('/', asyncHandler(async function (req: ReposAppRequest, res, next) {
+  const providers = req.app.settings.providers as IProviders;
+  const individualContext = req.individualContext;
+  const showAll = req.query.outcome === 'all';
+  const deliveries = showAll ?
+    await providers.webhookDeliveryProvider.queryAllDeliveries() :
+    await providers.webhookDeliveryProvider.queryDeliveriesByOutcome(WebhookDeliveryOutcome.Failed);
+  deliveries.sort(sortByMostRecentlyReceived);
+  individualContext.webContext.render({
+    view: 'administration/webhooks/deliveries',
+    title: 'Webhook deliveries',
+    state: {
+      deliveries,
+      showAll,
+    },
+  });
+}));
+
+router.post('/', asyncHandler(async function (req: ReposAppRequest, res, next) {
+  const providers = req.app.settings.providers as IProviders;
+  if (!req.body['replay-all-failed']) {
+    return next(new Error('No supported POST parameters present'));
+  }
+  const failed = await providers.webhookDeliveryProvider.queryDeliveriesByOutcome(WebhookDeliveryOutcome.Failed);
+  let stillFailing = 0;
+  for (const delivery of failed) {
+    try {
+      const replayed = await ReplayWebhookDelivery(providers.operations, delivery.deliveryId);
+      if (replayed.outcome === WebhookDeliveryOutcome.Failed) {
+        ++stillFailing;
+      }
+    } catch (replayError) {
+      ++stillFailing;
+    }
+  }
+  req.individualContext.webContext.saveUserAlert(`${failed.length - stillFailing} of ${failed.length} failed deliveries were replayed successfully.`, 'Webhook replay', stillFailing ? 'warning' : 'success');
+  return res.redirect('/administration/webhooks');
+}));
+
+router.get('/:deliveryId', asyncHandler(async function (req: ReposAppRequest, res, next) {
+  const providers = req.app.settings.providers as IProviders;
+  const individualContext = req.individualContext;
+  const delivery = await providers.webhookDeliveryProvider.getDelivery(req.params.deliveryId);
+  individualContext.webContext.render({
+    view: 'administration/webhooks/delivery',
+    title: `Webhook delivery ${delivery.deliveryId}`,
+    state: {
+      delivery,
+    },
+  });
+}));
+
+router.post('/:deliveryId', asyncHandler(async function (req: ReposAppRequest, res, next) {
+  const providers = req.app.settings.providers as IProviders;
+  const deliveryId = req.params.deliveryId;
+  const replayAll = req.body['replay-all'];
+  const replayTask = req.body['replay-task'];
+  if (!replayAll && !replayTask) {
+    return next(new Error('No supported POST parameters present'));
+  }
+  const delivery = await ReplayWebhookDelivery(providers.operations, deliveryId, replayAll ? undefined : replayTask);
+  const failed = delivery.outcome === WebhookDeliveryOutcome.Failed;
+  req.individualContext.webContext.saveUserAlert(failed ? `The replay failed: ${delivery.error}` : 'The delivery was replayed successfully.', 'Webhook replay', failed ? 'danger' : 'success');
+  return res.redirect(`/administration/webhooks/${deliveryId}`);
+}));
+
+function sortByMostRecentlyReceived(a: WebhookDeliveryEntity, b: WebhookDeliveryEntity) {
+  const ar = a.received ? new Date(a.received).getTime() : 0;
+  const br = b.received ? new Date(b.received).getTime() : 0;
+  return br - ar;
+}
+
+module.exports = router;
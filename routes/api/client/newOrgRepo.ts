@@ -13,11 +13,12 @@ import { ReposAppRequest, IProviders } from '../../../transitional';
 import { jsonError } from '../../../middleware/jsonError';
 import { IndividualContext } from '../../../user';
 import { Organization, ICreateRepositoryResult } from '../../../business/organization';
-import { CreateRepository, ICreateRepositoryApiResult } from '../createRepo';
+import { CreateRepository, ICreateRepositoryApiResult, IsDryRunRequested } from '../createRepo';
 import { Team, GitHubTeamRole } from '../../../business/team';
 import { GetAddressFromUpnAsync } from '../../../lib/mailAddressProvider';
 import { Operations } from '../../../business/operations';
 import { asNumber } from '../../../utils';
+import { FindApprovalType, GetOrganizationRepositoryCreatePolicy, GetRepositoryCreateFieldName, RepositoryCreateField } from '../../../features/repositoryCreatePolicy';
 
 const router = express.Router();
 
@@ -167,37 +168,48 @@ router.post('/repo/:repo', asyncHandler(discoverUserIdentities), asyncHandler(as
     return next(jsonError('No body', 400));
   }
   req.apiVersion = req.query['api-version'] || req.headers['api-version'] || '2017-07-27';
+  const policy = GetOrganizationRepositoryCreatePolicy(organization);
+  const field = (name: RepositoryCreateField) => GetRepositoryCreateFieldName(policy, name);
   if (req.apiContext && req.apiContext.getGitHubIdentity()) {
-    body['ms.onBehalfOf'] = req.apiContext.getGitHubIdentity().username;
+    body[field(RepositoryCreateField.OnBehalfOf)] = req.apiContext.getGitHubIdentity().username;
   }
   // these fields do not need translation: name, description, private
-  const approvalTypesToIds = config.github.approvalTypes.fields.approvalTypesToIds;
-  if (!approvalTypesToIds[body.approvalType]) {
-    return next(jsonError('The approval type is not supported or approved at this time', 400));
+  if (policy.approvalTypes.length) {
+    // The wizard sends the approval type title; environments with approval
+    // fields configuration map titles to identifiers
+    const approvalFields = config.github.approvalTypes ? config.github.approvalTypes.fields : null;
+    const approvalTypesToIds = approvalFields && approvalFields.approvalTypesToIds ? approvalFields.approvalTypesToIds : {};
+    const approvalType = FindApprovalType(policy, approvalTypesToIds[body.approvalType] || body.approvalType);
+    if (!approvalType) {
+      return next(jsonError('The approval type is not supported or approved at this time', 400));
+    }
+    body.approvalType = approvalType.id;
   }
-  body.approvalType = approvalTypesToIds[body.approvalType];
-  translateValue(body, 'approvalType', 'ms.approval');
-  translateValue(body, 'approvalUrl', 'ms.approval-url');
-  translateValue(body, 'justification', 'ms.justification');
-  translateValue(body, 'legalEntity', 'ms.entity');
-  translateValue(body, 'projectType', 'ms.project-type');
+  translateValue(body, 'approvalType', field(RepositoryCreateField.ApprovalType));
+  translateValue(body, 'approvalUrl', field(RepositoryCreateField.ApprovalUrl));
+  translateValue(body, 'justification', field(RepositoryCreateField.Justification));
+  translateValue(body, 'legalEntity', field(RepositoryCreateField.LegalEntity));
+  translateValue(body, 'projectType', field(RepositoryCreateField.ProjectType));
   // Team permissions
   if (!body.selectedAdminTeams || !body.selectedAdminTeams.length) {
     return next(jsonError('No administration team(s) provided in the request', 400));
   }
-  translateTeams(body);
+  translateTeams(body, field(RepositoryCreateField.Teams));
   // Initial repo contents and license
   const templates = _.keyBy(organization.getRepositoryCreateMetadata().templates, 'id');
   const template = templates[body.template];
   if (!template) {
     return next(jsonError('There was a configuration problem, the template metadata was not available for this request', 400));
   }
-  translateValue(body, 'template', 'ms.template');
-  body['ms.license'] = template.spdx || template.name; // Today this is the "template name" or SPDX if available
+  translateValue(body, 'template', field(RepositoryCreateField.Template));
+  body[field(RepositoryCreateField.License)] = template.spdx || template.name; // Today this is the "template name" or SPDX if available
   translateValue(body, 'gitIgnoreTemplate', 'gitignore_template');
-  if (!body['ms.notify']) {
-    body['ms.notify'] = req.knownRequesterMailAddress || config.brand.operationsMail || config.brand.supportMail;
+  if (!body[field(RepositoryCreateField.Notify)]) {
+    body[field(RepositoryCreateField.Notify)] = req.knownRequesterMailAddress || config.brand.operationsMail || config.brand.supportMail;
   }
+  // Preview the plan without calling GitHub
+  const dryRun = IsDryRunRequested(req.query.dryRun, body.dryRun);
+  delete body.dryRun;
   // these fields are currently ignored: orgName
   delete body.orgName;
   delete body.claEntity; // a legacy value
@@ -209,7 +221,7 @@ router.post('/repo/:repo', asyncHandler(discoverUserIdentities), asyncHandler(as
   });
   let success: ICreateRepositoryApiResult = null;
   try {
-    success = await CreateRepository(req, body);
+    success = await CreateRepository(req, body, { dryRun });
   } catch (createRepositoryError) {
     req.app.settings.providers.insights.trackEvent({
       name: 'ApiClientNewOrgRepoError',
@@ -223,6 +235,13 @@ router.post('/repo/:repo', asyncHandler(discoverUserIdentities), asyncHandler(as
     }
     return next(createRepositoryError);
   }
+  if (success.dryRun) {
+    return res.json({
+      ...success,
+      title: 'Repository preview',
+      message: `No changes have been made. The ${success.name} repo would be created as planned.`,
+    });
+  }
   const output = {
     ...success,
     title: 'Repository created',
@@ -245,7 +264,7 @@ router.post('/repo/:repo', asyncHandler(discoverUserIdentities), asyncHandler(as
   return res.json(output);
 }));
 
-function translateTeams(body) {
+function translateTeams(body, teamsFieldName: string) {
   let admin = body.selectedAdminTeams;
   let write = body.selectedWriteTeams;
   let read = body.selectedReadTeams;
@@ -255,7 +274,7 @@ function translateTeams(body) {
   _.pullAll(read, admin);
   _.pullAll(read, write);
 
-  body['ms.teams'] = {
+  body[teamsFieldName] = {
     admin: admin,
     push: write,
     pull: read,
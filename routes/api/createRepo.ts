@@ -5,41 +5,50 @@
 
 'use strict';
 
-// NOTE: this file at this time is Microsoft-specific and needs to be updated
-// and refactored to be useful by others. There are values stored in
-// configuration that can be used instead of the hardcoded values within.
-
 import _ from 'lodash';
 import { jsonError } from '../../middleware/jsonError';
 import { IProviders } from '../../transitional';
 import { ICreateRepositoryResult, Organization } from '../../business/organization';
 import { RepositoryMetadataEntity, GitHubRepositoryVisibility, GitHubRepositoryPermission } from '../../entities/repositoryMetadata/repositoryMetadata';
 import { RenderHtmlMail } from '../../lib/emailRender';
+import { ExtractRepositoryCreateProperties, FindApprovalType, GetOrganizationRepositoryCreatePolicy, IRepositoryCreateProperties, ValidateRepositoryCreateProperties } from '../../features/repositoryCreatePolicy';
+import { GetRepositoryTemplate, GetTemplateRepositoryName, IRepositoryTemplate } from '../../features/repositoryTemplates';
+import { GetRepositoryBaseline } from '../../features/repositoryBaseline';
 
-import { RepoWorkflowEngine, IRepositoryWorkflowOutput } from '../org/repoWorkflowEngine';
+import { RepoWorkflowEngine, IRepositoryWorkflowOutput, IRepositoryWorkflowPlan } from '../org/repoWorkflowEngine';
 import { IMailProvider } from '../../lib/mailProvider';
 
-const supportedLicenseExpressions = [
-  'mit',
-  '(mit and cc-by-4.0)',
-  'cc-by-4.0',
-  'other',
-];
-
-const hardcodedApprovalTypes = [
-  'NewReleaseReview',
-  'ExistingReleaseReview',
-  'SmallLibrariesToolsSamples',
-  'Migrate',
-  'Exempt',
-];
-
 export interface ICreateRepositoryApiResult {
   github: any;
   name: string;
+  dryRun?: boolean;
+  plan?: IRepositoryCreatePlan;
+}
+
+export interface ICreateRepositoryOptions {
+  dryRun?: boolean;
+}
+
+export interface IRepositoryCreatePlan extends IRepositoryWorkflowPlan {
+  organization: string;
+  name: string;
+  visibility: GitHubRepositoryVisibility;
+  description: string;
+  template: string;
+  mail: {
+    to: string[];
+    subject: string;
+  };
 }
 
-export async function CreateRepository(req, bodyOverride: unknown): Promise<ICreateRepositoryApiResult> {
+export function IsDryRunRequested(...values: any[]): boolean {
+  return values.some(value => value === true || value === 'true' || value === '1');
+}
+
+// GitHub repository names are limited to letters, digits, '.', '-' and '_'
+const repositoryNamePattern = /^[A-Za-z0-9_.-]{1,100}$/;
+
+export async function CreateRepository(req, bodyOverride: unknown, options?: ICreateRepositoryOptions): Promise<ICreateRepositoryApiResult> {
   console.log('CreateRepository CreateRepository CreateRepository CreateRepository CreateRepository');
   if (!req.organization) {
     throw jsonError(new Error('No organization available in the route.'), 400);
@@ -48,73 +57,30 @@ export async function CreateRepository(req, bodyOverride: unknown): Promise<ICre
   const operations = providers.operations;
   const mailProvider = req.app.settings.mailProvider;
   const repositoryMetadataProvider = providers.repositoryMetadataProvider;
-  const ourFields = [
-    'ms.onBehalfOf',
-    'ms.license',
-    'ms.approval',
-    'ms.approval-url',
-    'ms.justification',
-    'ms.notify',
-    'ms.teams',
-    'ms.template',
-    'ms.project-type',
-  ];
-  const properties = {};
+  // Licenses, approval types and their requirements are declared by the
+  // organization's repository create policy
+  const policy = GetOrganizationRepositoryCreatePolicy(req.organization as Organization);
   const parameters = bodyOverride || req.body;
-  ourFields.forEach((fieldName) => {
-    if (parameters[fieldName] !== undefined) {
-      properties[fieldName] = parameters[fieldName];
-      delete parameters[fieldName];
-    }
-  });
-  const msProperties = {
-    onBehalfOf: properties['ms.onBehalfOf'] || req.headers['ms-onbehalfof'],
-    justification: properties['ms.justification'] || req.headers['ms-justification'],
-    license: properties['ms.license'] || req.headers['ms-license'],
-    approvalType: properties['ms.approval'] || req.headers['ms-approval'],
-    approvalUrl: properties['ms.approval-url'] || req.headers['ms-approval-url'],
-    notify: properties['ms.notify'] || req.headers['ms-notify'],
-    teams: properties['ms.teams'] || req.headers['ms-teams'],
-    template: properties['ms.template'] || req.headers['ms-template'],
-    projectType: properties['ms.project-type'] || req.headers['ms-project-type'],
-  };
-  // Validate licenses
-  let msLicense = msProperties.license;
-  if (!msLicense) {
-    throw jsonError(new Error('Missing Microsoft license information'), 422);
+  const createProperties = ExtractRepositoryCreateProperties(policy, parameters, req.headers);
+  const policyViolation = ValidateRepositoryCreateProperties(policy, createProperties);
+  if (policyViolation) {
+    throw jsonError(new Error(policyViolation), 422);
   }
-  msLicense = msLicense.toLowerCase();
-  if (supportedLicenseExpressions.indexOf(msLicense) < 0) {
-    throw jsonError(new Error('The provided license expression is not currently supported'), 422);
+  if (!parameters.name || !repositoryNamePattern.test(parameters.name)) {
+    throw jsonError(new Error('The repository name may only contain letters, digits, periods, hyphens and underscores'), 422);
   }
-  // Validate approval types
-  const msApprovalType = msProperties.approvalType;
-  if (!msApprovalType) {
-    throw jsonError(new Error('Missing Microsoft approval type information'), 422);
-  }
-  if (hardcodedApprovalTypes.indexOf(msApprovalType) < 0) {
-    throw jsonError(new Error('The provided approval type is not supported'), 422);
-  }
-  // Validate specifics of what is in the approval
-  switch (msApprovalType) {
-    case 'NewReleaseReview':
-    case 'ExistingReleaseReview':
-      if (!msProperties.approvalUrl) {
-        throw jsonError(new Error('Approval URL for the release review is required when using the release review approval type'), 422);
-      }
-      break;
-    case 'SmallLibrariesToolsSamples':
-      break;
-    case 'Exempt':
-      if (!msProperties.justification) {
-        throw jsonError(new Error('Justification is required when using the exempted approval type'), 422);
-      }
-      break;
-    default:
-      throw jsonError(new Error('The requested approval type is not currently supported.'), 422);
+  const approvalType = FindApprovalType(policy, createProperties.approvalType);
+  if (approvalType) {
+    createProperties.approvalType = approvalType.id;
   }
   parameters.org = req.organization.name;
   const organization = operations.getOrganization(parameters.org);
+  const template = GetRepositoryTemplate(organization, createProperties.template);
+  createProperties.teams = addTemplateTeams(createProperties.teams, template);
+  const baseline = GetRepositoryBaseline(organization, template); // throws before creating for invalid settings
+  if (options && options.dryRun) {
+    return await planRepositoryCreate(req, organization, parameters, createProperties, mailProvider);
+  }
   req.app.settings.providers.insights.trackEvent({
     name: 'ApiRepoTryCreateForOrg',
     properties: {
@@ -125,8 +91,11 @@ export async function CreateRepository(req, bodyOverride: unknown): Promise<ICre
     },
   });
   let createResult: ICreateRepositoryResult = null;
+  const templateRepository = GetTemplateRepositoryName(organization, template);
   try {
-    createResult = await organization.createRepository(parameters.name, parameters);
+    createResult = templateRepository ?
+      await organization.createRepositoryFromTemplate(parameters.name, templateRepository.owner, templateRepository.repo, parameters) :
+      await organization.createRepository(parameters.name, parameters);
   } catch (error) {
     req.app.settings.providers.insights.trackEvent({
       name: 'ApiRepoCreateForOrgGitHubFailure',
@@ -180,7 +149,7 @@ export async function CreateRepository(req, bodyOverride: unknown): Promise<ICre
   // Store create metadata
   const metadata = new RepositoryMetadataEntity();
   metadata.created = new Date();
-  metadata.createdByThirdPartyUsername = msProperties.onBehalfOf;
+  metadata.createdByThirdPartyUsername = createProperties.onBehalfOf;
   // TODO: we also want to store corporate information when present
   try {
     const account = await operations.getAccountByUsername(metadata.createdByThirdPartyUsername);
@@ -195,8 +164,8 @@ export async function CreateRepository(req, bodyOverride: unknown): Promise<ICre
       },
     });
   }
-  metadata.releaseReviewJustification = msProperties.justification;
-  metadata.initialLicense = msProperties.license;
+  metadata.releaseReviewJustification = createProperties.justification;
+  metadata.initialLicense = createProperties.license;
   metadata.organizationName = req.organization.name.toLowerCase();
   if (organization.id) {
     metadata.organizationId = organization.id.toString();
@@ -205,28 +174,14 @@ export async function CreateRepository(req, bodyOverride: unknown): Promise<ICre
   metadata.repositoryId = response.id;
   metadata.initialRepositoryDescription = response.description;
   metadata.initialRepositoryVisibility = response.private ? GitHubRepositoryVisibility.Private : GitHubRepositoryVisibility.Public;
-  metadata.releaseReviewType = msProperties.approvalType;
-  metadata.releaseReviewUrl = msProperties.approvalUrl;
-  metadata.initialTemplate = msProperties.template;
-  metadata.projectType = msProperties.projectType;
+  metadata.releaseReviewType = createProperties.approvalType;
+  metadata.releaseReviewUrl = createProperties.approvalUrl;
+  metadata.initialTemplate = createProperties.template;
+  metadata.projectType = createProperties.projectType;
   metadata.initialCorrelationId = req.correlationId;
+  metadata.baseline = baseline;
 
-  const teamTypes = ['pull', 'push', 'admin'];
-  const typeValues = [GitHubRepositoryPermission.Pull, GitHubRepositoryPermission.Push, GitHubRepositoryPermission.Admin];
-  downgradeBroadAccessTeams(organization, msProperties.teams || {});
-  for (let i = 0; msProperties.teams && i < teamTypes.length; i++) {
-    const teamType = teamTypes[i];
-    const enumValue = typeValues[i];
-    const idList = msProperties.teams[teamType];
-    if (idList && idList.length) {
-      for (let j = 0; j < idList.length; j++) {
-        metadata.initialTeamPermissions.push({
-          permission: enumValue,
-          teamId: idList[j],
-        });
-      }
-    }
-  }
+  addInitialTeamPermissions(organization, metadata, createProperties.teams);
 
   let entityId = null;
   try {
@@ -260,9 +215,9 @@ export async function CreateRepository(req, bodyOverride: unknown): Promise<ICre
     console.dir(rollbackNeededError);
   }
   req.repoCreateResponse.tasks = output;
-  if (msProperties.notify && mailProvider) {
+  if (createProperties.notify && mailProvider) {
     try {
-    await sendEmail(req, mailProvider, req.apiKeyRow, req.correlationId, output, repoWorkflow.request, msProperties);
+    await sendEmail(req, mailProvider, req.apiKeyRow, req.correlationId, output, repoWorkflow.request, createProperties);
     } catch (mailSendError) {
       console.dir(mailSendError);
     }
@@ -270,6 +225,83 @@ export async function CreateRepository(req, bodyOverride: unknown): Promise<ICre
   return req.repoCreateResponse;
 }
 
+async function planRepositoryCreate(req, organization: Organization, parameters, createProperties: IRepositoryCreateProperties, mailProvider: IMailProvider): Promise<ICreateRepositoryApiResult> {
+  const name = parameters.name;
+  const isPrivate = parameters.private === true || parameters.private === 'true' || parameters.visibility === 'private';
+  const metadata = new RepositoryMetadataEntity();
+  metadata.repositoryName = name;
+  metadata.initialTemplate = createProperties.template;
+  addInitialTeamPermissions(organization, metadata, createProperties.teams);
+  const repoWorkflow = new RepoWorkflowEngine(organization, {
+    id: null,
+    repositoryMetadata: metadata,
+    createResponse: null,
+  });
+  const workflowPlan = await repoWorkflow.planNewRepositoryChores();
+  const plan: IRepositoryCreatePlan = {
+    organization: organization.name,
+    name,
+    visibility: isPrivate ? GitHubRepositoryVisibility.Private : GitHubRepositoryVisibility.Public,
+    description: parameters.description,
+    template: createProperties.template,
+    ...workflowPlan,
+    mail: createProperties.notify && mailProvider ? {
+      to: createProperties.notify.split(','),
+      subject: getCreatedMailSubject(req.apiKeyRow, name),
+    } : null,
+  };
+  req.insights.trackEvent({
+    name: 'ApiRepoCreateDryRun',
+    properties: {
+      org: organization.name,
+      parameterName: name,
+      plan: JSON.stringify(plan),
+    },
+  });
+  return {
+    github: null,
+    name,
+    dryRun: true,
+    plan,
+  };
+}
+
+function addInitialTeamPermissions(organization: Organization, metadata: RepositoryMetadataEntity, teams: any) {
+  const teamTypes = ['pull', 'push', 'admin'];
+  const typeValues = [GitHubRepositoryPermission.Pull, GitHubRepositoryPermission.Push, GitHubRepositoryPermission.Admin];
+  downgradeBroadAccessTeams(organization, teams || {});
+  for (let i = 0; teams && i < teamTypes.length; i++) {
+    const teamType = teamTypes[i];
+    const enumValue = typeValues[i];
+    const idList = teams[teamType];
+    if (idList && idList.length) {
+      for (let j = 0; j < idList.length; j++) {
+        metadata.initialTeamPermissions.push({
+          permission: enumValue,
+          teamId: idList[j],
+        });
+      }
+    }
+  }
+}
+
+function addTemplateTeams(teams: any, template: IRepositoryTemplate): any {
+  // Default teams of the template are granted in addition to the requested teams
+  if (!template || !template.teams) {
+    return teams;
+  }
+  const combined = Object.assign({}, teams || {});
+  for (const permission of Object.getOwnPropertyNames(template.teams)) {
+    combined[permission] = _.uniq((combined[permission] || []).concat(template.teams[permission]));
+  }
+  return combined;
+}
+
+function getCreatedMailSubject(apiKeyRow, repositoryName: string): string {
+  const serviceShortName = apiKeyRow && apiKeyRow.service ? apiKeyRow.service : undefined;
+  return serviceShortName ? `${repositoryName} repo created by ${serviceShortName}` : `${repositoryName} repo created`;
+}
+
 async function generateAndRunSecondaryTasks(repoWorkflow: RepoWorkflowEngine): Promise<IRepositoryWorkflowOutput[]> {
   const results = await repoWorkflow.executeNewRepositoryChores();
   // NOTE: no longer failing with any errors
@@ -295,12 +327,12 @@ function downgradeBroadAccessTeams(organization, teams) {
   }
 }
 
-async function sendEmail(req, mailProvider: IMailProvider, apiKeyRow, correlationId: string, repoCreateResults, approvalRequest: RepositoryMetadataEntity, msProperties): Promise<void> {
+async function sendEmail(req, mailProvider: IMailProvider, apiKeyRow, correlationId: string, repoCreateResults, approvalRequest: RepositoryMetadataEntity, createProperties): Promise<void> {
   const config = req.app.settings.runtimeConfig;
-  const emails = msProperties.notify.split(',');
+  const emails = createProperties.notify.split(',');
   const headline = 'Repo ready';
   const serviceShortName = apiKeyRow && apiKeyRow.service ? apiKeyRow.service : undefined;
-  const subject = serviceShortName ? `${approvalRequest.repositoryName} repo created by ${serviceShortName}` : `${approvalRequest.repositoryName} repo created`;
+  const subject = getCreatedMailSubject(apiKeyRow, approvalRequest.repositoryName);
   const emailTemplate = 'repoApprovals/autoCreated';
   const displayHostname = req.hostname;
   const approvalScheme = displayHostname === 'localhost' && config.webServer.allowHttp === true ? 'http' : 'https';
@@ -313,7 +345,7 @@ async function sendEmail(req, mailProvider: IMailProvider, apiKeyRow, correlatio
     content: undefined,
   };
   const contentOptions = {
-    reason: `You are receiving this e-mail because an API request included the e-mail notification address(es) ${msProperties.notify} during the creation of a repo.`,
+    reason: `You are receiving this e-mail because an API request included the e-mail notification address(es) ${createProperties.notify} during the creation of a repo.`,
     headline: headline,
     notification: 'information',
     app: 'Microsoft GitHub',
@@ -16,7 +16,7 @@ import { jsonError } from '../../middleware/jsonError';
 import { apiContextMiddleware } from '../../middleware/business/setContext';
 import { ILocalExtensionKeyProvider } from '../../entities/localExtensionKey';
 import { LocalExtensionKey } from '../../entities/localExtensionKey/localExtensionKey';
-import { IApiRequest } from '../../middleware/apiReposAuth';
+import { ApiScopeRateLimit, IApiRequest } from '../../middleware/apiReposAuth';
 import { PersonalAccessToken } from '../../entities/token/token';
 
 const thisApiScopeName = 'extension';
@@ -42,6 +42,8 @@ router.use(function (req: IApiRequest, res, next) {
   return next();
 });
 
+router.use(ApiScopeRateLimit(thisApiScopeName));
+
 function overwriteUserContext(req: IApiRequest, res, next) {
   const token = req.apiKeyToken;
   const corporateId = token.corporateId;
@@ -16,25 +16,27 @@ import { IApiRequest } from '../../middleware/apiReposAuth';
 
 const apiClient = require('./client');
 const apiExtension = require('./extension');
+const apiOrganization = require('./organization');
 const apiPeople = require('./people');
 const apiWebhook = require('./webhook');
 
 import { AzureDevOpsAuthenticationMiddleware } from '../../middleware/apiVstsAuth';
-import { ReposApiAuthentiction } from '../../middleware/apiReposAuth';
-import { CreateRepository } from './createRepo';
+import { ReposApiAuthentiction, RequireApiScope } from '../../middleware/apiReposAuth';
+import { CreateRepository, IsDryRunRequested } from './createRepo';
+import { ApiVersions, OpenApiDocument } from './openapi';
 import { Organization } from '../../business/organization';
 const supportMultipleAuthProviders = require('../../middleware/supportMultipleAuthProviders');
 
-const hardcodedApiVersions = [
-  '2019-02-01',
-  '2017-09-01',
-  '2017-03-08',
-  '2016-12-01',
-];
+const hardcodedApiVersions = ApiVersions;
 
 router.use('/client', apiClient);
 router.use('/webhook', apiWebhook);
 
+// Discovery: the OpenAPI document does not require a key or an API version
+router.get('/openapi.json', (req, res) => {
+  return res.json(OpenApiDocument);
+});
+
 // Require a "preview" API version: ?api-version=2016-12-01
 router.use((req: IApiRequest, res, next) => {
   const apiVersion = req.query['api-version'] || req.headers['api-version'];
@@ -79,9 +81,6 @@ router.use('/:org', function (req: IApiRequest, res, next) {
   if (!req.apiKeyToken.scopes) {
     return next(jsonError('There is a problem with the key configuration (no specific API scopes)', 412));
   }
-  if (!req.apiKeyToken.hasScope('createRepo')) {
-    return next(jsonError('The key is not authorized to use the repo create APIs', 401));
-  }
 
   const providers = req.app.settings.providers as IProviders;
   const operations = providers.operations;
@@ -95,15 +94,17 @@ router.use('/:org', function (req: IApiRequest, res, next) {
   return next();
 });
 
-router.post('/:org/repos', asyncHandler(async function (req: ReposAppRequest, res, next) {
+router.post('/:org/repos', RequireApiScope('createRepo', 'repo create'), asyncHandler(async function (req: ReposAppRequest, res, next) {
   const convergedObject = Object.assign({}, req.headers);
   req.insights.trackEvent({ name: 'ApiRepoCreateRequest', properties: convergedObject });
   Object.assign(convergedObject, req.body);
   delete convergedObject.access_token;
   delete convergedObject.authorization;
+  const dryRun = IsDryRunRequested(req.query.dryRun, convergedObject.dryRun);
+  delete convergedObject.dryRun;
   try {
-    const repoCreateResponse = await CreateRepository(req, convergedObject);
-    res.status(201);
+    const repoCreateResponse = await CreateRepository(req, convergedObject, { dryRun });
+    res.status(dryRun ? 200 : 201);
     req.insights.trackEvent({ name: 'ApiRepoCreateRequestSuccess', properties: {
       request: JSON.stringify(convergedObject),
       response: JSON.stringify(repoCreateResponse),
@@ -118,4 +119,6 @@ router.post('/:org/repos', asyncHandler(async function (req: ReposAppRequest, re
   }
 }));
 
+router.use('/:org', apiOrganization);
+
 module.exports = router;
@@ -0,0 +1,677 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+// OpenAPI description of the routes under /api, served at /api/openapi.json.
+// The supported API versions are defined here so that a version bump and the
+// document cannot drift apart; test/openapi.ts validates real responses
+// from the routers against these schemas for every supported version.
+//
+// The GitHub webhook receiver at /api/webhook is not part of the public API.
+
+export const ApiVersions = [
+  '2020-09-01',
+  '2019-02-01',
+  '2017-09-01',
+  '2017-03-08',
+  '2016-12-01',
+];
+
+// The repository, team and membership APIs under /{org}
+export const OrganizationApiVersions = [
+  '2020-09-01',
+];
+
+const jsonContentType = 'application/json';
+
+function ref(schemaName: string) {
+  return { $ref: `#/components/schemas/${schemaName}` };
+}
+
+function jsonResponse(description: string, schema: any) {
+  return {
+    description,
+    content: {
+      [jsonContentType]: { schema },
+    },
+  };
+}
+
+const errorResponses = {
+  '400': { $ref: '#/components/responses/Error' },
+  '401': { $ref: '#/components/responses/Error' },
+  '404': { $ref: '#/components/responses/Error' },
+  '429': { $ref: '#/components/responses/Error' },
+};
+
+function apiKeyOperation(scope: string, summary: string, responses: any, options?: any) {
+  return Object.assign({
+    summary,
+    security: [{ apiKey: [] }],
+    'x-token-scope': scope,
+    parameters: [{ $ref: '#/components/parameters/apiVersion' }],
+    responses: Object.assign({}, errorResponses, responses),
+  }, options || {});
+}
+
+function sessionOperation(summary: string, responses: any, options?: any) {
+  return Object.assign({
+    summary,
+    security: [{ session: [] }],
+    responses: Object.assign({}, errorResponses, responses),
+  }, options || {});
+}
+
+function pathParameter(name: string, description: string, type = 'string') {
+  return {
+    name,
+    in: 'path',
+    required: true,
+    description,
+    schema: { type },
+  };
+}
+
+const organizationParameter = pathParameter('org', 'The GitHub organization name');
+const repositoryNameParameter = pathParameter('repoName', 'The repository name');
+const teamIdParameter = pathParameter('teamId', 'The GitHub team ID', 'integer');
+const loginParameter = pathParameter('login', 'The GitHub username');
+
+const linkQueryParameters = [
+  { name: 'showOrganizations', in: 'query', description: 'Omits the organization memberships of linked users when provided', schema: { type: 'string' } },
+  { name: 'showTimestamps', in: 'query', description: 'Includes the link creation time when "true"', schema: { type: 'string' } },
+];
+
+const dryRunParameter = { name: 'dryRun', in: 'query', description: 'Returns the plan for the repository without creating it when "true"', schema: { type: 'string' } };
+
+const organizationApiVersion = { 'x-api-versions': OrganizationApiVersions };
+
+const schemas = {
+  Error: {
+    type: 'object',
+    required: ['message'],
+    properties: {
+      message: { type: 'string' },
+      correlationId: { type: 'string', nullable: true },
+      documentation_url: { type: 'string' },
+    },
+  },
+  CorporateIdentity: {
+    type: 'object',
+    description: 'Named "corporate" with an "aadId" property by the 2016-12-01 API version',
+    additionalProperties: false,
+    properties: {
+      id: { type: 'string', nullable: true },
+      aadId: { type: 'string', nullable: true },
+      alias: { type: 'string', nullable: true },
+      preferredName: { type: 'string', nullable: true },
+      userPrincipalName: { type: 'string', nullable: true },
+      emailAddress: { type: 'string', nullable: true },
+    },
+  },
+  Link: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['github'],
+    properties: {
+      github: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['id', 'login'],
+        properties: {
+          id: { type: 'integer' },
+          login: { type: 'string', nullable: true },
+          avatar: { type: 'string', nullable: true, description: 'Added by 2019-02-01' },
+          organizations: { type: 'array', items: { type: 'string' } },
+        },
+      },
+      isServiceAccount: { type: 'boolean', description: 'Added by 2017-09-01' },
+      serviceAccountContact: { type: 'string', description: 'Added by 2019-02-01' },
+      timestamp: { type: 'string', format: 'date-time' },
+      aad: ref('CorporateIdentity'),
+      corporate: ref('CorporateIdentity'),
+    },
+  },
+  UnlinkResult: {
+    type: 'object',
+    properties: {
+      messages: { type: 'array', items: { type: 'string' } },
+    },
+  },
+  ExtensionLink: {
+    type: 'object',
+    properties: {
+      github: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', nullable: true },
+          login: { type: 'string', nullable: true },
+        },
+      },
+      corporate: {
+        type: 'object',
+        properties: {
+          preferredName: { type: 'string', nullable: true },
+          userPrincipalName: { type: 'string', nullable: true },
+          id: { type: 'string', nullable: true },
+        },
+      },
+    },
+  },
+  ExtensionConnection: {
+    type: 'object',
+    properties: {
+      link: ref('ExtensionLink'),
+      operations: { type: 'object' },
+      auth: {
+        type: 'object',
+        properties: {
+          provider: { type: 'string' },
+          id: { type: 'string' },
+          upn: { type: 'string', nullable: true },
+        },
+      },
+    },
+  },
+  ExtensionMetadata: {
+    type: 'object',
+    required: ['extension', 'organizations'],
+    properties: {
+      extension: {
+        type: 'object',
+        properties: {
+          localEncryptionKey: { type: 'object' },
+        },
+      },
+      operations: { type: 'object' },
+      serviceMessage: { type: 'object', nullable: true },
+      reference: { type: 'object', nullable: true },
+      organizations: {
+        type: 'object',
+        properties: {
+          list: { type: 'array', items: { type: 'string' } },
+          settings: { type: 'object' },
+        },
+      },
+      site: { type: 'object', nullable: true },
+      link: ref('ExtensionLink'),
+    },
+  },
+  RepositoryCreateRequest: {
+    type: 'object',
+    required: ['name'],
+    description: 'Corporate properties such as ms.license and ms.approval may also be provided as headers. The field prefix, licenses and approval types are set by the organization repository create policy.',
+    properties: {
+      name: { type: 'string' },
+      description: { type: 'string' },
+      private: { type: 'boolean' },
+      'ms.license': { type: 'string' },
+      'ms.approval': { type: 'string' },
+      'ms.approval-url': { type: 'string' },
+      'ms.justification': { type: 'string' },
+      'ms.entity': { type: 'string' },
+      'ms.notify': { type: 'string' },
+      'ms.onBehalfOf': { type: 'string' },
+      'ms.project-type': { type: 'string' },
+      'ms.teams': {
+        type: 'object',
+        properties: {
+          pull: { type: 'array', items: { type: 'integer' } },
+          push: { type: 'array', items: { type: 'integer' } },
+          admin: { type: 'array', items: { type: 'integer' } },
+        },
+      },
+    },
+  },
+  RepositoryCreateResult: {
+    type: 'object',
+    properties: {
+      github: { type: 'object', nullable: true, description: 'The repository as returned by GitHub' },
+      name: { type: 'string' },
+      dryRun: { type: 'boolean' },
+      plan: ref('RepositoryCreatePlan'),
+    },
+  },
+  RepositoryBaseline: {
+    type: 'object',
+    description: 'Branch protection, merge settings and topics applied to new repositories',
+    properties: {
+      branchProtection: {
+        type: 'object',
+        properties: {
+          requiredStatusChecks: { type: 'array', items: { type: 'string' } },
+          strictStatusChecks: { type: 'boolean' },
+          requiredApprovingReviewCount: { type: 'integer', minimum: 1, maximum: 6 },
+          dismissStaleReviews: { type: 'boolean' },
+          requireCodeOwnerReviews: { type: 'boolean' },
+          enforceAdmins: { type: 'boolean' },
+        },
+      },
+      mergeMethods: { type: 'array', items: { type: 'string', enum: ['merge', 'squash', 'rebase'] } },
+      deleteBranchOnMerge: { type: 'boolean' },
+      topics: { type: 'array', items: { type: 'string' } },
+    },
+  },
+  RepositoryCreatePlan: {
+    type: 'object',
+    description: 'What a create request would do, returned for dry runs',
+    required: ['organization', 'name', 'visibility', 'teamPermissions', 'templateFiles', 'collaborators', 'warnings'],
+    properties: {
+      organization: { type: 'string' },
+      name: { type: 'string' },
+      visibility: { type: 'string', enum: ['public', 'private'] },
+      description: { type: 'string', nullable: true },
+      template: { type: 'string', nullable: true },
+      teamPermissions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            teamId: { type: 'integer' },
+            teamName: { type: 'string', nullable: true },
+            permission: { type: 'string', enum: ['pull', 'push', 'admin'] },
+          },
+        },
+      },
+      templateRepository: { type: 'string', nullable: true, description: 'The template repository that the repository would be generated from, as owner/name' },
+      templateFiles: { type: 'array', items: { type: 'string' } },
+      baseline: ref('RepositoryBaseline'),
+      webhook: {
+        type: 'object',
+        nullable: true,
+        properties: {
+          name: { type: 'string' },
+          events: { type: 'array', items: { type: 'string' } },
+        },
+      },
+      collaborators: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            username: { type: 'string' },
+            permission: { type: 'string', enum: ['pull', 'push', 'admin'] },
+          },
+        },
+      },
+      mail: {
+        type: 'object',
+        nullable: true,
+        properties: {
+          to: { type: 'array', items: { type: 'string' } },
+          subject: { type: 'string' },
+        },
+      },
+      warnings: { type: 'array', items: { type: 'string' } },
+    },
+  },
+  Repository: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['id', 'name'],
+    properties: {
+      id: { type: 'integer' },
+      name: { type: 'string' },
+      private: { type: 'boolean' },
+      description: { type: 'string', nullable: true },
+      fork: { type: 'boolean' },
+      archived: { type: 'boolean' },
+      language: { type: 'string', nullable: true },
+      homepage: { type: 'string', nullable: true },
+      created_at: { type: 'string', format: 'date-time' },
+      updated_at: { type: 'string', format: 'date-time' },
+      pushed_at: { type: 'string', format: 'date-time', nullable: true },
+      teams: {
+        type: 'array',
+        items: ref('RepositoryTeamPermission'),
+      },
+    },
+  },
+  RepositoryTeamPermission: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['id', 'permission'],
+    properties: {
+      id: { type: 'integer' },
+      permission: { type: 'string', enum: ['pull', 'push', 'admin'] },
+    },
+  },
+  RepositoryTeamPermissionResult: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      repository: { type: 'string' },
+      teamId: { type: 'integer' },
+      permission: { type: 'string', enum: ['pull', 'push', 'admin'] },
+    },
+  },
+  RepositoryWorkflowRun: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['id', 'repository', 'state', 'attempts', 'steps'],
+    properties: {
+      id: { type: 'string', description: 'The correlation ID of the request that created the repository' },
+      repository: { type: 'string' },
+      state: { type: 'string', enum: ['running', 'succeeded', 'failed'] },
+      attempts: { type: 'integer' },
+      started: { type: 'string', format: 'date-time' },
+      updated: { type: 'string', format: 'date-time' },
+      steps: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['name', 'type', 'state', 'attempts'],
+          properties: {
+            name: { type: 'string' },
+            type: { type: 'string', enum: ['teamPermission', 'templateFiles', 'mergeSettings', 'topics', 'branchProtection', 'templateWebhook', 'templateCollaborators', 'removeCreatorCollaborator'] },
+            state: { type: 'string', enum: ['pending', 'succeeded', 'failed'] },
+            attempts: { type: 'integer' },
+            message: { type: 'string' },
+            error: { type: 'string' },
+            completed: { type: 'string', format: 'date-time' },
+          },
+        },
+      },
+    },
+  },
+  Team: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['id', 'name'],
+    properties: {
+      id: { type: 'integer' },
+      name: { type: 'string' },
+      slug: { type: 'string' },
+      description: { type: 'string', nullable: true },
+      privacy: { type: 'string', nullable: true },
+      repos_count: { type: 'integer', nullable: true },
+      members_count: { type: 'integer', nullable: true },
+      created_at: { type: 'string', format: 'date-time', nullable: true },
+      updated_at: { type: 'string', format: 'date-time', nullable: true },
+      broad: { type: 'boolean' },
+    },
+  },
+  TeamMember: {
+    type: 'object',
+    additionalProperties: false,
+    required: ['id', 'login', 'role'],
+    properties: {
+      id: { type: 'integer' },
+      login: { type: 'string' },
+      role: { type: 'string', enum: ['member', 'maintainer'] },
+    },
+  },
+  TeamMembershipResult: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      teamId: { type: 'integer' },
+      login: { type: 'string' },
+      role: { type: 'string', enum: ['member', 'maintainer'] },
+    },
+  },
+  PersonalizedTeam: {
+    type: 'object',
+    properties: {
+      id: { type: 'integer' },
+      name: { type: 'string' },
+      description: { type: 'string', nullable: true },
+      broad: { type: 'boolean' },
+      role: { type: 'string', enum: ['member', 'maintainer'] },
+    },
+  },
+  NewRepositoryResult: {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      message: { type: 'string' },
+      url: { type: 'string', nullable: true },
+      messages: { type: 'array', nullable: true, items: { type: 'object' } },
+      github: { type: 'object', nullable: true },
+      dryRun: { type: 'boolean' },
+      plan: ref('RepositoryCreatePlan'),
+    },
+  },
+  ReleaseApprovals: {
+    type: 'object',
+    properties: {
+      releaseApprovals: { type: 'array', items: { type: 'object' } },
+    },
+  },
+};
+
+const paths = {
+  '/people/links': {
+    get: apiKeyOperation('links', 'List all linked users', {
+      '200': jsonResponse('Linked users', { type: 'array', items: ref('Link') }),
+    }, { parameters: [{ $ref: '#/components/parameters/apiVersion' }, ...linkQueryParameters] }),
+  },
+  '/people/links/github/{username}': {
+    get: apiKeyOperation('links', 'Get a linked user by GitHub username', {
+      '200': jsonResponse('The linked user', ref('Link')),
+    }, {
+      parameters: [{ $ref: '#/components/parameters/apiVersion' }, pathParameter('username', 'The GitHub username'), ...linkQueryParameters],
+      'x-api-versions': ApiVersions.filter(version => version !== '2016-12-01'),
+    }),
+  },
+  '/people/links/aad/userPrincipalName/{upn}': {
+    get: apiKeyOperation('links', 'Get linked users by Azure Active Directory user principal name', {
+      '200': jsonResponse('The linked users', { type: 'array', items: ref('Link') }),
+    }, {
+      parameters: [{ $ref: '#/components/parameters/apiVersion' }, pathParameter('upn', 'The user principal name'), ...linkQueryParameters],
+      'x-api-versions': ApiVersions.filter(version => version !== '2016-12-01'), // the 2016-12-01 shape has no "aad" property to match
+    }),
+  },
+  '/people/links/aad/{id}': {
+    get: apiKeyOperation('links', 'Get linked users by Azure Active Directory object ID', {
+      '200': jsonResponse('The linked users', { type: 'array', items: ref('Link') }),
+    }, {
+      parameters: [{ $ref: '#/components/parameters/apiVersion' }, pathParameter('id', 'The directory object ID'), ...linkQueryParameters],
+      'x-api-versions': ApiVersions.filter(version => version !== '2016-12-01'),
+    }),
+  },
+  '/people/unlink/github/id/{id}': {
+    delete: apiKeyOperation('unlink', 'Remove a link and the organization memberships of a GitHub user', {
+      '200': jsonResponse('The steps taken', ref('UnlinkResult')),
+    }, {
+      parameters: [
+        { $ref: '#/components/parameters/apiVersion' },
+        pathParameter('id', 'The GitHub user ID'),
+        { name: 'unlink-purpose', in: 'header', schema: { type: 'string', enum: ['termination'] } },
+      ],
+    }),
+  },
+  '/extension': {
+    get: apiKeyOperation('extension', 'Get connection information for the browser extension', {
+      '200': jsonResponse('Connection information', ref('ExtensionConnection')),
+    }),
+  },
+  '/extension/metadata': {
+    get: apiKeyOperation('extension', 'Get metadata for the browser extension', {
+      '200': jsonResponse('Extension metadata', ref('ExtensionMetadata')),
+    }),
+  },
+  '/{org}/repos': {
+    parameters: [organizationParameter],
+    get: apiKeyOperation('repos', 'List repositories', {
+      '200': jsonResponse('Repositories', {
+        type: 'object',
+        required: ['repositories'],
+        properties: { repositories: { type: 'array', items: ref('Repository') } },
+      }),
+    }, organizationApiVersion),
+    post: apiKeyOperation('createRepo', 'Create a repository', {
+      '200': jsonResponse('The plan for the repository, for dry runs', ref('RepositoryCreateResult')),
+      '201': jsonResponse('The created repository', ref('RepositoryCreateResult')),
+    }, {
+      parameters: [{ $ref: '#/components/parameters/apiVersion' }, dryRunParameter],
+      requestBody: { required: true, content: { [jsonContentType]: { schema: ref('RepositoryCreateRequest') } } },
+    }),
+  },
+  '/{org}/repos/{repoName}': {
+    parameters: [organizationParameter, repositoryNameParameter],
+    get: apiKeyOperation('repos', 'Get a repository and its team permissions', {
+      '200': jsonResponse('The repository', ref('Repository')),
+    }, organizationApiVersion),
+  },
+  '/{org}/repos/{repoName}/workflow': {
+    parameters: [organizationParameter, repositoryNameParameter],
+    get: apiKeyOperation('repos', 'Get the setup workflow run of a repository created by this app', {
+      '200': jsonResponse('The workflow run and the state of each step', ref('RepositoryWorkflowRun')),
+    }, organizationApiVersion),
+  },
+  '/{org}/repos/{repoName}/workflow/retry': {
+    parameters: [organizationParameter, repositoryNameParameter],
+    post: apiKeyOperation('createRepo', 'Retry the failed steps of the setup workflow run of a repository', {
+      '200': jsonResponse('The workflow run after the retry', ref('RepositoryWorkflowRun')),
+    }, organizationApiVersion),
+  },
+  '/{org}/repos/{repoName}/teams/{teamId}': {
+    parameters: [organizationParameter, repositoryNameParameter, teamIdParameter],
+    put: apiKeyOperation('repoTeamPermissions', 'Set the permission of a team on a repository', {
+      '200': jsonResponse('The permission set', ref('RepositoryTeamPermissionResult')),
+      '403': { $ref: '#/components/responses/Error' },
+    }, Object.assign({
+      requestBody: {
+        required: true,
+        content: { [jsonContentType]: { schema: { type: 'object', required: ['permission'], properties: { permission: { type: 'string', enum: ['pull', 'push', 'admin'] } } } } },
+      },
+    }, organizationApiVersion)),
+    delete: apiKeyOperation('repoTeamPermissions', 'Remove the access of a team to a repository', {
+      '204': { description: 'The team no longer has access' },
+    }, organizationApiVersion),
+  },
+  '/{org}/teams': {
+    parameters: [organizationParameter],
+    get: apiKeyOperation('teams', 'List teams', {
+      '200': jsonResponse('Teams', {
+        type: 'object',
+        required: ['teams'],
+        properties: { teams: { type: 'array', items: ref('Team') } },
+      }),
+    }, organizationApiVersion),
+  },
+  '/{org}/teams/{teamId}': {
+    parameters: [organizationParameter, teamIdParameter],
+    get: apiKeyOperation('teams', 'Get a team', {
+      '200': jsonResponse('The team', ref('Team')),
+    }, organizationApiVersion),
+  },
+  '/{org}/teams/{teamId}/members': {
+    parameters: [organizationParameter, teamIdParameter],
+    get: apiKeyOperation('teams', 'List the members of a team', {
+      '200': jsonResponse('Team members', {
+        type: 'object',
+        required: ['members'],
+        properties: { members: { type: 'array', items: ref('TeamMember') } },
+      }),
+    }, organizationApiVersion),
+  },
+  '/{org}/teams/{teamId}/members/{login}': {
+    parameters: [organizationParameter, teamIdParameter, loginParameter],
+    put: apiKeyOperation('teamMembership', 'Add or update a team member or maintainer', {
+      '200': jsonResponse('The membership', ref('TeamMembershipResult')),
+    }, Object.assign({
+      requestBody: {
+        content: { [jsonContentType]: { schema: { type: 'object', properties: { role: { type: 'string', enum: ['member', 'maintainer'] } } } } },
+      },
+    }, organizationApiVersion)),
+    delete: apiKeyOperation('teamMembership', 'Remove a team member', {
+      '204': { description: 'The user is no longer a member of the team' },
+    }, organizationApiVersion),
+  },
+  '/client/newRepo/org/{org}/metadata': {
+    parameters: [organizationParameter],
+    get: sessionOperation('Get the repository create metadata for the organization', {
+      '200': jsonResponse('Create metadata', { type: 'object' }),
+    }),
+  },
+  '/client/newRepo/org/{org}/personalizedTeams': {
+    parameters: [organizationParameter],
+    get: sessionOperation('List the teams of the signed-in user', {
+      '200': jsonResponse('Teams', {
+        type: 'object',
+        properties: { personalizedTeams: { type: 'array', items: ref('PersonalizedTeam') } },
+      }),
+    }),
+  },
+  '/client/newRepo/org/{org}/teams': {
+    parameters: [organizationParameter],
+    get: sessionOperation('List the teams of the organization', {
+      '200': jsonResponse('Teams', {
+        type: 'object',
+        properties: { teams: { type: 'array', items: ref('Team') } },
+      }),
+    }),
+  },
+  '/client/newRepo/org/{org}/repo/{repoName}': {
+    parameters: [organizationParameter, repositoryNameParameter],
+    get: sessionOperation('Check whether a repository name is in use', {
+      '200': jsonResponse('The existing repository', { type: 'object' }),
+    }),
+    post: sessionOperation('Create a repository through the new repository wizard', {
+      '200': jsonResponse('The outcome', ref('NewRepositoryResult')),
+    }, {
+      parameters: [dryRunParameter],
+      requestBody: { required: true, content: { [jsonContentType]: { schema: { type: 'object' } } } },
+    }),
+  },
+  '/client/releaseApprovals': {
+    get: sessionOperation('List release approvals', {
+      '200': jsonResponse('Release approvals', ref('ReleaseApprovals')),
+    }),
+    post: sessionOperation('Create a release approval', {
+      '200': jsonResponse('The new release approval', ref('ReleaseApprovals')),
+    }, {
+      requestBody: { required: true, content: { [jsonContentType]: { schema: { type: 'object' } } } },
+    }),
+  },
+};
+
+export const OpenApiDocument = {
+  openapi: '3.0.2',
+  info: {
+    title: 'Open Source Portal API',
+    version: ApiVersions[0],
+    description: 'Every request except /openapi.json and /client requires an api-version. Operations marked with x-api-versions are only available to those versions; x-token-scope names the API key scope required.',
+  },
+  servers: [
+    { url: '/api' },
+  ],
+  paths,
+  components: {
+    securitySchemes: {
+      apiKey: {
+        type: 'http',
+        scheme: 'basic',
+        description: 'The API key as the basic authentication password',
+      },
+      session: {
+        type: 'apiKey',
+        in: 'cookie',
+        name: 'session',
+        description: 'The signed-in session of the portal web client',
+      },
+    },
+    parameters: {
+      apiVersion: {
+        name: 'api-version',
+        in: 'query',
+        required: true,
+        description: 'May also be provided as an api-version header',
+        schema: {
+          type: 'string',
+          enum: ApiVersions,
+        },
+      },
+    },
+    responses: {
+      Error: jsonResponse('An error', ref('Error')),
+    },
+    schemas,
+  },
+};
@@ -0,0 +1,32 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import express = require('express');
+
+import { json404, jsonError } from '../../../middleware/jsonError';
+import { IApiRequest } from '../../../middleware/apiReposAuth';
+import { OrganizationApiVersions } from '../openapi';
+
+// Repository, team and membership APIs for an organization, read from the
+// query cache and changed through the portal's GitHub apps. The router is
+// mounted after the organization has been resolved and authorized.
+
+const router = express.Router();
+
+router.use((req: IApiRequest, res, next) => {
+  if (!OrganizationApiVersions.includes(req.apiVersion)) {
+    return next(jsonError(`This API requires a newer API version such as ${OrganizationApiVersions[0]}.`, 400));
+  }
+  return next();
+});
+
+router.use('/repos', require('./repos'));
+router.use('/teams', require('./teams'));
+
+router.use(json404);
+
+module.exports = router;
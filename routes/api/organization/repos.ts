@@ -0,0 +1,234 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import express = require('express');
+import asyncHandler from 'express-async-handler';
+
+import { IProviders } from '../../../transitional';
+import { jsonError } from '../../../middleware/jsonError';
+import { IApiRequest, RequireApiScope } from '../../../middleware/apiReposAuth';
+import { Organization } from '../../../business/organization';
+import QueryCache, { IQueryCacheRepository } from '../../../business/queryCache';
+import { GitHubRepositoryPermission, GitHubRepositoryPermissions } from '../../../entities/repositoryMetadata/repositoryMetadata';
+import { RepositoryWorkflowRunEntity } from '../../../entities/repositoryWorkflowRun/repositoryWorkflowRun';
+import { GetRepositoryWorkflowRun, IRepositoryWorkflowRunWithMetadata, RetryRepositoryWorkflowRun } from '../../org/repoWorkflowEngine';
+import { GetMostSevereAction, GovernRequestedTeamPermission, PermissionPolicyAction } from '../../../features/permissionPolicies';
+import { asNumber } from '../../../utils';
+
+const router = express.Router();
+
+router.get('/', RequireApiScope('repos', 'repositories'), asyncHandler(async (req: IApiRequest, res, next) => {
+  const organization = req.organization as Organization;
+  const repositories = await getCachedRepositories(req, organization);
+  req.insights.trackMetric({ name: 'ApiRequestRepositories', value: 1 });
+  return res.json({
+    repositories: repositories.map(toRepositoryJson),
+  });
+}));
+
+router.get('/:repoName', RequireApiScope('repos', 'repositories'), asyncHandler(async (req: IApiRequest, res, next) => {
+  const organization = req.organization as Organization;
+  const providers = req.app.settings.providers as IProviders;
+  const queryCache = providers.queryCache;
+  const entry = await getCachedRepository(req, organization, req.params.repoName);
+  const repository = toRepositoryJson(entry);
+  if (queryCache.supportsTeamPermissions) {
+    const teamPermissions = await queryCache.repositoryTeamPermissions(entry.cacheEntity.repositoryId);
+    repository['teams'] = teamPermissions.map(tp => {
+      return {
+        id: asNumber(tp.cacheEntity.teamId),
+        permission: tp.permission,
+      };
+    });
+  }
+  req.insights.trackMetric({ name: 'ApiRequestRepository', value: 1 });
+  return res.json(repository);
+}));
+
+router.put('/:repoName/teams/:teamId', RequireApiScope('repoTeamPermissions', 'repository team permissions'), asyncHandler(async (req: IApiRequest, res, next) => {
+  const organization = req.organization as Organization;
+  const requestedPermission = req.body.permission as GitHubRepositoryPermission;
+  if (!requestedPermission || !GitHubRepositoryPermissions.includes(requestedPermission)) {
+    return next(jsonError(`A permission of ${GitHubRepositoryPermissions.join(', ')} is required`, 400));
+  }
+  const teamId = asNumber(req.params.teamId);
+  if (!teamId) {
+    return next(jsonError('A team ID is required', 400));
+  }
+  const entry = await getCachedRepository(req, organization, req.params.repoName);
+  const repository = organization.repository(entry.repository.name, entry.cacheEntity.repositoryDetails);
+  let governed = null;
+  try {
+    governed = await GovernRequestedTeamPermission(organization, teamId, requestedPermission);
+  } catch (teamError) {
+    return next(jsonError(teamError, teamError.status === 404 ? 404 : 400));
+  }
+  const permission = governed.permission as GitHubRepositoryPermission;
+  const violations = governed.violations;
+  if (violations.length) {
+    const policyAction = GetMostSevereAction(violations);
+    const reasons = violations.map(violation => violation.reason).join('; ');
+    req.insights.trackEvent({
+      name: 'ApiRepositoryTeamPermissionPolicyViolation',
+      properties: {
+        organization: organization.name,
+        repository: repository.name,
+        teamId: teamId.toString(),
+        permission,
+        policyAction,
+        reasons,
+        corporateId: req.apiKeyToken.corporateId,
+      },
+    });
+    if (policyAction === PermissionPolicyAction.Revert) {
+      return next(jsonError(`The ${permission} permission cannot be granted to the team: ${reasons}`, 403));
+    }
+  }
+  try {
+    await repository.setTeamPermission(teamId, permission);
+  } catch (setError) {
+    return next(jsonError(setError, setError.status === 404 ? 404 : 400));
+  }
+  req.insights.trackEvent({
+    name: 'ApiRepositoryTeamPermissionSet',
+    properties: {
+      organization: organization.name,
+      repository: repository.name,
+      teamId: teamId.toString(),
+      permission,
+      corporateId: req.apiKeyToken.corporateId,
+    },
+  });
+  return res.json({
+    repository: repository.name,
+    teamId,
+    permission,
+  });
+}));
+
+router.delete('/:repoName/teams/:teamId', RequireApiScope('repoTeamPermissions', 'repository team permissions'), asyncHandler(async (req: IApiRequest, res, next) => {
+  const organization = req.organization as Organization;
+  const teamId = asNumber(req.params.teamId);
+  if (!teamId) {
+    return next(jsonError('A team ID is required', 400));
+  }
+  const entry = await getCachedRepository(req, organization, req.params.repoName);
+  const repository = organization.repository(entry.repository.name, entry.cacheEntity.repositoryDetails);
+  try {
+    await repository.removeTeamPermission(teamId);
+  } catch (removeError) {
+    return next(jsonError(removeError, removeError.status === 404 ? 404 : 400));
+  }
+  req.insights.trackEvent({
+    name: 'ApiRepositoryTeamPermissionRemoved',
+    properties: {
+      organization: organization.name,
+      repository: repository.name,
+      teamId: teamId.toString(),
+      corporateId: req.apiKeyToken.corporateId,
+    },
+  });
+  return res.status(204).end();
+}));
+
+router.get('/:repoName/workflow', RequireApiScope('repos', 'repositories'), asyncHandler(async (req: IApiRequest, res, next) => {
+  const organization = req.organization as Organization;
+  const workflow = await getRepositoryWorkflow(req, organization, req.params.repoName);
+  req.insights.trackMetric({ name: 'ApiRequestRepositoryWorkflow', value: 1 });
+  return res.json(toWorkflowRunJson(workflow.run));
+}));
+
+router.post('/:repoName/workflow/retry', RequireApiScope('createRepo', 'repo create'), asyncHandler(async (req: IApiRequest, res, next) => {
+  const organization = req.organization as Organization;
+  const workflow = await getRepositoryWorkflow(req, organization, req.params.repoName);
+  await RetryRepositoryWorkflowRun(organization, workflow);
+  req.insights.trackEvent({
+    name: 'ApiRepositoryWorkflowRetried',
+    properties: {
+      organization: organization.name,
+      repository: workflow.run.repositoryName,
+      runId: workflow.run.runId,
+      state: workflow.run.state,
+      corporateId: req.apiKeyToken.corporateId,
+    },
+  });
+  return res.json(toWorkflowRunJson(workflow.run));
+}));
+
+async function getRepositoryWorkflow(req: IApiRequest, organization: Organization, repoName: string): Promise<IRepositoryWorkflowRunWithMetadata> {
+  const providers = req.app.settings.providers as IProviders;
+  const entry = await getCachedRepository(req, organization, repoName);
+  const workflow = await GetRepositoryWorkflowRun(providers.operations, entry.cacheEntity.repositoryId);
+  if (!workflow) {
+    throw jsonError(`No setup workflow was recorded for the repository ${repoName}`, 404);
+  }
+  return workflow;
+}
+
+function getRepositoryQueryCache(req: IApiRequest): QueryCache {
+  const providers = req.app.settings.providers as IProviders;
+  const queryCache = providers.queryCache;
+  if (!queryCache || !queryCache.supportsRepositories) {
+    throw jsonError('The repository cache is not available in this environment', 501);
+  }
+  return queryCache;
+}
+
+async function getCachedRepositories(req: IApiRequest, organization: Organization): Promise<IQueryCacheRepository[]> {
+  const queryCache = getRepositoryQueryCache(req);
+  return await queryCache.organizationRepositories(organization.id.toString());
+}
+
+async function getCachedRepository(req: IApiRequest, organization: Organization, repoName: string): Promise<IQueryCacheRepository> {
+  const queryCache = getRepositoryQueryCache(req);
+  const entry = await queryCache.organizationRepositoryByName(organization.id.toString(), repoName);
+  if (!entry) {
+    throw jsonError(`The repository ${repoName} was not found in the ${organization.name} organization`, 404);
+  }
+  return entry;
+}
+
+function toRepositoryJson(entry: IQueryCacheRepository) {
+  const details = entry.cacheEntity.repositoryDetails || {};
+  return {
+    id: asNumber(entry.cacheEntity.repositoryId),
+    name: entry.cacheEntity.repositoryName,
+    private: details.private,
+    description: details.description,
+    fork: details.fork,
+    archived: details.archived,
+    language: details.language,
+    homepage: details.homepage,
+    created_at: details.created_at,
+    updated_at: details.updated_at,
+    pushed_at: details.pushed_at,
+  };
+}
+
+function toWorkflowRunJson(run: RepositoryWorkflowRunEntity) {
+  return {
+    id: run.runId,
+    repository: run.repositoryName,
+    state: run.state,
+    attempts: run.attempts,
+    started: run.started,
+    updated: run.updated,
+    steps: run.steps.map(step => {
+      return {
+        name: step.name,
+        type: step.type,
+        state: step.state,
+        attempts: step.attempts,
+        message: step.message,
+        error: step.error,
+        completed: step.completed,
+      };
+    }),
+  };
+}
+
+module.exports = router;
@@ -0,0 +1,148 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import express = require('express');
+import asyncHandler from 'express-async-handler';
+
+import { IProviders } from '../../../transitional';
+import { jsonError } from '../../../middleware/jsonError';
+import { IApiRequest, RequireApiScope } from '../../../middleware/apiReposAuth';
+import { Organization } from '../../../business/organization';
+import { IQueryCacheTeam } from '../../../business/queryCache';
+import { GitHubTeamRole } from '../../../business/team';
+import { asNumber } from '../../../utils';
+
+const router = express.Router();
+
+router.get('/', RequireApiScope('teams', 'teams'), asyncHandler(async (req: IApiRequest, res, next) => {
+  const organization = req.organization as Organization;
+  const broadTeams = new Set(organization.broadAccessTeams);
+  const teams = await getCachedTeams(req, organization);
+  req.insights.trackMetric({ name: 'ApiRequestTeams', value: 1 });
+  return res.json({
+    teams: teams.map(qt => toTeamJson(qt, broadTeams)),
+  });
+}));
+
+router.get('/:teamId', RequireApiScope('teams', 'teams'), asyncHandler(async (req: IApiRequest, res, next) => {
+  const organization = req.organization as Organization;
+  const entry = await getCachedTeam(req, organization, req.params.teamId);
+  req.insights.trackMetric({ name: 'ApiRequestTeam', value: 1 });
+  return res.json(toTeamJson(entry, new Set(organization.broadAccessTeams)));
+}));
+
+router.get('/:teamId/members', RequireApiScope('teams', 'teams'), asyncHandler(async (req: IApiRequest, res, next) => {
+  const organization = req.organization as Organization;
+  const providers = req.app.settings.providers as IProviders;
+  const queryCache = providers.queryCache;
+  const entry = await getCachedTeam(req, organization, req.params.teamId);
+  if (!queryCache.supportsTeamMembership) {
+    return next(jsonError('The team membership cache is not available in this environment', 501));
+  }
+  const members = await queryCache.teamMembers(entry.cacheEntity.teamId);
+  req.insights.trackMetric({ name: 'ApiRequestTeamMembers', value: 1 });
+  return res.json({
+    members: members.map(member => {
+      return {
+        id: asNumber(member.userId),
+        login: member.login,
+        role: member.role,
+      };
+    }),
+  });
+}));
+
+router.put('/:teamId/members/:login', RequireApiScope('teamMembership', 'team membership'), asyncHandler(async (req: IApiRequest, res, next) => {
+  const organization = req.organization as Organization;
+  const role = (req.body.role || GitHubTeamRole.Member) as GitHubTeamRole;
+  if (role !== GitHubTeamRole.Member && role !== GitHubTeamRole.Maintainer) {
+    return next(jsonError(`The role must be ${GitHubTeamRole.Member} or ${GitHubTeamRole.Maintainer}`, 400));
+  }
+  const entry = await getCachedTeam(req, organization, req.params.teamId);
+  const team = entry.team;
+  const login = req.params.login;
+  try {
+    if (role === GitHubTeamRole.Maintainer) {
+      await team.addMaintainer(login);
+    } else {
+      await team.addMembership(login, { role });
+    }
+  } catch (membershipError) {
+    return next(jsonError(membershipError, membershipError.status === 404 ? 404 : 400));
+  }
+  req.insights.trackEvent({
+    name: 'ApiTeamMembershipSet',
+    properties: {
+      organization: organization.name,
+      teamId: team.id.toString(),
+      login,
+      role,
+      corporateId: req.apiKeyToken.corporateId,
+    },
+  });
+  return res.json({
+    teamId: team.id,
+    login,
+    role,
+  });
+}));
+
+router.delete('/:teamId/members/:login', RequireApiScope('teamMembership', 'team membership'), asyncHandler(async (req: IApiRequest, res, next) => {
+  const organization = req.organization as Organization;
+  const entry = await getCachedTeam(req, organization, req.params.teamId);
+  const team = entry.team;
+  const login = req.params.login;
+  try {
+    await team.removeMembership(login);
+  } catch (membershipError) {
+    return next(jsonError(membershipError, membershipError.status === 404 ? 404 : 400));
+  }
+  req.insights.trackEvent({
+    name: 'ApiTeamMembershipRemoved',
+    properties: {
+      organization: organization.name,
+      teamId: team.id.toString(),
+      login,
+      corporateId: req.apiKeyToken.corporateId,
+    },
+  });
+  return res.status(204).end();
+}));
+
+async function getCachedTeams(req: IApiRequest, organization: Organization): Promise<IQueryCacheTeam[]> {
+  const providers = req.app.settings.providers as IProviders;
+  const queryCache = providers.queryCache;
+  if (!queryCache || !queryCache.supportsTeams) {
+    throw jsonError('The team cache is not available in this environment', 501);
+  }
+  return await queryCache.organizationTeams(organization.id.toString());
+}
+
+async function getCachedTeam(req: IApiRequest, organization: Organization, teamIdAsString: string): Promise<IQueryCacheTeam> {
+  const teamId = asNumber(teamIdAsString);
+  if (!teamId) {
+    throw jsonError('A team ID is required', 400);
+  }
+  // Only teams of the authorized organization are available
+  const teams = await getCachedTeams(req, organization);
+  const entry = teams.find(qt => asNumber(qt.cacheEntity.teamId) === teamId);
+  if (!entry) {
+    throw jsonError(`The team ${teamId} was not found in the ${organization.name} organization`, 404);
+  }
+  return entry;
+}
+
+function toTeamJson(entry: IQueryCacheTeam, broadTeams: Set<number>) {
+  const team = entry.team.toSimpleJsonObject();
+  team['privacy'] = entry.cacheEntity.teamDetails ? entry.cacheEntity.teamDetails.privacy : undefined;
+  if (broadTeams.has(team.id)) {
+    team['broad'] = true;
+  }
+  return team;
+}
+
+module.exports = router;
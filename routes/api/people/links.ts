@@ -13,8 +13,10 @@ import { jsonError } from '../../../middleware/jsonError';
 import { MemberSearch } from '../../../business/memberSearch';
 import { ICorporateLink } from '../../../business/corporateLink';
 import { Operations, ICrossOrganizationMembersResult } from '../../../business/operations';
-import { IApiRequest } from '../../../middleware/apiReposAuth';
+import { IApiRequest, RequireApiScope } from '../../../middleware/apiReposAuth';
 import { OrganizationMember } from '../../../business/organizationMember';
+import { ILinkQuery, MaximumLinkQueryPageSize } from '../../../lib/linkProviders/linkQuery';
+import { ApiVersions } from '../openapi';
 
 const router = express.Router();
 const wrapError = require('../../../utils').wrapError;
@@ -23,20 +25,10 @@ const unsupportedApiVersions = [
   '2016-12-01',
 ];
 
-const extendedLinkApiVersions = [
-  '2019-02-01',
-];
+// '2019-02-01' added 'avatar' and 'serviceAccountContact', kept by every newer version
+const extendedLinkApiVersions = ApiVersions.slice(0, ApiVersions.indexOf('2019-02-01') + 1);
 
-router.use(function (req: IApiRequest, res, next) {
-  const token = req.apiKeyToken;
-  if (!token.scopes) {
-    return next(jsonError('The key is not authorized for specific APIs', 401));
-  }
-  if (!token.hasScope('links')) {
-  return next(jsonError('The key is not authorized to use the get links API', 401));
-  }
-  return next();
-});
+router.use(RequireApiScope('links', 'get links'));
 
 router.get('/', asyncHandler(async (req: IApiRequest, res, next) => {
   const operations = req.app.settings.operations;
@@ -52,14 +44,15 @@ router.get('/github/:username', asyncHandler (async (req: IApiRequest, res, next
   if (unsupportedApiVersions.includes(req.apiVersion)) {
     return next(jsonError('This API is not supported by the API version you are using.', 400));
   }
-  const username = req.params.username.toLowerCase();
+  const username = req.params.username;
   const operations = req.app.settings.operations as Operations;
   const skipOrganizations = req.query.showOrganizations !== undefined && !!req.query.showOrganizations;
   const showTimestamps = req.query.showTimestamps !== undefined && req.query.showTimestamps === 'true';
-  const results = await getAllUsers(req.apiVersion, operations, skipOrganizations, showTimestamps);
+  const links = await queryLinks(operations, { thirdPartyUsername: username });
+  const results = links.length ? await getAllUsers(req.apiVersion, operations, skipOrganizations, showTimestamps, links) : [];
   for (let i = 0; i < results.length; i++) {
     const entry = results[i];
-    if (entry && entry.github && entry.github.login.toLowerCase() === username) {
+    if (entry && entry.github && entry.github.login.toLowerCase() === username.toLowerCase()) {
       req.insights.trackMetric({ name: 'ApiRequestLinkByGitHubUsername', value: 1 });
       return res.json(entry);
     }
@@ -69,10 +62,11 @@ router.get('/github/:username', asyncHandler (async (req: IApiRequest, res, next
 
 router.get('/aad/userPrincipalName/:upn', asyncHandler(async (req: IApiRequest, res, next) => {
   const upn = req.params.upn;
-  const operations = req.app.settings.operations;
+  const operations = req.app.settings.operations as Operations;
   const skipOrganizations = req.query.showOrganizations !== undefined && !!req.query.showOrganizations;
   const showTimestamps = req.query.showTimestamps !== undefined && req.query.showTimestamps === 'true';
-  const results = await getAllUsers(req.apiVersion, operations, skipOrganizations, showTimestamps);
+  const links = await queryLinks(operations, { corporateUsername: upn });
+  const results = links.length ? await getAllUsers(req.apiVersion, operations, skipOrganizations, showTimestamps, links) : [];
   let r = [];
   for (let i = 0; i < results.length; i++) {
     const entry = results[i];
@@ -101,8 +95,9 @@ router.get('/aad/:id', asyncHandler(async (req: IApiRequest, res, next) => {
   const id = req.params.id;
   const skipOrganizations = req.query.showOrganizations !== undefined && !!req.query.showOrganizations;
   const showTimestamps = req.query.showTimestamps !== undefined && req.query.showTimestamps === 'true';
-  const operations = req.app.settings.operations;
-  const results = await getAllUsers(req.apiVersion, operations, skipOrganizations, showTimestamps);
+  const operations = req.app.settings.operations as Operations;
+  const links = await queryLinks(operations, { corporateId: id });
+  const results = links.length ? await getAllUsers(req.apiVersion, operations, skipOrganizations, showTimestamps, links) : [];
   let r = [];
   for (let i = 0; i < results.length; i++) {
     const entry = results[i];
@@ -117,10 +112,27 @@ router.get('/aad/:id', asyncHandler(async (req: IApiRequest, res, next) => {
   return res.json(r);
 }));
 
-async function getAllUsers(apiVersion, operations: Operations, skipOrganizations: boolean, showTimestamps: boolean): Promise<any[]> {
-  let links: ICorporateLink[] = null;
+async function queryLinks(operations: Operations, query: ILinkQuery): Promise<ICorporateLink[]> {
+  // A single identity has few links, but some providers return pages with fewer links than the page size
+  const links: ICorporateLink[] = [];
+  try {
+    let continuation: string = null;
+    do {
+      const page = await operations.queryLinks(query, { pageSize: MaximumLinkQueryPageSize, continuation });
+      links.push(... page.links);
+      continuation = page.continuation;
+    } while (continuation);
+    return links;
+  } catch (linksError) {
+    linksError = wrapError(linksError, 'There was a problem retrieving link information.');
+    throw jsonError(linksError, 500);
+  }
+}
+
+async function getAllUsers(apiVersion, operations: Operations, skipOrganizations: boolean, showTimestamps: boolean, links?: ICorporateLink[]): Promise<any[]> {
+  // Without links, all of the cached links are used
   try {
-    links = await operations.getLinks();
+    links = links || await operations.getLinks();
   } catch (linksError) {
     linksError = wrapError(linksError, 'There was a problem retrieving link information to display alongside members.');
     throw jsonError(linksError, 500);
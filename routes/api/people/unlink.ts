@@ -10,7 +10,7 @@ import { ReposAppRequest } from '../../../transitional';
 import { jsonError } from '../../../middleware/jsonError';
 import { ICorporateLink } from '../../../business/corporateLink';
 import { Operations, UnlinkPurpose } from '../../../business/operations';
-import { IApiRequest } from '../../../middleware/apiReposAuth';
+import { IApiRequest, RequireApiScope } from '../../../middleware/apiReposAuth';
 
 const router = express.Router();
 
@@ -18,31 +18,23 @@ interface ILinksApiRequestWithUnlink extends IApiRequest {
   unlink?: ICorporateLink;
 }
 
-router.use(function (req: ILinksApiRequestWithUnlink, res, next) {
-  const token = req.apiKeyToken;
-  if (!token.scopes) {
-    return next(jsonError('The key is not authorized for specific APIs', 401));
-  }
-  if (!token.hasScope('unlink')) {
-    return next(jsonError('The key is not authorized to use the unlink API', 401));
-  }
-  return next();
-});
+router.use(RequireApiScope('unlink', 'unlink'));
 
-router.use('/github/id/:id', (req: ILinksApiRequestWithUnlink, res, next) => {
+router.use('/github/id/:id', async (req: ILinksApiRequestWithUnlink, res, next) => {
   const id = req.params.id;
 
   const operations = req.app.settings.operations as Operations;
-  return operations.linkProvider.getByThirdPartyId(id, (error, link) => {
-    if (!link && !error) {
-      error = new Error(`Could not locate a link for GitHub user ID ${id}`);
-    }
-    if (error) {
-      return next(jsonError(error));
+  let link: ICorporateLink = null;
+  try {
+    link = await operations.linkProvider.getByThirdPartyId(id);
+    if (!link) {
+      throw new Error(`Could not locate a link for GitHub user ID ${id}`);
     }
-    req.unlink = link;
-    return next();
-  });
+  } catch (error) {
+    return next(jsonError(error));
+  }
+  req.unlink = link;
+  return next();
 });
 
 router.use('*', (req: ILinksApiRequestWithUnlink, res, next) => {
@@ -58,7 +50,7 @@ router.delete('*', (req: ILinksApiRequestWithUnlink, res, next) => {
   } catch (purposeError) {
     return next(jsonError(purposeError, 400));
   }
-  const options = { purpose };
+  const options = { purpose, reason: 'Unlinked through the API' };
   return operations.terminateLinkAndMemberships(link.thirdPartyId, options).then(results => {
     res.json({
       messages: Array.isArray(results) ? (results as any as string[]).reverse() : results,
@@ -13,7 +13,7 @@ import moment from 'moment';
 import { ReposAppRequest } from '../../transitional';
 const router = express.Router();
 
-import OrganizationWebhookProcessor from '../../webhooks/organizationProcessor';
+import OrganizationWebhookProcessor, { EnqueueWebhook } from '../../webhooks/organizationProcessor';
 
 interface IRequestWithRaw extends ReposAppRequest {
   _raw?: any;
@@ -37,16 +37,28 @@ router.use(asyncHandler(async (req: IRequestWithRaw, res, next) => {
     delivery: req.headers['x-github-delivery'] as string,
     event: req.headers['x-github-event'] as string,
     signature: req.headers['x-hub-signature'] as string,
+    signature256: req.headers['x-hub-signature-256'] as string,
     started: moment().utc().format(),
   };
-  if (!properties.delivery || !properties.signature || !properties.event) {
-    return next(jsonError(new Error('Missing X-GitHub-Delivery, X-GitHub-Event, and/or X-Hub-Signature'), 400));
+  if (!properties.delivery || (!properties.signature && !properties.signature256) || !properties.event) {
+    return next(jsonError(new Error('Missing X-GitHub-Delivery, X-GitHub-Event, and/or X-Hub-Signature-256 (or X-Hub-Signature)'), 400));
   }
   const event = {
     properties: properties,
     body: req.body,
     rawBody: req._raw,
   };
+  const webhookQueueProcessor = req.app.settings.providers.webhookQueueProcessor;
+  if (webhookQueueProcessor) {
+    // The firehose job processes the queued event
+    try {
+      await EnqueueWebhook(webhookQueueProcessor, event);
+    } catch (queueError) {
+      return next(jsonError(queueError, queueError.status || 500));
+    }
+    res.status(202);
+    return res.json({ delivery: properties.delivery, queued: true });
+  }
   const options = {
     operations,
     organization: req.organization,
@@ -0,0 +1,125 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import _ from 'lodash';
+import moment from 'moment';
+
+import { ReposAppRequest } from '../transitional';
+import { AuditLogRecord } from '../entities/auditLogRecord/auditLogRecord';
+
+// Shared by the repository, team and person history views: filters audit log
+// records by action and date from the query string and renders them either as
+// a page or, with ?format=csv, as a CSV download.
+
+export interface IAuditLogHistoryFilter {
+  action?: string;
+  from?: string; // YYYY-MM-DD
+  to?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface IAuditLogHistoryRenderOptions {
+  view: string;
+  title: string;
+  filename: string;
+  state?: any;
+}
+
+const csvColumns = [
+  'created',
+  'action',
+  'actorUsername',
+  'actorId',
+  'organizationName',
+  'repositoryName',
+  'teamName',
+  'userUsername',
+  'userId',
+  'role',
+  'deliveryId',
+];
+
+export function GetAuditLogHistoryFilter(query: any): IAuditLogHistoryFilter {
+  const filter: IAuditLogHistoryFilter = {};
+  if (query.action && typeof(query.action) === 'string') {
+    filter.action = query.action;
+  }
+  for (const key of ['from', 'to']) {
+    const value = query[key];
+    if (value && typeof(value) === 'string' && moment.utc(value, 'YYYY-MM-DD', true).isValid()) {
+      filter[key] = value;
+    }
+  }
+  return filter;
+}
+
+export function FilterAuditLogRecords(records: AuditLogRecord[], filter: IAuditLogHistoryFilter): AuditLogRecord[] {
+  const from = filter.from ? moment.utc(filter.from, 'YYYY-MM-DD').startOf('day') : null;
+  const to = filter.to ? moment.utc(filter.to, 'YYYY-MM-DD').endOf('day') : null;
+  return records.filter(record => {
+    // An event name such as "member" matches all of its actions
+    if (filter.action && record.action !== filter.action && record.event !== filter.action) {
+      return false;
+    }
+    const created = moment.utc(record.created);
+    if (from && created.isBefore(from)) {
+      return false;
+    }
+    if (to && created.isAfter(to)) {
+      return false;
+    }
+    return true;
+  });
+}
+
+export function AuditLogRecordsToCsv(records: AuditLogRecord[]): string {
+  const lines = [csvColumns.join(',')];
+  for (const record of records) {
+    lines.push(csvColumns.map(column => {
+      const value = record[column];
+      return escapeCsvValue(value instanceof Date ? value.toISOString() : value);
+    }).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function RenderAuditLogHistory(req: ReposAppRequest, res, records: AuditLogRecord[], options: IAuditLogHistoryRenderOptions) {
+  const filter = GetAuditLogHistoryFilter(req.query);
+  const filtered = FilterAuditLogRecords(records, filter);
+  if (req.query.format === 'csv') {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${options.filename}.csv"`);
+    return res.send(AuditLogRecordsToCsv(filtered));
+  }
+  const actions = _.uniq(records.map(record => record.action)).sort();
+  req.individualContext.webContext.render({
+    view: options.view,
+    title: options.title,
+    state: Object.assign({
+      auditLog: {
+        records: filtered,
+        totalRecords: records.length,
+        actions,
+        filter,
+      },
+    }, options.state),
+  });
+}
+
+function escapeCsvValue(value: any): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  let asString = String(value);
+  if (/^[=+\-@]/.test(asString)) {
+    // Keep spreadsheet applications from evaluating values as formulas
+    asString = `'${asString}`;
+  }
+  if (/[",\r\n]/.test(asString)) {
+    return `"${asString.replace(/"/g, '""')}"`;
+  }
+  return asString;
+}
@@ -9,9 +9,11 @@
 
 const emailRender = require('../lib/emailRender');
 import express = require('express');
+import asyncHandler from 'express-async-handler';
 import { ReposAppRequest } from '../transitional';
 import { IndividualContext } from '../user';
 import { ILinkProvider } from '../lib/linkProviders/postgres/postgresLinkProvider';
+import { ILinkChangeContext } from '../lib/linkProviders/linkHistory';
 import { storeOriginalUrlAsReferrer, wrapError } from '../utils';
 import { ICorporateLink } from '../business/corporateLink';
 
@@ -188,7 +190,7 @@ router.get('/enableMultipleAccounts', function (req: IRequestWithSession, res) {
   storeOriginalUrlAsReferrer(req, res, '/auth/github', 'multiple accounts enabled need to auth with GitHub again now');
 });
 
-router.post('/', linkUser);
+router.post('/', asyncHandler(linkUser));
 
 function sendWelcomeMailThenRedirect(req: ReposAppRequest, res, config, url, linkObject: ICorporateLink, mailProvider, linkedAccountMail) {
   res.redirect(url);
@@ -250,7 +252,7 @@ function sendWelcomeMailThenRedirect(req: ReposAppRequest, res, config, url, lin
   });
 }
 
-function linkUser(req, res, next) {
+async function linkUser(req, res, next) {
   const individualContext = req.individualContext as IndividualContext;
 
   // TODO: a business object should actually handle creating links with the provider
@@ -283,26 +285,32 @@ function linkUser(req, res, next) {
     newLinkObject.serviceAccountMail = serviceAccountMail;
   }
 
-  linkProvider.createLink(newLinkObject, (createError, linkId) => {
-    if (createError) {
-      req.insights.trackException({
-        exception: createError,
-        properties: {
-          event: 'PortalUserLinkInsertLinkError',
-        },
-      });
-      return next(wrapError(createError, `We had trouble linking your corporate and GitHub accounts: ${createError.message}`));
-    }
-    const eventData = newLinkObject;
-    eventData['linkId'] = linkId;
+  const linkChangeContext: ILinkChangeContext = {
+    actorCorporateId: individualContext.corporateIdentity.id,
+    actorUsername: individualContext.corporateIdentity.username,
+    reason: isServiceAccount ? 'Service account linked on the web site' : 'Linked on the web site',
+  };
+  let linkId: string = null;
+  try {
+    linkId = await linkProvider.createLink(newLinkObject, linkChangeContext);
+  } catch (createError) {
+    req.insights.trackException({
+      exception: createError,
+      properties: {
+        event: 'PortalUserLinkInsertLinkError',
+      },
+    });
+    return next(wrapError(createError, `We had trouble linking your corporate and GitHub accounts: ${createError.message}`));
+  }
+  const eventData = newLinkObject;
+  eventData['linkId'] = linkId;
 
-    req.insights.trackEvent({ name: 'PortalUserLink' });
-    req.insights.trackMetric({ name: metricName, value: 1 });
+  req.insights.trackEvent({ name: 'PortalUserLink' });
+  req.insights.trackMetric({ name: metricName, value: 1 });
 
-    // TODO: fireLinkEvent may need to recognize the new format!
-    operations.fireLinkEvent(eventData);
-    sendWelcomeMailThenRedirect(req, res, config, '/?onboarding=yes', newLinkObject, mailProvider, linkedAccountMail);
-  });
+  // TODO: fireLinkEvent may need to recognize the new format!
+  operations.fireLinkEvent(eventData);
+  sendWelcomeMailThenRedirect(req, res, config, '/?onboarding=yes', newLinkObject, mailProvider, linkedAccountMail);
 }
 
 router.use('/remove', unlinkRoute);
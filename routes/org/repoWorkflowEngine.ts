@@ -9,12 +9,20 @@ import fs from 'fs';
 import path from 'path';
 
 import recursiveReadDirectory from 'recursive-readdir';
+import { v4 as uuidV4 } from 'uuid';
 
+import { IReposError } from '../../transitional';
 import { wrapError, sleep, asNumber } from '../../utils';
 import { Organization } from '../../business/organization';
 import { Operations } from '../../business/operations';
 import { RepositoryMetadataEntity, GitHubRepositoryVisibility, GitHubRepositoryPermission, GitHubRepositoryPermissions } from '../../entities/repositoryMetadata/repositoryMetadata';
-import { Repository } from '../../business/repository';
+import { Repository, IRepositoryMergeSettings } from '../../business/repository';
+import { RepositoryWorkflowRunEntity, RepositoryWorkflowRunState, RepositoryWorkflowStepState, RepositoryWorkflowStepType, IRepositoryWorkflowStep } from '../../entities/repositoryWorkflowRun/repositoryWorkflowRun';
+import { IRepositoryWorkflowRunProvider } from '../../entities/repositoryWorkflowRun/repositoryWorkflowRunProvider';
+import { GetRepositoryTemplate, GetTemplateRepositoryName } from '../../features/repositoryTemplates';
+import { GetRepositoryBaseline, IRepositoryBaseline, RepositoryMergeMethod } from '../../features/repositoryBaseline';
+
+const abandonedRunMinutes = 60;
 
 export interface IApprovalPackage {
   id: string;
@@ -33,6 +41,31 @@ export interface IRepositoryWorkflowOutput {
   message?: string;
 }
 
+export interface IRepositoryWorkflowRunWithMetadata {
+  run: RepositoryWorkflowRunEntity;
+  repositoryMetadata: RepositoryMetadataEntity;
+}
+
+export interface IRepositoryWorkflowPlan {
+  teamPermissions: {
+    teamId: number;
+    teamName?: string;
+    permission: GitHubRepositoryPermission;
+  }[];
+  templateRepository: string;
+  templateFiles: string[];
+  baseline: IRepositoryBaseline;
+  webhook: {
+    name: string;
+    events: string[];
+  };
+  collaborators: {
+    username: string;
+    permission: GitHubRepositoryPermission;
+  }[];
+  warnings: string[];
+}
+
 export class RepoWorkflowEngine {
   organization: Organization;
   request: RepositoryMetadataEntity;
@@ -90,9 +123,37 @@ export class RepoWorkflowEngine {
 
   async executeNewRepositoryChores(): Promise<IRepositoryWorkflowOutput[] /* output */> {
     const request = this.request;
-    const output = [];
+    if (!request.initialCorrelationId || !request.baseline) {
+      request.initialCorrelationId = request.initialCorrelationId || uuidV4();
+      request.baseline = request.baseline || GetRepositoryBaseline(this.organization, GetRepositoryTemplate(this.organization, request.initialTemplate));
+      await this.updateRepositoryMetadata();
+    }
+    const run = new RepositoryWorkflowRunEntity();
+    run.runId = request.initialCorrelationId;
+    run.organizationName = this.organization.name.toLowerCase();
+    run.organizationId = request.organizationId;
+    run.repositoryName = request.repositoryName;
+    run.repositoryId = request.repositoryId;
+    run.steps = await this.createWorkflowSteps();
+    const workflowRunProvider = this.getWorkflowRunProvider();
+    if (workflowRunProvider) {
+      try {
+        await workflowRunProvider.createRun(run);
+      } catch (ignoredError) {
+        console.warn(`The workflow run ${run.runId} for the ${run.repositoryName} repo could not be recorded: ${ignoredError.message}`);
+      }
+    }
+    return await this.executeWorkflowSteps(run);
+  }
+
+  async retryFailedSteps(run: RepositoryWorkflowRunEntity): Promise<IRepositoryWorkflowOutput[]> {
+    return await this.executeWorkflowSteps(run);
+  }
+
+  private async createWorkflowSteps(): Promise<IRepositoryWorkflowStep[]> {
+    const request = this.request;
     const organization = this.organization;
-    const repoName = request.repositoryName;
+    const steps: IRepositoryWorkflowStep[] = [];
     for (let i = 0; i < request.initialTeamPermissions.length; i++) {
       let { teamId, permission, teamName } = request.initialTeamPermissions[i];
       if (teamId && !teamName) {
@@ -105,23 +166,227 @@ export class RepoWorkflowEngine {
         } catch (noFail) { /* ignore */ }
       }
       if (teamId && permission) {
-        output.push(await addTeamPermission(organization, repoName, asNumber(teamId), teamName, permission));
+        steps.push(createStep(RepositoryWorkflowStepType.TeamPermission, `${RepositoryWorkflowStepType.TeamPermission}:${teamId}:${permission}`, {
+          teamId: asNumber(teamId),
+          teamName,
+          permission,
+        }));
       }
     }
-    if (request.initialTemplate) {
-      try {
-        output.push(await createAddTemplateFilesTask(organization, repoName, request.initialTemplate));
-        output.push(await addTemplateWebHook(organization, repoName, request.initialTemplate));
-        output.push(await addTemplateCollaborators(organization, repoName, request.initialTemplate));
-      } catch (outerError) {
-        // ignored
-        console.dir(outerError);
+    const templateName = request.initialTemplate;
+    const templateData = GetRepositoryTemplate(organization, templateName);
+    if (templateName && (!templateData || !templateData.repository)) {
+      // Repositories generated from a template repository already have its contents
+      steps.push(createStep(RepositoryWorkflowStepType.TemplateFiles, RepositoryWorkflowStepType.TemplateFiles, { templateName }));
+    }
+    // The baseline follows the template files, so that the default branch exists to protect
+    const baseline = request.baseline || {};
+    if (baseline.mergeMethods || baseline.deleteBranchOnMerge !== undefined) {
+      steps.push(createStep(RepositoryWorkflowStepType.MergeSettings, RepositoryWorkflowStepType.MergeSettings));
+    }
+    if (baseline.topics && baseline.topics.length) {
+      steps.push(createStep(RepositoryWorkflowStepType.Topics, RepositoryWorkflowStepType.Topics));
+    }
+    if (baseline.branchProtection) {
+      steps.push(createStep(RepositoryWorkflowStepType.BranchProtection, RepositoryWorkflowStepType.BranchProtection));
+    }
+    if (templateName) {
+      if (templateData && templateData.webhook) {
+        steps.push(createStep(RepositoryWorkflowStepType.TemplateWebhook, RepositoryWorkflowStepType.TemplateWebhook, { templateName }));
+      }
+      if (templateData && templateData.collaborators) {
+        steps.push(createStep(RepositoryWorkflowStepType.TemplateCollaborators, RepositoryWorkflowStepType.TemplateCollaborators, { templateName }));
       }
     }
     // GitHub adds the creator of a repo as an admin directly now, but we don't need that...
-    output.push(await removeOrganizationCollaboratorTask(organization, this.createResponse));
-    return output.filter(real => real);
+    steps.push(createStep(RepositoryWorkflowStepType.RemoveCreatorCollaborator, RepositoryWorkflowStepType.RemoveCreatorCollaborator));
+    return steps;
+  }
+
+  private async executeWorkflowSteps(run: RepositoryWorkflowRunEntity): Promise<IRepositoryWorkflowOutput[]> {
+    // Steps that already succeeded are not repeated when a run is retried
+    const output: IRepositoryWorkflowOutput[] = [];
+    run.state = RepositoryWorkflowRunState.Running;
+    ++run.attempts;
+    for (const step of run.incompleteSteps) {
+      let result: IRepositoryWorkflowOutput = null;
+      try {
+        result = await this.executeWorkflowStep(step);
+      } catch (stepError) {
+        result = { error: stepError, message: stepError.message };
+      }
+      ++step.attempts;
+      step.completed = (new Date()).toISOString();
+      step.state = result && result.error ? RepositoryWorkflowStepState.Failed : RepositoryWorkflowStepState.Succeeded;
+      step.message = result ? result.message : undefined;
+      step.error = result && result.error ? (result.error.message || String(result.error)) : undefined;
+      if (result) {
+        output.push(result);
+      }
+      await this.saveWorkflowRun(run);
+    }
+    run.state = run.failedSteps.length ? RepositoryWorkflowRunState.Failed : RepositoryWorkflowRunState.Succeeded;
+    await this.saveWorkflowRun(run);
+    return output;
+  }
+
+  private async executeWorkflowStep(step: IRepositoryWorkflowStep): Promise<IRepositoryWorkflowOutput> {
+    const organization = this.organization;
+    const repoName = this.request.repositoryName;
+    switch (step.type) {
+      case RepositoryWorkflowStepType.TeamPermission:
+        return await addTeamPermission(organization, repoName, step.teamId, step.teamName, step.permission);
+      case RepositoryWorkflowStepType.TemplateFiles:
+        return await createAddTemplateFilesTask(organization, repoName, step);
+      case RepositoryWorkflowStepType.MergeSettings:
+        return await applyMergeSettings(organization, repoName, this.request.baseline);
+      case RepositoryWorkflowStepType.Topics:
+        return await applyTopics(organization, repoName, this.request.baseline);
+      case RepositoryWorkflowStepType.BranchProtection:
+        return await applyBranchProtection(organization, repoName, this.request.baseline);
+      case RepositoryWorkflowStepType.TemplateWebhook:
+        return await addTemplateWebHook(organization, repoName, step.templateName);
+      case RepositoryWorkflowStepType.TemplateCollaborators:
+        return await addTemplateCollaborators(organization, repoName, step.templateName);
+      case RepositoryWorkflowStepType.RemoveCreatorCollaborator:
+        return await removeOrganizationCollaboratorTask(organization, repoName, this.createResponse);
+      default:
+        throw new Error(`The workflow step type ${step.type} is not supported`);
+    }
   }
+
+  private async saveWorkflowRun(run: RepositoryWorkflowRunEntity): Promise<void> {
+    const workflowRunProvider = this.getWorkflowRunProvider();
+    if (!workflowRunProvider) {
+      return;
+    }
+    run.updated = new Date();
+    try {
+      await workflowRunProvider.updateRun(run);
+    } catch (ignoredError) {
+      console.warn(`The workflow run ${run.runId} for the ${run.repositoryName} repo could not be updated: ${ignoredError.message}`);
+    }
+  }
+
+  private async updateRepositoryMetadata(): Promise<void> {
+    const { operations } = this.organization.getLegacySystemObjects();
+    const repositoryMetadataProvider = operations.providers.repositoryMetadataProvider;
+    if (repositoryMetadataProvider && this.request.repositoryId) {
+      await repositoryMetadataProvider.updateRepositoryMetadata(this.request);
+    }
+  }
+
+  private getWorkflowRunProvider(): IRepositoryWorkflowRunProvider {
+    const { operations } = this.organization.getLegacySystemObjects();
+    return operations.providers.repositoryWorkflowRunProvider;
+  }
+
+  async planNewRepositoryChores(): Promise<IRepositoryWorkflowPlan> {
+    // Describes what executeNewRepositoryChores would do, without calling GitHub
+    const request = this.request;
+    const plan: IRepositoryWorkflowPlan = {
+      teamPermissions: [],
+      templateRepository: null,
+      templateFiles: [],
+      baseline: request.baseline || GetRepositoryBaseline(this.organization, GetRepositoryTemplate(this.organization, request.initialTemplate)),
+      webhook: null,
+      collaborators: [],
+      warnings: [],
+    };
+    for (const { teamId, permission, teamName } of request.initialTeamPermissions) {
+      if (teamId && permission) {
+        plan.teamPermissions.push({ teamId: asNumber(teamId), teamName, permission });
+      }
+    }
+    const templateName = request.initialTemplate;
+    if (templateName) {
+      const templateData = GetRepositoryTemplate(this.organization, templateName);
+      const templateRepository = GetTemplateRepositoryName(this.organization, templateData);
+      if (templateRepository) {
+        plan.templateRepository = `${templateRepository.owner}/${templateRepository.repo}`;
+      } else {
+        const { operations } = this.organization.getLegacySystemObjects();
+        const templatePath = operations.config.github.templates.directory;
+        const templateRoot = path.join(templatePath, templateName);
+        try {
+          const fileNames = await getTemplateFilenames(templateRoot);
+          plan.templateFiles = fileNames.map(fileName => path.relative(templateRoot, fileName));
+        } catch (templateError) {
+          plan.warnings.push(`The files of the ${templateName} template could not be read: ${templateError.message}`);
+        }
+      }
+      if (templateData && templateData.webhook) {
+        plan.webhook = {
+          name: templateData.webhookFriendlyName || templateData.webhook,
+          events: templateData.webhookEvents || ['push'],
+        };
+      }
+      if (templateData && templateData.collaborators) {
+        for (const permission of GitHubRepositoryPermissions) {
+          const users = templateData.collaborators[permission];
+          if (users && Array.isArray(users)) {
+            for (const { username } of users) {
+              plan.collaborators.push({ username, permission });
+            }
+          }
+        }
+      }
+    }
+    return plan;
+  }
+}
+
+// The workflow run of a repository is recorded under the initialCorrelationId
+// of its repository metadata. Repositories created before runs were recorded,
+// or not created by this app, have no run.
+export async function GetRepositoryWorkflowRun(operations: Operations, repositoryId: string): Promise<IRepositoryWorkflowRunWithMetadata> {
+  const { repositoryMetadataProvider, repositoryWorkflowRunProvider } = operations.providers;
+  if (!repositoryMetadataProvider || !repositoryWorkflowRunProvider) {
+    return null;
+  }
+  try {
+    const repositoryMetadata = await repositoryMetadataProvider.getRepositoryMetadata(repositoryId);
+    if (!repositoryMetadata.initialCorrelationId) {
+      return null;
+    }
+    const run = await repositoryWorkflowRunProvider.getRun(repositoryMetadata.initialCorrelationId);
+    return { run, repositoryMetadata };
+  } catch (error) {
+    if (error && error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function RetryRepositoryWorkflowRun(organization: Organization, workflow: IRepositoryWorkflowRunWithMetadata): Promise<IRepositoryWorkflowOutput[]> {
+  const { run, repositoryMetadata } = workflow;
+  if (run.state === RepositoryWorkflowRunState.Succeeded) {
+    return [];
+  }
+  // A run that stopped updating while running was abandoned, for example by a restart
+  const lastUpdated = run.updated || run.started;
+  const isAbandoned = lastUpdated && (Date.now() - new Date(lastUpdated).getTime()) > abandonedRunMinutes * 60 * 1000;
+  if (run.state === RepositoryWorkflowRunState.Running && !isAbandoned) {
+    const error: IReposError = new Error(`The workflow run ${run.runId} for the ${run.repositoryName} repo is still running`);
+    error.status = 409;
+    throw error;
+  }
+  const repoWorkflow = new RepoWorkflowEngine(organization, {
+    id: repositoryMetadata.repositoryId,
+    repositoryMetadata,
+    createResponse: null,
+  });
+  return await repoWorkflow.retryFailedSteps(run);
+}
+
+function createStep(type: RepositoryWorkflowStepType, name: string, options?: Partial<IRepositoryWorkflowStep>): IRepositoryWorkflowStep {
+  return Object.assign({
+    name,
+    type,
+    state: RepositoryWorkflowStepState.Pending,
+    attempts: 0,
+  }, options || {});
 }
 
 async function addTeamPermission(organization: Organization, repoName: string, id: number, teamName: string, permission: GitHubRepositoryPermission): Promise<IRepositoryWorkflowOutput> {
@@ -183,10 +448,7 @@ async function readFileToBase64(templatePath: string, templateName: string, file
 }
 
 async function addTemplateWebHook(organization: Organization, repositoryName: string, templateName: string): Promise<IRepositoryWorkflowOutput> {
-  const { operations } = organization.getLegacySystemObjects();
-  const config = operations.config;
-  const definitions = config.github.templates.definitions;
-  const templateData = definitions ? definitions[templateName] : null;
+  const templateData = GetRepositoryTemplate(organization, templateName);
   if (!templateData || ! templateData.webhook) {
     return null;
   }
@@ -210,7 +472,7 @@ async function addTemplateWebHook(organization: Organization, repositoryName: st
     });
     message = `${friendlyName} webhook added to the repository.`;
   } catch (webhookCreateError) {
-    error = new Error(`The template ${templateName} defines a webhook ${friendlyName}. Adding the webhook failed. ${webhookCreateError.message()}`);
+    error = new Error(`The template ${templateName} defines a webhook ${friendlyName}. Adding the webhook failed. ${webhookCreateError.message}`);
     error.inner = webhookCreateError;
   }
   return {
@@ -219,18 +481,68 @@ async function addTemplateWebHook(organization: Organization, repositoryName: st
   };
 }
 
-async function removeOrganizationCollaboratorTask(organization: Organization, createResponse: any): Promise<IRepositoryWorkflowOutput> {
+async function applyMergeSettings(organization: Organization, repositoryName: string, baseline: IRepositoryBaseline): Promise<IRepositoryWorkflowOutput> {
+  const repository = organization.repository(repositoryName);
+  const mergeMethods = baseline.mergeMethods;
+  const settings: IRepositoryMergeSettings = {
+    deleteBranchOnMerge: baseline.deleteBranchOnMerge,
+  };
+  if (mergeMethods) {
+    settings.allowMergeCommit = mergeMethods.includes(RepositoryMergeMethod.Merge);
+    settings.allowSquashMerge = mergeMethods.includes(RepositoryMergeMethod.Squash);
+    settings.allowRebaseMerge = mergeMethods.includes(RepositoryMergeMethod.Rebase);
+  }
+  try {
+    await repository.editMergeSettings(settings);
+    return { message: `Applied the merge settings of the repository baseline${mergeMethods ? ', allowing ' + mergeMethods.join(', ') : ''}.` };
+  } catch (mergeSettingsError) {
+    const error = new Error(`The merge settings of the repository baseline could not be applied. ${mergeSettingsError.message}`);
+    error['inner'] = mergeSettingsError;
+    return { error, message: error.message };
+  }
+}
+
+async function applyTopics(organization: Organization, repositoryName: string, baseline: IRepositoryBaseline): Promise<IRepositoryWorkflowOutput> {
+  const repository = organization.repository(repositoryName);
+  try {
+    await repository.replaceTopics(baseline.topics);
+    return { message: `Added the topics ${baseline.topics.join(', ')} to the repository.` };
+  } catch (topicsError) {
+    const error = new Error(`The topics ${baseline.topics.join(', ')} of the repository baseline could not be added. ${topicsError.message}`);
+    error['inner'] = topicsError;
+    return { error, message: error.message };
+  }
+}
+
+async function applyBranchProtection(organization: Organization, repositoryName: string, baseline: IRepositoryBaseline): Promise<IRepositoryWorkflowOutput> {
+  const repository = organization.repository(repositoryName);
+  let branch: string = null;
+  try {
+    const details = await repository.getDetails({ backgroundRefresh: false, maxAgeSeconds: -60 });
+    branch = details.default_branch;
+    await repository.setBranchProtection(branch, baseline.branchProtection);
+    return { message: `Protected the ${branch} branch as required by the repository baseline.` };
+  } catch (protectionError) {
+    // An empty repository has no default branch to protect until the first push
+    const reason = protectionError.status === 404 ? 'The branch does not exist yet; retry after the first push.' : protectionError.message;
+    const error = new Error(`The ${branch || 'default'} branch could not be protected as required by the repository baseline. ${reason}`);
+    error['inner'] = protectionError;
+    return { error, message: error.message };
+  }
+}
+
+async function removeOrganizationCollaboratorTask(organization: Organization, repositoryName: string, createResponse: any): Promise<IRepositoryWorkflowOutput> {
   const result = null;
   try {
     const createAccount = await organization.getAuthorizedOperationsAccount();
-    const repositoryName = createResponse.name;
-    const repository = organization.repository(repositoryName, createResponse);
+    const repository = organization.repository(repositoryName, createResponse || undefined);
     await repository.removeCollaborator(createAccount.login);
   } catch (ignoredError) { /* ignored */ }
   return result;
 }
 
-async function createAddTemplateFilesTask(organization: Organization, repoName: string, templateName: string): Promise<IRepositoryWorkflowOutput> {
+async function createAddTemplateFilesTask(organization: Organization, repoName: string, step: IRepositoryWorkflowStep): Promise<IRepositoryWorkflowOutput> {
+  const templateName = step.templateName;
   const { operations } = organization.getLegacySystemObjects();
   const config = operations.config;
   const templatePath = config.github.templates.directory;
@@ -247,7 +559,9 @@ async function createAddTemplateFilesTask(organization: Organization, repoName:
     const fileNames = await getTemplateFilenames(templateRoot);
     const fileContents = await getFileContents(templateRoot, templatePath, templateName, fileNames);
     const message = 'Initial commit';
-    const uploadedFiles = [];
+    // The files committed by an earlier attempt are recorded on the step, as
+    // committing a file that already exists fails
+    const uploadedFiles = step.uploadedFiles = step.uploadedFiles || [];
     let result = {
       error: null,
       message: null,
@@ -255,6 +569,9 @@ async function createAddTemplateFilesTask(organization: Organization, repoName:
     try {
       for (let i = 0; i < fileContents.length; i++) {
         const item = fileContents[i];
+        if (uploadedFiles.includes(item.path)) {
+          continue;
+        }
         await repository.createFile(item.path, item.content, message, alternateTokenOptions);
         uploadedFiles.push(item.path);
       }
@@ -289,10 +606,7 @@ async function authorizeTemplateCommitterAccount(repository: Repository, templat
 }
 
 async function addTemplateCollaborators(organization: Organization, repositoryName: string, templateName: string): Promise<IRepositoryWorkflowOutput> {
-  const { operations } = organization.getLegacySystemObjects();
-  const config = operations.config;
-  const definitions = config.github.templates.definitions;
-  const templateData = definitions ? definitions[templateName] : null;
+  const templateData = GetRepositoryTemplate(organization, templateName);
   if (!templateData || ! templateData.collaborators) {
     return null;
   }
@@ -309,7 +623,7 @@ async function addTemplateCollaborators(organization: Organization, repositoryNa
           messages.push(`Added collaborator ${username} with ${permission} permission`);
           if (acceptInvitationToken) {
             const invitationId = invitation.id;
-            await repository.acceptCollaborationInvite(invitationId, acceptInvitationToken);
+            await repository.acceptCollaborationInvite(invitationId, { alternateToken: acceptInvitationToken });
           }
         } catch (error) {
           errors.push(error.message);
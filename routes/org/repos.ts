@@ -20,6 +20,8 @@ import { TeamPermission } from '../../business/teamPermission';
 import { Collaborator } from '../../business/collaborator';
 import { OrganizationMember } from '../../business/organizationMember';
 import { AddRepositoryPermissionsToRequest } from '../../middleware/github/repoPermissions';
+import { RenderAuditLogHistory } from '../auditLogHistory';
+import { GetRepositoryWorkflowRun, RetryRepositoryWorkflowRun } from './repoWorkflowEngine';
 
 const router = express.Router();
 
@@ -157,6 +159,7 @@ router.get('/:repoName', asyncHandler(AddRepositoryPermissionsToRequest), asyncH
   const gitHubId = req.individualContext.getGitHubIdentity().id;
   const repositoryMetadataEntity = req.repositoryMetadata;
   const repo = decorateRepoForView(await repository.getDetails());
+  const workflow = repoPermissions.allowAdministration ? await GetRepositoryWorkflowRun(operations, repository.id.toString()) : null;
   // const { permissions, collaborators, outsideCollaborators } = await calculateRepoPermissions(organization, repository);
   // const systemTeams = combineAllTeams(organization.specialRepositoryPermissionTeams);
   // const teamBasedPermissions = consolidateTeamPermissions(permissions, systemTeams);
@@ -182,6 +185,7 @@ router.get('/:repoName', asyncHandler(AddRepositoryPermissionsToRequest), asyncH
       fromReposPage,
       // teamBasedPermissions,
       repositoryMetadataEntity,
+      workflowRun: workflow ? workflow.run : null,
     },
   });
 }));
@@ -226,6 +230,86 @@ router.get('/:repoName/permissions', asyncHandler(AddRepositoryPermissionsToRequ
   });
 }));
 
+router.get('/:repoName/history', asyncHandler(AddRepositoryPermissionsToRequest), asyncHandler(async function (req: ILocalRequest, res, next) {
+  const repoPermissions = req.repoPermissions;
+  if (!repoPermissions.allowAdministration) {
+    return next(new Error('You do not have administrative permission on this repository'));
+  }
+  const organization = req.organization;
+  const repository = req.repository;
+  const auditLogRecordProvider = req.app.settings.providers.auditLogRecordProvider;
+  if (!auditLogRecordProvider) {
+    return next(new Error('The audit log is not configured'));
+  }
+  const records = await auditLogRecordProvider.queryAuditLogForRepositoryId(repository.id.toString());
+  return RenderAuditLogHistory(req, res, records, {
+    view: 'repos/history',
+    title: `${repository.name} - History`,
+    filename: `${organization.name}-${repository.name}-history`,
+    state: {
+      organization,
+      repo: decorateRepoForView(repository),
+      reposSubView: 'history',
+      repository,
+      repoPermissions,
+      repositoryMetadataEntity: req.repositoryMetadata,
+    },
+  });
+}));
+
+router.get('/:repoName/setup', asyncHandler(AddRepositoryPermissionsToRequest), asyncHandler(async function (req: ILocalRequest, res, next) {
+  const repoPermissions = req.repoPermissions;
+  if (!repoPermissions.allowAdministration) {
+    return next(new Error('You do not have administrative permission on this repository'));
+  }
+  const operations = req.app.settings.operations as Operations;
+  const organization = req.organization;
+  const repository = req.repository;
+  const workflow = await GetRepositoryWorkflowRun(operations, repository.id.toString());
+  req.individualContext.webContext.render({
+    view: 'repos/setup',
+    title: `${repository.name} - Setup`,
+    state: {
+      organization,
+      repo: decorateRepoForView(repository),
+      reposSubView: 'setup',
+      repository,
+      repoPermissions,
+      repositoryMetadataEntity: req.repositoryMetadata,
+      workflowRun: workflow ? workflow.run : null,
+    },
+  });
+}));
+
+router.post('/:repoName/setup', asyncHandler(AddRepositoryPermissionsToRequest), asyncHandler(async function (req: ILocalRequest, res, next) {
+  const repoPermissions = req.repoPermissions;
+  if (!repoPermissions.allowAdministration) {
+    return next(new Error('You do not have administrative permission on this repository'));
+  }
+  if (!req.body['retry-failed']) {
+    return next(new Error('No supported POST parameters present'));
+  }
+  const operations = req.app.settings.operations as Operations;
+  const repository = req.repository;
+  const workflow = await GetRepositoryWorkflowRun(operations, repository.id.toString());
+  if (!workflow) {
+    return next(new Error(`No setup workflow was recorded for the ${repository.name} repository`));
+  }
+  await RetryRepositoryWorkflowRun(req.organization, workflow);
+  const failed = workflow.run.failedSteps.length;
+  req.insights.trackEvent({
+    name: 'RepositoryWorkflowRetried',
+    properties: {
+      org: repository.organization.name,
+      repo: repository.name,
+      runId: workflow.run.runId,
+      failedSteps: failed.toString(),
+    },
+  });
+  req.individualContext.webContext.saveUserAlert(failed ? `${failed} setup step(s) still failed.` : 'All setup steps have now completed.', 'Repository setup', failed ? 'warning' : 'success');
+  return res.redirect(`${repository.baseUrl}setup/`);
+}));
+
 function consolidateTeamPermissions(permissions, systemTeams) {
   const systemTeamsSet = new Set(systemTeams);
   const filtered = {
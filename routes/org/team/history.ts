@@ -0,0 +1,41 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import express = require('express');
+import asyncHandler from 'express-async-handler';
+import { ReposAppRequest, IProviders } from '../../../transitional';
+import { Team } from '../../../business/team';
+import { RenderAuditLogHistory } from '../../auditLogHistory';
+const router = express.Router();
+const teamAdminRequired = require('./teamAdminRequired');
+
+interface ILocalRequest extends ReposAppRequest {
+  team2?: Team;
+  teamUrl?: string;
+}
+
+router.get('/', teamAdminRequired, asyncHandler(async (req: ILocalRequest, res, next) => {
+  const team2 = req.team2;
+  const providers = req.app.settings.providers as IProviders;
+  const auditLogRecordProvider = providers.auditLogRecordProvider;
+  if (!auditLogRecordProvider) {
+    return next(new Error('The audit log is not configured'));
+  }
+  const records = await auditLogRecordProvider.queryAuditLogForTeamId(team2.id.toString());
+  req.individualContext.webContext.pushBreadcrumb('History');
+  return RenderAuditLogHistory(req, res, records, {
+    view: 'org/team/history',
+    title: `${team2.name} - History`,
+    filename: `${team2.organization.name}-${team2.slug || team2.id}-history`,
+    state: {
+      team: team2,
+      teamUrl: req.teamUrl,
+    },
+  });
+}));
+
+module.exports = router;
@@ -540,6 +540,7 @@ router.use('/members', require('./members'));
 router.get('/repos', lowercaser(['sort', 'language', 'type', 'tt']), require('../../reposPager'));
 router.use('/delete', require('./delete'));
 router.use('/properties', require('./properties'));
+router.use('/history', require('./history'));
 router.use('/maintainers', require('./maintainers'));
 router.use('/leave', require('./leave'));
 
@@ -6,54 +6,118 @@
 'use strict';
 
 import express = require('express');
-import { ReposAppRequest } from '../../../transitional';
+import asyncHandler from 'express-async-handler';
+import { ReposAppRequest, IProviders, IReposError } from '../../../transitional';
+import { Team } from '../../../business/team';
+import { TeamDirectoryGroupEntity } from '../../../entities/teamDirectoryGroup/teamDirectoryGroup';
+import { ITeamDirectoryGroupSyncReport, ParseTeamDirectoryGroupExclusions, RedisKeyTeamDirectoryGroupSyncReport } from '../../../features/teamDirectoryGroupSync';
 import { wrapError } from '../../../utils';
 const router = express.Router();
 const teamAdminRequired = require('./teamAdminRequired');
 
 interface IRequestWithTeamAndLegacy extends ReposAppRequest {
-  team2?: any;
+  team2?: Team;
   teamUrl?: string;
 }
 
-router.get('/', teamAdminRequired, (req: IRequestWithTeamAndLegacy, res, next) => {
+router.get('/', teamAdminRequired, asyncHandler(async (req: IRequestWithTeamAndLegacy, res, next) => {
   const team2 = req.team2;
-  team2.getDetails(error => {
-    if (error) {
-      return next(wrapError(error, 'Had trouble getting the detailed properties for this team.'));
-    }
-    req.individualContext.webContext.pushBreadcrumb('Properties');
-    req.individualContext.webContext.render({
-      view: 'org/team/properties',
-      title: team2.name + ' - Properties',
-      state: {
-        team: team2,
-        teamUrl: req.teamUrl,
-      },
-    });
+  const providers = req.app.settings.providers as IProviders;
+  try {
+    await team2.getDetails();
+  } catch (error) {
+    return next(wrapError(error, 'Had trouble getting the detailed properties for this team.'));
+  }
+  const directoryGroup = await getTeamDirectoryGroup(providers, team2);
+  let directoryGroupSyncReport: ITeamDirectoryGroupSyncReport = null;
+  let directoryGroupSync = null;
+  if (directoryGroup) {
+    directoryGroupSyncReport = await providers.redis.getObjectCompressedAsync(RedisKeyTeamDirectoryGroupSyncReport) as ITeamDirectoryGroupSyncReport;
+    directoryGroupSync = directoryGroupSyncReport ? directoryGroupSyncReport.teams.find(entry => entry.teamId === directoryGroup.teamId) : null;
+  }
+  req.individualContext.webContext.pushBreadcrumb('Properties');
+  req.individualContext.webContext.render({
+    view: 'org/team/properties',
+    title: team2.name + ' - Properties',
+    state: {
+      team: team2,
+      teamUrl: req.teamUrl,
+      directoryAvailable: !!(providers.graphProvider && providers.teamDirectoryGroupProvider),
+      directoryGroup,
+      directoryGroupSync,
+      directoryGroupSyncReport,
+    },
   });
-});
+}));
 
-router.post('/', teamAdminRequired, (req: IRequestWithTeamAndLegacy, res, next) => {
+router.post('/', teamAdminRequired, asyncHandler(async (req: IRequestWithTeamAndLegacy, res, next) => {
   const team2 = req.team2;
   const organization = req.organization;
   const patch = {
     name: req.body.ghname,
     description: req.body.description,
   };
-  team2.edit(patch, error => {
-    if (error) {
-      return next(error);
+  await team2.edit(patch);
+  req.individualContext.webContext.saveUserAlert('Team properties updated on GitHub', 'Properties Saved', 'success');
+  await team2.getDetails();
+  const slug = team2.slug;
+  return res.redirect('/' + organization.name + '/teams/' + slug);
+}));
+
+router.post('/directoryGroup', teamAdminRequired, asyncHandler(async (req: IRequestWithTeamAndLegacy, res, next) => {
+  const team2 = req.team2;
+  const providers = req.app.settings.providers as IProviders;
+  const { graphProvider, teamDirectoryGroupProvider } = providers;
+  if (!graphProvider || !teamDirectoryGroupProvider) {
+    return next(new Error('Directory groups are not configured for this site'));
+  }
+  const existing = await getTeamDirectoryGroup(providers, team2);
+  const groupId = (req.body.groupId || '').trim();
+  if (!groupId) {
+    if (existing) {
+      await teamDirectoryGroupProvider.deleteTeamDirectoryGroup(existing);
+      req.individualContext.webContext.saveUserAlert('The team is no longer bound to a directory group. Its members will not change.', 'Directory Group Removed', 'success');
     }
-    req.individualContext.webContext.saveUserAlert('Team properties updated on GitHub', 'Properties Saved', 'success');
-    team2.getDetails(getDetailsError => {
-      if (getDetailsError) {
-        return next(getDetailsError);
-      }
-      const slug = team2.slug;
-      return res.redirect('/' + organization.name + '/teams/' + slug);
-    });
-  });
-});
+    return res.redirect(req.teamUrl + 'properties/');
+  }
+  const group = await graphProvider.getGroup(groupId);
+  if (!group) {
+    const error: IReposError = new Error(`No directory group was found with the ID ${groupId}`);
+    error.status = 400;
+    return next(error);
+  }
+  const directoryGroup = existing || new TeamDirectoryGroupEntity();
+  directoryGroup.teamId = team2.id.toString();
+  directoryGroup.organizationId = team2.organization.id.toString();
+  directoryGroup.organizationName = team2.organization.name;
+  directoryGroup.teamName = team2.name;
+  directoryGroup.groupId = group.id;
+  directoryGroup.groupDisplayName = group.displayName;
+  directoryGroup.exclusions = ParseTeamDirectoryGroupExclusions(req.body.exclusions);
+  directoryGroup.updated = new Date();
+  directoryGroup.updatedByCorporateId = req.individualContext.corporateIdentity.id;
+  directoryGroup.updatedByThirdPartyUsername = req.individualContext.getGitHubIdentity().username;
+  if (existing) {
+    await teamDirectoryGroupProvider.updateTeamDirectoryGroup(directoryGroup);
+  } else {
+    await teamDirectoryGroupProvider.createTeamDirectoryGroup(directoryGroup);
+  }
+  req.individualContext.webContext.saveUserAlert(`The team members will be synchronized with the ${group.displayName} directory group`, 'Directory Group Saved', 'success');
+  return res.redirect(req.teamUrl + 'properties/');
+}));
+
+async function getTeamDirectoryGroup(providers: IProviders, team: Team): Promise<TeamDirectoryGroupEntity> {
+  if (!providers.teamDirectoryGroupProvider) {
+    return null;
+  }
+  try {
+    return await providers.teamDirectoryGroupProvider.getTeamDirectoryGroup(team.id.toString());
+  } catch (error) {
+    if (error.status === 404) {
+      return null;
+    }
+    throw error;
+  }
+}
 
 module.exports = router;
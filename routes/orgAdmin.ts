@@ -4,10 +4,12 @@
 //
 
 import express = require('express');
+import asyncHandler from 'express-async-handler';
 const router = express.Router();
 import async = require('async');
+import _ from 'lodash';
 
-import { ReposAppRequest } from '../transitional';
+import { ReposAppRequest, IProviders } from '../transitional';
 
 import { requirePortalAdministrationPermission } from '../middleware/business/administration';
 import { ILinkProvider, PostgresLinkProvider } from '../lib/linkProviders/postgres/postgresLinkProvider';
@@ -16,6 +18,8 @@ import { ICorporateLink } from '../business/corporateLink';
 import { Organization } from '../business/organization';
 import { CorporateLinkPostgres } from '../lib/linkProviders/postgres/postgresLink';
 import { Account } from '../business/account';
+import { RenderAuditLogHistory } from './auditLogHistory';
+import { ILinkChangeContext, ILinkHistoryEntry } from '../lib/linkProviders/linkHistory';
 
 // - - - Middleware: require that the user isa portal administrator to continue
 router.use(requirePortalAdministrationPermission);
@@ -116,57 +120,36 @@ async function queryByGitHubLogin(operations: Operations, graphProvider: any, re
 }
 
 function getLinkByThirdPartyUsername(operations: Operations, graphProvider: any, redisClient: any, login: string): Promise<ICorporateLink> {
-  return new Promise((resolve, reject) => {
-    const linkProvider = operations.linkProvider;
-    linkProvider.getByThirdPartyUsername(login, (error, link: ICorporateLink) => {
-      return error ? reject(error) : resolve(link);
-    });
-  });
+  return operations.linkProvider.getByThirdPartyUsername(login);
 }
 
-function queryByGitHubId(operations: Operations, graphProvider: any, redisClient: any, thirdPartyId: string): Promise<IUserInformationQuery> {
-  return new Promise((resolve, reject) => {
-    const linkProvider = operations.linkProvider;
-    linkProvider.getByThirdPartyId(thirdPartyId, (error, link: ICorporateLink) => {
-      if (error) {
-        return reject(error);
-      }
-      const query : IUserInformationQuery = {
-        queryByType: UserQueryByType.ByGitHubId,
-        queryByValue: thirdPartyId,
-      };
-      if (link) {
-        query.link = link;
-      } else {
-        query.noLinkButKnownThirdPartyId = thirdPartyId;
-      }
-      return loadInformation(operations, graphProvider, redisClient, query).then(resolve).catch(reject);
-    });
-  });
+async function queryByGitHubId(operations: Operations, graphProvider: any, redisClient: any, thirdPartyId: string): Promise<IUserInformationQuery> {
+  const link = await operations.linkProvider.getByThirdPartyId(thirdPartyId);
+  const query : IUserInformationQuery = {
+    queryByType: UserQueryByType.ByGitHubId,
+    queryByValue: thirdPartyId,
+  };
+  if (link) {
+    query.link = link;
+  } else {
+    query.noLinkButKnownThirdPartyId = thirdPartyId;
+  }
+  return loadInformation(operations, graphProvider, redisClient, query);
 }
 
-function queryByCorporateUsername(operations: Operations, graphProvider: any, redisClient: any, upn: string): Promise<IUserInformationQuery> {
-  return new Promise((resolve, reject) => {
-    const linkProvider = operations.linkProvider;
-    linkProvider.queryByCorporateUsername(upn, function (error, links: ICorporateLink[]) {
-      if (!error && (!links || links.length !== 1)) {
-        if (!links || links.length <= 0) {
-          error = new Error(`No links were identified for the corporate username ${upn}`);
-        } else {
-          error = new Error(`Too many links (more than one) exist for the corporate username ${upn}`);
-        }
-      }
-      if (error) {
-        return reject(error);
-      }
-      const query : IUserInformationQuery = {
-        queryByType: UserQueryByType.ByCorporateUsername,
-        queryByValue: upn,
-        link: links[0],
-      };
-      return loadInformation(operations, graphProvider, redisClient, query).then(resolve).catch(reject);
-    });
-  });
+async function queryByCorporateUsername(operations: Operations, graphProvider: any, redisClient: any, upn: string): Promise<IUserInformationQuery> {
+  const links = await operations.linkProvider.queryByCorporateUsername(upn);
+  if (!links || links.length <= 0) {
+    throw new Error(`No links were identified for the corporate username ${upn}`);
+  } else if (links.length !== 1) {
+    throw new Error(`Too many links (more than one) exist for the corporate username ${upn}`);
+  }
+  const query : IUserInformationQuery = {
+    queryByType: UserQueryByType.ByCorporateUsername,
+    queryByValue: upn,
+    link: links[0],
+  };
+  return loadInformation(operations, graphProvider, redisClient, query);
 }
 
 async function loadInformation(operations: Operations, graphProvider: any, redisClient: any, query: IUserInformationQuery) : Promise<IUserInformationQuery> {
@@ -317,6 +300,64 @@ router.get('/whois/id/:githubid', function (req: ReposAppRequest, res, next) {
   }).catch(next);
 });
 
+router.get('/whois/id/:githubid/activity', asyncHandler(async function (req: ReposAppRequest, res, next) {
+  const thirdPartyId = req.params.githubid;
+  const providers = req.app.settings.providers as IProviders;
+  const auditLogRecordProvider = providers.auditLogRecordProvider;
+  if (!auditLogRecordProvider) {
+    return next(new Error('The audit log is not configured'));
+  }
+  // Activity covers both the actions the person took and the changes made to their access
+  const asActor = await auditLogRecordProvider.queryAuditLogForActorId(thirdPartyId);
+  const asTarget = await auditLogRecordProvider.queryAuditLogForUserId(thirdPartyId);
+  const records = _.uniqBy(asActor.concat(asTarget), record => record.recordId).sort((a, b) => new Date(b.created).getTime() - new Date(a.created).getTime());
+  const login = records.length ? (records[0].actorId === thirdPartyId ? records[0].actorUsername : records[0].userUsername) : null;
+  return RenderAuditLogHistory(req, res, records, {
+    view: 'organization/whois/activity',
+    title: `Activity for GitHub ID ${thirdPartyId}`,
+    filename: `activity-${thirdPartyId}`,
+    state: {
+      thirdPartyId,
+      login,
+    },
+  });
+}));
+
+router.get('/whois/id/:githubid/linkHistory', asyncHandler(async function (req: ReposAppRequest, res, next) {
+  const thirdPartyId = req.params.githubid;
+  const operations = req.app.settings.providers.operations as Operations;
+  const history = await getLinkHistory(operations.linkProvider, thirdPartyId, null);
+  req.individualContext.webContext.render({
+    view: 'organization/whois/linkHistory',
+    title: `Link history for GitHub ID ${thirdPartyId}`,
+    state: {
+      history,
+      thirdPartyId,
+      backUrl: `/organization/whois/id/${thirdPartyId}`,
+    },
+  });
+}));
+
+router.get('/whois/corporate/:corporateid/linkHistory', asyncHandler(async function (req: ReposAppRequest, res, next) {
+  const corporateId = req.params.corporateid;
+  const operations = req.app.settings.providers.operations as Operations;
+  const history = await getLinkHistory(operations.linkProvider, null, corporateId);
+  const upn = history.map(entry => (entry.current || entry.previous || {}).corporateUsername).find(username => username);
+  req.individualContext.webContext.render({
+    view: 'organization/whois/linkHistory',
+    title: `Link history for corporate ID ${corporateId}`,
+    state: {
+      history,
+      corporateId,
+      backUrl: upn ? `/organization/whois/aad/${upn}` : null,
+    },
+  });
+}));
+
+function getLinkHistory(linkProvider: ILinkProvider, thirdPartyId: string, corporateId: string): Promise<ILinkHistoryEntry[]> {
+  return thirdPartyId ? linkProvider.getHistoryByThirdPartyId(thirdPartyId) : linkProvider.getHistoryByCorporateId(corporateId);
+}
+
 enum IDValueType {
   ID,
   Username,
@@ -327,27 +368,23 @@ interface IIDValue {
   value: string;
 }
 
-router.get('/whois/link/:linkid', function (req: ReposAppRequest, res, next) {
+router.get('/whois/link/:linkid', asyncHandler(async function (req: ReposAppRequest, res, next) {
   const linkId = req.params.linkid;
   const operations = req.app.settings.operations as Operations;
   const linkProvider = operations.linkProvider as PostgresLinkProvider;
-  linkProvider.getByPostgresLinkId(linkId, (getError, link: ICorporateLink) => {
-    if (getError) {
-      return next(getError);
-    }
-    return req.individualContext.webContext.render({
-      view: 'organization/whois/linkEditorPage',
-      title: `Link ${linkId}`,
-      state: {
-        query: {
-          link,
-        }
-      },
-    });
+  const link = await linkProvider.getByPostgresLinkId(linkId);
+  return req.individualContext.webContext.render({
+    view: 'organization/whois/linkEditorPage',
+    title: `Link ${linkId}`,
+    state: {
+      query: {
+        link,
+      }
+    },
   });
-});
+}));
 
-router.post('/whois/link/:linkid', function (req: ReposAppRequest, res, next) {
+router.post('/whois/link/:linkid', asyncHandler(async function (req: ReposAppRequest, res, next) {
   const linkId = req.params.linkid;
   const isLinkDelete = req.body['delete-link'];
   const keys = [
@@ -366,57 +403,42 @@ router.post('/whois/link/:linkid', function (req: ReposAppRequest, res, next) {
   }
   const operations = req.app.settings.operations as Operations;
   const linkProvider = operations.linkProvider as PostgresLinkProvider;
-  linkProvider.getByPostgresLinkId(linkId, (getError, link: CorporateLinkPostgres) => {
-    if (getError) {
-      return next(getError);
-    }
-    const messages = [
-      `Link ID ${linkId}`,
-    ];
-    let hadUpdates = false;
-    for (const key of keys) {
-      // loose comparisons
-      if (!isLinkDelete && link[key] != req.body[key]) {
-        messages.push(`${key}: value has been updated from "${link[key]}" to "${req.body[key]}"`);
-        link[key] = req.body[key];
-        hadUpdates = true;
-      }
-    }
-    const renderOutput = function () {
-      req.individualContext.webContext.render({
-        view: 'organization/whois/linkUpdate',
-        title: `Updating link ${linkId}`,
-        state: {
-          messages,
-          linkId,
-        },
-      });
-    };
-    if (isLinkDelete) {
-      messages.push(`Deleting link ${linkId}`);
-      return linkProvider.deleteLink(link, error => {
-        if (error) {
-          messages.push(error.toString());
-        } else {
-          messages.push('Link deleted OK');
-        }
-        renderOutput();
-      });
+  const link = await linkProvider.getByPostgresLinkId(linkId) as CorporateLinkPostgres;
+  const messages = [
+    `Link ID ${linkId}`,
+  ];
+  let hadUpdates = false;
+  for (const key of keys) {
+    // loose comparisons
+    if (!isLinkDelete && link[key] != req.body[key]) {
+      messages.push(`${key}: value has been updated from "${link[key]}" to "${req.body[key]}"`);
+      link[key] = req.body[key];
+      hadUpdates = true;
     }
-    if (hadUpdates) {
-      messages.push('Updating values');
-      return linkProvider.updateLink(link, updateError => {
-        if (updateError) {
-          return next(updateError);
-        }
-        renderOutput();
-      });
-    } else {
-      messages.push('No link values changed, it was not updated');
-      return renderOutput();
+  }
+  if (isLinkDelete) {
+    messages.push(`Deleting link ${linkId}`);
+    try {
+      await linkProvider.deleteLink(link, getLinkChangeContext(req, 'Deleted from the link editor'));
+      messages.push('Link deleted OK');
+    } catch (error) {
+      messages.push(error.toString());
     }
+  } else if (hadUpdates) {
+    messages.push('Updating values');
+    await linkProvider.updateLink(link, getLinkChangeContext(req, 'Edited in the link editor'));
+  } else {
+    messages.push('No link values changed, it was not updated');
+  }
+  req.individualContext.webContext.render({
+    view: 'organization/whois/linkUpdate',
+    title: `Updating link ${linkId}`,
+    state: {
+      messages,
+      linkId,
+    },
   });
-});
+}));
 
 router.post('/whois/id/:githubid', function (req: ReposAppRequest, res, next) {
   const thirdPartyId = req.params.githubid;
@@ -585,12 +607,19 @@ async function destructiveLogic(operations: Operations, graphProvider, redisClie
   if (action === OperationsAction.MarkAsServiceAccount || action === OperationsAction.UnmarkServiceAccount) {
     const linkProvider = operations.linkProvider;
     state.independentView = true; // no rendering on return
-    return modifyServiceAccount(linkProvider, linkQuery.link, action === OperationsAction.MarkAsServiceAccount, req, res, next);
+    await modifyServiceAccount(linkProvider, linkQuery.link, action === OperationsAction.MarkAsServiceAccount, req, res);
+    return state;
   }
 
   // Account termination
   if (linkQuery && linkQuery.link) {
-    state.results = await operations.terminateLinkAndMemberships(linkQuery.link.thirdPartyId, { purpose: UnlinkPurpose.Operations });
+    const actor = getLinkChangeContext(req);
+    state.results = await operations.terminateLinkAndMemberships(linkQuery.link.thirdPartyId, {
+      purpose: UnlinkPurpose.Operations,
+      reason: 'Removed by a portal administrator',
+      actorCorporateId: actor.actorCorporateId,
+      actorUsername: actor.actorUsername,
+    });
   } else {
     state.messages.push('Could not terminate the account, no link was found');
   }
@@ -598,14 +627,20 @@ async function destructiveLogic(operations: Operations, graphProvider, redisClie
   return state;
 }
 
-function modifyServiceAccount(linkProvider: ILinkProvider, link: ICorporateLink, markAsServiceAccount, req, res, next) {
+async function modifyServiceAccount(linkProvider: ILinkProvider, link: ICorporateLink, markAsServiceAccount, req, res) {
   link.isServiceAccount = markAsServiceAccount ? true : false;
-  linkProvider.updateLink(link, updateError => {
-    if (updateError) {
-      return next(updateError);
-    }
-    res.json(link);
-  });
+  const context = getLinkChangeContext(req, markAsServiceAccount ? 'Marked as a service account' : 'No longer marked as a service account');
+  await linkProvider.updateLink(link, context);
+  res.json(link);
+}
+
+function getLinkChangeContext(req: ReposAppRequest, reason?: string): ILinkChangeContext {
+  const corporateIdentity = req.individualContext.corporateIdentity;
+  return {
+    actorCorporateId: corporateIdentity ? corporateIdentity.id : undefined,
+    actorUsername: corporateIdentity ? corporateIdentity.username : undefined,
+    reason,
+  };
 }
 
 // ----------------------------------------------------------------------------
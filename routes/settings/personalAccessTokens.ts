@@ -10,11 +10,15 @@ import express = require('express');
 
 import { IResponseForSettingsPersonalAccessTokens, ReposAppRequest, IProviders } from '../../transitional';
 import { PersonalAccessToken } from '../../entities/token/token';
+import { GetTokenHashingKey } from '../../entities/token/tokenGenerator';
+import { GetTokenLifetimeDays } from '../../features/tokenLifetime';
 
 interface IPersonalAccessTokenForDisplay {
   active: boolean;
   expired: boolean;
   expires: string;
+  lastUsed: string;
+  usageCount: number;
   identifier: string;
   description: string;
   apis: string[];
@@ -28,7 +32,20 @@ export interface IRequestForSettingsPersonalAccessTokens extends ReposAppRequest
 const router = express.Router();
 
 const serviceName = 'repos-pat';
-const tokenExpirationMs = 1000 * 60 * 60 * 24 * 365; // 365 days
+const defaultMaximumTokenLifetimeDays = 365;
+const tokenLifetimeChoicesDays = [7, 30, 90, 180, 365];
+
+function getMaximumTokenLifetimeDays(req: ReposAppRequest): number {
+  const config = req.app.settings.runtimeConfig;
+  const tokensConfig = config && config.api && config.api.tokens ? config.api.tokens : {};
+  return tokensConfig.maximumLifetimeDays || defaultMaximumTokenLifetimeDays;
+}
+
+function getTokenLifetimeChoices(maximumLifetimeDays: number): number[] {
+  const choices = tokenLifetimeChoicesDays.filter(days => days < maximumLifetimeDays);
+  choices.push(maximumLifetimeDays);
+  return choices;
+}
 
 function translateTableToEntities(personalAccessTokens: PersonalAccessToken[]): IPersonalAccessTokenForDisplay[] {
   return personalAccessTokens.map(pat => {
@@ -39,6 +56,8 @@ function translateTableToEntities(personalAccessTokens: PersonalAccessToken[]):
       active: pat.active,
       expired: pat.isExpired(),
       expires: pat.expires ? pat.expires.toDateString() : null,
+      lastUsed: pat.lastUsed ? pat.lastUsed.toDateString() : null,
+      usageCount: pat.usageCount || 0,
       description: pat.description,
       apis: pat.scopes ? pat.scopes.split(',') : [],
       identifier: pat.getIdentifier(),
@@ -62,11 +81,14 @@ function getPersonalAccessTokens(req: ReposAppRequest, res, next) {
 
 function view(req: IRequestForSettingsPersonalAccessTokens, res) {
   const personalAccessTokens = req.personalAccessTokens;
+  const maximumLifetimeDays = getMaximumTokenLifetimeDays(req);
   req.individualContext.webContext.render({
     view: 'settings/personalAccessTokens',
     title: 'Personal access tokens',
     state: {
       personalAccessTokens,
+      lifetimeChoices: getTokenLifetimeChoices(maximumLifetimeDays),
+      maximumLifetimeDays,
       newKey: res.newKey,
       isPreviewUser: true, //req.isPreviewUser,
     },
@@ -98,22 +120,34 @@ function createToken(req: ReposAppRequest, res, next) {
   if (!description) {
     return next(new Error('A description is required to create a new Personal Access Token'));
   }
+  let lifetimeDays: number = null;
+  try {
+    lifetimeDays = GetTokenLifetimeDays(req.body.lifetime, getMaximumTokenLifetimeDays(req));
+  } catch (lifetimeError) {
+    return next(lifetimeError);
+  }
   const corporateId = req.individualContext.corporateIdentity.id;
-  const token = PersonalAccessToken.CreateNewToken();
-  token.corporateId = corporateId;
-  token.description = description;
-  const now = new Date();
-  token.expires = new Date(now.getTime() + tokenExpirationMs);
-  token.source = serviceName;
-  token.scopes = 'extension,links';
   insights.trackEvent({
     name: 'ReposCreateTokenStart',
     properties: {
       id: corporateId,
       description: description,
+      lifetimeDays: lifetimeDays.toString(),
     },
   });
-  tokenProvider.saveNewToken(token).then(ok => {
+  GetTokenHashingKey(providers).then(hashingKey => {
+    if (!hashingKey) {
+      throw new Error('Personal Access Tokens cannot be created: no token hashing key is configured');
+    }
+    const token = PersonalAccessToken.CreateNewToken(hashingKey);
+    token.corporateId = corporateId;
+    token.description = description;
+    const now = new Date();
+    token.expires = new Date(now.getTime() + 1000 * 60 * 60 * 24 * lifetimeDays);
+    token.source = serviceName;
+    token.scopes = 'extension,links';
+    return tokenProvider.saveNewToken(token).then(() => token);
+  }).then(token => {
     insights.trackEvent({
       name: 'ReposCreateTokenFinish',
       properties: {
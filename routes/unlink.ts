@@ -70,6 +70,8 @@ router.post('/', asyncHandler(async function (req: ReposAppRequest, res, next) {
   const terminationOptions = {
     reason: 'User used the unlink function on the web site',
     purpose: UnlinkPurpose.Self,
+    actorCorporateId: req.individualContext.corporateIdentity.id,
+    actorUsername: req.individualContext.corporateIdentity.username,
   };
   let history: string[] = [];
   let error = null;
@@ -0,0 +1,89 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import 'mocha';
+
+const assert = require('chai').assert;
+
+import { CreateAuditLogRecordFromEvent } from '../webhooks/tasks/auditLog';
+import { CreateAuditLogRecordProviderInstance } from '../entities/auditLogRecord';
+import { MemoryEntityMetadataProvider } from '../lib/entityMetadataProvider/memory';
+import { Organization } from '../business/organization';
+import { FilterAuditLogRecords, AuditLogRecordsToCsv, GetAuditLogHistoryFilter } from '../routes/auditLogHistory';
+
+const organization = { id: 1, name: 'contoso' } as any as Organization;
+
+function createEvent(delivery: string, started: string, event: string, body: any) {
+  return {
+    properties: { delivery, event, started },
+    body: Object.assign({
+      sender: { id: 10, login: 'octocat' },
+      organization: { id: 1, login: 'contoso' },
+    }, body),
+  };
+}
+
+describe('audit log', () => {
+  it('normalizes a team membership event', () => {
+    const record = CreateAuditLogRecordFromEvent(organization, createEvent('d1', '2020-01-01T00:00:00Z', 'membership', {
+      action: 'removed',
+      scope: 'team',
+      member: { id: 20, login: 'hubot' },
+      team: { id: 30, name: 'Everyone' },
+    }));
+    assert.equal(record.recordId, 'd1');
+    assert.equal(record.action, 'membership.removed');
+    assert.equal(record.actorId, '10');
+    assert.equal(record.userUsername, 'hubot');
+    assert.equal(record.teamId, '30');
+    assert.equal(record.organizationName, 'contoso');
+    assert.equal(record.created.toISOString(), '2020-01-01T00:00:00.000Z');
+  });
+
+  it('queries records by actor, repository and time range', async () => {
+    const entityMetadataProvider = new MemoryEntityMetadataProvider();
+    await entityMetadataProvider.initialize();
+    const provider = await CreateAuditLogRecordProviderInstance({ entityMetadataProvider });
+    await provider.insertRecord(CreateAuditLogRecordFromEvent(organization, createEvent('d1', '2020-01-01T00:00:00Z', 'repository', {
+      action: 'created',
+      repository: { id: 40, name: 'app' },
+    })));
+    await provider.insertRecord(CreateAuditLogRecordFromEvent(organization, createEvent('d2', '2020-02-01T00:00:00Z', 'repository', {
+      action: 'privatized',
+      repository: { id: 40, name: 'app' },
+      sender: { id: 11, login: 'monalisa' },
+    })));
+    const byRepository = await provider.queryAuditLogForRepositoryId('40');
+    assert.deepEqual(byRepository.map(record => record.recordId), ['d2', 'd1'], 'most recent first');
+    const byActor = await provider.queryAuditLogForActorId('11');
+    assert.deepEqual(byActor.map(record => record.action), ['repository.privatized']);
+    const inJanuary = await provider.queryAuditLogByTimeRange(new Date('2020-01-01T00:00:00Z'), new Date('2020-02-01T00:00:00Z'));
+    assert.deepEqual(inJanuary.map(record => record.recordId), ['d1']);
+  });
+
+  describe('history', () => {
+    const records = [
+      CreateAuditLogRecordFromEvent(organization, createEvent('d1', '2020-01-01T12:00:00Z', 'member', { action: 'added', repository: { id: 40, name: 'app' } })),
+      CreateAuditLogRecordFromEvent(organization, createEvent('d2', '2020-01-02T12:00:00Z', 'member', { action: 'removed', repository: { id: 40, name: 'app,"legacy"' } })),
+      CreateAuditLogRecordFromEvent(organization, createEvent('d3', '2020-01-03T12:00:00Z', 'repository', { action: 'archived', repository: { id: 40, name: '=app' } })),
+    ];
+
+    it('filters by action, event and inclusive dates', () => {
+      assert.deepEqual(FilterAuditLogRecords(records, { action: 'member.removed' }).map(record => record.recordId), ['d2']);
+      assert.deepEqual(FilterAuditLogRecords(records, { action: 'member' }).map(record => record.recordId), ['d1', 'd2']);
+      assert.deepEqual(FilterAuditLogRecords(records, GetAuditLogHistoryFilter({ from: '2020-01-02', to: '2020-01-03' })).map(record => record.recordId), ['d2', 'd3']);
+      assert.deepEqual(GetAuditLogHistoryFilter({ from: 'yesterday' }), {});
+    });
+
+    it('exports escaped CSV', () => {
+      const lines = AuditLogRecordsToCsv(records).trim().split('\r\n');
+      assert.equal(lines.length, 4);
+      assert.include(lines[2], '"app,""legacy"""');
+      assert.include(lines[3], '\'=app');
+    });
+  });
+});
@@ -0,0 +1,66 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import 'mocha';
+
+const assert = require('chai').assert;
+
+import { MemoryDirectoryProvider } from '../lib/graphProvider/memoryDirectoryProvider';
+
+function createProvider() {
+  return new MemoryDirectoryProvider({
+    users: [
+      { id: '1', userPrincipalName: 'ceo@contoso.com', displayName: 'Chief', mail: 'ceo@contoso.com' },
+      { id: '2', userPrincipalName: 'lead@contoso.com', displayName: 'Team Lead', mail: 'lead@contoso.com', managerId: '1', groupIds: ['leads'] },
+      { id: '3', userPrincipalName: 'dev@contoso.com', displayName: 'Developer', mail: 'dev@contoso.com', managerId: '2', groupIds: ['engineering'] },
+    ],
+    groups: [
+      { id: 'engineering', displayName: 'Engineering' },
+      { id: 'leads', displayName: 'Leads' },
+    ],
+  });
+}
+
+describe('directory providers', () => {
+  it('looks up users, managers and groups', async () => {
+    const provider = createProvider();
+    assert.equal((await provider.getUser('dev@contoso.com')).id, '3');
+    assert.isNull(await provider.getUser('gone@contoso.com'));
+    assert.deepEqual((await provider.searchUsers('lead')).map(user => user.id), ['2']);
+    assert.deepEqual((await provider.getManagerChain('3')).map(user => user.id), ['2', '1']);
+    assert.deepEqual((await provider.getGroupMemberships('3')).map(group => group.id), ['engineering']);
+    assert.deepEqual((await provider.getGroupMembers('leads')).map(user => user.userPrincipalName), ['lead@contoso.com']);
+  });
+
+  it('supports the callback methods of the graph provider', done => {
+    const provider = createProvider();
+    provider.getUserAndManagerById('3', (error, user) => {
+      assert.isNull(error);
+      assert.equal(user.manager.mail, 'lead@contoso.com');
+      provider.getUserById('gone', notFound => {
+        assert.equal(notFound.status, 404);
+        done();
+      });
+    });
+  });
+
+  it('calls the callback once, after the lookup has completed', done => {
+    const provider = createProvider();
+    const calls = [];
+    provider.getManagerById('1', (error, manager) => {
+      calls.push(error ? error.status : manager.id);
+    });
+    provider.getManagerById('3', (error, manager) => {
+      calls.push(error ? error.status : manager.id);
+    });
+    assert.lengthOf(calls, 0);
+    setTimeout(() => {
+      assert.sameMembers(calls, [404, '2']);
+      done();
+    }, 10);
+  });
+});
@@ -0,0 +1,106 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import 'mocha';
+
+const assert = require('chai').assert;
+
+import { MemoryLinkProvider } from '../lib/linkProviders/memory/memoryLinkProvider';
+import { PostgresLinkProvider } from '../lib/linkProviders/postgres/postgresLinkProvider';
+import { CreateLinkHistoryEntry, ILinkHistoryEntry, LinkHistoryAction, ReportLinkHistoryFailure } from '../lib/linkProviders/linkHistory';
+
+function createPostgresPool(statements: string[], failingTable?: string) {
+  const client = {
+    query: async (sql: string, values?: any[]) => {
+      const statement = sql.trim().split(/\s+/).slice(0, 3).join(' ');
+      statements.push(statement);
+      if (failingTable && statement === `INSERT INTO ${failingTable}(`) {
+        throw new Error('The history table is unavailable');
+      }
+      return { rowCount: 1, rows: [] };
+    },
+    release: () => statements.push('release'),
+  };
+  return { connect: async () => client };
+}
+
+const postgresLink = {
+  corporateId: 'aad-2',
+  corporateUsername: 'bob@contoso.com',
+  thirdPartyId: '200',
+  thirdPartyUsername: 'bob',
+} as any;
+
+describe('linkHistory', () => {
+  it('records creates, updates and deletes with the values and actor', async () => {
+    const provider = new MemoryLinkProvider({}, {});
+    await provider.initialize();
+    const link = {
+      corporateId: 'aad-1',
+      corporateUsername: 'alice@contoso.com',
+      corporateDisplayName: 'Alice',
+      thirdPartyId: '100',
+      thirdPartyUsername: 'alice-old',
+      thirdPartyAvatar: 'https://avatars/1',
+      isServiceAccount: false,
+      serviceAccountMail: undefined,
+    };
+    await provider.createLink(link, { actorCorporateId: 'aad-1', reason: 'Linked' });
+
+    const stored = await provider.getByThirdPartyId('100');
+    stored.thirdPartyUsername = 'alice-new';
+    await provider.updateLink(stored, { actorUsername: 'refreshUsernames' });
+    await provider.updateLink(stored); // no changes, no entry
+
+    await provider.deleteLink(stored, { purpose: 'termination', reason: 'Departed' });
+
+    const history = await provider.getHistoryByCorporateId('aad-1');
+    assert.sameMembers(history.map(entry => entry.action), [LinkHistoryAction.Create, LinkHistoryAction.Update, LinkHistoryAction.Delete]);
+    const update = history.find(entry => entry.action === LinkHistoryAction.Update);
+    assert.deepEqual(update.previous, { thirdPartyUsername: 'alice-old' });
+    assert.deepEqual(update.current, { thirdPartyUsername: 'alice-new' });
+    assert.equal(update.actorUsername, 'refreshUsernames');
+    const deleted = history.find(entry => entry.action === LinkHistoryAction.Delete);
+    assert.equal(deleted.previous.thirdPartyUsername, 'alice-new');
+    assert.equal(deleted.purpose, 'termination');
+    assert.isNull(deleted.current);
+
+    const byThirdPartyId = await provider.getHistoryByThirdPartyId('100');
+    assert.equal(byThirdPartyId.length, 3);
+  });
+
+  it('writes a Postgres link and its history in one transaction', async () => {
+    const statements = [];
+    const provider = new PostgresLinkProvider({ postgresPool: createPostgresPool(statements) }, { tableName: 'links' });
+    const linkId = await provider.createLink(postgresLink, { reason: 'Linked' });
+    assert.isString(linkId);
+    assert.deepEqual(statements, ['BEGIN', 'INSERT INTO links(', 'INSERT INTO linkshistory(', 'COMMIT', 'release']);
+  });
+
+  it('does not store a Postgres link change when its history cannot be stored', async () => {
+    const statements = [];
+    const provider = new PostgresLinkProvider({ postgresPool: createPostgresPool(statements, 'linkshistory') }, { tableName: 'links' });
+    let error = null;
+    try {
+      await provider.createLink(postgresLink);
+    } catch (createError) {
+      error = createError;
+    }
+    assert.match(error.message, /history table is unavailable/);
+    assert.deepEqual(statements, ['BEGIN', 'INSERT INTO links(', 'INSERT INTO linkshistory(', 'ROLLBACK', 'release']);
+  });
+
+  it('reports a history entry that could not be stored with the entry', () => {
+    const events = [];
+    const insights = { trackException: () => {}, trackEvent: event => events.push(event) };
+    const entry = CreateLinkHistoryEntry(LinkHistoryAction.Delete, 'link-1', postgresLink, postgresLink, null, { reason: 'Departed' });
+    ReportLinkHistoryFailure(insights, entry, new Error('unavailable'));
+    assert.equal(events.length, 1);
+    assert.equal(events[0].properties.linkId, 'link-1');
+    assert.equal(JSON.parse(events[0].properties.entry).reason, 'Departed');
+  });
+});
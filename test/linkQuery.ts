@@ -0,0 +1,62 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import 'mocha';
+
+const assert = require('chai').assert;
+
+import { MemoryLinkProvider } from '../lib/linkProviders/memory/memoryLinkProvider';
+import { GetLinkQueryPageSize, LinkMatchesQuery, MaximumLinkQueryPageSize } from '../lib/linkProviders/linkQuery';
+
+async function createProvider(): Promise<MemoryLinkProvider> {
+  const provider = new MemoryLinkProvider({}, {});
+  await provider.initialize();
+  const links = [
+    { corporateId: 'aad-1', corporateUsername: 'alice@contoso.com', thirdPartyId: '1', thirdPartyUsername: 'Alice', isServiceAccount: false },
+    { corporateId: 'aad-2', corporateUsername: 'bob@contoso.com', thirdPartyId: '2', thirdPartyUsername: 'bob' },
+    { corporateId: 'aad-2', corporateUsername: 'bob@contoso.com', thirdPartyId: '3', thirdPartyUsername: 'bob-bot', isServiceAccount: true, serviceAccountMail: 'bob@contoso.com' },
+    { corporateId: 'aad-3', corporateUsername: 'carol@contoso.com', thirdPartyId: '4', thirdPartyUsername: 'carol' },
+  ];
+  for (const link of links) {
+    await provider.createLink(link as any);
+  }
+  return provider;
+}
+
+describe('linkQuery', () => {
+  it('filters links by identity, username and service account', async () => {
+    const provider = await createProvider();
+    assert.deepEqual((await provider.queryLinks({ thirdPartyUsername: 'alice' })).links.map(link => link.thirdPartyId), ['1']);
+    assert.deepEqual((await provider.queryLinks({ thirdPartyId: '3' })).links.map(link => link.thirdPartyUsername), ['bob-bot']);
+    assert.sameMembers((await provider.queryLinks({ corporateId: 'aad-2' })).links.map(link => link.thirdPartyId), ['2', '3']);
+    assert.sameMembers((await provider.queryLinks({ corporateUsername: 'BOB@contoso.com', isServiceAccount: false })).links.map(link => link.thirdPartyId), ['2']);
+    assert.equal((await provider.queryLinks({ thirdPartyUsername: 'dave' })).links.length, 0);
+    assert.equal(await provider.countLinks({ isServiceAccount: true }), 1);
+    assert.equal(await provider.countLinks({ isServiceAccount: false }), 3);
+    assert.equal(await provider.countLinks(), 4);
+  });
+
+  it('pages through links with a continuation', async () => {
+    const provider = await createProvider();
+    const first = await provider.queryLinks({}, { pageSize: 3 });
+    assert.equal(first.links.length, 3);
+    assert.isString(first.continuation);
+    const second = await provider.queryLinks({}, { pageSize: 3, continuation: first.continuation });
+    assert.equal(second.links.length, 1);
+    assert.isNull(second.continuation);
+    const ids = first.links.concat(second.links).map(link => link.thirdPartyId);
+    assert.sameMembers(ids, ['1', '2', '3', '4']);
+  });
+
+  it('validates page sizes and matches provider entities through a mapping', () => {
+    assert.equal(GetLinkQueryPageSize({ pageSize: 1000000 }), MaximumLinkQueryPageSize);
+    assert.throws(() => GetLinkQueryPageSize({ pageSize: -1 }));
+    const mapping = { thirdPartyId: 'ghid', thirdPartyUsername: 'ghu', isServiceAccount: 'serviceAccount' };
+    assert.isTrue(LinkMatchesQuery({ ghid: 5, ghu: 'Octocat' }, { thirdPartyId: '5', thirdPartyUsername: 'octocat', isServiceAccount: false }, mapping));
+    assert.isFalse(LinkMatchesQuery({ ghid: 5, ghu: 'Octocat', serviceAccount: true }, { isServiceAccount: false }, mapping));
+  });
+});
@@ -0,0 +1,86 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import 'mocha';
+
+const assert = require('chai').assert;
+
+import MemberWebhookProcessor from '../webhooks/tasks/member';
+import QueryCache from '../business/queryCache';
+import { OrganizationMembershipState } from '../business/organization';
+import { GitHubCollaboratorType } from '../business/repository';
+import { GitHubRepositoryPermission } from '../entities/repositoryMetadata/repositoryMetadata';
+import { CreateRepositoryCollaboratorCacheProviderInstance } from '../entities/repositoryCollaboratorCache';
+import { MemoryEntityMetadataProvider } from '../lib/entityMetadataProvider/memory';
+
+async function createOperations() {
+  const entityMetadataProvider = new MemoryEntityMetadataProvider();
+  await entityMetadataProvider.initialize();
+  const repositoryCollaboratorCacheProvider = await CreateRepositoryCollaboratorCacheProviderInstance({ entityMetadataProvider });
+  const queryCache = new QueryCache({ repositoryCollaboratorCacheProvider } as any);
+  const operations = { providers: { queryCache } } as any;
+  return { operations, queryCache, repositoryCollaboratorCacheProvider };
+}
+
+function createOrganization(collaborator: any) {
+  return {
+    id: 1,
+    name: 'contoso',
+    repository: (name: string) => ({
+      name,
+      getCollaborator: async () => ({
+        permission: collaborator.permission,
+        asGitHubRepositoryPermission: () => collaborator.permission,
+      }),
+    }),
+    getMembership: async () => collaborator.isMember ? { state: OrganizationMembershipState.Active } : null,
+  } as any;
+}
+
+function createMemberEvent(action: string, previousPermission?: string) {
+  return {
+    properties: { event: 'member' },
+    body: {
+      action,
+      changes: previousPermission ? { permission: { from: previousPermission } } : undefined,
+      organization: { id: 1, login: 'contoso' },
+      repository: { id: 40, name: 'app' },
+      member: { id: 7, login: 'octocat', avatar_url: 'https://avatars/7' },
+      sender: { id: 8, login: 'admin' },
+    },
+  };
+}
+
+describe('member webhooks', () => {
+  it('updates the cached permission of an edited collaborator', async () => {
+    const { operations, queryCache, repositoryCollaboratorCacheProvider } = await createOperations();
+    await queryCache.addOrUpdateCollaborator('1', '40', 'app', '7', 'octocat', 'https://avatars/7', GitHubRepositoryPermission.Pull, GitHubCollaboratorType.Outside);
+    const processor = new MemberWebhookProcessor();
+    const collaborator = { permission: GitHubRepositoryPermission.Admin, isMember: true };
+
+    await processor.run(operations, createOrganization(collaborator), createMemberEvent('edited', 'read'));
+    let cached = await repositoryCollaboratorCacheProvider.getRepositoryCollaboratorCacheByUserId('1', '40', '7');
+    assert.equal(cached.permission, GitHubRepositoryPermission.Admin);
+    assert.equal(cached.collaboratorType, GitHubCollaboratorType.Direct);
+
+    collaborator.permission = GitHubRepositoryPermission.Push;
+    collaborator.isMember = false;
+    await processor.run(operations, createOrganization(collaborator), createMemberEvent('edited', 'admin'));
+    cached = await repositoryCollaboratorCacheProvider.getRepositoryCollaboratorCacheByUserId('1', '40', '7');
+    assert.equal(cached.permission, GitHubRepositoryPermission.Push);
+    assert.equal(cached.collaboratorType, GitHubCollaboratorType.Outside);
+
+    await processor.run(operations, createOrganization(collaborator), createMemberEvent('removed'));
+    let error = null;
+    try {
+      await repositoryCollaboratorCacheProvider.getRepositoryCollaboratorCacheByUserId('1', '40', '7');
+    } catch (notFound) {
+      error = notFound;
+    }
+    assert.equal(error && error.status, 404);
+  });
+});
@@ -0,0 +1,77 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import 'mocha';
+
+const assert = require('chai').assert;
+
+import NewRepositoryLockdownSystem, { GetPermittedLockdownBots, IsPermittedLockdownBot } from '../features/newRepositoryLockdown';
+
+function createLockdownSystem() {
+  const createdMetadata = [];
+  const operations = {
+    systemAccountsByUsername: ['PortalOps'],
+    getApplications: () => [{ slug: 'contoso-portal-operations' }, { slug: 'contoso-portal-ui' }],
+    getLinkByThirdPartyId: async () => { throw new Error('No link'); },
+    getOperationsMailAddress: () => null,
+  } as any;
+  const organization = {
+    id: 1,
+    name: 'contoso',
+    newRepositoryLockdownPermittedBots: ['dependabot', 'renovate[bot]'],
+    isNewRepositoryLockdownSystemEnabled: () => true,
+  } as any;
+  const repositoryMetadataProvider = {
+    getRepositoryMetadata: async () => { throw new Error('Not found'); },
+    createRepositoryMetadata: async metadata => createdMetadata.push(metadata),
+  } as any;
+  const repository = { id: 10, name: 'app' } as any;
+  const lockdownSystem = new NewRepositoryLockdownSystem({ operations, organization, repository, repositoryMetadataProvider });
+  const lockedDown = [];
+  lockdownSystem.lockdownRepository = async () => { lockedDown.push(repository.name); };
+  return { lockdownSystem, operations, organization, createdMetadata, lockedDown };
+}
+
+describe('new repository lockdown', () => {
+  it('permits bots by GitHub App slug or complete login, and users only when listed explicitly', () => {
+    const permitted = [' dependabot ', 'renovate[bot]', 'user:ReleaseBot', ''];
+    assert.isTrue(IsPermittedLockdownBot(permitted, 'Dependabot[bot]'));
+    assert.isFalse(IsPermittedLockdownBot(permitted, 'dependabot'));
+    assert.isTrue(IsPermittedLockdownBot(permitted, 'renovate[bot]'));
+    assert.isFalse(IsPermittedLockdownBot(permitted, 'renovate'));
+    assert.isTrue(IsPermittedLockdownBot(permitted, 'releasebot'));
+    assert.isFalse(IsPermittedLockdownBot(permitted, 'releasebot[bot]'));
+    assert.isFalse(IsPermittedLockdownBot(permitted, 'dependabot-preview[bot]'));
+    assert.isFalse(IsPermittedLockdownBot(null, 'dependabot[bot]'));
+  });
+
+  it('always permits the GitHub Apps of the portal', () => {
+    const { operations, organization } = createLockdownSystem();
+    const permitted = GetPermittedLockdownBots(operations, organization);
+    assert.sameMembers(permitted, ['dependabot', 'renovate[bot]', 'contoso-portal-operations', 'contoso-portal-ui']);
+    organization.newRepositoryLockdownPermittedBots = [];
+    assert.isTrue(IsPermittedLockdownBot(GetPermittedLockdownBots(operations, organization), 'contoso-portal-operations[bot]'));
+    assert.isFalse(IsPermittedLockdownBot(GetPermittedLockdownBots(operations, organization), 'contoso-portal-operations'));
+  });
+
+  it('does not lock down repositories created by the portal, permitted bots or system accounts', async () => {
+    const { lockdownSystem, lockedDown, createdMetadata } = createLockdownSystem();
+    assert.isFalse(await lockdownSystem.lockdownIfNecessary('contoso-portal-operations[bot]', 1));
+    assert.isFalse(await lockdownSystem.lockdownIfNecessary('dependabot[bot]', 2));
+    assert.isFalse(await lockdownSystem.lockdownIfNecessary('portalops', 3));
+    assert.equal(lockedDown.length, 0);
+    assert.equal(createdMetadata.length, 0);
+  });
+
+  it('locks down repositories created by users and other bots', async () => {
+    const { lockdownSystem, lockedDown, createdMetadata } = createLockdownSystem();
+    assert.isTrue(await lockdownSystem.lockdownIfNecessary('octocat', 4));
+    assert.isTrue(await lockdownSystem.lockdownIfNecessary('unknown-app[bot]', 5));
+    assert.equal(lockedDown.length, 2);
+    assert.deepEqual(createdMetadata.map(metadata => metadata.createdByThirdPartyUsername), ['octocat', 'unknown-app[bot]']);
+  });
+});
@@ -0,0 +1,33 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import 'mocha';
+
+const assert = require('chai').assert;
+
+import { IsDepartureConfirmed, RecordDirectoryNotFound } from '../features/offboarding';
+
+const link = { corporateId: 'aad-1', thirdPartyId: '100', thirdPartyUsername: 'octocat' } as any;
+const options = { gracePeriodDays: 7, minimumNotFoundCount: 3 };
+
+describe('offboarding', () => {
+  it('confirms a departure after repeated lookups through the grace period', () => {
+    const first = RecordDirectoryNotFound(null, link, new Date('2020-01-01T00:00:00Z'));
+    const second = RecordDirectoryNotFound(first, link, new Date('2020-01-02T00:00:00Z'));
+    const third = RecordDirectoryNotFound(second, link, new Date('2020-01-03T00:00:00Z'));
+    assert.equal(third.firstNotFound, '2020-01-01T00:00:00.000Z');
+    assert.equal(third.notFoundCount, 3);
+    assert.isFalse(IsDepartureConfirmed(third, options, new Date('2020-01-03T00:00:00Z')));
+    assert.isTrue(IsDepartureConfirmed(third, options, new Date('2020-01-08T00:00:00Z')));
+  });
+
+  it('requires the minimum number of lookups even after the grace period', () => {
+    const first = RecordDirectoryNotFound(null, link, new Date('2020-01-01T00:00:00Z'));
+    assert.isFalse(IsDepartureConfirmed(first, options, new Date('2020-02-01T00:00:00Z')));
+    assert.isFalse(IsDepartureConfirmed(null, options, new Date('2020-02-01T00:00:00Z')));
+  });
+});
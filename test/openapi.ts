@@ -0,0 +1,361 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import 'mocha';
+import express from 'express';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+
+const assert = require('chai').assert;
+const Ajv = require('ajv');
+const bodyParser = require('body-parser');
+
+import { ApiVersions, OpenApiDocument, OrganizationApiVersions } from '../routes/api/openapi';
+import { PersonalAccessToken } from '../entities/token/token';
+import { CreateRepository } from '../routes/api/createRepo';
+import { ILinkQuery, LinkMatchesQuery } from '../lib/linkProviders/linkQuery';
+import { RepositoryWorkflowRunEntity, RepositoryWorkflowRunState, RepositoryWorkflowStepState, RepositoryWorkflowStepType } from '../entities/repositoryWorkflowRun/repositoryWorkflowRun';
+
+// Contract tests: responses of the actual routers, backed by in-memory
+// providers, must validate against the published OpenAPI document.
+
+function toJsonSchema(value: any): any {
+  // OpenAPI 3.0 "nullable" is not JSON Schema
+  if (Array.isArray(value)) {
+    return value.map(toJsonSchema);
+  }
+  if (!value || typeof(value) !== 'object') {
+    return value;
+  }
+  const clone = {};
+  for (const key of Object.getOwnPropertyNames(value)) {
+    if (key !== 'nullable') {
+      clone[key] = toJsonSchema(value[key]);
+    }
+  }
+  if (value.nullable === true && value.type) {
+    clone['type'] = [value.type, 'null'];
+  }
+  return clone;
+}
+
+const ajv = new Ajv({ unknownFormats: 'ignore' });
+ajv.addSchema({ components: toJsonSchema(OpenApiDocument.components) }, 'openapi');
+
+function assertMatchesContract(path: string, method: string, status: number, body: any) {
+  const operation = OpenApiDocument.paths[path][method];
+  assert.isOk(operation, `${method} ${path} is documented`);
+  const response = resolveResponse(operation.responses[status.toString()]);
+  assert.isOk(response, `${method} ${path} documents a ${status} response`);
+  const schema = response.content['application/json'].schema;
+  const validate = ajv.compile(toJsonSchema(rewriteReferences(schema)));
+  const valid = validate(body);
+  assert.isTrue(valid, `${method} ${path} ${status}: ${ajv.errorsText(validate.errors)}`);
+}
+
+function resolveResponse(response: any): any {
+  if (response && response.$ref) {
+    return OpenApiDocument.components.responses[response.$ref.split('/').pop()];
+  }
+  return response;
+}
+
+function rewriteReferences(schema: any): any {
+  return JSON.parse(JSON.stringify(schema).replace(/"#\/components\//g, '"openapi#/components/'));
+}
+
+function createLinkFixtures() {
+  const links = [
+    {
+      thirdPartyId: '1',
+      thirdPartyUsername: 'octocat',
+      thirdPartyAvatar: 'https://avatars/octocat',
+      corporateId: 'aad-1',
+      corporateUsername: 'octocat@contoso.com',
+      corporateDisplayName: 'Octo Cat',
+      isServiceAccount: false,
+      created: new Date('2020-01-01T00:00:00Z'),
+    },
+    {
+      thirdPartyId: '2',
+      thirdPartyUsername: 'hubot',
+      corporateId: 'aad-2',
+      corporateUsername: 'hubot@contoso.com',
+      corporateDisplayName: 'Hubot',
+      isServiceAccount: true,
+      serviceAccountMail: 'robots@contoso.com',
+    },
+  ];
+  const members = new Map();
+  members.set(1, { id: 1, orgs: { contoso: { id: 1, login: 'octocat', avatar_url: 'https://avatars/octocat' } } });
+  return {
+    getLinks: async () => links,
+    queryLinks: async (query: ILinkQuery) => ({ links: links.filter(link => LinkMatchesQuery(link, query)), continuation: null }),
+    getMembers: async () => members,
+    mailAddressProvider: {
+      getCorporateEntry: (hashKey, field, json, callback) => callback(new Error('No directory in tests')),
+    },
+  };
+}
+
+function createQueryCacheFixtures() {
+  const team = {
+    id: 5,
+    toSimpleJsonObject: () => {
+      return { id: 5, name: 'Developers', slug: 'developers', description: null, repos_count: 1, members_count: 2, created_at: '2020-01-01T00:00:00Z', updated_at: '2020-01-02T00:00:00Z' };
+    },
+  };
+  const repository = {
+    repository: { name: 'app' },
+    cacheEntity: {
+      repositoryId: '40',
+      repositoryName: 'app',
+      repositoryDetails: { private: false, description: null, fork: false, archived: false, language: 'TypeScript', homepage: null, created_at: '2020-01-01T00:00:00Z', updated_at: '2020-01-02T00:00:00Z', pushed_at: '2020-01-03T00:00:00Z' },
+    },
+  };
+  return {
+    supportsRepositories: true,
+    supportsTeams: true,
+    supportsTeamMembership: true,
+    supportsTeamPermissions: true,
+    organizationRepositories: async () => [repository],
+    organizationRepositoryByName: async (organizationId: string, repositoryName: string) => repositoryName.toLowerCase() === 'app' ? repository : null,
+    repositoryTeamPermissions: async () => [{ permission: 'push', cacheEntity: { teamId: '5' } }],
+    organizationTeams: async () => [{ team, cacheEntity: { teamId: '5', teamDetails: { privacy: 'closed' } } }],
+    teamMembers: async () => [{ userId: '1', login: 'octocat', role: 'maintainer' }],
+  };
+}
+
+function createWorkflowRunFixtures() {
+  const run = new RepositoryWorkflowRunEntity();
+  run.runId = 'correlation-1';
+  run.repositoryName = 'app';
+  run.repositoryId = '40';
+  run.state = RepositoryWorkflowRunState.Failed;
+  run.attempts = 1;
+  run.steps = [{
+    name: 'teamPermission:5:push',
+    type: RepositoryWorkflowStepType.TeamPermission,
+    state: RepositoryWorkflowStepState.Failed,
+    attempts: 1,
+    teamId: 5,
+    message: 'The addition of the repo app to GitHub team with the ID 5 failed.',
+    error: 'Not Found',
+    completed: '2020-01-01T00:00:00.000Z',
+  }];
+  return {
+    providers: {
+      repositoryMetadataProvider: {
+        getRepositoryMetadata: async (repositoryId: string) => {
+          return { repositoryId, initialCorrelationId: run.runId };
+        },
+      },
+      repositoryWorkflowRunProvider: {
+        getRun: async () => run,
+      },
+    },
+  };
+}
+
+function createApplication(): express.Application {
+  const app = express();
+  app.use(bodyParser.json());
+  app.set('operations', createLinkFixtures());
+  app.set('providers', { queryCache: createQueryCacheFixtures(), operations: createWorkflowRunFixtures() });
+  app.use((req: any, res, next) => {
+    const token = PersonalAccessToken.CreateNewToken('test-hashing-key');
+    token.scopes = 'links,repos,teams';
+    token.organizationScopes = '*';
+    req.apiKeyToken = token;
+    req.apiVersion = req.query['api-version'];
+    req.insights = { trackEvent: () => {}, trackMetric: () => {} };
+    return next();
+  });
+  app.use('/people/links', require('../routes/api/people/links'));
+  app.use('/:org', (req: any, res, next) => {
+    req.organization = { id: 1, name: 'contoso', broadAccessTeams: [] };
+    return next();
+  }, require('../routes/api/organization'));
+  app.use((err, req, res, next) => {
+    res.status(err.statusCode || err.status || 500).json({ message: err.message });
+  });
+  return app;
+}
+
+describe('OpenAPI document', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  before(done => {
+    server = createApplication().listen(0, () => {
+      baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  after(done => {
+    server.close(done);
+  });
+
+  function get(path: string): Promise<{ status: number, body: any }> {
+    return new Promise((resolve, reject) => {
+      http.get(baseUrl + path, res => {
+        let data = '';
+        res.on('data', chunk => data += chunk);
+        res.on('end', () => resolve({ status: res.statusCode, body: data ? JSON.parse(data) : null }));
+      }).on('error', reject);
+    });
+  }
+
+  it('resolves every schema reference', () => {
+    for (const path of Object.getOwnPropertyNames(OpenApiDocument.paths)) {
+      for (const method of Object.getOwnPropertyNames(OpenApiDocument.paths[path]).filter(key => key !== 'parameters')) {
+        for (const response of (Object.values(OpenApiDocument.paths[path][method].responses) as any[]).map(resolveResponse)) {
+          if (response.content) {
+            ajv.compile(toJsonSchema(rewriteReferences(response.content['application/json'].schema)));
+          }
+        }
+      }
+    }
+  });
+
+  it('documents the supported API versions', () => {
+    assert.equal(OpenApiDocument.info.version, ApiVersions[0]);
+    assert.deepEqual(OpenApiDocument.components.parameters.apiVersion.schema.enum, ApiVersions);
+    for (const version of OrganizationApiVersions) {
+      assert.include(ApiVersions, version);
+    }
+  });
+
+  for (const apiVersion of ApiVersions) {
+    it(`matches the links responses for ${apiVersion}`, async () => {
+      const all = await get(`/people/links?api-version=${apiVersion}&showTimestamps=true`);
+      assert.equal(all.status, 200);
+      assert.lengthOf(all.body, 2);
+      assertMatchesContract('/people/links', 'get', 200, all.body);
+      if (apiVersion !== '2016-12-01') {
+        const single = await get(`/people/links/github/octocat?api-version=${apiVersion}`);
+        assertMatchesContract('/people/links/github/{username}', 'get', 200, single.body);
+        const byId = await get(`/people/links/aad/aad-2?api-version=${apiVersion}`);
+        assertMatchesContract('/people/links/aad/{id}', 'get', 200, byId.body);
+        const byUpn = await get(`/people/links/aad/userPrincipalName/octocat@contoso.com?api-version=${apiVersion}`);
+        assertMatchesContract('/people/links/aad/userPrincipalName/{upn}', 'get', 200, byUpn.body);
+      }
+    });
+  }
+
+  it('returns the avatar and service account contact from 2019-02-01 on', async () => {
+    for (const apiVersion of ApiVersions) {
+      const isExtended = apiVersion >= '2019-02-01';
+      const single = await get(`/people/links/github/octocat?api-version=${apiVersion}`);
+      if (apiVersion !== '2016-12-01') {
+        assert.equal(single.body.github.avatar, isExtended ? 'https://avatars/octocat' : undefined, apiVersion);
+      }
+      const all = await get(`/people/links?api-version=${apiVersion}`);
+      const serviceAccount = all.body.find(entry => entry.github.login === 'hubot');
+      assert.equal(serviceAccount.serviceAccountContact, isExtended ? 'robots@contoso.com' : undefined, apiVersion);
+    }
+  });
+
+  it('matches the repository and team responses', async () => {
+    const apiVersion = OrganizationApiVersions[0];
+    const repositories = await get(`/contoso/repos?api-version=${apiVersion}`);
+    assertMatchesContract('/{org}/repos', 'get', 200, repositories.body);
+    const repository = await get(`/contoso/repos/app?api-version=${apiVersion}`);
+    assertMatchesContract('/{org}/repos/{repoName}', 'get', 200, repository.body);
+    const workflow = await get(`/contoso/repos/app/workflow?api-version=${apiVersion}`);
+    assertMatchesContract('/{org}/repos/{repoName}/workflow', 'get', 200, workflow.body);
+    const teams = await get(`/contoso/teams?api-version=${apiVersion}`);
+    assertMatchesContract('/{org}/teams', 'get', 200, teams.body);
+    const team = await get(`/contoso/teams/5?api-version=${apiVersion}`);
+    assertMatchesContract('/{org}/teams/{teamId}', 'get', 200, team.body);
+    const members = await get(`/contoso/teams/5/members?api-version=${apiVersion}`);
+    assertMatchesContract('/{org}/teams/{teamId}/members', 'get', 200, members.body);
+  });
+
+  it('matches the create plan of a dry run without calling GitHub', async () => {
+    const templateDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'templates-'));
+    fs.mkdirSync(path.join(templateDirectory, 'mit'));
+    fs.writeFileSync(path.join(templateDirectory, 'mit', 'LICENSE'), 'MIT');
+    const organization = {
+      id: 1,
+      name: 'contoso',
+      broadAccessTeams: [7],
+      repositoryCreatePolicy: undefined,
+      getLegacySystemObjects: () => {
+        return { operations: { config: { github: { templates: {
+          directory: templateDirectory,
+          definitions: { mit: { webhook: 'https://cla.contoso.com/hook', webhookFriendlyName: 'CLA', collaborators: { pull: [{ username: 'reader' }] } } },
+        } } } } };
+      },
+      createRepository: async () => { throw new Error('GitHub must not be called for a dry run'); },
+    };
+    const req: any = {
+      organization,
+      headers: {},
+      body: {
+        name: 'new-app',
+        private: true,
+        'ms.license': 'mit',
+        'ms.approval': 'Exempt',
+        'ms.justification': 'Samples',
+        'ms.template': 'mit',
+        'ms.notify': 'team@contoso.com',
+        'ms.teams': { admin: [5, 7] },
+      },
+      app: { settings: { mailProvider: {}, providers: { operations: { getOrganization: () => organization } } } },
+      insights: { trackEvent: () => {} },
+    };
+    const result = await CreateRepository(req, null, { dryRun: true });
+    assertMatchesContract('/{org}/repos', 'post', 200, result);
+    assert.isTrue(result.dryRun);
+    assert.equal(result.plan.visibility, 'private');
+    assert.deepEqual(result.plan.teamPermissions.map(tp => `${tp.teamId}:${tp.permission}`), ['7:pull', '5:admin']);
+    assert.deepEqual(result.plan.templateFiles, ['LICENSE']);
+    assert.equal(result.plan.webhook.name, 'CLA');
+    assert.deepEqual(result.plan.collaborators, [{ username: 'reader', permission: 'pull' }]);
+    assert.deepEqual(result.plan.mail.to, ['team@contoso.com']);
+  });
+
+  it('rejects an invalid repository name before calling GitHub', async () => {
+    const organization = {
+      id: 1,
+      name: 'contoso',
+      broadAccessTeams: [],
+      repositoryCreatePolicy: undefined,
+      getLegacySystemObjects: () => ({ operations: { config: { github: { templates: {} } } } }),
+      createRepository: async () => { throw new Error('GitHub must not be called for an invalid name'); },
+    };
+    const body = { name: 'new app', 'ms.license': 'mit', 'ms.approval': 'SmallLibrariesToolsSamples' };
+    const req: any = {
+      organization,
+      headers: {},
+      app: { settings: { mailProvider: {}, providers: { operations: { getOrganization: () => organization }, insights: { trackEvent: () => {} } } } },
+      insights: { trackEvent: () => {}, trackException: () => {} },
+    };
+    for (const dryRun of [false, true]) {
+      let error = null;
+      try {
+        await CreateRepository(req, Object.assign({}, body), { dryRun });
+      } catch (createError) {
+        error = createError;
+      }
+      assert.equal(error && error.statusCode, 422, dryRun ? 'dry run' : 'create');
+    }
+  });
+
+  it('matches error responses', async () => {
+    const notFound = await get(`/contoso/repos/missing?api-version=${OrganizationApiVersions[0]}`);
+    assert.equal(notFound.status, 404);
+    assertMatchesContract('/{org}/repos/{repoName}', 'get', 404, notFound.body);
+    const oldVersion = await get('/contoso/repos?api-version=2019-02-01');
+    assert.equal(oldVersion.status, 400);
+  });
+});
@@ -0,0 +1,73 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import 'mocha';
+
+const assert = require('chai').assert;
+
+import { EvaluateCollaboratorPermissionPolicies, EvaluateTeamPermissionPolicies, GetDefaultPermissionPolicies, GetMostSevereAction, GovernRequestedTeamPermission, ParsePermissionPolicies, PermissionPolicyAction } from '../features/permissionPolicies';
+
+function teamContext(teamSize: number, permissions: any, teamName = 'Developers') {
+  return {
+    teamId: 1,
+    teamName,
+    permissions,
+    broadAccessTeams: [2],
+    getTeamSize: async () => teamSize,
+  };
+}
+
+describe('permission policies', () => {
+  it('matches the legacy large team behavior by default', async () => {
+    const rules = GetDefaultPermissionPolicies();
+    assert.lengthOf(await EvaluateTeamPermissionPolicies(rules, teamContext(250, { admin: true, push: true })), 1);
+    assert.lengthOf(await EvaluateTeamPermissionPolicies(rules, teamContext(249, { admin: true, push: true })), 0);
+    assert.lengthOf(await EvaluateTeamPermissionPolicies(rules, teamContext(1000, { push: true })), 0);
+    const broad = Object.assign(teamContext(5, { push: true }), { teamId: 2 });
+    assert.lengthOf(await EvaluateTeamPermissionPolicies(rules, broad), 1);
+  });
+
+  it('evaluates declared team rules and picks the most severe action', async () => {
+    const rules = ParsePermissionPolicies(JSON.stringify([
+      { type: 'teamSize', permission: 'push', limit: 10, action: 'log' },
+      { type: 'forbiddenAdminTeamName', pattern: '^everyone', action: 'warn' },
+    ]));
+    const violations = await EvaluateTeamPermissionPolicies(rules, teamContext(20, { admin: true, push: true }, 'Everyone in Contoso'));
+    assert.lengthOf(violations, 2);
+    assert.equal(GetMostSevereAction(violations), PermissionPolicyAction.WarnByMail);
+    assert.lengthOf(await EvaluateTeamPermissionPolicies(rules, teamContext(5, { push: true }, 'Everyone')), 0);
+  });
+
+  it('limits outside collaborator administrators', async () => {
+    const rules = ParsePermissionPolicies([{ type: 'outsideCollaboratorAdministrators', maximum: 1, action: 'revert' }]);
+    const context = { permissions: { admin: true }, getOutsideAdministratorCount: async () => 2 };
+    assert.lengthOf(await EvaluateCollaboratorPermissionPolicies(rules, context), 1);
+    assert.lengthOf(await EvaluateCollaboratorPermissionPolicies(rules, Object.assign({}, context, { permissions: { push: true } })), 0);
+  });
+
+  it('governs team permissions requested through the API', async () => {
+    const organization = {
+      name: 'contoso',
+      broadAccessTeams: [2],
+      permissionPolicies: [{ type: 'teamSize', permission: 'admin', limit: 100, action: 'revert' }],
+      team: (id: number) => ({ name: `Team ${id}`, members_count: id === 3 ? 500 : 5, getDetails: async () => {} }),
+    } as any;
+    const downgraded = await GovernRequestedTeamPermission(organization, 2, 'admin');
+    assert.equal(downgraded.permission, 'pull');
+    assert.lengthOf(downgraded.violations, 0);
+    const large = await GovernRequestedTeamPermission(organization, 3, 'admin');
+    assert.equal(large.permission, 'admin');
+    assert.equal(GetMostSevereAction(large.violations), PermissionPolicyAction.Revert);
+    assert.lengthOf((await GovernRequestedTeamPermission(organization, 3, 'push')).violations, 0);
+  });
+
+  it('rejects invalid rules', () => {
+    assert.throws(() => ParsePermissionPolicies({}), /must be an array/);
+    assert.throws(() => ParsePermissionPolicies([{ type: 'teamSize', action: 'revert' }]), /numeric limit/);
+    assert.throws(() => ParsePermissionPolicies([{ type: 'teamSize', limit: 1, action: 'delete' }]), /unsupported action/);
+  });
+});
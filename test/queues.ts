@@ -0,0 +1,138 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import 'mocha';
+
+const assert = require('chai').assert;
+const redisMock = require('redis-mock');
+
+import { CreateFirehoseQueueProcessorInstance, CreateQueueProcessorInstance, IQueueProcessor } from '../lib/queues';
+import { MemoryQueueProcessor } from '../lib/queues/memoryQueue';
+import { RedisQueueProcessor } from '../lib/queues/redisQueue';
+import { RedisHelper } from '../lib/redis';
+import { EnqueueWebhook } from '../webhooks/organizationProcessor';
+
+function delay(milliseconds: number) {
+  return new Promise(resolve => setTimeout(resolve, milliseconds));
+}
+
+function describeQueueBehavior(name: string, createQueue: (visibilityTimeoutSeconds: number) => IQueueProcessor) {
+  describe(name, () => {
+    it('delivers messages in order with their properties', async () => {
+      const queue = createQueue(30);
+      await queue.sendMessage('first', { event: 'repository' });
+      await queue.sendMessage('second');
+      const first = await queue.receiveMessage();
+      assert.equal(first.body, 'first');
+      assert.equal(first.customProperties.event, 'repository');
+      assert.equal(first.deliveryCount, 1);
+      const second = await queue.receiveMessage();
+      assert.equal(second.body, 'second');
+      assert.isNull(await queue.receiveMessage());
+    });
+
+    it('does not redeliver acknowledged messages', async () => {
+      const queue = createQueue(0.05);
+      await queue.sendMessage('body');
+      const message = await queue.receiveMessage();
+      await queue.ackMessage(message);
+      await delay(100);
+      assert.isNull(await queue.receiveMessage());
+    });
+
+    it('redelivers a message after its visibility timeout', async () => {
+      const queue = createQueue(0.05);
+      await queue.sendMessage('body');
+      await queue.receiveMessage();
+      assert.isNull(await queue.receiveMessage());
+      await delay(100);
+      const redelivered = await queue.receiveMessage();
+      assert.equal(redelivered.body, 'body');
+      assert.equal(redelivered.deliveryCount, 2);
+    });
+
+    it('redelivers a released message immediately', async () => {
+      const queue = createQueue(30);
+      await queue.sendMessage('body');
+      await queue.releaseMessage(await queue.receiveMessage());
+      const redelivered = await queue.receiveMessage();
+      assert.equal(redelivered.deliveryCount, 2);
+    });
+
+    it('does not redeliver dead-lettered messages', async () => {
+      const queue = createQueue(0.05);
+      await queue.sendMessage('body');
+      await queue.deadLetterMessage(await queue.receiveMessage(), 'InvalidJson');
+      await delay(100);
+      assert.isNull(await queue.receiveMessage());
+    });
+  });
+}
+
+describe('queues', () => {
+  describeQueueBehavior('memory', visibilityTimeoutSeconds => new MemoryQueueProcessor({ provider: 'memory', queue: 'test', visibilityTimeoutSeconds }));
+
+  let redisQueueCount = 0;
+  describeQueueBehavior('redis', visibilityTimeoutSeconds => {
+    const redis = new RedisHelper(redisMock.createClient(), 'test');
+    return new RedisQueueProcessor({ provider: 'redis', queue: `test${++redisQueueCount}`, visibilityTimeoutSeconds, redis });
+  });
+
+  it('dead-letters messages past the maximum delivery count', async () => {
+    const queue = new MemoryQueueProcessor({ provider: 'memory', queue: 'test', visibilityTimeoutSeconds: 0.05, maxDeliveryCount: 1 });
+    await queue.sendMessage('body');
+    await queue.receiveMessage();
+    await delay(100);
+    assert.isNull(await queue.receiveMessage());
+    assert.equal(queue.getDeadLetters().length, 1);
+    assert.equal(queue.getDeadLetters()[0].deadLetterReason, 'MaxDeliveryCountExceeded');
+  });
+
+  it('delivers a message to one of two racing redis receivers', async () => {
+    const client = redisMock.createClient();
+    const options = { provider: 'redis', queue: 'race', visibilityTimeoutSeconds: 0.05, maxDeliveryCount: 2 };
+    const first = new RedisQueueProcessor(Object.assign({ redis: new RedisHelper(client, 'race') }, options));
+    const second = new RedisQueueProcessor(Object.assign({ redis: new RedisHelper(client, 'race') }, options));
+    await first.sendMessage('body');
+    let received = await Promise.all([first.receiveMessage(), second.receiveMessage()]);
+    assert.equal(received.filter(message => message).length, 1);
+    await delay(100);
+    received = await Promise.all([first.receiveMessage(), second.receiveMessage()]);
+    assert.equal(received.filter(message => message).length, 1);
+    assert.equal(received.find(message => message).deliveryCount, 2);
+    await delay(100);
+    received = await Promise.all([first.receiveMessage(), second.receiveMessage()]);
+    assert.equal(received.filter(message => message).length, 0);
+    assert.equal(await first.getDeadLetterCount(), 1);
+  });
+
+  it('queues webhooks for the firehose to receive with their raw body and headers', async () => {
+    const redis = new RedisHelper(redisMock.createClient(), 'firehose');
+    const firehoseConfig = { queue: { provider: 'redis', name: 'firehose' } };
+    const producer = CreateFirehoseQueueProcessorInstance(firehoseConfig, redis);
+    const firehose = CreateFirehoseQueueProcessorInstance(firehoseConfig, redis);
+    const rawBody = '{"action":"created", "organization":{"login":"contoso"}}';
+    const properties = { delivery: 'delivery-1', event: 'repository', signature: 'sha1=a', signature256: 'sha256=b', started: '2020-01-01T00:00:00Z' };
+    await EnqueueWebhook(producer, { body: JSON.parse(rawBody), rawBody, properties });
+    const message = await firehose.receiveMessage();
+    assert.equal(message.body, rawBody);
+    assert.deepEqual(message.customProperties, properties);
+
+    let error = null;
+    try {
+      await EnqueueWebhook(producer, { body: {}, properties });
+    } catch (noRawBody) {
+      error = noRawBody;
+    }
+    assert.equal(error && error.status, 400);
+    assert.isNull(await firehose.receiveMessage());
+  });
+
+  it('rejects unknown providers', () => {
+    assert.throws(() => CreateQueueProcessorInstance({ provider: 'carrier-pigeon', queue: 'test' }), /not implemented/);
+  });
+});
@@ -0,0 +1,218 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import 'mocha';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const assert = require('chai').assert;
+
+import { RepoWorkflowEngine, RetryRepositoryWorkflowRun } from '../routes/org/repoWorkflowEngine';
+import { RepositoryMetadataEntity, GitHubRepositoryPermission } from '../entities/repositoryMetadata/repositoryMetadata';
+import { RepositoryWorkflowRunEntity, RepositoryWorkflowRunState, RepositoryWorkflowStepState, RepositoryWorkflowStepType } from '../entities/repositoryWorkflowRun/repositoryWorkflowRun';
+import { EntityMetadataType } from '../lib/entityMetadataProvider/entityMetadata';
+import { EntityMetadataMappings, MetadataMappingDefinition } from '../lib/entityMetadataProvider/declarations';
+
+function createOrganization(runs: Map<string, RepositoryWorkflowRunEntity>, calls: string[], webhookFailures: { remaining: number }, templates?: any[], repositoryBaseline?: any) {
+  const templateDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'templates-'));
+  fs.mkdirSync(path.join(templateDirectory, 'service'));
+  fs.writeFileSync(path.join(templateDirectory, 'service', 'README.md'), '# Service');
+  const config = {
+    github: {
+      templates: {
+        directory: templateDirectory,
+        definitions: { service: { webhook: 'https://hooks.contoso.com/', webhookFriendlyName: 'Compliance' } },
+      },
+      user: { initialCommit: { username: 'committer', token: 'token' } },
+    },
+  };
+  const repository = {
+    name: 'app',
+    setTeamPermission: async (teamId: number, permission: string) => { calls.push(`team:${teamId}:${permission}`); },
+    addCollaborator: async () => null,
+    createFile: async (filePath: string) => { calls.push(`file:${filePath}`); },
+    replaceTopics: async (names: string[]) => { calls.push(`topics:${names.join(',')}`); },
+    removeCollaborator: async () => {},
+    editMergeSettings: async (settings: any) => { calls.push(`merge:${settings.allowMergeCommit}:${settings.allowSquashMerge}:${settings.allowRebaseMerge}:${settings.deleteBranchOnMerge}`); },
+    getDetails: async () => { return { default_branch: 'main' }; },
+    setBranchProtection: async (branch: string, protection: any) => { calls.push(`protect:${branch}:${protection.requiredStatusChecks.join(',')}`); },
+    createWebhook: async () => {
+      calls.push('webhook');
+      if (webhookFailures.remaining-- > 0) {
+        throw new Error('The webhook endpoint is unavailable');
+      }
+    },
+  };
+  const providers = {
+    repositoryWorkflowRunProvider: {
+      createRun: async (run: RepositoryWorkflowRunEntity) => { runs.set(run.runId, run); return run.runId; },
+      updateRun: async (run: RepositoryWorkflowRunEntity) => { runs.set(run.runId, run); },
+    },
+  };
+  return {
+    name: 'contoso',
+    repositoryTemplates: templates,
+    repositoryBaseline,
+    getLegacySystemObjects: () => { return { operations: { config, providers } }; },
+    team: () => { return { name: 'Developers', getDetails: async () => {} }; },
+    repository: () => repository,
+    getAuthorizedOperationsAccount: async () => { return { login: 'operations' }; },
+  } as any;
+}
+
+function createMetadata(): RepositoryMetadataEntity {
+  const metadata = new RepositoryMetadataEntity();
+  metadata.repositoryName = 'app';
+  metadata.repositoryId = '40';
+  metadata.initialCorrelationId = 'correlation-1';
+  metadata.initialTemplate = 'service';
+  metadata.initialTeamPermissions.push({ teamId: '5', permission: GitHubRepositoryPermission.Push });
+  return metadata;
+}
+
+describe('repository workflow engine', () => {
+  it('records each step of the run under the initial correlation ID', async () => {
+    const runs = new Map<string, RepositoryWorkflowRunEntity>();
+    const calls = [];
+    const organization = createOrganization(runs, calls, { remaining: 1 });
+    const engine = new RepoWorkflowEngine(organization, { id: '40', repositoryMetadata: createMetadata(), createResponse: { name: 'app' } });
+    const output = await engine.executeNewRepositoryChores();
+    const run = runs.get('correlation-1');
+    assert.equal(run.state, RepositoryWorkflowRunState.Failed);
+    assert.deepEqual(run.steps.map(step => `${step.name}=${step.state}`), [
+      'teamPermission:5:push=succeeded',
+      'templateFiles=succeeded',
+      'templateWebhook=failed',
+      'removeCreatorCollaborator=succeeded',
+    ]);
+    assert.match(run.failedSteps[0].error, /webhook endpoint is unavailable/);
+    assert.isTrue(output.some(result => !!result.error));
+  });
+
+  it('retries only the failed steps', async () => {
+    const runs = new Map<string, RepositoryWorkflowRunEntity>();
+    const calls = [];
+    const organization = createOrganization(runs, calls, { remaining: 1 });
+    const repositoryMetadata = createMetadata();
+    const engine = new RepoWorkflowEngine(organization, { id: '40', repositoryMetadata, createResponse: { name: 'app' } });
+    await engine.executeNewRepositoryChores();
+    calls.length = 0;
+    const run = runs.get('correlation-1');
+    await RetryRepositoryWorkflowRun(organization, { run, repositoryMetadata });
+    assert.deepEqual(calls, ['webhook']);
+    assert.equal(run.state, RepositoryWorkflowRunState.Succeeded);
+    assert.equal(run.attempts, 2);
+    const webhookStep = run.steps.find(step => step.name === 'templateWebhook');
+    assert.equal(webhookStep.state, RepositoryWorkflowStepState.Succeeded);
+    assert.equal(webhookStep.attempts, 2);
+  });
+
+  it('does not commit files to repositories generated from a template repository', async () => {
+    const runs = new Map<string, RepositoryWorkflowRunEntity>();
+    const calls = [];
+    const organization = createOrganization(runs, calls, { remaining: 0 }, [{ id: 'service', repository: 'service-template', topics: ['service'] }]);
+    const engine = new RepoWorkflowEngine(organization, { id: '40', repositoryMetadata: createMetadata(), createResponse: { name: 'app' } });
+    await engine.executeNewRepositoryChores();
+    const run = runs.get('correlation-1');
+    assert.equal(run.state, RepositoryWorkflowRunState.Succeeded);
+    assert.deepEqual(run.steps.map(step => step.name), ['teamPermission:5:push', 'topics', 'templateWebhook', 'removeCreatorCollaborator']);
+    assert.deepEqual(calls, ['team:5:push', 'topics:service', 'webhook']);
+  });
+
+  it('applies the organization and template baseline after the template files', async () => {
+    const runs = new Map<string, RepositoryWorkflowRunEntity>();
+    const calls = [];
+    const templates = [{ id: 'service', baseline: { mergeMethods: ['squash'], branchProtection: { requiredStatusChecks: ['service-tests'] } } }];
+    const organization = createOrganization(runs, calls, { remaining: 0 }, templates, {
+      mergeMethods: ['merge', 'squash'],
+      deleteBranchOnMerge: true,
+      branchProtection: { requiredStatusChecks: ['build'], requiredApprovingReviewCount: 1 },
+    });
+    const repositoryMetadata = createMetadata();
+    const engine = new RepoWorkflowEngine(organization, { id: '40', repositoryMetadata, createResponse: { name: 'app' } });
+    await engine.executeNewRepositoryChores();
+    const run = runs.get('correlation-1');
+    assert.equal(run.state, RepositoryWorkflowRunState.Succeeded);
+    assert.deepEqual(run.steps.map(step => step.name), ['teamPermission:5:push', 'templateFiles', 'mergeSettings', 'branchProtection', 'templateWebhook', 'removeCreatorCollaborator']);
+    assert.deepEqual(calls, ['team:5:push', 'file:README.md', 'merge:false:true:false:true', 'protect:main:build,service-tests', 'webhook']);
+    assert.equal(repositoryMetadata.baseline.branchProtection.requiredApprovingReviewCount, 1);
+  });
+
+  it('does not commit the template files of an earlier attempt again', async () => {
+    const runs = new Map<string, RepositoryWorkflowRunEntity>();
+    const calls = [];
+    const organization = createOrganization(runs, calls, { remaining: 0 });
+    const templateDirectory = organization.getLegacySystemObjects().operations.config.github.templates.directory;
+    fs.writeFileSync(path.join(templateDirectory, 'service', 'LICENSE'), 'MIT');
+    const repository = organization.repository();
+    const createFile = repository.createFile;
+    let attempts = 0;
+    repository.createFile = async (filePath: string) => {
+      if (++attempts === 2) {
+        throw new Error('The commit failed');
+      }
+      return await createFile(filePath);
+    };
+    const repositoryMetadata = createMetadata();
+    const engine = new RepoWorkflowEngine(organization, { id: '40', repositoryMetadata, createResponse: { name: 'app' } });
+    await engine.executeNewRepositoryChores();
+    const run = runs.get('correlation-1');
+    assert.deepEqual(run.failedSteps.map(step => step.name), ['templateFiles']);
+    const fileCalls = calls.filter(call => call.startsWith('file:'));
+    assert.equal(fileCalls.length, 1);
+    calls.length = 0;
+    await RetryRepositoryWorkflowRun(organization, { run, repositoryMetadata });
+    assert.equal(calls.length, 1);
+    assert.notInclude(fileCalls, calls[0]);
+    assert.equal(run.state, RepositoryWorkflowRunState.Succeeded);
+    assert.sameMembers(run.steps.find(step => step.name === 'templateFiles').uploadedFiles, ['README.md', 'LICENSE']);
+  });
+
+  it('refuses to retry a run that is still running', async () => {
+    const runs = new Map<string, RepositoryWorkflowRunEntity>();
+    const calls = [];
+    const organization = createOrganization(runs, calls, { remaining: 1 });
+    const repositoryMetadata = createMetadata();
+    const engine = new RepoWorkflowEngine(organization, { id: '40', repositoryMetadata, createResponse: { name: 'app' } });
+    await engine.executeNewRepositoryChores();
+    const run = runs.get('correlation-1');
+    run.state = RepositoryWorkflowRunState.Running;
+    calls.length = 0;
+    let error = null;
+    try {
+      await RetryRepositoryWorkflowRun(organization, { run, repositoryMetadata });
+    } catch (retryError) {
+      error = retryError;
+    }
+    assert.equal(error && error.status, 409);
+    assert.deepEqual(calls, []);
+
+    // An abandoned run may be retried
+    run.updated = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    await RetryRepositoryWorkflowRun(organization, { run, repositoryMetadata });
+    assert.deepEqual(calls, ['webhook']);
+    assert.equal(run.state, RepositoryWorkflowRunState.Succeeded);
+  });
+
+  it('stores the steps of a run in a table column', () => {
+    const type = EntityMetadataType.RepositoryWorkflowRun;
+    assert.equal(EntityMetadataMappings.GetDefinition(type, MetadataMappingDefinition.TableDefaultTableName, true), 'repositoryworkflowruns');
+    const serializer = EntityMetadataMappings.GetDefinition(type, MetadataMappingDefinition.TableSpecializedSerializationHelper, true);
+    const deserializer = EntityMetadataMappings.GetDefinition(type, MetadataMappingDefinition.TableSpecializedDeserializationHelper, true);
+    const run = new RepositoryWorkflowRunEntity();
+    run.attempts = 2;
+    run.steps = [{ name: 'templateFiles', type: RepositoryWorkflowStepType.TemplateFiles, state: RepositoryWorkflowStepState.Failed, attempts: 2, uploadedFiles: ['README.md'] }];
+    const entity: any = { entityType: type, entityId: 'correlation-1', entityFieldNames: [], attempts: '2' };
+    serializer(entity, run);
+    assert.isString(entity.steps);
+    const roundTrip = new RepositoryWorkflowRunEntity();
+    deserializer(entity, roundTrip);
+    assert.deepEqual(roundTrip.steps, run.steps);
+    assert.strictEqual(roundTrip.attempts, 2);
+  });
+});
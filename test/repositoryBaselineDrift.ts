@@ -0,0 +1,72 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import 'mocha';
+
+const assert = require('chai').assert;
+
+import { FindBranchProtectionDrift, FindRequiredTeamDrift, FindVisibilityDrift, MergeBranchProtection } from '../features/repositoryBaselineDrift';
+
+const expectedProtection = {
+  requiredStatusChecks: ['build'],
+  requiredApprovingReviewCount: 2,
+  dismissStaleReviews: true,
+};
+
+describe('repository baseline drift', () => {
+  it('reports branch protection that is weaker than the baseline', () => {
+    assert.deepEqual(FindBranchProtectionDrift(expectedProtection, null), ['The default branch is not protected']);
+    const protection = {
+      required_status_checks: { strict: true, contexts: ['lint'] },
+      required_pull_request_reviews: { required_approving_review_count: 1, dismiss_stale_reviews: true },
+      enforce_admins: { enabled: true },
+    };
+    assert.deepEqual(FindBranchProtectionDrift(expectedProtection, protection), [
+      'Missing required status checks: build',
+      'Requires 1 approving reviews instead of 2',
+    ]);
+    const merged = MergeBranchProtection(expectedProtection, protection);
+    assert.deepEqual(merged.requiredStatusChecks, ['lint', 'build']);
+    assert.equal(merged.requiredApprovingReviewCount, 2);
+    assert.isTrue(merged.strictStatusChecks);
+    assert.isTrue(merged.enforceAdmins);
+    assert.isUndefined(merged.pushRestrictions);
+    assert.isUndefined(merged.dismissalRestrictions);
+    assert.deepEqual(FindBranchProtectionDrift(expectedProtection, {
+      required_status_checks: { contexts: ['build', 'lint'] },
+      required_pull_request_reviews: { required_approving_review_count: 3, dismiss_stale_reviews: true },
+    }), []);
+  });
+
+  it('keeps the push and dismissal restrictions of a branch when remediating', () => {
+    const merged = MergeBranchProtection(expectedProtection, {
+      required_pull_request_reviews: {
+        required_approving_review_count: 1,
+        dismissal_restrictions: { users: [{ login: 'octocat' }], teams: [{ slug: 'reviewers' }] },
+      },
+      restrictions: { users: [], teams: [{ slug: 'release' }], apps: [{ slug: 'deployer' }] },
+    });
+    assert.deepEqual(merged.pushRestrictions, { users: [], teams: ['release'], apps: ['deployer'] });
+    assert.deepEqual(merged.dismissalRestrictions, { users: ['octocat'], teams: ['reviewers'] });
+  });
+
+  it('reports missing or weaker special team permissions', () => {
+    const required = new Map<number, string>([[1, 'pull'], [2, 'admin'], [3, 'push']]);
+    const current = new Map<number, string>([[1, 'admin'], [2, 'push']]);
+    assert.deepEqual(FindRequiredTeamDrift(required, current).map(drift => drift.message), [
+      'Team 2 has push instead of admin permission',
+      'Team 3 is missing push permission',
+    ]);
+  });
+
+  it('reports public repositories of private project types', () => {
+    const baseline = { privateProjectTypes: ['sample'] };
+    assert.isNull(FindVisibilityDrift(baseline, true, 'sample'));
+    assert.isNull(FindVisibilityDrift(baseline, false, 'product code'));
+    assert.match(FindVisibilityDrift(baseline, false, 'sample').message, /must be private/);
+  });
+});
@@ -0,0 +1,48 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import 'mocha';
+
+const assert = require('chai').assert;
+
+import { ExtractRepositoryCreateProperties, GetDefaultRepositoryCreatePolicy, ParseRepositoryCreatePolicy, ValidateRepositoryCreateProperties } from '../features/repositoryCreatePolicy';
+
+describe('repository create policy', () => {
+  it('matches the legacy Microsoft vocabulary by default', () => {
+    const policy = GetDefaultRepositoryCreatePolicy();
+    const parameters = { name: 'app', 'ms.license': 'MIT', 'ms.approval': 'Exempt' };
+    const properties = ExtractRepositoryCreateProperties(policy, parameters, { 'ms-justification': 'Sample code' });
+    assert.deepEqual(parameters, { name: 'app' });
+    assert.equal(properties.justification, 'Sample code');
+    assert.isNull(ValidateRepositoryCreateProperties(policy, properties));
+    assert.match(ValidateRepositoryCreateProperties(policy, { license: 'mit', approvalType: 'NewReleaseReview' }), /approval URL is required/);
+    assert.match(ValidateRepositoryCreateProperties(policy, { license: 'gpl-3.0', approvalType: 'Exempt' }), /license/);
+  });
+
+  it('validates against a declared policy with its own vocabulary', () => {
+    const policy = ParseRepositoryCreatePolicy(JSON.stringify({
+      fieldPrefix: 'contoso.',
+      licenses: ['Apache-2.0'],
+      approvalTypes: [{ id: 'Review', title: 'Reviewed by legal', requires: ['approvalUrl'] }],
+      approvalUrlPattern: '^https://review\\.contoso\\.com/',
+    }), 'contoso');
+    const properties = ExtractRepositoryCreateProperties(policy, {
+      'contoso.license': 'apache-2.0',
+      'contoso.approval': 'reviewed by legal',
+      'contoso.approval-url': 'https://review.contoso.com/1',
+      'ms.license': 'mit',
+    }, {});
+    assert.isNull(ValidateRepositoryCreateProperties(policy, properties));
+    properties.approvalUrl = 'https://elsewhere.com/1';
+    assert.match(ValidateRepositoryCreateProperties(policy, properties), /approval URL/);
+  });
+
+  it('rejects invalid policies', () => {
+    assert.throws(() => ParseRepositoryCreatePolicy([]), /must be an object/);
+    assert.throws(() => ParseRepositoryCreatePolicy({ approvalTypes: [{ id: 'x', requires: ['signature'] }] }), /unsupported requirement/);
+  });
+});
@@ -0,0 +1,63 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import 'mocha';
+
+const assert = require('chai').assert;
+
+import { GetRepositoryTemplate, GetTemplateRepositoryName, ParseOrganizationRepositoryTemplates } from '../features/repositoryTemplates';
+import { ParseRepositoryBaseline } from '../features/repositoryBaseline';
+
+function createOrganization(templates: any[]): any {
+  return {
+    name: 'contoso',
+    repositoryTemplates: templates,
+    getLegacySystemObjects: () => {
+      const definitions = {
+        mit: { name: 'MIT', spdx: 'mit' },
+        hooked: { webhook: 'https://hooks.contoso.com', webhookSharedSecret: 'secret' },
+      };
+      return { operations: { config: { github: { templates: { definitions } } } } };
+    },
+  };
+}
+
+describe('repository templates', () => {
+  it('combines configured definitions with organization settings', () => {
+    const organization = createOrganization([
+      { id: 'mit', description: 'Open source', topics: ['oss'] },
+      { id: 'service', repository: 'service-template', teams: { admin: [5] } },
+    ]);
+    const mit = GetRepositoryTemplate(organization, 'mit');
+    assert.equal(mit.spdx, 'mit');
+    assert.equal(mit.description, 'Open source');
+    assert.deepEqual(mit.topics, ['oss']);
+    assert.isNull(GetTemplateRepositoryName(organization, mit));
+    const service = GetRepositoryTemplate(organization, 'service');
+    assert.deepEqual(GetTemplateRepositoryName(organization, service), { owner: 'contoso', repo: 'service-template' });
+    assert.isNull(GetRepositoryTemplate(organization, 'unknown'));
+  });
+
+  it('only sends the configured webhook secret to the configured webhook', () => {
+    assert.equal(GetRepositoryTemplate(createOrganization([{ id: 'hooked', topics: ['hooked'] }]), 'hooked').webhookSharedSecret, 'secret');
+    const redirected = GetRepositoryTemplate(createOrganization([{ id: 'hooked', webhook: 'https://elsewhere.com' }]), 'hooked');
+    assert.equal(redirected.webhook, 'https://elsewhere.com');
+    assert.isUndefined(redirected.webhookSharedSecret);
+  });
+
+  it('rejects invalid template settings', () => {
+    assert.throws(() => ParseOrganizationRepositoryTemplates({}), /must be an array/);
+    assert.throws(() => ParseOrganizationRepositoryTemplates(['mit', { id: 'mit' }]), /more than once/);
+    assert.throws(() => ParseOrganizationRepositoryTemplates([{ id: 'x', repository: 'a/b/c' }]), /owner\/name/);
+    assert.throws(() => ParseOrganizationRepositoryTemplates([{ id: 'x', teams: { write: [1] } }]), /unsupported team permission/);
+    assert.throws(() => ParseOrganizationRepositoryTemplates([{ id: 'x', topics: ['Not Valid'] }]), /invalid topic/);
+    assert.throws(() => ParseOrganizationRepositoryTemplates([{ id: 'x', baseline: { mergeMethods: ['fast-forward'] } }]), /unsupported merge method/);
+    assert.throws(() => ParseOrganizationRepositoryTemplates([{ id: 'x', webhook: 'https://hooks', webhookSharedSecret: 'secret' }]), /webhook shared secret/);
+    assert.throws(() => ParseOrganizationRepositoryTemplates([{ id: 'x', collaborators: { push: [{ username: 'bot', acceptInvitationToken: 'token' }] } }]), /invitation token/);
+    assert.throws(() => ParseRepositoryBaseline({ branchProtection: { requiredApprovingReviewCount: 7 } }), /between 1 and 6/);
+  });
+});
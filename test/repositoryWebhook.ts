@@ -0,0 +1,128 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import 'mocha';
+
+const assert = require('chai').assert;
+
+import RepositoryWebhookProcessor from '../webhooks/tasks/repository';
+
+const managedOrganizationIds = [1, 2];
+
+function createOrganization(id: number): any {
+  return {
+    id,
+    name: `org${id}`,
+    isNewRepositoryLockdownSystemEnabled: () => false,
+  };
+}
+
+function createOperations(metadata?: any) {
+  const queryCacheCalls = [];
+  const updatedMetadata = [];
+  const queryCache = {
+    supportsRepositories: true,
+    supportsOrganizationMembership: true,
+    addOrUpdateRepository: async (organizationId: string, repositoryId: string) => queryCacheCalls.push(`update ${organizationId}/${repositoryId}`),
+    removeRepository: async (organizationId: string, repositoryId: string) => queryCacheCalls.push(`remove ${organizationId}/${repositoryId}`),
+  };
+  const repositoryMetadataProvider = {
+    getRepositoryMetadata: async () => {
+      if (!metadata) {
+        const error = new Error('No metadata');
+        error['status'] = 404;
+        throw error;
+      }
+      return metadata;
+    },
+    updateRepositoryMetadata: async entity => updatedMetadata.push(Object.assign({}, entity)),
+  };
+  const operations = {
+    providers: { queryCache, repositoryMetadataProvider },
+    getOrganizationById: (id: number) => {
+      if (!managedOrganizationIds.includes(id)) {
+        throw new Error(`Organization ${id} is not managed`);
+      }
+      return createOrganization(id);
+    },
+  } as any;
+  return { operations, queryCacheCalls, updatedMetadata };
+}
+
+function createTransferEvent(newOwnerId: number, previousOwner: any) {
+  return {
+    properties: { event: 'repository' },
+    body: {
+      action: 'transferred',
+      organization: { id: newOwnerId, login: `org${newOwnerId}` },
+      repository: { id: 40, name: 'app', full_name: `org${newOwnerId}/app`, owner: { id: newOwnerId, login: `org${newOwnerId}` } },
+      changes: { owner: { from: previousOwner } },
+      sender: { id: 7, login: 'octocat' },
+    },
+  };
+}
+
+describe('repository webhooks', () => {
+  it('moves a repository transferred between managed organizations', async () => {
+    const processor = new RepositoryWebhookProcessor();
+    const event = createTransferEvent(2, { organization: { id: 1, login: 'org1' } });
+    const toNewOwner = createOperations();
+    await processor.run(toNewOwner.operations, createOrganization(2), event);
+    assert.deepEqual(toNewOwner.queryCacheCalls, ['remove 1/40', 'update 2/40']);
+    // The previous owner receives the event as well
+    const toPreviousOwner = createOperations();
+    await processor.run(toPreviousOwner.operations, createOrganization(1), event);
+    assert.deepEqual(toPreviousOwner.queryCacheCalls, ['remove 1/40']);
+  });
+
+  it('adds a repository transferred into a managed organization', async () => {
+    const { operations, queryCacheCalls } = createOperations();
+    const event = createTransferEvent(1, { user: { id: 99, login: 'someone' } });
+    await new RepositoryWebhookProcessor().run(operations, createOrganization(1), event);
+    assert.deepEqual(queryCacheCalls, ['update 1/40']);
+  });
+
+  it('removes a repository transferred out of a managed organization', async () => {
+    const { operations, queryCacheCalls } = createOperations();
+    const event = createTransferEvent(3, { organization: { id: 1, login: 'org1' } });
+    await new RepositoryWebhookProcessor().run(operations, createOrganization(1), event);
+    assert.deepEqual(queryCacheCalls, ['remove 1/40']);
+  });
+
+  it('renames the repository metadata and cache entry', async () => {
+    const { operations, queryCacheCalls, updatedMetadata } = createOperations({ repositoryId: '40', repositoryName: 'old-app' });
+    const event = {
+      properties: { event: 'repository' },
+      body: {
+        action: 'renamed',
+        organization: { id: 1, login: 'org1' },
+        repository: { id: 40, name: 'app', full_name: 'org1/app' },
+        changes: { repository: { name: { from: 'old-app' } } },
+        sender: { id: 7, login: 'octocat' },
+      },
+    };
+    await new RepositoryWebhookProcessor().run(operations, createOrganization(1), event);
+    assert.deepEqual(updatedMetadata.map(metadata => metadata.repositoryName), ['app']);
+    assert.deepEqual(queryCacheCalls, ['update 1/40']);
+  });
+
+  it('renames a repository without metadata', async () => {
+    const { operations, queryCacheCalls, updatedMetadata } = createOperations();
+    const event = {
+      properties: { event: 'repository' },
+      body: {
+        action: 'renamed',
+        organization: { id: 1, login: 'org1' },
+        repository: { id: 41, name: 'tool', full_name: 'org1/tool' },
+        sender: { id: 7, login: 'octocat' },
+      },
+    };
+    await new RepositoryWebhookProcessor().run(operations, createOrganization(1), event);
+    assert.lengthOf(updatedMetadata, 0);
+    assert.deepEqual(queryCacheCalls, ['update 1/41']);
+  });
+});
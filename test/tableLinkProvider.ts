@@ -0,0 +1,56 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import 'mocha';
+
+const assert = require('chai').assert;
+
+import { TableLinkProvider } from '../lib/linkProviders/table/tableLinkProvider';
+
+const tableEntity = require('../lib/tableEntity');
+
+function createTableService(links: any[]): any {
+  // Like Azure table storage, string comparisons in the filter are case-sensitive
+  const entities = links.map(link => tableEntity.create('pk', link.ghid, link));
+  return {
+    queryEntities: (tableName: string, tableQuery: any, continuationToken: any, callback) => {
+      const filter: string = tableQuery.toQueryObject().$filter || '';
+      const usernames = (filter.match(/ghu eq '[^']*'/g) || []).map(comparison => comparison.slice(8, -1));
+      const entries = entities
+        .filter(entity => !usernames.length || usernames.includes(entity.ghu._))
+        .map(entity => Object.assign({}, entity));
+      return callback(null, { entries, continuationToken: null });
+    },
+  };
+}
+
+function createProvider(links: any[]): TableLinkProvider {
+  const provider = new TableLinkProvider({}, { account: 'account', key: 'key', partitionKey: 'pk' });
+  provider['_table'] = createTableService(links);
+  provider['_tableName'] = 'links';
+  return provider;
+}
+
+describe('tableLinkProvider', () => {
+  const links = [
+    { ghid: '1', ghu: 'OctoCat', aadoid: 'aad-1', aadupn: 'octo@contoso.com' },
+    { ghid: '2', ghu: 'hubot', aadoid: 'aad-2', aadupn: 'hubot@contoso.com' },
+  ];
+
+  it('finds links by a mixed-case stored username without case', async () => {
+    const provider = createProvider(links);
+    for (const username of ['OctoCat', 'octocat', 'OCTOCAT']) {
+      const page = await provider.queryLinks({ thirdPartyUsername: username });
+      assert.deepEqual(page.links.map(link => link.thirdPartyId), ['1'], username);
+      assert.isNull(page.continuation);
+      assert.equal(await provider.countLinks({ thirdPartyUsername: username }), 1, username);
+    }
+    assert.deepEqual((await provider.queryLinks({ thirdPartyUsername: 'HUBOT' })).links.map(link => link.thirdPartyId), ['2']);
+    assert.equal((await provider.queryLinks({ thirdPartyUsername: 'monalisa' })).links.length, 0);
+    assert.equal(await provider.countLinks({ thirdPartyUsername: 'monalisa' }), 0);
+  });
+});
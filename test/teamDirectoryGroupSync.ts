@@ -0,0 +1,68 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import 'mocha';
+
+const assert = require('chai').assert;
+
+import { ParseTeamDirectoryGroupExclusions, PlanTeamDirectoryGroupSync } from '../features/teamDirectoryGroupSync';
+import { TeamDirectoryGroupFixedQueryAll } from '../entities/teamDirectoryGroup';
+import { TeamDirectoryGroupEntity } from '../entities/teamDirectoryGroup/teamDirectoryGroup';
+import { EntityMetadataType } from '../lib/entityMetadataProvider/entityMetadata';
+import { EntityMetadataMappings, MetadataMappingDefinition } from '../lib/entityMetadataProvider/declarations';
+
+const groupMembers = [
+  { id: 'aad-1', userPrincipalName: 'alice@contoso.com', displayName: 'Alice', mail: 'alice@contoso.com' },
+  { id: 'aad-2', userPrincipalName: 'bob@contoso.com', displayName: 'Bob', mail: 'bob@contoso.com' },
+  { id: 'aad-3', userPrincipalName: 'carol@contoso.com', displayName: 'Carol', mail: 'carol@contoso.com' },
+];
+const links = new Map<string, any>([
+  ['aad-1', { corporateId: 'aad-1', thirdPartyUsername: 'Alice-GH' }],
+  ['aad-2', { corporateId: 'aad-2', thirdPartyUsername: 'bobgh' }],
+]);
+
+describe('teamDirectoryGroupSync', () => {
+  it('adds linked group members and removes other members', () => {
+    const plan = PlanTeamDirectoryGroupSync(groupMembers, links, ['alice-gh', 'mallory'], [], []);
+    assert.deepEqual(plan.add, ['bobgh']);
+    assert.deepEqual(plan.remove, ['mallory']);
+    assert.deepEqual(plan.unlinked.map(member => member.id), ['aad-3']);
+  });
+
+  it('never removes maintainers or excluded members, nor adds excluded members', () => {
+    const plan = PlanTeamDirectoryGroupSync(groupMembers, links, ['maintainer', 'servicebot'], ['Maintainer'], ['ServiceBot', 'bobgh']);
+    assert.deepEqual(plan.add, ['Alice-GH']);
+    assert.deepEqual(plan.remove, []);
+  });
+
+  it('does not empty a team when the group has no members', () => {
+    const plan = PlanTeamDirectoryGroupSync([], links, ['alice-gh'], [], []);
+    assert.deepEqual(plan.remove, []);
+  });
+
+  it('parses exclusions', () => {
+    assert.deepEqual(ParseTeamDirectoryGroupExclusions('@ServiceBot, octocat\nservicebot'), ['octocat', 'servicebot']);
+  });
+
+  it('stores the bindings and their exclusions in table storage', () => {
+    const type = EntityMetadataType.TeamDirectoryGroup;
+    assert.equal(EntityMetadataMappings.GetDefinition(type, MetadataMappingDefinition.TableDefaultTableName, true), 'teamdirectorygroups');
+    const tableQueries = EntityMetadataMappings.GetDefinition(type, MetadataMappingDefinition.TableQueries, true);
+    const allQuery = tableQueries(new TeamDirectoryGroupFixedQueryAll(), 'teamdirectorygroup');
+    assert.equal(allQuery.toQueryObject().$filter, "PartitionKey eq 'teamdirectorygroup'");
+    const serializer = EntityMetadataMappings.GetDefinition(type, MetadataMappingDefinition.TableSpecializedSerializationHelper, true);
+    const deserializer = EntityMetadataMappings.GetDefinition(type, MetadataMappingDefinition.TableSpecializedDeserializationHelper, true);
+    const binding = new TeamDirectoryGroupEntity();
+    binding.exclusions = ['octocat', 'servicebot'];
+    const entity: any = { entityType: type, entityId: '5', entityFieldNames: [] };
+    serializer(entity, binding);
+    assert.isString(entity.exclusions);
+    const roundTrip = new TeamDirectoryGroupEntity();
+    deserializer(entity, roundTrip);
+    assert.deepEqual(roundTrip.exclusions, binding.exclusions);
+  });
+});
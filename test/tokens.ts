@@ -0,0 +1,205 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import 'mocha';
+import fs from 'fs';
+import path from 'path';
+
+const assert = require('chai').assert;
+const redisMock = require('redis-mock');
+
+import { PersonalAccessToken } from '../entities/token/token';
+import { PersonalAccessTokenPrefix, TokenGenerator } from '../entities/token/tokenGenerator';
+import { ApiScopeRateLimit, GetApiScopeRateLimit, RecordTokenUsage, ReposApiAuthentiction } from '../middleware/apiReposAuth';
+import { GetTokenLifetimeDays, SendTokenExpirationWarning } from '../features/tokenLifetime';
+import { RedisHelper } from '../lib/redis';
+
+const hashingKey = 'test-hashing-key';
+
+function createTokenProvider(tokens: Map<string, PersonalAccessToken>) {
+  return {
+    getToken: async (token: string) => {
+      const pat = tokens.get(token);
+      if (!pat) {
+        const error = new Error('The token was not found');
+        error['status'] = 404;
+        throw error;
+      }
+      return pat;
+    },
+    saveNewToken: async (pat: PersonalAccessToken) => {
+      tokens.set(pat.token, pat);
+    },
+    updateToken: async (pat: PersonalAccessToken) => {
+      tokens.set(pat.token, pat);
+    },
+    deleteToken: async (pat: PersonalAccessToken) => {
+      tokens.delete(pat.token);
+    },
+  };
+}
+
+function authenticate(tokens: Map<string, PersonalAccessToken>, key: string): Promise<{ error: any, token: PersonalAccessToken }> {
+  const req: any = {
+    headers: {
+      authorization: 'Basic ' + Buffer.from(`apikey:${key}`).toString('base64'),
+    },
+    app: {
+      settings: {
+        providers: {
+          config: { api: { tokens: { hashingKey } } },
+          tokenProvider: createTokenProvider(tokens),
+        },
+      },
+    },
+    insights: { trackEvent: () => {}, trackMetric: () => {}, trackException: () => {} },
+  };
+  return new Promise(resolve => {
+    ReposApiAuthentiction(req, {}, error => resolve({ error, token: req.apiKeyToken }));
+  });
+}
+
+function createRedis(): RedisHelper {
+  return new RedisHelper(redisMock.createClient(), `tokens${Date.now()}${Math.random()}`);
+}
+
+function rateLimit(redis: RedisHelper, token: PersonalAccessToken, scope: string): Promise<{ error: any, headers: any }> {
+  const headers = {};
+  const req: any = {
+    apiKeyToken: token,
+    app: {
+      settings: {
+        providers: { redis },
+        runtimeConfig: { api: { tokens: { rateLimits: { links: 2 } } } },
+      },
+    },
+    insights: { trackEvent: () => {}, trackMetric: () => {}, trackException: () => {} },
+  };
+  const res: any = { set: (name: string, value: string) => headers[name] = value };
+  return new Promise(resolve => {
+    ApiScopeRateLimit(scope)(req, res, error => resolve({ error, headers }));
+  });
+}
+
+describe('personal access tokens', () => {
+  it('issues prefixed keys stored by keyed hash', () => {
+    const pat = PersonalAccessToken.CreateNewToken(hashingKey);
+    const key = pat.getPrivateKey();
+    assert.isTrue(key.startsWith(PersonalAccessTokenPrefix));
+    assert.equal(pat.token, TokenGenerator.Hash(key, hashingKey));
+    assert.notEqual(pat.token, TokenGenerator.Hash(key, 'another-key'));
+    assert.notEqual(pat.token, TokenGenerator.LegacyHash(key));
+  });
+
+  it('authenticates keyed hash tokens', async () => {
+    const pat = PersonalAccessToken.CreateNewToken(hashingKey);
+    const tokens = new Map([[pat.token, pat]]);
+    const { error, token } = await authenticate(tokens, pat.getPrivateKey());
+    assert.isUndefined(error);
+    assert.equal(token.token, pat.token);
+  });
+
+  it('migrates legacy SHA-1 tokens on first use', async () => {
+    const legacyKey = 'legacy-key-value';
+    const legacy = new PersonalAccessToken();
+    legacy.token = TokenGenerator.LegacyHash(legacyKey);
+    legacy.corporateId = 'aad-1';
+    legacy.scopes = 'links';
+    const tokens = new Map([[legacy.token, legacy]]);
+    const { error, token } = await authenticate(tokens, legacyKey);
+    assert.isUndefined(error);
+    const keyedHash = TokenGenerator.Hash(legacyKey, hashingKey);
+    assert.equal(token.token, keyedHash);
+    assert.equal(token.corporateId, 'aad-1');
+    assert.isTrue(tokens.has(keyedHash));
+    assert.isFalse(tokens.has(legacy.token));
+  });
+
+  it('rejects unknown keys', async () => {
+    const { error } = await authenticate(new Map(), PersonalAccessTokenPrefix + 'unknown');
+    assert.equal(error.statusCode, 401);
+  });
+
+  it('falls back from the rate limit of a scope to the default limit', () => {
+    const tokenConfiguration = { rateLimits: { default: 100, links: 5 } };
+    assert.equal(GetApiScopeRateLimit(tokenConfiguration, 'links'), 5);
+    assert.equal(GetApiScopeRateLimit(tokenConfiguration, 'repos'), 100);
+    assert.isNull(GetApiScopeRateLimit({ rateLimits: { links: 5 } }, 'repos'));
+    assert.isNull(GetApiScopeRateLimit({}, 'links'));
+  });
+
+  it('rejects requests over the rate limit of a scope', async () => {
+    const redis = createRedis();
+    const pat = PersonalAccessToken.CreateNewToken(hashingKey);
+    for (let i = 1; i <= 2; i++) {
+      const { error, headers } = await rateLimit(redis, pat, 'links');
+      assert.isUndefined(error);
+      assert.equal(headers['X-RateLimit-Limit'], '2');
+      assert.equal(headers['X-RateLimit-Remaining'], (2 - i).toString());
+      assert.isUndefined(headers['Retry-After']);
+    }
+    const { error, headers } = await rateLimit(redis, pat, 'links');
+    assert.equal(error.statusCode, 429);
+    assert.equal(headers['X-RateLimit-Remaining'], '0');
+    assert.isAbove(parseInt(headers['X-RateLimit-Reset'], 10), Date.now() / 1000);
+    assert.isAtLeast(parseInt(headers['Retry-After'], 10), 1);
+    // Scopes without a limit are not limited
+    assert.isUndefined((await rateLimit(redis, pat, 'repos')).error);
+  });
+
+  it('writes the usage of a token at most once per interval', async () => {
+    const pat = PersonalAccessToken.CreateNewToken(hashingKey);
+    const tokens = new Map([[pat.token, pat]]);
+    let updates = 0;
+    const tokenProvider = createTokenProvider(tokens);
+    const providers: any = {
+      redis: createRedis(),
+      tokenProvider: Object.assign({}, tokenProvider, { updateToken: async (token: PersonalAccessToken) => { ++updates; await tokenProvider.updateToken(token); } }),
+    };
+    await RecordTokenUsage(providers, pat, 15);
+    assert.equal(updates, 1);
+    assert.equal(pat.usageCount, 1);
+    await RecordTokenUsage(providers, pat, 15);
+    await RecordTokenUsage(providers, pat, 15);
+    assert.equal(updates, 1);
+    pat.lastUsed = new Date(Date.now() - 16 * 60 * 1000);
+    await RecordTokenUsage(providers, pat, 15);
+    assert.equal(updates, 2);
+    assert.equal(pat.usageCount, 4);
+  });
+
+  it('rejects lifetimes above the maximum lifetime', () => {
+    assert.equal(GetTokenLifetimeDays('30', 365), 30);
+    assert.equal(GetTokenLifetimeDays(undefined, 90), 90);
+    assert.throws(() => GetTokenLifetimeDays('366', 365), /more than 365 days/);
+    assert.throws(() => GetTokenLifetimeDays('0', 365));
+    assert.throws(() => GetTokenLifetimeDays('forever', 365));
+  });
+
+  it('warns the owner of an expiring token once', async () => {
+    const appDirectory = [path.resolve(__dirname, '..'), path.resolve(__dirname, '..', '..')].find(directory => fs.existsSync(path.join(directory, 'views', 'email')));
+    const config = { brand: { companyName: 'Contoso' }, typescript: { appDirectory } };
+    const mails = [];
+    const providers: any = {
+      redis: createRedis(),
+      mailProvider: { sendMail: async mail => mails.push(mail) },
+    };
+    const pat = PersonalAccessToken.CreateNewToken(hashingKey);
+    pat.description = 'Build';
+    pat.expires = new Date(Date.now() + 3 * 24 * 60 * 60 * 1000);
+    const userDetails = { mail: 'octocat@contoso.com' };
+    assert.isTrue(await SendTokenExpirationWarning(config, providers, userDetails, pat, 14));
+    assert.isFalse(await SendTokenExpirationWarning(config, providers, userDetails, pat, 14));
+    assert.lengthOf(mails, 1);
+    assert.equal(mails[0].to, 'octocat@contoso.com');
+    assert.include(mails[0].subject, 'Build');
+    const another = PersonalAccessToken.CreateNewToken(hashingKey);
+    another.expires = pat.expires;
+    assert.isTrue(await SendTokenExpirationWarning(config, providers, userDetails, another, 14));
+    assert.lengthOf(mails, 2);
+  });
+});
@@ -0,0 +1,218 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import 'mocha';
+
+const assert = require('chai').assert;
+const redisMock = require('redis-mock');
+
+import ProcessOrganizationWebhook, { PruneWebhookDeliveries, ReplayWebhookDelivery, WebhookProcessor } from '../webhooks/organizationProcessor';
+import Tasks from '../webhooks/tasks';
+import { RedisHelper } from '../lib/redis';
+import { CreateWebhookDeliveryProviderInstance } from '../entities/webhookDelivery';
+import { IWebhookDeliveryProvider } from '../entities/webhookDelivery/webhookDeliveryProvider';
+import { WebhookDeliveryEntity, WebhookDeliveryOutcome } from '../entities/webhookDelivery/webhookDelivery';
+import { MemoryEntityMetadataProvider } from '../lib/entityMetadataProvider/memory';
+import { EntityMetadataType } from '../lib/entityMetadataProvider/entityMetadata';
+import { EntityMetadataMappings, MetadataMappingDefinition } from '../lib/entityMetadataProvider/declarations';
+
+const organization = { id: 1, name: 'contoso', active: true, webhookSignatureValidationRequired: false } as any;
+
+async function createOperations(redis?: RedisHelper) {
+  const entityMetadataProvider = new MemoryEntityMetadataProvider();
+  await entityMetadataProvider.initialize();
+  const webhookDeliveryProvider = await CreateWebhookDeliveryProviderInstance({ entityMetadataProvider });
+  const webhooks = redis ? { deduplicationWindowMinutes: 60 } : {};
+  const operations = {
+    config: { github: { webhooks } },
+    providers: { webhookDeliveryProvider, redis },
+    getOrganization: () => organization,
+  } as any;
+  return { operations, webhookDeliveryProvider };
+}
+
+class TestWebhookProcessor extends WebhookProcessor {
+  claims: string[] = [];
+  failures = 0;
+
+  constructor(private redis: RedisHelper) {
+    super();
+  }
+
+  filter(data: any) {
+    return data.properties.event === 'dedupe-test';
+  }
+
+  async run(operations, organization, data: any): Promise<boolean> {
+    this.claims.push(await this.redis.getAsync(`webhook.delivery.${data.properties.delivery}`) as string);
+    if (this.failures > 0) {
+      --this.failures;
+      throw new Error('The task failed');
+    }
+    return true;
+  }
+}
+
+function createEvent(delivery: string, event: string, body?: any) {
+  return {
+    properties: { delivery, event, signature: 'sha256=unused', started: '2020-01-01T00:00:00Z' },
+    body: Object.assign({ organization: { id: 1, login: 'contoso' } }, body || {}),
+  };
+}
+
+async function createFailedDelivery(webhookDeliveryProvider: IWebhookDeliveryProvider): Promise<WebhookDeliveryEntity> {
+  const delivery = new WebhookDeliveryEntity();
+  delivery.deliveryId = 'd2';
+  delivery.event = 'team';
+  delivery.action = 'created';
+  delivery.organizationName = 'contoso';
+  delivery.properties = createEvent('d2', 'team').properties;
+  delivery.body = createEvent('d2', 'team', { action: 'created', team: { id: 30, name: 'Everyone' } }).body;
+  delivery.tasks = [
+    { task: 'AuditLogRecorderWebhookProcessor', succeeded: false, error: 'unavailable', completed: '2020-01-01T00:00:01Z' },
+    { task: 'TeamWebhookProcessor', succeeded: true, completed: '2020-01-01T00:00:01Z' },
+  ];
+  delivery.outcome = WebhookDeliveryOutcome.Failed;
+  delivery.attempts = 1;
+  await webhookDeliveryProvider.createDelivery(delivery);
+  return delivery;
+}
+
+describe('webhook deliveries', () => {
+  it('records a delivery and counts redeliveries as attempts', async () => {
+    const { operations, webhookDeliveryProvider } = await createOperations();
+    await ProcessOrganizationWebhook({ operations, organization, event: createEvent('d1', 'ping') });
+    let delivery = await webhookDeliveryProvider.getDelivery('d1');
+    assert.equal(delivery.event, 'ping');
+    assert.equal(delivery.organizationName, 'contoso');
+    assert.equal(delivery.outcome, WebhookDeliveryOutcome.Skipped);
+    assert.equal(delivery.attempts, 1);
+    assert.equal(delivery.body.organization.login, 'contoso');
+
+    await ProcessOrganizationWebhook({ operations, organization, event: createEvent('d1', 'ping') });
+    delivery = await webhookDeliveryProvider.getDelivery('d1');
+    assert.equal(delivery.attempts, 2);
+    assert.equal((await webhookDeliveryProvider.queryDeliveriesByOutcome(WebhookDeliveryOutcome.Skipped)).length, 1);
+  });
+
+  it('replays a single task and merges its outcome with the other tasks', async () => {
+    const { operations, webhookDeliveryProvider } = await createOperations();
+    await createFailedDelivery(webhookDeliveryProvider);
+    const replayed = await ReplayWebhookDelivery(operations, 'd2', 'AuditLogRecorderWebhookProcessor');
+    assert.equal(replayed.outcome, WebhookDeliveryOutcome.Processed);
+    assert.isNull(replayed.error);
+    assert.equal(replayed.attempts, 2);
+    assert.sameMembers(replayed.tasks.map(task => task.task), ['AuditLogRecorderWebhookProcessor', 'TeamWebhookProcessor']);
+    assert.isTrue(replayed.tasks.every(task => task.succeeded));
+    const stored = await webhookDeliveryProvider.getDelivery('d2');
+    assert.equal(stored.outcome, WebhookDeliveryOutcome.Processed);
+  });
+
+  it('refuses to replay a task that is not interested in the event', async () => {
+    const { operations, webhookDeliveryProvider } = await createOperations();
+    await createFailedDelivery(webhookDeliveryProvider);
+    let error = null;
+    try {
+      await ReplayWebhookDelivery(operations, 'd2', 'RepositoryWebhookProcessor');
+    } catch (replayError) {
+      error = replayError;
+    }
+    assert.isOk(error);
+    assert.equal((await webhookDeliveryProvider.getDelivery('d2')).attempts, 1);
+  });
+
+  it('prunes deliveries after the retention period', async () => {
+    const { webhookDeliveryProvider } = await createOperations();
+    const now = new Date('2020-03-01T00:00:00Z');
+    const ages = { d20: 40, d21: 10, d22: 31 };
+    for (const deliveryId of Object.getOwnPropertyNames(ages)) {
+      const delivery = new WebhookDeliveryEntity();
+      delivery.deliveryId = deliveryId;
+      delivery.received = new Date(now.getTime() - ages[deliveryId] * 24 * 60 * 60 * 1000);
+      delivery.updated = delivery.received;
+      await webhookDeliveryProvider.createDelivery(delivery);
+    }
+    // A delivery replayed recently is kept
+    const replayed = await webhookDeliveryProvider.getDelivery('d22');
+    replayed.updated = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+    await webhookDeliveryProvider.updateDelivery(replayed);
+
+    assert.equal(await PruneWebhookDeliveries(webhookDeliveryProvider, 30, now), 1);
+    assert.sameMembers((await webhookDeliveryProvider.queryAllDeliveries()).map(delivery => delivery.deliveryId), ['d21', 'd22']);
+  });
+
+  it('stores the tasks and a large body across table columns', () => {
+    const type = EntityMetadataType.WebhookDelivery;
+    const serializer = EntityMetadataMappings.GetDefinition(type, MetadataMappingDefinition.TableSpecializedSerializationHelper, true);
+    const deserializer = EntityMetadataMappings.GetDefinition(type, MetadataMappingDefinition.TableSpecializedDeserializationHelper, true);
+    const delivery = new WebhookDeliveryEntity();
+    delivery.properties = { delivery: 'd3', event: 'push' };
+    delivery.body = { commits: 'x'.repeat(70000) };
+    delivery.tasks = [{ task: 'RepositoryWebhookProcessor', succeeded: true, completed: '2020-01-01T00:00:00Z' }];
+    delivery.attempts = 3;
+    const entity: any = { entityType: type, entityId: 'd3', entityFieldNames: [], attempts: '3' };
+    serializer(entity, delivery);
+    assert.equal(entity.bodyCount, '3');
+    assert.isString(entity.tasks);
+    const roundTrip = new WebhookDeliveryEntity();
+    deserializer(entity, roundTrip);
+    assert.deepEqual(roundTrip.body, delivery.body);
+    assert.deepEqual(roundTrip.tasks, delivery.tasks);
+    assert.deepEqual(roundTrip.properties, delivery.properties);
+    assert.strictEqual(roundTrip.attempts, 3);
+  });
+});
+
+describe('webhook delivery deduplication', () => {
+  let redis: RedisHelper = null;
+  let processor: TestWebhookProcessor = null;
+
+  beforeEach(() => {
+    redis = new RedisHelper(redisMock.createClient(), `dedupe${Date.now()}`);
+    processor = new TestWebhookProcessor(redis);
+    Tasks.push(processor);
+  });
+
+  afterEach(() => {
+    Tasks.splice(Tasks.indexOf(processor), 1);
+  });
+
+  it('claims a delivery while processing and skips it once processed', async () => {
+    const { operations, webhookDeliveryProvider } = await createOperations(redis);
+    assert.equal(await ProcessOrganizationWebhook({ operations, organization, event: createEvent('d10', 'dedupe-test') }), 1);
+    assert.equal(processor.claims.length, 1);
+    assert.match(processor.claims[0], /^processing /);
+    assert.match(await redis.getAsync('webhook.delivery.d10'), /^processed /);
+
+    assert.equal(await ProcessOrganizationWebhook({ operations, organization, event: createEvent('d10', 'dedupe-test') }), 0);
+    assert.equal(processor.claims.length, 1);
+    assert.equal((await webhookDeliveryProvider.getDelivery('d10')).attempts, 1);
+  });
+
+  it('skips a redelivery while the delivery is in progress', async () => {
+    const { operations } = await createOperations(redis);
+    assert.isTrue(await redis.setIfNotExistsWithExpireAsync('webhook.delivery.d11', 'processing elsewhere', 5));
+    assert.isFalse(await redis.setIfNotExistsWithExpireAsync('webhook.delivery.d11', 'processing again', 5));
+    assert.equal(await ProcessOrganizationWebhook({ operations, organization, event: createEvent('d11', 'dedupe-test') }), 0);
+    assert.equal(processor.claims.length, 0);
+  });
+
+  it('processes a redelivery of a failed delivery again', async () => {
+    const { operations, webhookDeliveryProvider } = await createOperations(redis);
+    processor.failures = 1;
+    await ProcessOrganizationWebhook({ operations, organization, event: createEvent('d12', 'dedupe-test') });
+    assert.isNull(await redis.getAsync('webhook.delivery.d12'));
+    assert.equal((await webhookDeliveryProvider.getDelivery('d12')).outcome, WebhookDeliveryOutcome.Failed);
+
+    await ProcessOrganizationWebhook({ operations, organization, event: createEvent('d12', 'dedupe-test') });
+    assert.equal(processor.claims.length, 2);
+    const delivery = await webhookDeliveryProvider.getDelivery('d12');
+    assert.equal(delivery.outcome, WebhookDeliveryOutcome.Processed);
+    assert.equal(delivery.attempts, 2);
+    assert.match(await redis.getAsync('webhook.delivery.d12'), /^processed /);
+  });
+});
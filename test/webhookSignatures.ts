@@ -0,0 +1,81 @@
+//
+// Copyright (c) Microsoft.
+// Licensed under the MIT license. See LICENSE file in the project root for full license information.
+//
+
+'use strict';
+
+import 'mocha';
+import crypto = require('crypto');
+
+const assert = require('chai').assert;
+
+import { verifySignatures, IGitHubWebhookProperties, WebhookRejectionReason } from '../webhooks/organizationProcessor';
+
+const rawBody = JSON.stringify({ action: 'created', organization: { login: 'contoso' } });
+
+function sign(algorithm: string, secret: string, body: string) {
+  return `${algorithm}=${crypto.createHmac(algorithm, secret).update(body, 'utf8').digest('hex')}`;
+}
+
+function createProperties(signature: string, signature256?: string): IGitHubWebhookProperties {
+  return {
+    delivery: 'delivery-id',
+    event: 'repository',
+    started: new Date().toISOString(),
+    signature,
+    signature256,
+  };
+}
+
+async function getRejectionReason(promise: Promise<void>): Promise<WebhookRejectionReason> {
+  try {
+    await promise;
+  } catch (error) {
+    assert.equal(error.statusCode, 401);
+    return error.reason;
+  }
+  assert.fail('the signature was expected to be rejected');
+}
+
+describe('webhooks', () => {
+  describe('verifySignatures', () => {
+    it('accepts a sha256 signature', async () => {
+      await verifySignatures(createProperties(null, sign('sha256', 'secret', rawBody)), ['secret'], rawBody);
+    });
+
+    it('accepts a legacy sha1 signature', async () => {
+      await verifySignatures(createProperties(sign('sha1', 'secret', rawBody)), ['secret'], rawBody);
+    });
+
+    it('prefers the sha256 signature when both are present', async () => {
+      const properties = createProperties(sign('sha1', 'wrong', rawBody), sign('sha256', 'secret', rawBody));
+      await verifySignatures(properties, ['secret'], rawBody);
+    });
+
+    it('accepts any active secret to allow for rotation', async () => {
+      const properties = createProperties(null, sign('sha256', 'new-secret', rawBody));
+      await verifySignatures(properties, ['old-secret', 'new-secret'], rawBody);
+    });
+
+    it('rejects a signature from an unknown secret', async () => {
+      const properties = createProperties(null, sign('sha256', 'another', rawBody));
+      assert.equal(await getRejectionReason(verifySignatures(properties, ['secret'], rawBody)), WebhookRejectionReason.SignatureMismatch);
+    });
+
+    it('rejects deliveries when no secrets are configured', async () => {
+      const properties = createProperties(null, sign('sha256', 'secret', rawBody));
+      assert.equal(await getRejectionReason(verifySignatures(properties, [], rawBody)), WebhookRejectionReason.NoConfiguredSecrets);
+    });
+
+    it('rejects unsupported algorithms', async () => {
+      const properties = createProperties(sign('md5', 'secret', rawBody));
+      assert.equal(await getRejectionReason(verifySignatures(properties, ['secret'], rawBody)), WebhookRejectionReason.UnsupportedAlgorithm);
+    });
+
+    it('rejects a missing signature', async () => {
+      const properties = createProperties(null);
+      assert.equal(await getRejectionReason(verifySignatures(properties, ['secret'], rawBody)), WebhookRejectionReason.MissingSignature);
+    });
+  });
+});
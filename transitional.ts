@@ -39,6 +39,11 @@ import QueryCache from './business/queryCache';
 import { IMailProvider } from './lib/mailProvider';
 import { GitHubRepositoryPermission } from './entities/repositoryMetadata/repositoryMetadata';
 import { IOrganizationSettingProvider } from './entities/organizationSettings/organizationSettingProvider';
+import { IWebhookDeliveryProvider } from './entities/webhookDelivery/webhookDeliveryProvider';
+import { IAuditLogRecordProvider } from './entities/auditLogRecord/auditLogRecordProvider';
+import { IRepositoryWorkflowRunProvider } from './entities/repositoryWorkflowRun/repositoryWorkflowRunProvider';
+import { ITeamDirectoryGroupProvider } from './entities/teamDirectoryGroup/teamDirectoryGroupProvider';
+import { IQueueProcessor } from './lib/queues';
 
 export interface ICallback<T> {
   (error: IReposError, result?: T): void;
@@ -134,6 +139,7 @@ export interface IClassicLink {
 
 export interface IProviders {
   approvalProvider?: IApprovalProvider;
+  auditLogRecordProvider?: IAuditLogRecordProvider;
   basedir?: string;
   config?: any;
   // entityMetadata?: IEntityMetadataProvider;
@@ -157,8 +163,12 @@ export interface IProviders {
   repositoryCollaboratorCacheProvider?: IRepositoryCollaboratorCacheProvider;
   repositoryMetadataProvider?: IRepositoryMetadataProvider;
   repositoryTeamCacheProvider?: IRepositoryTeamCacheProvider;
+  repositoryWorkflowRunProvider?: IRepositoryWorkflowRunProvider;
   teamCacheProvider?: ITeamCacheProvider;
+  teamDirectoryGroupProvider?: ITeamDirectoryGroupProvider;
   teamMemberCacheProvider?: ITeamMemberCacheProvider;
+  webhookDeliveryProvider?: IWebhookDeliveryProvider;
+  webhookQueueProcessor?: IQueueProcessor;
   witnessRedis?: redis.RedisClient;
   witnessRedisHelper?: RedisHelper;
   tokenProvider?: ITokenProvider;
@@ -9,16 +9,30 @@
 
 import _= require('lodash');
 import async = require('async');
+import moment from 'moment';
 import { Operations } from '../business/operations';
 import { Organization } from '../business/organization';
+import { WebhookDeliveryEntity, WebhookDeliveryOutcome, IWebhookDeliveryTaskOutcome } from '../entities/webhookDelivery/webhookDelivery';
+import { IWebhookDeliveryProvider } from '../entities/webhookDelivery/webhookDeliveryProvider';
+import { IQueueProcessor } from '../lib/queues';
+import { IReposError } from '../transitional';
+import { asNumber } from '../utils';
 const crypto = require('crypto');
 const secureCompare = require('secure-compare');
 
 import Tasks from './tasks';
 
+export enum WebhookRejectionReason {
+  MissingSignature = 'MissingSignature',
+  NoConfiguredSecrets = 'NoConfiguredSecrets',
+  SignatureMismatch = 'SignatureMismatch',
+  UnsupportedAlgorithm = 'UnsupportedAlgorithm',
+}
+
 interface IValidationError extends Error {
   statusCode?: number;
   computedHash?: string;
+  reason?: WebhookRejectionReason;
 }
 
 export abstract class WebhookProcessor {
@@ -34,7 +48,8 @@ export interface IOrganizationWebhookEvent {
 
 export interface IGitHubWebhookProperties {
   delivery: string;
-  signature: string;
+  signature: string; // X-Hub-Signature, sha1
+  signature256?: string; // X-Hub-Signature-256, sha256
   event: string;
   started: string; // Date UTC string
 }
@@ -46,6 +61,12 @@ export interface IProcessOrganizationWebhookOptions {
   acknowledgeValidEvent?: any;
 }
 
+// A delivery is claimed for a short time while its tasks run, so that a
+// crashed processor does not hold the delivery for the whole deduplication
+// window. Only a delivery whose tasks all succeeded is marked as processed.
+// To process a delivery again, replay it with ReplayWebhookDelivery.
+const deliveryClaimMinutes = 5;
+
 export default async function ProcessOrganizationWebhook(options: IProcessOrganizationWebhookOptions): Promise<any> {
   const operations = options.operations;
   if (!operations) {
@@ -72,36 +93,20 @@ export default async function ProcessOrganizationWebhook(options: IProcessOrgani
   const body = event.body;
   const rawBody = event.rawBody || JSON.stringify(body);
   const properties = event.properties;
-  if (!properties || !properties.delivery || !properties.signature || !properties.event) {
+  if (!properties || !properties.delivery || (!properties.signature && !properties.signature256) || !properties.event) {
     if (options.acknowledgeValidEvent) {
       options.acknowledgeValidEvent();
     }
     throw new Error('Missing event properties - delivery, signature, and/or event');
   }
-  // try {
-  //   await verifySignatures(properties.signature, organization.webhookSharedSecrets, rawBody);
-  // } catch (validationError) {
-    // NO LONGER VALIDATING SIG
-    // if (validationError) {
-    //   if (operations && operations.insights) {
-    //     const possibleOrganization = body && body.organization ? body.organization.login : 'unknown-org';
-    //     console.warn(`incorrect hook signature - ${possibleOrganization} organization`);
-    //     operations.insights.trackMetric({ name: 'WebhookIncorrectSecrets', value: 1 });
-    //     operations.insights.trackEvent({
-    //       name: 'WebhookIncorrectSecret',
-    //       properties: {
-    //         org: possibleOrganization,
-    //         delivery: properties.delivery,
-    //         event: properties.event,
-    //         signature: properties.signature,
-    //         approximateTime: properties.started.toISOString(),
-    //         computedHash: validationError.computedHash,
-    //       },
-    //     });
-    //   }
-    //   return callback(validationError);
-    // }
-  //}
+  if (organization.webhookSignatureValidationRequired) {
+    try {
+      await verifySignatures(properties, organization.webhookSharedSecrets, rawBody);
+    } catch (validationError) {
+      recordRejectedDelivery(operations, organization, properties, validationError);
+      throw validationError;
+    }
+  }
 
   // In a bus scenario, if a short timeout window is used for queue
   // visibility, a client may want to acknowledge this being a valid
@@ -110,6 +115,25 @@ export default async function ProcessOrganizationWebhook(options: IProcessOrgani
   if (options.acknowledgeValidEvent) {
     options.acknowledgeValidEvent();
   }
+  const deduplicationWindowMinutes = getDeduplicationWindowMinutes(operations);
+  if (deduplicationWindowMinutes) {
+    const isFirstDelivery = await claimDelivery(operations, properties.delivery, Math.min(deliveryClaimMinutes, deduplicationWindowMinutes));
+    if (!isFirstDelivery) {
+      console.log(`[skipping duplicate delivery ${properties.delivery}: ${properties.event}]`);
+      if (operations.insights) {
+        operations.insights.trackEvent({
+          name: 'WebhookDuplicateDelivery',
+          properties: {
+            org: organization.name,
+            delivery: properties.delivery,
+            event: properties.event,
+          },
+        });
+      }
+      return 0;
+    }
+  }
+
   let interestingEvents = 0;
   const work = Tasks.filter(task => task.filter(event));
   if (work.length > 0) {
@@ -119,39 +143,258 @@ export default async function ProcessOrganizationWebhook(options: IProcessOrgani
     console.log(`[skipping event: ${event.properties.event}]`);
   }
 
+  const taskOutcomes = await runProcessors(operations, organization, event, work);
+  if (deduplicationWindowMinutes && taskOutcomes.find(outcome => !outcome.succeeded)) {
+    // A redelivery of a failed event should be processed again
+    await releaseDelivery(operations, properties.delivery);
+  } else if (deduplicationWindowMinutes) {
+    await completeDelivery(operations, properties.delivery, deduplicationWindowMinutes);
+  }
+  await recordDelivery(operations, organization, event, taskOutcomes);
+  return interestingEvents;
+}
+
+function getDeduplicationWindowMinutes(operations: Operations): number {
+  const webhooksConfig = operations.config && operations.config.github ? operations.config.github.webhooks : null;
+  if (!webhooksConfig || !webhooksConfig.deduplicationWindowMinutes) {
+    return 0;
+  }
+  return asNumber(webhooksConfig.deduplicationWindowMinutes) || 0;
+}
+
+function getDeliveryClaimKey(deliveryId: string) {
+  return `webhook.delivery.${deliveryId}`;
+}
+
+async function claimDelivery(operations: Operations, deliveryId: string, claimMinutes: number): Promise<boolean> {
+  const redis = operations.providers.redis;
+  if (!redis) {
+    return true;
+  }
+  try {
+    return await redis.setIfNotExistsWithExpireAsync(getDeliveryClaimKey(deliveryId), `processing ${moment().utc().format()}`, claimMinutes);
+  } catch (claimError) {
+    // Processing a possible duplicate is preferred to dropping the event
+    console.warn(`could not check webhook delivery ${deliveryId} for duplicates: ${claimError.message}`);
+    return true;
+  }
+}
+
+async function completeDelivery(operations: Operations, deliveryId: string, windowMinutes: number): Promise<void> {
+  const redis = operations.providers.redis;
+  if (!redis) {
+    return;
+  }
+  try {
+    await redis.setWithExpireAsync(getDeliveryClaimKey(deliveryId), `processed ${moment().utc().format()}`, windowMinutes);
+  } catch (completeError) {
+    // The short claim expires, so a redelivery would be processed again
+    console.warn(`could not mark webhook delivery ${deliveryId} as processed: ${completeError.message}`);
+  }
+}
+
+async function releaseDelivery(operations: Operations, deliveryId: string): Promise<void> {
+  const redis = operations.providers.redis;
+  if (!redis) {
+    return;
+  }
+  try {
+    await redis.deleteAsync(getDeliveryClaimKey(deliveryId));
+  } catch (releaseError) {
+    console.warn(`could not release webhook delivery ${deliveryId}: ${releaseError.message}`);
+  }
+}
+
+export async function ReplayWebhookDelivery(operations: Operations, deliveryId: string, taskName?: string): Promise<WebhookDeliveryEntity> {
+  const webhookDeliveryProvider = operations.providers.webhookDeliveryProvider;
+  if (!webhookDeliveryProvider) {
+    throw new Error('No webhook delivery provider is configured');
+  }
+  const delivery = await webhookDeliveryProvider.getDelivery(deliveryId);
+  // The signature was verified when the delivery was first recorded. Replays
+  // are explicit, so they are not subject to duplicate delivery detection.
+  const organization = operations.getOrganization(delivery.organizationName);
+  const event: IOrganizationWebhookEvent = {
+    properties: delivery.properties,
+    body: delivery.body,
+  };
+  let work = Tasks.filter(task => task.filter(event));
+  if (taskName) {
+    work = work.filter(task => getProcessorName(task) === taskName);
+    if (!work.length) {
+      throw new Error(`The task ${taskName} is not interested in the ${delivery.event} event for delivery ${deliveryId}`);
+    }
+  }
+  console.log(`[replaying delivery ${deliveryId}: ${delivery.event} (${work.length} tasks)]`);
+  const taskOutcomes = await runProcessors(operations, organization, event, work);
+  const replayedTaskNames = new Set(taskOutcomes.map(outcome => outcome.task));
+  delivery.tasks = (delivery.tasks || []).filter(outcome => !replayedTaskNames.has(outcome.task)).concat(taskOutcomes);
+  updateDeliveryOutcome(delivery);
+  await webhookDeliveryProvider.updateDelivery(delivery);
+  return delivery;
+}
+
+export async function PruneWebhookDeliveries(webhookDeliveryProvider: IWebhookDeliveryProvider, retentionDays: number, now?: Date): Promise<number> {
+  // Deliveries hold the complete body of the event, so they are only kept, and
+  // can only be replayed, for the retention period after their last processing
+  const cutoff = moment(now || new Date()).subtract(retentionDays, 'days');
+  const deliveries = await webhookDeliveryProvider.queryAllDeliveries();
+  let pruned = 0;
+  for (const delivery of deliveries) {
+    const lastProcessed = delivery.updated || delivery.received;
+    if (lastProcessed && moment(lastProcessed).isBefore(cutoff)) {
+      await webhookDeliveryProvider.deleteDelivery(delivery);
+      ++pruned;
+    }
+  }
+  return pruned;
+}
+
+export async function EnqueueWebhook(queueProcessor: IQueueProcessor, event: IOrganizationWebhookEvent): Promise<void> {
+  // The firehose job verifies the signatures against the raw body when it
+  // processes the message, so the body is queued exactly as it was received
+  if (!event.rawBody) {
+    const error: IReposError = new Error('The webhook body could not be read');
+    error.status = 400;
+    throw error;
+  }
+  await queueProcessor.sendMessage(event.rawBody, event.properties);
+}
+
+function getProcessorName(processor: WebhookProcessor): string {
+  return processor.constructor.name;
+}
+
+async function runProcessors(operations: Operations, organization: Organization, event: IOrganizationWebhookEvent, work: WebhookProcessor[]): Promise<IWebhookDeliveryTaskOutcome[]> {
+  const outcomes: IWebhookDeliveryTaskOutcome[] = [];
   for (let processor of work) {
+    const outcome: IWebhookDeliveryTaskOutcome = {
+      task: getProcessorName(processor),
+      succeeded: true,
+      completed: null,
+    };
     try {
       await processor.run(operations, organization, event);
     } catch (processInitializationError) {
       console.log('Processor ran into an error with an event:');
       console.dir(processInitializationError);
+      outcome.succeeded = false;
+      outcome.error = processInitializationError && processInitializationError.message ? processInitializationError.message : String(processInitializationError);
     }
+    outcome.completed = moment().utc().format();
+    outcomes.push(outcome);
   }
-  return interestingEvents;
+  return outcomes;
 }
 
-async function verifySignatures(signature, hookSecrets: string[], rawBody): Promise<void> {
-  // To ease local development and simple scenarios, if no shared secrets are
-  // configured, they are not required.
-  if (!hookSecrets || !hookSecrets.length) {
+function updateDeliveryOutcome(delivery: WebhookDeliveryEntity) {
+  const failedTasks = delivery.failedTasks;
+  if (failedTasks.length) {
+    delivery.outcome = WebhookDeliveryOutcome.Failed;
+    delivery.error = failedTasks.map(task => `${task.task}: ${task.error}`).join('; ');
+  } else {
+    delivery.outcome = delivery.tasks.length ? WebhookDeliveryOutcome.Processed : WebhookDeliveryOutcome.Skipped;
+    delivery.error = null;
+  }
+  delivery.attempts = (asNumber(delivery.attempts) || 0) + 1;
+  delivery.updated = new Date();
+}
+
+async function recordDelivery(operations: Operations, organization: Organization, event: IOrganizationWebhookEvent, taskOutcomes: IWebhookDeliveryTaskOutcome[]): Promise<void> {
+  const webhookDeliveryProvider = operations.providers.webhookDeliveryProvider;
+  if (!webhookDeliveryProvider) {
     return;
   }
+  const properties = event.properties;
+  try {
+    let delivery: WebhookDeliveryEntity = null;
+    try {
+      delivery = await webhookDeliveryProvider.getDelivery(properties.delivery);
+    } catch (notFound) {
+      if (!notFound || notFound['status'] !== 404) {
+        throw notFound;
+      }
+    }
+    const isNew = !delivery;
+    if (isNew) {
+      delivery = new WebhookDeliveryEntity();
+      delivery.deliveryId = properties.delivery;
+    }
+    delivery.event = properties.event;
+    delivery.action = event.body.action;
+    delivery.organizationId = organization.id ? organization.id.toString() : null;
+    delivery.organizationName = organization.name;
+    delivery.properties = properties;
+    delivery.body = event.body;
+    delivery.tasks = taskOutcomes;
+    updateDeliveryOutcome(delivery);
+    if (isNew) {
+      await webhookDeliveryProvider.createDelivery(delivery);
+    } else {
+      await webhookDeliveryProvider.updateDelivery(delivery);
+    }
+  } catch (recordError) {
+    // The delivery log is diagnostic; it should not fail the processing of the event
+    console.warn(`could not record webhook delivery ${properties.delivery}: ${recordError.message}`);
+  }
+}
+
+export async function verifySignatures(properties: IGitHubWebhookProperties, hookSecrets: string[], rawBody: string): Promise<void> {
+  if (!hookSecrets || !hookSecrets.length) {
+    // Local development environments can opt out of validation entirely
+    // through configuration; otherwise, an unconfigured secret is an error.
+    throw createValidationError('No webhook shared secrets are configured for the organization', WebhookRejectionReason.NoConfiguredSecrets);
+  }
+  // The SHA-256 signature is preferred when GitHub provides both headers
+  const signature = properties.signature256 || properties.signature;
   if (!signature) {
-    throw new Error('No event signature was provided');
+    throw createValidationError('No event signature was provided', WebhookRejectionReason.MissingSignature);
+  }
+  const separator = signature.indexOf('=');
+  const algorithm = separator > 0 ? signature.substr(0, separator).toLowerCase() : null;
+  if (algorithm !== 'sha256' && algorithm !== 'sha1') {
+    throw createValidationError(`The signature algorithm ${algorithm || 'unknown'} is not supported`, WebhookRejectionReason.UnsupportedAlgorithm);
   }
   const computedSignatures = [];
   for (let i = 0; i < hookSecrets.length; i++) {
     const sharedSecret = hookSecrets[i];
-    const sha1 = crypto.createHmac('sha1', sharedSecret);
-    sha1.update(rawBody, 'utf8');
-    const computedHash = 'sha1=' + sha1.digest('hex');
+    const hmac = crypto.createHmac(algorithm, sharedSecret);
+    hmac.update(rawBody, 'utf8');
+    const computedHash = `${algorithm}=${hmac.digest('hex')}`;
     if (secureCompare(computedHash, signature)) {
       return;
     }
     computedSignatures.push(computedHash);
   }
-  const validationError: IValidationError = new Error('The signature could not be verified');
-  validationError.statusCode = 401;
+  const validationError = createValidationError('The signature could not be verified', WebhookRejectionReason.SignatureMismatch);
   validationError.computedHash = computedSignatures.join(', ');
   throw validationError;
 }
+
+function createValidationError(message: string, reason: WebhookRejectionReason): IValidationError {
+  const validationError: IValidationError = new Error(message);
+  validationError.statusCode = 401;
+  validationError.reason = reason;
+  return validationError;
+}
+
+function recordRejectedDelivery(operations: Operations, organization: Organization, properties: IGitHubWebhookProperties, validationError: IValidationError) {
+  const reason = validationError.reason || WebhookRejectionReason.SignatureMismatch;
+  console.warn(`webhook delivery ${properties.delivery} rejected for the ${organization.name} organization: ${reason}`);
+  const insights = operations.insights;
+  if (insights) {
+    insights.trackMetric({ name: 'WebhookIncorrectSecrets', value: 1 });
+    insights.trackEvent({
+      name: 'WebhookIncorrectSecret',
+      properties: {
+        org: organization.name,
+        delivery: properties.delivery,
+        event: properties.event,
+        reason,
+        message: validationError.message,
+        signature: properties.signature256 || properties.signature,
+        approximateTime: properties.started,
+      },
+    });
+  }
+}
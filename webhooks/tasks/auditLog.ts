@@ -5,35 +5,16 @@
 
 /*eslint no-console: ["error", { allow: ["dir", "log"] }] */
 
-// AUDIT LOG: this capability is offline since the original data store was not ideal.
-// This should be rewritten to use the entity concept, and integrate with the newer
-// GitHub Enterprise Cloud capability of using GraphQL to hit the official audit log
-// for organizations, and also to import JSON-based audit export files.
+// AUDIT LOG: events are recorded as normalized audit log records through the
+// entity concept. Integrating with the GitHub Enterprise Cloud GraphQL audit log
+// and importing JSON-based audit export files remain future work.
 
 'use strict';
 
 import { WebhookProcessor } from '../organizationProcessor';
 import { Operations } from '../../business/operations';
 import { Organization } from '../../business/organization';
-
-interface IAuditDocument {
-  pk: string;
-  type: string;
-  provider: string;
-  service: string;
-  id: string;
-  action: string;
-  event: string;
-  actor: any;
-  scope?: string;
-  membership?: any;
-  member?: any;
-  team?: any;
-  changes?: any;
-  organization?: any;
-  timestamp?: any;
-  repository?: any;
-}
+import { AuditLogRecord } from '../../entities/auditLogRecord/auditLogRecord';
 
 const eventTypes = new Set([
   'membership',
@@ -43,62 +24,71 @@ const eventTypes = new Set([
   'team',
 ]);
 
-async function runAsync(operations: Operations, organization: Organization, data: any) {
+function idAsString(id: any): string {
+  return id !== undefined && id !== null ? String(id) : null;
+}
+
+export function CreateAuditLogRecordFromEvent(organization: Organization, data: any): AuditLogRecord {
   const properties = data.properties;
   const body = data.body;
-  // const document : IAuditDocument = {
-  //   type: 'event',
-  //   provider: 'github',
-  //   service: 'repos',
-  //   id: properties.delivery,
-  //   action: body.action,
-  //   event: properties.event,
-  //   actor: {
-  //     id: body.sender.id,
-  //     login: body.sender.login,
-  //   },
-  // };
-  // if (body.scope) {
-  //   document.scope = body.scope;
-  // }
-  // if (body.membership) {
-  //   document.membership = {
-  //     state: body.membership.state,
-  //     role: body.membership.role,
-  //     user: {
-  //       id: body.membership.user.id,
-  //       login: body.membership.user.login,
-  //     },
-  //   };
-  // }
-  // if (body.member) {
-  //   document.member = {
-  //     id: body.member.id,
-  //     login: body.member.login,
-  //   };
-  // }
-  // if (body.team) {
-  //   document.team = {
-  //     id: body.team.id,
-  //     name: body.team.name,
-  //   };
-  // }
-  // if (body.changes) {
-  //   document.changes = body.changes;
-  // }
-  // document.timestamp = properties.started;
-  // if (body.organization) {
-  //   document.organization = {
-  //     id: body.organization.id,
-  //     login: body.organization.login,
-  //   };
-  // }
-  // if (body.repository) {
-  //   document.repository = {
-  //     id: body.repository.id,
-  //     name: body.repository.name,
-  //   };
-  // }
+  const record = new AuditLogRecord();
+  // The delivery ID makes the record idempotent across redeliveries and replays
+  record.recordId = properties.delivery;
+  record.deliveryId = properties.delivery;
+  record.event = properties.event;
+  record.action = body.action ? `${properties.event}.${body.action}` : properties.event;
+  if (properties.started) {
+    record.created = new Date(properties.started);
+  }
+  if (body.sender) {
+    record.actorId = idAsString(body.sender.id);
+    record.actorUsername = body.sender.login;
+  }
+  if (body.organization) {
+    record.organizationId = idAsString(body.organization.id);
+    record.organizationName = body.organization.login;
+  } else {
+    record.organizationId = idAsString(organization.id);
+    record.organizationName = organization.name;
+  }
+  if (body.repository) {
+    record.repositoryId = idAsString(body.repository.id);
+    record.repositoryName = body.repository.name;
+  }
+  if (body.team) {
+    record.teamId = idAsString(body.team.id);
+    record.teamName = body.team.name;
+  }
+  const user = body.membership && body.membership.user ? body.membership.user : body.member;
+  if (user) {
+    record.userId = idAsString(user.id);
+    record.userUsername = user.login;
+  }
+  if (body.membership && body.membership.role) {
+    record.role = body.membership.role;
+  } else if (body.changes && body.changes.permission && body.changes.permission.to) {
+    record.role = body.changes.permission.to;
+  }
+  return record;
+}
+
+async function runAsync(operations: Operations, organization: Organization, data: any): Promise<boolean> {
+  const auditLogRecordProvider = operations.providers.auditLogRecordProvider;
+  if (!auditLogRecordProvider) {
+    return false;
+  }
+  const record = CreateAuditLogRecordFromEvent(organization, data);
+  try {
+    await auditLogRecordProvider.getRecord(record.recordId);
+    console.log(`audit log record ${record.recordId} already exists`);
+    return false;
+  } catch (notFound) {
+    if (!notFound || notFound['status'] !== 404) {
+      throw notFound;
+    }
+  }
+  await auditLogRecordProvider.insertRecord(record);
+  return true;
 }
 
 export default class AuditLogRecorderWebhookProcessor implements WebhookProcessor {
@@ -110,7 +100,6 @@ export default class AuditLogRecorderWebhookProcessor implements WebhookProcesso
   }
 
   async run(operations: Operations, organization: Organization, data: any): Promise<boolean> {
-    const result = await runAsync(operations, organization, data);
-    return true;
+    return await runAsync(operations, organization, data);
   }
 }
@@ -8,7 +8,6 @@
 'use strict';
 
 const teamTypes = ['read', 'write', 'admin'];
-const defaultLargeAdminTeamSize = 250;
 
 import { Operations } from '../../business/operations';
 import { WebhookProcessor } from '../organizationProcessor';
@@ -16,6 +15,7 @@ import { Organization } from '../../business/organization';
 
 import { RenderHtmlMail } from '../../lib/emailRender';
 import { IMailProvider } from '../../lib/mailProvider';
+import { EvaluateTeamPermissionPolicies, GetMostSevereAction, GetOrganizationPermissionPolicies, IPermissionPolicyViolation, PermissionPolicyAction } from '../../features/permissionPolicies';
 
 interface IAutomaticTeamsMail {
   to: string;
@@ -76,7 +76,6 @@ export default class AutomaticTeamsWebhookProcessor implements WebhookProcessor
     const eventType = data.properties.event;
     const eventAction = data.body.action;
     const { specialTeamIds, specialTeamLevels } = this.processOrgSpecialTeams(organization);
-    const preventLargeTeamPermissions = organization.preventLargeTeamPermissions;
     const repositoryBody = data.body.repository;
     const newPermissions = repositoryBody ? repositoryBody.permissions : null;
     const whoChangedIt = data.body && data.body.sender ? data.body.sender.login : null;
@@ -110,46 +109,31 @@ export default class AutomaticTeamsWebhookProcessor implements WebhookProcessor
         return true;
       }
 
-      // Prevent granting large teams access
-      if (preventLargeTeamPermissions) {
-        const teamSize = await getTeamSize(organization, teamId);
-        // Special thanks to the GitHub API team. The added_to_repository event did not
-        // include the 'permissions' information. Fixed and deployed by GitHub on
-        // 6/13/17. Thank you for helping us simplify our code!
-        if (['added_to_repository', 'edited'].includes(eventAction) && newPermissions) {
-          const specificReason = teamTooLargeForPurpose(teamId, newPermissions.admin, newPermissions.push, organization, teamSize, preventLargeTeamPermissions);
-          if (specificReason) {
-            // CONSIDER: system/ops accounts may actually be useful to consider allowing via operations.isSystemAccountByUsername
-            await revertLargePermissionChange(operations, organization, repositoryBody, teamId, teamName, whoChangedIt, whoChangedItId, specificReason);
-          }
+      // Enforce the organization's team permission policies
+      const policies = GetOrganizationPermissionPolicies(organization);
+      // Special thanks to the GitHub API team. The added_to_repository event did not
+      // include the 'permissions' information. Fixed and deployed by GitHub on
+      // 6/13/17. Thank you for helping us simplify our code!
+      if (policies.length && ['added_to_repository', 'edited'].includes(eventAction) && newPermissions) {
+        const violations = await EvaluateTeamPermissionPolicies(policies, {
+          teamId,
+          teamName,
+          permissions: newPermissions,
+          broadAccessTeams: organization.broadAccessTeams,
+          getTeamSize: () => getTeamSize(organization, teamId),
+        });
+        if (violations.length) {
+          // CONSIDER: system/ops accounts may actually be useful to consider allowing via operations.isSystemAccountByUsername
+          await enforcePermissionPolicies(operations, organization, repositoryBody, teamId, teamName, whoChangedIt, whoChangedItId, violations);
         }
-        return true;
       }
+      return true;
     }
 
     return true;
   }
 }
 
-function teamTooLargeForPurpose(teamId, isAdmin, isPush, organization, teamSize, preventLargeTeamPermissions) {
-  const broadAccessTeams = organization.broadAccessTeams;
-  let isBroadAccessTeam = broadAccessTeams && broadAccessTeams.includes(teamId);
-  if (isBroadAccessTeam && (isAdmin || isPush)) {
-    return 'The team is a very broad access team and does not allow push (write) or admin access to prevent widespread escalation of privileges and spamming thousands of people';
-  }
-  let teamSizeLimitAdmin = defaultLargeAdminTeamSize;
-  let teamSizeLimitType = 'default limit';
-  if (preventLargeTeamPermissions && preventLargeTeamPermissions.maximumAdministrators) {
-    teamSizeLimitAdmin = preventLargeTeamPermissions.maximumAdministrators;
-    teamSizeLimitType = `administrator team limit in the ${organization.name} organization`;
-  }
-  if (isAdmin && teamSize >= teamSizeLimitAdmin) {
-    return `The team has ${teamSize} members which surpasses the ${teamSizeLimitAdmin} ${teamSizeLimitType}`;
-  }
-
-  return false;
-}
-
 function translateSpecialToGitHub(ourTerm) {
   switch (ourTerm) {
   case 'admin':
@@ -168,9 +152,35 @@ async function getTeamSize(organization: Organization, teamId): Promise<number>
   return team.members_count || 0;
 }
 
+async function enforcePermissionPolicies(operations: Operations, organization: Organization, repositoryBody, teamId, teamName: string, whoChangedIt, whoChangedItId: string, violations: IPermissionPolicyViolation[]) {
+  const action = GetMostSevereAction(violations);
+  const specificReason = violations.map(violation => violation.reason).join('; ');
+  if (action === PermissionPolicyAction.Revert) {
+    return await revertLargePermissionChange(operations, organization, repositoryBody, teamId, teamName, whoChangedIt, whoChangedItId, specificReason);
+  }
+  const policyReason = `the permission was upgraded by ${whoChangedIt} in violation of a team permission policy: ${specificReason}`;
+  console.log(policyReason);
+  operations.insights.trackEvent({
+    name: 'JobAutomaticTeamsPermissionPolicyViolation',
+    properties: {
+      action,
+      specificReason,
+      teamId,
+      organization: organization.name,
+      repository: repositoryBody.name,
+      whoChangedIt,
+      whoChangedItId,
+    },
+  });
+  const owner = repositoryBody.owner.login.toLowerCase();
+  if (action === PermissionPolicyAction.WarnByMail && owner === organization.name.toLowerCase()) {
+    await largeTeamPermissionPreventionWarningMail(operations, organization, repositoryBody, teamId, teamName, policyReason, whoChangedIt, whoChangedItId, 'Team permission change violates policy');
+  }
+}
+
 async function revertLargePermissionChange(operations: Operations, organization: Organization, repositoryBody, teamId, teamName: string, whoChangedIt, whoChangedItId: string, specificReason?: string) {
   specificReason = specificReason ? ': ' + specificReason : '';
-  const blockReason = `the permission was upgraded by ${whoChangedIt} but a large team permission prevention feature has reverted the change${specificReason}`;
+  const blockReason = `the permission was upgraded by ${whoChangedIt} but a team permission policy has reverted the change${specificReason}`;
   console.log(blockReason);
   const insights = operations.insights;
   insights.trackMetric({ name: 'JobAutomaticTeamsLargeTeamPermissionBlock', value: 1 });
@@ -192,7 +202,7 @@ async function revertLargePermissionChange(operations: Operations, organization:
   }
 }
 
-async function largeTeamPermissionPreventionWarningMail(operations: Operations, organization: Organization, repositoryBody, teamId, teamName, reason, whoChangedIt, whoChangedItId): Promise<void> {
+async function largeTeamPermissionPreventionWarningMail(operations: Operations, organization: Organization, repositoryBody, teamId, teamName, reason, whoChangedIt, whoChangedItId, headline?: string): Promise<void> {
   // System accounts should not need notifications
   const mailProvider = operations.providers.mailProvider;
   const insights = operations.providers.insights;
@@ -210,18 +220,19 @@ async function largeTeamPermissionPreventionWarningMail(operations: Operations,
     whoChangedIt: whoChangedIt,
     teamName: teamName,
     reason: reason,
+    headline: headline,
   });
 }
 
 async function sendEmail(insights, basedir, mailProvider: IMailProvider, to, body) {
   body.reason = `You are receiving this e-mail because you changed the permissions on the ${body.teamName} GitHub team, triggering this action.`;
-  body.headline = 'Team permission change reverted';
+  body.headline = body.headline || 'Team permission change reverted';
   body.notification = 'warning';
   body.app = 'Microsoft GitHub';
   const mail: IAutomaticTeamsMail = {
     to: to,
     cc: 'jwilcox@microsoft.com',
-    subject: `Team permission change for ${body.repository.full_name} repository reverted`,
+    subject: `${body.headline} for the ${body.repository.full_name} repository`,
     category: ['error', 'repos'],
   };
   let mailContent = null;
@@ -9,10 +9,12 @@
 
 import { WebhookProcessor } from "../organizationProcessor";
 import { Operations } from "../../business/operations";
-import { Organization } from "../../business/organization";
+import { Organization, OrganizationMembershipState } from "../../business/organization";
 import { IProviders } from "../../transitional";
-import { GitHubCollaboratorType } from "../../business/repository";
+import { GitHubCollaboratorAffiliationQuery, GitHubCollaboratorType, Repository } from "../../business/repository";
 import { GitHubRepositoryPermission } from "../../entities/repositoryMetadata/repositoryMetadata";
+import { EvaluateCollaboratorPermissionPolicies, GetMostSevereAction, GetOrganizationPermissionPolicies, PermissionPolicyAction } from "../../features/permissionPolicies";
+import { RenderHtmlMail } from "../../lib/emailRender";
 
 export default class MemberWebhookProcessor implements WebhookProcessor {
   filter(data: any) {
@@ -29,6 +31,10 @@ export default class MemberWebhookProcessor implements WebhookProcessor {
     const userIdAsString = event.member.id.toString();
     const userLogin = event.member.login;
     let needToCreateOrUpdate = false;
+    const immediateRefreshOptions = {
+      backgroundRefresh: false,
+      maxAgeSeconds: 0.01,
+    };
     if (event.action && event.action === 'removed' && event.member.login && event.member.id) {
       console.log(`${event.organization.login} collaborator member: ${event.action} ${event.member.login} ${event.member.id} repo ${data.body.repository.id} ${data.body.repository.name}`);
       try {
@@ -43,26 +49,33 @@ export default class MemberWebhookProcessor implements WebhookProcessor {
       needToCreateOrUpdate = true;
       console.log();
     } else if (event.action && event.action === 'edited' && event.member.login && event.member.id) {
+      // The payload only describes the previous permission (changes.permission.from),
+      // so the effective permission is looked up from GitHub below
+      const previousPermission = event.changes && event.changes.permission ? event.changes.permission.from : null;
+      console.log(`${event.organization.login} collaborator member: ${event.action} ${event.member.login} ${event.member.id} repo ${data.body.repository.id} ${data.body.repository.name} previous permission=${previousPermission}`);
       needToCreateOrUpdate = true;
-      // TODO: then have to lookup the level of permission!
-      // changes.permission.from = write'
     } else {
       console.dir(data);
     }
 
     if (needToCreateOrUpdate) {
-      // look up new permission level
-      // create or update
+      // look up new permission level, bypassing any cached value from before the change
       const repositoryName = event.repository.name;
       const repository = organization.repository(repositoryName, event.repository);
-      const collaborator = await repository.getCollaborator(event.member.login);
+      const collaborator = await repository.getCollaborator(event.member.login, immediateRefreshOptions);
       const permission = collaborator.asGitHubRepositoryPermission();
       // TODO: may need to support the new 5 levels vs 3...
       if (permission) {
-        const isOrganizationMember = await organization.getMembership(userLogin);
+        const membership = await organization.getMembership(userLogin);
+        const isOrganizationMember = membership && membership.state === OrganizationMembershipState.Active;
         const collaboratorType = isOrganizationMember ? GitHubCollaboratorType.Direct : GitHubCollaboratorType.Outside;
-        queryCache.addOrUpdateCollaborator(organizationIdAsString, repositoryIdAsString, repositoryName, userIdAsString, userLogin, event.member.avatar_url, permission, collaboratorType);
+        if (queryCache && queryCache.supportsRepositoryCollaborators) {
+          await queryCache.addOrUpdateCollaborator(organizationIdAsString, repositoryIdAsString, repositoryName, userIdAsString, userLogin, event.member.avatar_url, permission, collaboratorType);
+        }
         console.log(`collaborator ${collaboratorType} ${event.member.login} for repository ${repositoryName} set to permission=${permission}`);
+        if (collaboratorType === GitHubCollaboratorType.Outside) {
+          await enforceCollaboratorPermissionPolicies(operations, organization, repository, event, permission);
+        }
       } else {
         console.log(`no permission level returned for ${event.member.login} for repository ${repositoryName} which was collaborator permission ${collaborator.permission}`);
       }
@@ -72,3 +85,73 @@ export default class MemberWebhookProcessor implements WebhookProcessor {
     return true;
   }
 }
+
+async function enforceCollaboratorPermissionPolicies(operations: Operations, organization: Organization, repository: Repository, event: any, permission: GitHubRepositoryPermission) {
+  const policies = GetOrganizationPermissionPolicies(organization);
+  if (!policies.length) {
+    return;
+  }
+  const violations = await EvaluateCollaboratorPermissionPolicies(policies, {
+    permissions: {
+      admin: permission === GitHubRepositoryPermission.Admin,
+      push: permission === GitHubRepositoryPermission.Admin || permission === GitHubRepositoryPermission.Push,
+      pull: true,
+    },
+    getOutsideAdministratorCount: async () => {
+      const outsideCollaborators = await repository.getCollaborators({
+        affiliation: GitHubCollaboratorAffiliationQuery.Outside,
+        backgroundRefresh: false,
+        maxAgeSeconds: 0.01,
+      });
+      return outsideCollaborators.filter(collaborator => collaborator.permissions && collaborator.permissions.admin).length;
+    },
+  });
+  if (!violations.length) {
+    return;
+  }
+  const action = GetMostSevereAction(violations);
+  const specificReason = violations.map(violation => violation.reason).join('; ');
+  console.log(`outside collaborator ${event.member.login} was given ${permission} on ${repository.name} by ${event.sender.login} in violation of a permission policy (${action}): ${specificReason}`);
+  operations.insights.trackEvent({
+    name: 'JobCollaboratorPermissionPolicyViolation',
+    properties: {
+      action,
+      specificReason,
+      organization: organization.name,
+      repository: repository.name,
+      collaborator: event.member.login,
+      whoChangedIt: event.sender.login,
+    },
+  });
+  if (action === PermissionPolicyAction.Revert) {
+    await repository.addCollaborator(event.member.login, GitHubRepositoryPermission.Push);
+    console.log(`downgraded outside collaborator ${event.member.login} on ${repository.name} to ${GitHubRepositoryPermission.Push}`);
+  } else if (action === PermissionPolicyAction.WarnByMail) {
+    await sendCollaboratorPolicyWarningMail(operations, organization, repository, event, specificReason);
+  }
+}
+
+async function sendCollaboratorPolicyWarningMail(operations: Operations, organization: Organization, repository: Repository, event: any, specificReason: string) {
+  const mailProvider = operations.providers.mailProvider;
+  const whoChangedIt = event.sender.login;
+  if (!mailProvider || operations.isSystemAccountByUsername(whoChangedIt)) {
+    return;
+  }
+  const mailAddress = await organization.member(event.sender.id).getMailAddress();
+  if (!mailAddress) {
+    return;
+  }
+  const headline = 'Collaborator permission violates policy';
+  const content = await RenderHtmlMail(operations.config.typescript.appDirectory, 'largeTeamProtected', {
+    repository: event.repository,
+    reason: `You are receiving this e-mail because you changed the permissions of the outside collaborator ${event.member.login}: ${specificReason}`,
+    headline,
+    notification: 'warning',
+    app: 'Microsoft GitHub',
+  });
+  await mailProvider.sendMail({
+    to: mailAddress,
+    subject: `${headline} for the ${repository.full_name} repository`,
+    content,
+  });
+}
@@ -11,6 +11,7 @@ import { WebhookProcessor } from "../organizationProcessor";
 import { Operations } from "../../business/operations";
 import { Organization } from "../../business/organization";
 import NewRepositoryLockdownSystem from "../../features/newRepositoryLockdown";
+import { asNumber } from "../../utils";
 
 export default class RepositoryWebhookProcessor implements WebhookProcessor {
   filter(data: any) {
@@ -53,6 +54,9 @@ export default class RepositoryWebhookProcessor implements WebhookProcessor {
       addOrUpdateRepositoryQueryCache = true;
     } else if (event.action === 'renamed') {
       addOrUpdateRepositoryQueryCache = true;
+      await updateRepositoryMetadataName(operations, event);
+    } else if (event.action === 'transferred') {
+      addOrUpdateRepositoryQueryCache = await moveTransferredRepository(operations, organization, event);
     } else if (event.action === 'archived') {
       addOrUpdateRepositoryQueryCache = true;
     } else if (event.action === 'unarchived') {
@@ -64,7 +68,7 @@ export default class RepositoryWebhookProcessor implements WebhookProcessor {
       const repositoryIdAsString = event.repository.id.toString();
       const organizationIdAsString = event.organization.id.toString();
       try {
-        if (organizationIdAsString === organization.id.toString() && queryCache && queryCache.supportsOrganizationMembership) {
+        if (organizationIdAsString === organization.id.toString() && queryCache && queryCache.supportsRepositories) {
           // FYI: forked repositories do not cause upstream org hooks to fire, but
           // by protecting against the org ID being the same as the webhook, we make
           // sure to not cause confusion in the query cache
@@ -106,3 +110,62 @@ export default class RepositoryWebhookProcessor implements WebhookProcessor {
     return true;
   }
 }
+
+async function updateRepositoryMetadataName(operations: Operations, event: any) {
+  const repositoryMetadataProvider = operations.providers.repositoryMetadataProvider;
+  if (!repositoryMetadataProvider) {
+    return;
+  }
+  const repositoryIdAsString = event.repository.id.toString();
+  try {
+    const metadata = await repositoryMetadataProvider.getRepositoryMetadata(repositoryIdAsString);
+    if (metadata.repositoryName !== event.repository.name) {
+      console.log(`repository id=${repositoryIdAsString} renamed from ${metadata.repositoryName} to ${event.repository.name}, updating its metadata`);
+      metadata.repositoryName = event.repository.name;
+      await repositoryMetadataProvider.updateRepositoryMetadata(metadata);
+    }
+  } catch (metadataError) {
+    if (metadataError.status !== 404) {
+      console.dir(metadataError);
+    }
+  }
+}
+
+async function moveTransferredRepository(operations: Operations, organization: Organization, event: any): Promise<boolean> {
+  // The event carries the new owner in the repository payload and the previous
+  // owner in changes.owner.from; only managed organizations have cache entries.
+  const queryCache = operations.providers.queryCache;
+  const repositoryIdAsString = event.repository.id.toString();
+  const newOwnerId = event.repository.owner && event.repository.owner.id ? event.repository.owner.id.toString() : null;
+  const previousOwner = event.changes && event.changes.owner && event.changes.owner.from ? (event.changes.owner.from.organization || event.changes.owner.from.user) : null;
+  const previousOwnerId = previousOwner && previousOwner.id ? previousOwner.id.toString() : null;
+  console.log(`repo transferred: ${event.repository.full_name} from ${previousOwner ? previousOwner.login : 'unknown'} by ${event.sender.login}`);
+  if (!queryCache || !queryCache.supportsRepositories) {
+    return false;
+  }
+  const organizationIdAsString = organization.id.toString();
+  const staleOrganizationIds = new Set<string>();
+  if (previousOwnerId && previousOwnerId !== newOwnerId && isManagedOrganizationId(operations, previousOwnerId)) {
+    staleOrganizationIds.add(previousOwnerId);
+  }
+  if (newOwnerId && newOwnerId !== organizationIdAsString) {
+    // Transferred out of the organization that received the webhook
+    staleOrganizationIds.add(organizationIdAsString);
+  }
+  for (const staleOrganizationId of staleOrganizationIds) {
+    try {
+      await queryCache.removeRepository(staleOrganizationId, repositoryIdAsString);
+    } catch (queryCacheError) {
+      console.dir(queryCacheError);
+    }
+  }
+  return newOwnerId === organizationIdAsString;
+}
+
+function isManagedOrganizationId(operations: Operations, organizationId: string): boolean {
+  try {
+    return !!operations.getOrganizationById(asNumber(organizationId));
+  } catch (notManaged) {
+    return false;
+  }
+}